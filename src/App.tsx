@@ -46,15 +46,27 @@ import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import Rooms from "./pages/Rooms";
 import Reservation from "./pages/Reservation";
+import Checkout from "./pages/Checkout";
 import Confirmation from "./pages/Confirmation";
 import MyReservations from "./pages/MyReservations";
 import Profile from "./pages/Profile";
+import Notifications from "./pages/Notifications";
 
 // Páginas protegidas para administradores
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import AdminRooms from "./pages/admin/AdminRooms";
 import AdminReservations from "./pages/admin/AdminReservations";
 import AdminUsers from "./pages/admin/AdminUsers";
+import AdminRatePlans from "./pages/admin/AdminRatePlans";
+import AdminTaxes from "./pages/admin/AdminTaxes";
+import AdminCalendar from "./pages/admin/AdminCalendar";
+import AdminFrontDesk from "./pages/admin/AdminFrontDesk";
+import AdminHousekeeping from "./pages/admin/AdminHousekeeping";
+import AdminMaintenance from "./pages/admin/AdminMaintenance";
+import AdminRoomTypes from "./pages/admin/AdminRoomTypes";
+import AdminAmenities from "./pages/admin/AdminAmenities";
+import AdminCancellationPolicies from "./pages/admin/AdminCancellationPolicies";
+import AdminInvoices from "./pages/admin/AdminInvoices";
 import Roomscrearadmin from "./pages/admin/roomscrearadmin";
 import Admincrearreserva from "./pages/admin/admincrearreserva";
 
@@ -110,17 +122,29 @@ const App = () => (
           <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
           <Route path="/rooms" element={<ProtectedRoute><Rooms /></ProtectedRoute>} />
           <Route path="/reservation" element={<ProtectedRoute><Reservation /></ProtectedRoute>} />
-          <Route path="/confirmation" element={<ProtectedRoute><Confirmation /></ProtectedRoute>} />
+          <Route path="/checkout/:reservationId" element={<ProtectedRoute><Checkout /></ProtectedRoute>} />
+          <Route path="/confirmation/:reservationId" element={<ProtectedRoute><Confirmation /></ProtectedRoute>} />
           <Route path="/my-reservations" element={<ProtectedRoute><MyReservations /></ProtectedRoute>} />
           <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+          <Route path="/notifications" element={<ProtectedRoute><Notifications /></ProtectedRoute>} />
           
           {/* ============================================ */}
           {/* RUTAS ADMIN - Requieren rol de administrador */}
           {/* ============================================ */}
           <Route path="/admin" element={<ProtectedRoute requireAdmin><AdminDashboard /></ProtectedRoute>} />
           <Route path="/admin/rooms" element={<ProtectedRoute requireAdmin><AdminRooms /></ProtectedRoute>} />
+          <Route path="/admin/room-types" element={<ProtectedRoute requireAdmin><AdminRoomTypes /></ProtectedRoute>} />
+          <Route path="/admin/amenities" element={<ProtectedRoute requireAdmin><AdminAmenities /></ProtectedRoute>} />
           <Route path="/admin/reservations" element={<ProtectedRoute requireAdmin><AdminReservations /></ProtectedRoute>} />
+          <Route path="/admin/calendar" element={<ProtectedRoute requireAdmin><AdminCalendar /></ProtectedRoute>} />
+          <Route path="/admin/front-desk" element={<ProtectedRoute requireAdmin><AdminFrontDesk /></ProtectedRoute>} />
+          <Route path="/admin/housekeeping" element={<ProtectedRoute requireAdmin><AdminHousekeeping /></ProtectedRoute>} />
+          <Route path="/admin/maintenance" element={<ProtectedRoute requireAdmin><AdminMaintenance /></ProtectedRoute>} />
+          <Route path="/admin/cancellation-policies" element={<ProtectedRoute requireAdmin><AdminCancellationPolicies /></ProtectedRoute>} />
+          <Route path="/admin/invoices" element={<ProtectedRoute requireAdmin><AdminInvoices /></ProtectedRoute>} />
           <Route path="/admin/users" element={<ProtectedRoute requireAdmin><AdminUsers /></ProtectedRoute>} />
+          <Route path="/admin/rate-plans" element={<ProtectedRoute requireAdmin><AdminRatePlans /></ProtectedRoute>} />
+          <Route path="/admin/taxes" element={<ProtectedRoute requireAdmin><AdminTaxes /></ProtectedRoute>} />
           <Route path="/admin/admincrearreserva" element={<ProtectedRoute requireAdmin><Admincrearreserva /></ProtectedRoute>} />
           <Route path="/admin/roomscrearadmin" element={<ProtectedRoute requireAdmin><Roomscrearadmin /></ProtectedRoute>} />
 
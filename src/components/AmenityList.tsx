@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Lista de comodidades de una habitación con sus iconos
+ * @module AmenityList
+ */
+
+import { Amenity, getAmenityIcon } from "@/lib/amenities";
+import { cn } from "@/lib/utils";
+
+// ============================================
+// COMPONENT - Lista
+// ============================================
+
+export function AmenityList({ amenities, className }: { amenities: Amenity[]; className?: string }) {
+  if (amenities.length === 0) return null;
+
+  return (
+    <ul className={cn("space-y-1", className)}>
+      {amenities.map((amenity) => {
+        const Icon = getAmenityIcon(amenity.icon);
+
+        return (
+          <li key={amenity.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Icon className="h-4 w-4 text-accent" />
+            {amenity.name}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Selector múltiple de comodidades
+ * @module AmenityPicker
+ *
+ * @description
+ * Muestra el catálogo agrupado por categoría, cada comodidad con su icono y
+ * una casilla. Lo usan el editor de habitaciones y el filtro de la página de
+ * habitaciones.
+ */
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Amenity,
+  AMENITY_CATEGORY_LABELS,
+  getAmenityIcon,
+  groupAmenitiesByCategory,
+} from "@/lib/amenities";
+
+interface AmenityPickerProps {
+  amenities: Amenity[];
+  /** Ids de las comodidades marcadas */
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  /** Prefijo de los ids de las casillas, por si hay dos selectores en pantalla */
+  idPrefix?: string;
+}
+
+// ============================================
+// COMPONENT - Selector
+// ============================================
+
+export function AmenityPicker({ amenities, selected, onChange, idPrefix = "amenity" }: AmenityPickerProps) {
+  if (amenities.length === 0) {
+    return <p className="text-sm text-muted-foreground">No hay comodidades en el catálogo</p>;
+  }
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selected, id] : selected.filter((selectedId) => selectedId !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {groupAmenitiesByCategory(amenities).map(([category, items]) => (
+        <div key={category} className="space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {AMENITY_CATEGORY_LABELS[category] ?? category}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {items.map((amenity) => {
+              const Icon = getAmenityIcon(amenity.icon);
+              const id = `${idPrefix}_${amenity.id}`;
+
+              return (
+                <div key={amenity.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={id}
+                    checked={selected.includes(amenity.id)}
+                    onCheckedChange={(checked) => toggle(amenity.id, checked === true)}
+                  />
+                  <Label htmlFor={id} className="flex items-center gap-2 font-normal">
+                    <Icon className="h-4 w-4 text-accent" />
+                    {amenity.name}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
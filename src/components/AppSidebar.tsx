@@ -12,16 +12,19 @@
  * - Los items de navegación están definidos como constantes para fácil mantenimiento
  * - El avatar muestra iniciales como fallback si no hay imagen
  * - La función isActive maneja rutas exactas vs prefijos para resaltar correctamente
+ * - La campanita de notificaciones va en el header, visible también con el sidebar collapsed
  */
 
 import { useState, useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { Home, Bed, Calendar, User, Users, LogOut, LayoutDashboard } from "lucide-react";
+import { Home, Bed, Calendar, CalendarRange, ConciergeBell, CalendarX, FileText, User, Users, LogOut, LayoutDashboard, Tags, Percent, SprayCan, Wrench, Layers, Sparkles } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useBookingCart } from "@/hooks/useBookingCart";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "@/components/NotificationBell";
 import {
   Sidebar,
   SidebarContent,
@@ -29,6 +32,7 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
@@ -57,11 +61,12 @@ interface Profile {
 /**
  * Items de navegación para usuarios con rol 'cliente'
  * Orden: Perfil, Dashboard, Habitaciones, Mis Reservas
+ * cartBadge: el item muestra cuántas habitaciones hay en el carrito de reserva
  */
 const clientItems = [
   { title: "Mi Perfil", url: "/profile", icon: User },
   { title: "Dashboard", url: "/dashboard", icon: Home },
-  { title: "Habitaciones", url: "/rooms", icon: Bed },
+  { title: "Habitaciones", url: "/rooms", icon: Bed, cartBadge: true },
   { title: "Mis Reservas", url: "/my-reservations", icon: Calendar },
   
 ];
@@ -74,7 +79,17 @@ const adminItems = [
   { title: "Mi Perfil", url: "/profile", icon: User },
   { title: "Dashboard", url: "/admin", icon: LayoutDashboard },
   { title: "Habitaciones", url: "/admin/rooms", icon: Bed },
-  { title: "Reservas", url: "/admin/reservations", icon: Calendar },
+  { title: "Tipos de habitación", url: "/admin/room-types", icon: Layers },
+  { title: "Comodidades", url: "/admin/amenities", icon: Sparkles },
+  { title: "Tarifas", url: "/admin/rate-plans", icon: Tags },
+  { title: "Impuestos", url: "/admin/taxes", icon: Percent },
+  { title: "Cancelación", url: "/admin/cancellation-policies", icon: CalendarX },
+  { title: "Reservas", url: "/admin/reservations", icon: Calendar, cartBadge: true },
+  { title: "Calendario", url: "/admin/calendar", icon: CalendarRange },
+  { title: "Recepción", url: "/admin/front-desk", icon: ConciergeBell },
+  { title: "Limpieza", url: "/admin/housekeeping", icon: SprayCan },
+  { title: "Mantenimiento", url: "/admin/maintenance", icon: Wrench },
+  { title: "Facturación", url: "/admin/invoices", icon: FileText },
   { title: "Usuarios", url: "/admin/users", icon: Users },
 
 ];
@@ -116,6 +131,9 @@ export function AppSidebar() {
   // Estado local para datos del perfil
   const [profile, setProfile] = useState<Profile | null>(null);
 
+  // Carrito de reserva: el contador se sincroniza en tiempo real
+  const cart = useBookingCart();
+
   // ============================================
   // EFFECTS - Carga de datos del perfil
   // ============================================
@@ -215,7 +233,7 @@ export function AppSidebar() {
       {/* HEADER - Información del usuario */}
       {/* ============================================ */}
       <SidebarHeader className="p-4 border-b border-border">
-        <div className="flex items-center gap-3">
+        <div className={collapsed ? "flex flex-col items-center gap-2" : "flex items-center gap-3"}>
           {/* Avatar con borde dorado (accent color) */}
           <Avatar className="h-10 w-10 border-2 border-accent">
             <AvatarImage src={profile?.avatar_url || undefined} />
@@ -235,6 +253,11 @@ export function AppSidebar() {
               </span>
             </div>
           )}
+
+          {/* Notificaciones sin leer */}
+          <div className={collapsed ? undefined : "ml-auto"}>
+            <NotificationBell />
+          </div>
         </div>
       </SidebarHeader>
 
@@ -267,6 +290,11 @@ export function AppSidebar() {
                       <span>{item.title}</span>
                     </a>
                   </SidebarMenuButton>
+                  {"cartBadge" in item && cart.roomIds.length > 0 && (
+                    <SidebarMenuBadge className="bg-accent text-accent-foreground">
+                      {cart.roomIds.length}
+                    </SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Folio detallado de una reserva
+ * @module Folio
+ *
+ * @description
+ * Muestra las líneas de cargo de una reserva agrupadas en alojamiento, cargos
+ * e impuestos, con subtotal y total. Se usa tanto para la cotización previa
+ * (price_reservation) como para las líneas guardadas (reservation_line_items),
+ * que tienen la misma forma.
+ *
+ * @design-decisions
+ * - El total se calcula sumando las líneas: es el mismo cálculo que hace
+ *   create_reservation para total_price, así que siempre cuadra
+ * - Los impuestos exentos se muestran en cero con la marca "Exento" para que
+ *   el huésped vea por qué no se le cobran
+ */
+
+import { Badge } from "@/components/ui/badge";
+import type { Tables } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Línea del folio (común a la cotización y a las líneas guardadas) */
+export type FolioLine = Pick<
+  Tables<"reservation_line_items">,
+  "sort_order" | "kind" | "description" | "quantity" | "unit_price" | "rate" | "exempt" | "amount"
+>;
+
+interface FolioProps {
+  lines: FolioLine[];
+  /** Etiqueta de la fila final */
+  totalLabel?: string;
+  /** Ocultar la fila de total cuando la página ya lo destaca aparte */
+  showTotal?: boolean;
+}
+
+// ============================================
+// HELPERS - Formato de importes
+// ============================================
+
+const formatMoney = (value: number) =>
+  `$${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/**
+ * Suma los importes de un conjunto de líneas
+ *
+ * @param {FolioLine[]} lines - Líneas del folio
+ * @returns {number} Total redondeado a centavos
+ */
+const sumFolio = (lines: FolioLine[]) =>
+  Math.round(lines.reduce((sum, line) => sum + Number(line.amount), 0) * 100) / 100;
+
+// ============================================
+// COMPONENT - Folio
+// ============================================
+
+export function Folio({ lines, totalLabel = "Total", showTotal = true }: FolioProps) {
+  const sorted = [...lines].sort((a, b) => a.sort_order - b.sort_order);
+  const charges = sorted.filter((line) => line.kind !== "tax");
+  const taxes = sorted.filter((line) => line.kind === "tax");
+
+  const describe = (line: FolioLine) => {
+    if (line.kind === "lodging") {
+      const nights = `${Number(line.quantity)} ${Number(line.quantity) === 1 ? "noche" : "noches"}`;
+      return line.unit_price !== null ? `${nights} × ${formatMoney(line.unit_price)}` : nights;
+    }
+    if (line.kind === "fee" && Number(line.quantity) !== 1 && line.unit_price !== null) {
+      return `${Number(line.quantity)} × ${formatMoney(line.unit_price)}`;
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {charges.map((line) => (
+        <div key={line.sort_order} className="flex items-start justify-between gap-4">
+          <div>
+            <div>{line.description}</div>
+            {describe(line) && (
+              <div className="text-xs text-muted-foreground">{describe(line)}</div>
+            )}
+          </div>
+          <span className="whitespace-nowrap">{formatMoney(line.amount)}</span>
+        </div>
+      ))}
+
+      {taxes.length > 0 && (
+        <>
+          <div className="flex items-center justify-between border-t pt-2 text-muted-foreground">
+            <span>Subtotal</span>
+            <span>{formatMoney(sumFolio(charges))}</span>
+          </div>
+          {taxes.map((line) => (
+            <div key={line.sort_order} className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2">
+                {line.description}
+                {line.rate !== null && (
+                  <span className="text-xs text-muted-foreground">({Number(line.rate)}%)</span>
+                )}
+                {line.exempt && (
+                  <Badge variant="outline" className="text-[10px] px-1 py-0">
+                    Exento
+                  </Badge>
+                )}
+              </span>
+              <span className="whitespace-nowrap">{formatMoney(line.amount)}</span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {showTotal && (
+        <div className="flex items-center justify-between border-t pt-2 font-semibold">
+          <span>{totalLabel}</span>
+          <span className="text-accent">{formatMoney(sumFolio(lines))}</span>
+        </div>
+      )}
+    </div>
+  );
+}
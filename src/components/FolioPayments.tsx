@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Pagos y saldo del folio de una reserva (personal)
+ * @module FolioPayments
+ *
+ * @description
+ * Muestra el total, lo cobrado y el saldo pendiente de una reserva, con la
+ * lista de pagos y sus reembolsos. El personal puede registrar pagos tomados
+ * en el mostrador (efectivo, datáfono o transferencia) y reembolsar pagos
+ * indicando el motivo.
+ *
+ * @design-decisions
+ * - El importe propuesto para un pago nuevo es el saldo pendiente; la base de
+ *   datos rechaza importes mayores
+ * - Los reembolsos de pagos en línea vuelven por la pasarela y los del
+ *   mostrador solo se registran (refundPayment decide cuál corresponde)
+ * - Tras cada operación se avisa al padre para que vuelva a cargar la reserva:
+ *   el estado de pago lo recalcula la base de datos
+ */
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getAmountPaid,
+  getBalanceDue,
+  getRefundableAmount,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  PaymentMethod,
+  PaymentWithRefunds,
+  recordManualPayment,
+  refundPayment,
+} from "@/lib/payments";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+interface FolioPaymentsProps {
+  reservationId: string;
+  total: number;
+  status: string;
+  payments: PaymentWithRefunds[];
+  /** Se llama después de registrar un pago o un reembolso */
+  onChange: () => void;
+}
+
+// ============================================
+// CONSTANTS - Estados que admiten pagos
+// ============================================
+
+/** Mismos estados que acepta record_manual_payment */
+const PAYABLE_STATUSES = ["pending", "confirmed", "checked_in", "checked_out"];
+
+// ============================================
+// HELPERS - Formato de importes
+// ============================================
+
+const formatAmount = (value: number) => `$${Number(value).toLocaleString()}`;
+
+// ============================================
+// COMPONENT - Pagos del folio
+// ============================================
+
+export function FolioPayments({ reservationId, total, status, payments, onChange }: FolioPaymentsProps) {
+  const paid = getAmountPaid(payments);
+  const balance = getBalanceDue(total, payments);
+
+  const [paymentAmount, setPaymentAmount] = useState(String(Math.max(balance, 0)));
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [paymentNotes, setPaymentNotes] = useState("");
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // ============================================
+  // HANDLERS - Pagos y reembolsos
+  // ============================================
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(paymentAmount);
+    if (!(amount > 0)) {
+      toast.error("Indique un importe mayor que cero");
+      return;
+    }
+
+    setSaving(true);
+    const error = await recordManualPayment(reservationId, amount, paymentMethod, paymentNotes);
+    setSaving(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success(`Pago de ${formatAmount(amount)} registrado`);
+    setPaymentAmount(String(Math.max(balance - amount, 0)));
+    setPaymentNotes("");
+    onChange();
+  };
+
+  const startRefund = (payment: PaymentWithRefunds) => {
+    setRefundingId(payment.id);
+    setRefundAmount(String(getRefundableAmount(payment)));
+    setRefundReason("");
+  };
+
+  const handleRefund = async (e: React.FormEvent, payment: PaymentWithRefunds) => {
+    e.preventDefault();
+    const amount = Number(refundAmount);
+    if (!(amount > 0)) {
+      toast.error("Indique un importe mayor que cero");
+      return;
+    }
+    if (!refundReason.trim()) {
+      toast.error("Indique el motivo del reembolso");
+      return;
+    }
+
+    setSaving(true);
+    const error = await refundPayment(payment, amount, refundReason.trim());
+    setSaving(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success(`Reembolso de ${formatAmount(amount)} registrado`);
+    setRefundingId(null);
+    onChange();
+  };
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* Resumen */}
+      <div className="bg-muted/30 rounded-lg p-3 space-y-1">
+        <div className="flex justify-between">
+          <span>Total</span>
+          <span>{formatAmount(total)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Pagado</span>
+          <span>{formatAmount(paid)}</span>
+        </div>
+        <div className="flex justify-between font-semibold">
+          <span>{balance < 0 ? "A favor del huésped" : "Saldo pendiente"}</span>
+          <span className={balance > 0 ? "text-destructive" : "text-accent"}>
+            {formatAmount(Math.abs(balance))}
+          </span>
+        </div>
+      </div>
+
+      {/* Pagos y reembolsos */}
+      {payments.length > 0 && (
+        <div className="space-y-2">
+          <p className="font-medium">Pagos</p>
+          {[...payments]
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map((payment) => (
+              <div key={payment.id} className="border rounded-lg p-2 space-y-1">
+                <div className="flex justify-between gap-2">
+                  <span>
+                    {format(new Date(payment.created_at), "dd/MM/yyyy HH:mm")}
+                    {" · "}
+                    {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] ?? payment.method}
+                    {payment.card_last4 && ` ${payment.card_brand} ····${payment.card_last4}`}
+                    {payment.failure_reason && ` · ${payment.failure_reason}`}
+                  </span>
+                  <span className="whitespace-nowrap">
+                    {formatAmount(payment.amount)} · {PAYMENT_STATUS_LABELS[payment.status] ?? payment.status}
+                  </span>
+                </div>
+                {payment.notes && <p className="text-muted-foreground">{payment.notes}</p>}
+                {[...payment.payment_refunds]
+                  .sort((a, b) => a.created_at.localeCompare(b.created_at))
+                  .map((refund) => (
+                    <div key={refund.id} className="flex justify-between gap-2 text-muted-foreground">
+                      <span>
+                        Reembolso {format(new Date(refund.created_at), "dd/MM/yyyy HH:mm")} · {refund.reason}
+                      </span>
+                      <span className="whitespace-nowrap">-{formatAmount(refund.amount)}</span>
+                    </div>
+                  ))}
+
+                {refundingId === payment.id ? (
+                  <form onSubmit={(e) => handleRefund(e, payment)} className="space-y-2 pt-1">
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={getRefundableAmount(payment)}
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        aria-label="Importe del reembolso"
+                      />
+                      <Input
+                        className="col-span-2"
+                        placeholder="Motivo del reembolso"
+                        value={refundReason}
+                        onChange={(e) => setRefundReason(e.target.value)}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={saving}
+                        onClick={() => setRefundingId(null)}
+                      >
+                        Volver
+                      </Button>
+                      <Button type="submit" size="sm" variant="destructive" disabled={saving}>
+                        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Reembolsar
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  getRefundableAmount(payment) > 0 && (
+                    <div className="flex justify-end">
+                      <Button size="sm" variant="ghost" onClick={() => startRefund(payment)}>
+                        Reembolsar
+                      </Button>
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Registrar pago en el mostrador */}
+      {PAYABLE_STATUSES.includes(status) && balance > 0 && (
+        <form onSubmit={handleRecordPayment} className="border rounded-lg p-3 space-y-2">
+          <p className="font-medium">Registrar pago</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`payment_amount_${reservationId}`}>Importe</Label>
+              <Input
+                id={`payment_amount_${reservationId}`}
+                type="number"
+                min="0"
+                step="0.01"
+                max={balance}
+                value={paymentAmount}
+                onChange={(e) => setPaymentAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Forma de pago</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Input
+            placeholder="Notas (referencia de la transferencia, recibo...)"
+            value={paymentNotes}
+            onChange={(e) => setPaymentNotes(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" variant="gold" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Registrar pago
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Aviso con la cuenta regresiva de la retención de habitaciones
+ * @module HoldCountdown
+ *
+ * @description
+ * Muestra cuánto tiempo quedan retenidas las habitaciones mientras se completa
+ * la reserva. Al caducar (o si no se pudo retener) ofrece volver a intentarlo.
+ */
+
+import { Clock, AlertTriangle, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface HoldCountdownProps {
+  secondsLeft: number;
+  expired: boolean;
+  loading: boolean;
+  error: string | null;
+  onRenew: () => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+export function HoldCountdown({ secondsLeft, expired, loading, error, onRenew }: HoldCountdownProps) {
+  if (error || expired) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>{expired ? "La retención de sus habitaciones caducó" : "No se pudieron retener las habitaciones"}</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p>{error || "Otro huésped podría reservarlas. Vuelva a retenerlas para continuar."}</p>
+          <Button size="sm" variant="outline" onClick={onRenew} disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Volver a intentar
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (secondsLeft === 0) return null;
+
+  return (
+    <Alert>
+      <Clock className="h-4 w-4" />
+      <AlertTitle>
+        Habitaciones retenidas por <span className="font-mono">{formatTime(secondsLeft)}</span>
+      </AlertTitle>
+      <AlertDescription>
+        Complete la reserva antes de que termine el tiempo para asegurar su disponibilidad.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Insignia con el estado de limpieza de una habitación
+ * @module HousekeepingStatusBadge
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { HOUSEKEEPING_STATUS_LABELS } from "@/lib/housekeeping";
+
+// ============================================
+// CONSTANTS - Variante por estado
+// ============================================
+
+const VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  dirty: "destructive",
+  cleaning: "secondary",
+  clean: "outline",
+  inspected: "default",
+};
+
+// ============================================
+// COMPONENT - Insignia
+// ============================================
+
+export function HousekeepingStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={VARIANTS[status] ?? "outline"}>
+      {HOUSEKEEPING_STATUS_LABELS[status] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Factura o nota crédito descargable en PDF
+ * @module InvoiceDocument
+ *
+ * @description
+ * Renderiza un botón que abre el diálogo de impresión del navegador con la
+ * factura o nota crédito: emisor, número y fecha, cliente, líneas del folio,
+ * impuestos y total. Desde el diálogo se elige "Guardar como PDF", igual que
+ * con el comprobante de reserva.
+ *
+ * @design-decisions
+ * - Todos los datos salen de la factura guardada (emisor y cliente incluidos),
+ *   no de la reserva ni del perfil actual: el PDF no cambia con el tiempo
+ * - Colores fijos en blanco y negro, como en ReservationVoucher
+ */
+
+import { useRef } from "react";
+import { useReactToPrint } from "react-to-print";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { FileText } from "lucide-react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { Folio } from "@/components/Folio";
+import { getTaxIdTypeLabel, INVOICE_KIND_LABELS, InvoiceWithLines } from "@/lib/invoices";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+interface InvoicePdfButtonProps {
+  invoice: InvoiceWithLines;
+  /** Número de la factura que corrige una nota crédito */
+  correctedNumber?: string;
+  /** Texto del botón */
+  label?: string;
+  variant?: ButtonProps["variant"];
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+// ============================================
+// COMPONENT - Botón de descarga y documento
+// ============================================
+
+export function InvoicePdfButton({
+  invoice,
+  correctedNumber,
+  label = "PDF",
+  variant = "outline",
+  size = "sm",
+  className,
+}: InvoicePdfButtonProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const title = INVOICE_KIND_LABELS[invoice.kind] ?? "Factura";
+
+  const handlePrint = useReactToPrint({
+    contentRef,
+    documentTitle: invoice.invoice_number,
+    pageStyle: "@page { size: A4; margin: 16mm; }",
+  });
+
+  return (
+    <>
+      <Button variant={variant} size={size} className={className} onClick={() => handlePrint()}>
+        <FileText className="mr-2 h-4 w-4" />
+        {label}
+      </Button>
+
+      {/* Documento: solo visible en la impresión */}
+      <div className="hidden">
+        <div ref={contentRef} className="bg-white text-black p-8 text-sm font-sans">
+          {/* Emisor y número */}
+          <div className="flex items-start justify-between border-b border-black/20 pb-4 mb-6">
+            <div>
+              <div className="font-serif text-2xl font-bold">{invoice.issuer_name}</div>
+              <div>NIT {invoice.issuer_tax_id}</div>
+              {invoice.issuer_address && <div>{invoice.issuer_address}</div>}
+              {invoice.resolution && <div className="text-xs text-black/60">{invoice.resolution}</div>}
+            </div>
+            <div className="text-right">
+              <div className="text-xs text-black/60">{title}</div>
+              <div className="font-mono text-xl font-bold">{invoice.invoice_number}</div>
+              <div>{format(new Date(invoice.issued_at), "d 'de' MMMM 'de' yyyy, HH:mm", { locale: es })}</div>
+            </div>
+          </div>
+
+          {/* Cliente */}
+          <div className="mb-6">
+            <div className="font-semibold border-b border-black/20 pb-1 mb-2">Cliente</div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-black/60">Nombre:</span> {invoice.customer_name}
+              </div>
+              <div>
+                <span className="text-black/60">{getTaxIdTypeLabel(invoice.customer_tax_id_type)}:</span>{" "}
+                {invoice.customer_tax_id}
+              </div>
+              {invoice.customer_address && (
+                <div>
+                  <span className="text-black/60">Dirección:</span> {invoice.customer_address}
+                </div>
+              )}
+              {invoice.customer_email && (
+                <div>
+                  <span className="text-black/60">Email:</span> {invoice.customer_email}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Nota crédito: factura corregida y motivo */}
+          {invoice.kind === "credit_note" && (
+            <div className="mb-6">
+              <div className="font-semibold border-b border-black/20 pb-1 mb-2">Corrección</div>
+              {correctedNumber && (
+                <div>
+                  <span className="text-black/60">Factura corregida:</span> {correctedNumber}
+                </div>
+              )}
+              <div>
+                <span className="text-black/60">Motivo:</span> {invoice.reason}
+              </div>
+            </div>
+          )}
+
+          {/* Detalle */}
+          <div className="mb-6">
+            <div className="font-semibold border-b border-black/20 pb-1 mb-2">Detalle</div>
+            <Folio lines={invoice.invoice_lines} totalLabel={`Total ${invoice.currency}`} />
+          </div>
+
+          <div className="text-center text-xs text-black/60 border-t border-black/20 pt-4">
+            Reserva {invoice.reservation_id.slice(0, 8).toUpperCase()}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
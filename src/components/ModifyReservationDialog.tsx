@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Diálogo para modificar una reserva existente
+ * @module ModifyReservationDialog
+ *
+ * @description
+ * Permite al huésped cambiar las fechas, las habitaciones o el número de
+ * huéspedes de una reserva pendiente o confirmada sin cancelarla. Cada cambio
+ * se cotiza con quote_reservation_change, que vuelve a comprobar la
+ * disponibilidad y el precio, y aplica la política de cambios; al confirmar,
+ * modify_reservation guarda los cambios sobre la misma reserva.
+ *
+ * @design-decisions
+ * - Las habitaciones ofrecidas son las de la reserva más las libres para las
+ *   nuevas fechas; las propias no aparecen en get_available_rooms porque la
+ *   reserva las ocupa
+ * - La cotización se repite en cada cambio y se descartan respuestas
+ *   obsoletas, igual que en useStayQuote
+ * - Los errores de validación se muestran en el diálogo (la base de datos ya
+ *   los redacta en español) en lugar de en un toast
+ * - Si el nuevo total queda por debajo de lo ya pagado se informa el
+ *   reembolso (refund_due); lo hace el personal desde los pagos del folio
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { StayDatesPicker } from "@/components/StayDatesPicker";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useRoomAvailability } from "@/hooks/useRoomAvailability";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { isValidStay, parseISODate, StayDates, toISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type ChangeQuote = Database["public"]["Functions"]["quote_reservation_change"]["Returns"][number];
+
+/** Habitación tal como se muestra en la lista */
+interface RoomOption {
+  id: string;
+  name: string;
+  type: string;
+  capacity: number;
+}
+
+/** Datos de la reserva que se pueden modificar */
+export interface ModifiableReservation {
+  id: string;
+  room_ids: string[];
+  check_in: string;
+  check_out: string;
+  guests: number;
+  total_price: number;
+}
+
+interface ModifyReservationDialogProps {
+  /** Reserva a modificar; null cierra el diálogo */
+  reservation: ModifiableReservation | null;
+  /** Habitaciones actuales de la reserva */
+  currentRooms: RoomOption[];
+  onClose: () => void;
+  onModified: () => void;
+}
+
+// ============================================
+// HELPERS - Formato de importes
+// ============================================
+
+const formatAmount = (value: number) => `$${Number(value).toLocaleString()}`;
+
+// ============================================
+// COMPONENT - Diálogo de modificación
+// ============================================
+
+export function ModifyReservationDialog({
+  reservation,
+  currentRooms,
+  onClose,
+  onModified,
+}: ModifyReservationDialogProps) {
+  const [stayDates, setStayDates] = useState<StayDates>({});
+  const [roomIds, setRoomIds] = useState<string[]>([]);
+  const [guests, setGuests] = useState(1);
+  const [quote, setQuote] = useState<ChangeQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const { availableRooms, loading: loadingRooms } = useRoomAvailability(
+    stayDates.checkIn,
+    stayDates.checkOut
+  );
+
+  // Valores iniciales: los de la reserva
+  useEffect(() => {
+    if (!reservation) return;
+    setStayDates({
+      checkIn: parseISODate(reservation.check_in),
+      checkOut: parseISODate(reservation.check_out),
+    });
+    setRoomIds(reservation.room_ids);
+    setGuests(reservation.guests);
+  }, [reservation]);
+
+  const roomOptions = useMemo(() => {
+    const options = new Map<string, RoomOption>();
+    currentRooms.forEach((room) => options.set(room.id, room));
+    availableRooms.forEach((room) => options.set(room.id, room));
+    return [...options.values()];
+  }, [currentRooms, availableRooms]);
+
+  // ============================================
+  // QUOTE - Cotización del cambio
+  // ============================================
+
+  const rooms = roomIds.join(",");
+  const from = isValidStay(stayDates.checkIn, stayDates.checkOut) ? toISODate(stayDates.checkIn) : null;
+  const to = isValidStay(stayDates.checkIn, stayDates.checkOut) ? toISODate(stayDates.checkOut) : null;
+
+  useEffect(() => {
+    setQuote(null);
+    setQuoteError(null);
+    if (!reservation || !rooms || !from || !to) return;
+
+    let stale = false;
+    setQuoting(true);
+
+    supabase
+      .rpc("quote_reservation_change", {
+        _reservation_id: reservation.id,
+        _room_ids: rooms.split(","),
+        _check_in: from,
+        _check_out: to,
+        _guests: guests,
+      })
+      .then(({ data, error }) => {
+        if (stale) return;
+        if (error) {
+          setQuoteError(getBookingErrorMessage(error, "No se pudo calcular el nuevo precio"));
+        } else {
+          setQuote(data?.[0] ?? null);
+        }
+        setQuoting(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [reservation, rooms, from, to, guests]);
+
+  // ============================================
+  // HANDLERS - Manejadores de eventos
+  // ============================================
+
+  const toggleRoom = (roomId: string, checked: boolean) => {
+    setRoomIds(checked ? [...roomIds, roomId] : roomIds.filter((id) => id !== roomId));
+  };
+
+  const handleConfirm = async () => {
+    if (!reservation || !from || !to) return;
+
+    setSaving(true);
+    const { error } = await supabase.rpc("modify_reservation", {
+      _reservation_id: reservation.id,
+      _room_ids: roomIds,
+      _check_in: from,
+      _check_out: to,
+      _guests: guests,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error modifying reservation:", error);
+      toast.error(getBookingErrorMessage(error, "Error al modificar la reserva"));
+      return;
+    }
+
+    toast.success(
+      quote && Number(quote.refund_due) > 0
+        ? `Reserva modificada. Reembolso pendiente: ${formatAmount(quote.refund_due)}`
+        : "Reserva modificada correctamente"
+    );
+    onModified();
+  };
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modificar reserva #{reservation?.id.slice(0, 8)}</DialogTitle>
+          <DialogDescription>
+            Los cambios se aplican sobre la misma reserva. Pasado el plazo de cancelación
+            gratuita, modificar tiene el mismo costo que cancelar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <StayDatesPicker
+            checkIn={stayDates.checkIn}
+            checkOut={stayDates.checkOut}
+            onChange={setStayDates}
+            layout="inline"
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="modifyGuests">Huéspedes</Label>
+            <Input
+              id="modifyGuests"
+              type="number"
+              min="1"
+              value={guests}
+              onChange={(e) => setGuests(Math.max(parseInt(e.target.value) || 1, 1))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Habitaciones</Label>
+            {loadingRooms ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-accent" />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {roomOptions.map((room) => (
+                  <div key={room.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`modify_room_${room.id}`}
+                      checked={roomIds.includes(room.id)}
+                      onCheckedChange={(checked) => toggleRoom(room.id, checked === true)}
+                    />
+                    <Label htmlFor={`modify_room_${room.id}`} className="font-normal">
+                      {room.name} <span className="text-muted-foreground capitalize">· {room.type} · {room.capacity} personas</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Diferencia de precio */}
+          <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-sm">
+            {quoting ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-accent" />
+              </div>
+            ) : quoteError ? (
+              <p className="text-destructive">{quoteError}</p>
+            ) : !quote ? (
+              <p className="text-muted-foreground">Seleccione fechas y al menos una habitación</p>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span>Total actual</span>
+                  <span>{formatAmount(quote.current_total)}</span>
+                </div>
+                {Number(quote.change_fee) > 0 && (
+                  <div className="flex justify-between">
+                    <span>Cargo por modificación</span>
+                    <span className="text-destructive">{formatAmount(quote.change_fee)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Nuevo total</span>
+                  <span>{formatAmount(quote.new_total)}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>{Number(quote.difference) >= 0 ? "Diferencia a pagar" : "Diferencia a su favor"}</span>
+                  <span className="text-accent">{formatAmount(Math.abs(Number(quote.difference)))}</span>
+                </div>
+                {Number(quote.refund_due) > 0 && (
+                  <p className="text-xs text-muted-foreground pt-1">
+                    Le devolveremos {formatAmount(quote.refund_due)} de lo que pagó, en el medio de pago original.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Volver
+          </Button>
+          <Button variant="gold" onClick={handleConfirm} disabled={saving || quoting || !quote}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirmar cambios
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Campanita de notificaciones del sidebar
+ * @module NotificationBell
+ *
+ * @description
+ * Botón con el número de notificaciones sin leer que abre un menú con las
+ * más recientes. Al elegir una se marca como leída y se navega a su enlace;
+ * desde el menú también se marcan todas como leídas o se abre la página
+ * completa de notificaciones.
+ *
+ * @design-decisions
+ * - Es el único lugar que anuncia con un toast las notificaciones que llegan
+ *   en vivo, porque está montado en todas las páginas con sidebar
+ */
+
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Notification, useNotifications } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+
+// ============================================
+// CONSTANTS - Configuración
+// ============================================
+
+/** Notificaciones que se muestran en el menú */
+const MENU_LIMIT = 8;
+
+// ============================================
+// COMPONENT - Campanita
+// ============================================
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications({ announce: true });
+
+  const handleSelect = async (notification: Notification) => {
+    if (!notification.read_at) {
+      await markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notificaciones">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-accent text-accent-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notificaciones</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-accent hover:underline"
+              onClick={() => markAllAsRead()}
+            >
+              Marcar todas como leídas
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No tienes notificaciones</p>
+        ) : (
+          notifications.slice(0, MENU_LIMIT).map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-0.5 cursor-pointer"
+              onSelect={() => handleSelect(notification)}
+            >
+              <span className={cn("text-sm", !notification.read_at && "font-semibold")}>
+                {!notification.read_at && <span className="inline-block w-2 h-2 rounded-full bg-accent mr-2" />}
+                {notification.title}
+              </span>
+              {notification.body && <span className="text-xs text-muted-foreground">{notification.body}</span>}
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: es })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="justify-center cursor-pointer" onSelect={() => navigate("/notifications")}>
+          Ver todas
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Insignia con el estado de pago de una reserva
+ * @module PaymentStatusBadge
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { RESERVATION_PAYMENT_STATUS_LABELS } from "@/lib/payments";
+
+// ============================================
+// CONSTANTS - Variante por estado
+// ============================================
+
+const VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  unpaid: "outline",
+  partially_paid: "secondary",
+  paid: "default",
+  refunded: "destructive",
+};
+
+// ============================================
+// COMPONENT - Insignia
+// ============================================
+
+export function PaymentStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={VARIANTS[status] ?? "outline"}>
+      {RESERVATION_PAYMENT_STATUS_LABELS[status] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Desglose noche a noche de una cotización
+ * @module PriceBreakdown
+ *
+ * @description
+ * Muestra, para cada habitación, la tarifa aplicada a cada noche de la
+ * estadía y su subtotal. Las noches de fin de semana se marcan para que
+ * quede claro por qué cambia el precio.
+ */
+
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import type { QuoteNight } from "@/hooks/useStayQuote";
+import { parseISODate } from "@/lib/stay";
+
+interface PriceBreakdownProps {
+  nights: QuoteNight[];
+  rooms: { id: string; name: string }[];
+}
+
+export function PriceBreakdown({ nights, rooms }: PriceBreakdownProps) {
+  return (
+    <div className="space-y-4">
+      {rooms.map((room) => {
+        const roomNights = nights.filter((n) => n.room_id === room.id);
+        const subtotal = roomNights.reduce((sum, n) => sum + Number(n.price), 0);
+
+        return (
+          <div key={room.id} className="space-y-1">
+            <div className="flex items-center justify-between text-sm font-semibold">
+              <span>{room.name}</span>
+              <span>${subtotal.toLocaleString()}</span>
+            </div>
+            <ul className="space-y-1">
+              {roomNights.map((night) => (
+                <li
+                  key={night.night}
+                  className="flex items-center justify-between text-xs text-muted-foreground"
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="capitalize w-20">
+                      {format(parseISODate(night.night), "EEE d MMM", { locale: es })}
+                    </span>
+                    <span>{night.rate_plan_name}</span>
+                    {night.is_weekend && (
+                      <Badge variant="outline" className="text-[10px] px-1 py-0">
+                        Fin de semana
+                      </Badge>
+                    )}
+                  </span>
+                  <span>${Number(night.price).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
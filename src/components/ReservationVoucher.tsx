@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Comprobante de reserva descargable en PDF
+ * @module ReservationVoucher
+ *
+ * @description
+ * Renderiza un botón que abre el diálogo de impresión del navegador con el
+ * comprobante de la reserva: logo del hotel, número de confirmación,
+ * habitaciones, fechas, datos del huésped, folio y un código QR con el id de
+ * la reserva para agilizar el check-in. Desde el diálogo el huésped elige
+ * "Guardar como PDF".
+ *
+ * @design-decisions
+ * - react-to-print imprime solo el nodo del comprobante, que permanece oculto
+ *   en la página: el diseño impreso no depende del layout de la pantalla
+ * - El QR codifica el id completo de la reserva (no el número corto), que es
+ *   lo que recepción necesita para buscarla sin ambigüedad
+ * - Colores fijos (blanco y negro) en lugar de variables del tema para que el
+ *   PDF se vea igual en modo claro y oscuro
+ */
+
+import { useRef } from "react";
+import { useReactToPrint } from "react-to-print";
+import { QRCodeSVG } from "qrcode.react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Download } from "lucide-react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { Folio, FolioLine } from "@/components/Folio";
+import { GuestData, getDocumentTypeLabel } from "@/lib/guest";
+import { getNights } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/**
+ * Datos necesarios para generar el comprobante
+ * @interface VoucherReservation
+ */
+export interface VoucherReservation {
+  id: string;
+  checkIn: Date;
+  checkOut: Date;
+  guests: number;
+  total: number;
+  guestData: GuestData;
+  rooms: { name: string; type: string; capacity: number }[];
+  lines: FolioLine[];
+}
+
+interface ReservationVoucherProps {
+  reservation: VoucherReservation;
+  variant?: ButtonProps["variant"];
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+// ============================================
+// COMPONENT - Botón de descarga y comprobante
+// ============================================
+
+export function ReservationVoucher({
+  reservation,
+  variant = "outline",
+  size = "default",
+  className,
+}: ReservationVoucherProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const confirmationNumber = reservation.id.slice(0, 8).toUpperCase();
+  const nights = getNights(reservation.checkIn, reservation.checkOut);
+
+  const handlePrint = useReactToPrint({
+    contentRef,
+    documentTitle: `Reserva-${confirmationNumber}`,
+    pageStyle: "@page { size: A4; margin: 16mm; }",
+  });
+
+  return (
+    <>
+      <Button variant={variant} size={size} className={className} onClick={() => handlePrint()}>
+        <Download className="mr-2 h-4 w-4" />
+        Descargar comprobante
+      </Button>
+
+      {/* Comprobante: solo visible en la impresión */}
+      <div className="hidden">
+        <div ref={contentRef} className="bg-white text-black p-8 text-sm font-sans">
+          {/* Encabezado con logo y número de confirmación */}
+          <div className="flex items-center justify-between border-b border-black/20 pb-4 mb-6">
+            <div className="flex items-center gap-3">
+              <img src="/favicon.png" alt="Logo de Spring Hotel" className="h-14 w-14" />
+              <div>
+                <div className="font-serif text-2xl font-bold">Spring Hotel</div>
+                <div className="text-xs text-black/60">Comprobante de reserva</div>
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-xs text-black/60">Número de confirmación</div>
+              <div className="font-mono text-xl font-bold">{confirmationNumber}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-6 mb-6">
+            {/* Fechas y huéspedes */}
+            <div className="col-span-2 grid grid-cols-2 gap-4">
+              <div>
+                <div className="text-xs text-black/60">Check-in</div>
+                <div className="font-semibold capitalize">
+                  {format(reservation.checkIn, "EEEE, d 'de' MMMM 'de' yyyy", { locale: es })}
+                </div>
+                <div className="text-xs text-black/60">A partir de las 15:00</div>
+              </div>
+              <div>
+                <div className="text-xs text-black/60">Check-out</div>
+                <div className="font-semibold capitalize">
+                  {format(reservation.checkOut, "EEEE, d 'de' MMMM 'de' yyyy", { locale: es })}
+                </div>
+                <div className="text-xs text-black/60">Hasta las 12:00</div>
+              </div>
+              <div>
+                <div className="text-xs text-black/60">Estadía</div>
+                <div className="font-semibold">
+                  {nights} {nights === 1 ? "noche" : "noches"}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-black/60">Huéspedes</div>
+                <div className="font-semibold">
+                  {reservation.guests} {reservation.guests === 1 ? "persona" : "personas"}
+                </div>
+              </div>
+            </div>
+
+            {/* QR con el id de la reserva */}
+            <div className="flex flex-col items-center">
+              <QRCodeSVG value={reservation.id} size={112} />
+              <div className="text-[10px] text-black/60 mt-1">Presente este código en recepción</div>
+            </div>
+          </div>
+
+          {/* Huésped principal */}
+          <div className="mb-6">
+            <div className="font-semibold border-b border-black/20 pb-1 mb-2">Huésped principal</div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-black/60">Nombre:</span> {reservation.guestData.firstName}{" "}
+                {reservation.guestData.lastName}
+              </div>
+              <div>
+                <span className="text-black/60">
+                  {getDocumentTypeLabel(reservation.guestData.documentType)}:
+                </span>{" "}
+                {reservation.guestData.documentId}
+              </div>
+              <div>
+                <span className="text-black/60">Email:</span> {reservation.guestData.email}
+              </div>
+              <div>
+                <span className="text-black/60">Teléfono:</span> {reservation.guestData.phone}
+              </div>
+            </div>
+          </div>
+
+          {/* Habitaciones */}
+          <div className="mb-6">
+            <div className="font-semibold border-b border-black/20 pb-1 mb-2">Habitaciones</div>
+            {reservation.rooms.map((room, index) => (
+              <div key={index} className="flex justify-between">
+                <span>{room.name}</span>
+                <span className="capitalize text-black/60">
+                  {room.type} - {room.capacity} personas
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Desglose de precios */}
+          <div className="mb-6">
+            <div className="font-semibold border-b border-black/20 pb-1 mb-2">Detalle de cargos</div>
+            {reservation.lines.length > 0 ? (
+              <Folio lines={reservation.lines} totalLabel="Total (impuestos incluidos)" />
+            ) : (
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span>${reservation.total.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="text-center text-xs text-black/60 border-t border-black/20 pt-4">
+            Gracias por elegir Spring Hotel. Si tiene alguna pregunta, no dude en contactarnos.
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
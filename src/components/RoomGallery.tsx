@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Carrusel con las fotos de una habitación
+ * @module RoomGallery
+ *
+ * @description
+ * Muestra las fotos con la portada primero. Sin fotos se ve un recuadro con
+ * el icono de cama, para que todas las tarjetas tengan la misma altura.
+ */
+
+import { Bed } from "lucide-react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { RoomImage, sortRoomImages } from "@/lib/roomImages";
+import { cn } from "@/lib/utils";
+
+interface RoomGalleryProps {
+  images: RoomImage[];
+  /** Nombre de la habitación, para el texto alternativo */
+  roomName: string;
+  className?: string;
+}
+
+// ============================================
+// COMPONENT - Carrusel
+// ============================================
+
+export function RoomGallery({ images, roomName, className }: RoomGalleryProps) {
+  if (images.length === 0) {
+    return (
+      <div className={cn("aspect-[4/3] rounded-lg bg-muted flex items-center justify-center", className)}>
+        <Bed className="h-10 w-10 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const sorted = sortRoomImages(images);
+
+  return (
+    <Carousel opts={{ loop: sorted.length > 1 }} className={cn("relative", className)}>
+      <CarouselContent>
+        {sorted.map((image, index) => (
+          <CarouselItem key={image.id}>
+            <img
+              src={image.url}
+              alt={`${roomName}, foto ${index + 1}`}
+              loading="lazy"
+              className="aspect-[4/3] w-full rounded-lg object-cover"
+            />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {sorted.length > 1 && (
+        <>
+          <CarouselPrevious className="left-2" />
+          <CarouselNext className="right-2" />
+        </>
+      )}
+    </Carousel>
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Gestión de las fotos de una habitación
+ * @module RoomImagesManager
+ *
+ * @description
+ * Lista las fotos de una habitación en su orden, y permite subir más,
+ * moverlas, marcar la portada y eliminarlas. Los cambios se guardan al
+ * momento, sin esperar al botón de guardar del formulario de la habitación.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, ArrowRight, Loader2, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  deleteRoomImage,
+  reorderRoomImages,
+  RoomImage,
+  setRoomCover,
+  uploadRoomImages,
+} from "@/lib/roomImages";
+
+// ============================================
+// COMPONENT - Gestor de fotos
+// ============================================
+
+export function RoomImagesManager({ roomId }: { roomId: string }) {
+  const [images, setImages] = useState<RoomImage[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  const fetchImages = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("room_images")
+      .select("*")
+      .eq("room_id", roomId)
+      .order("position");
+
+    if (error) {
+      console.error("Error fetching room images:", error);
+      toast.error("Error al cargar las fotos");
+      return;
+    }
+    setImages(data || []);
+  }, [roomId]);
+
+  useEffect(() => {
+    fetchImages();
+  }, [fetchImages]);
+
+  // ============================================
+  // HANDLERS - Subir, ordenar, portada y eliminar
+  // ============================================
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const nextPosition = images.length > 0 ? Math.max(...images.map((image) => image.position)) + 1 : 0;
+    const uploadError = await uploadRoomImages(roomId, files, nextPosition);
+    setUploading(false);
+
+    if (uploadError) {
+      toast.error(uploadError);
+    } else {
+      toast.success(files.length === 1 ? "Foto agregada" : "Fotos agregadas");
+    }
+    fetchImages();
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const reordered = [...images];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setImages(reordered);
+
+    if (!(await reorderRoomImages(reordered))) {
+      toast.error("No se pudo cambiar el orden");
+    }
+    fetchImages();
+  };
+
+  const handleSetCover = async (image: RoomImage) => {
+    if (!(await setRoomCover(image))) {
+      toast.error("No se pudo marcar la portada");
+      return;
+    }
+    fetchImages();
+  };
+
+  const handleDelete = async (image: RoomImage) => {
+    if (!confirm("¿Eliminar esta foto?")) return;
+
+    if (!(await deleteRoomImage(image))) {
+      toast.error("No se pudo eliminar la foto");
+      return;
+    }
+    fetchImages();
+  };
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="room-images">Fotos</Label>
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <div key={image.id} className="space-y-1">
+              <div className="relative">
+                <img src={image.url} alt={`Foto ${index + 1}`} className="aspect-[4/3] w-full rounded object-cover border" />
+                {image.is_cover && <Badge className="absolute top-1 left-1">Portada</Badge>}
+              </div>
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Mover antes"
+                  disabled={index === 0}
+                  onClick={() => handleMove(index, -1)}
+                >
+                  <ArrowLeft className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Usar como portada"
+                  disabled={image.is_cover}
+                  onClick={() => handleSetCover(image)}
+                >
+                  <Star className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Eliminar"
+                  onClick={() => handleDelete(image)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Mover después"
+                  disabled={index === images.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                >
+                  <ArrowRight className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Input
+          id="room-images"
+          type="file"
+          accept="image/*"
+          multiple
+          disabled={uploading}
+          onChange={handleUpload}
+        />
+        {uploading && <Loader2 className="h-4 w-4 animate-spin text-accent" />}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Las fotos se reducen antes de subirlas. Sin portada marcada se usa la primera.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Línea de tiempo con los cambios de estado de una reserva
+ * @module StatusTimeline
+ *
+ * @description
+ * Muestra las filas de reservation_status_history en orden cronológico: a
+ * qué estado pasó la reserva, cuándo y quién hizo el cambio. La página decide
+ * cómo nombrar a quien hizo cada cambio (el cliente no ve nombres del personal).
+ */
+
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import type { Tables } from "@/integrations/supabase/types";
+import { getReservationStatusLabel } from "@/lib/reservationStatus";
+import { cn } from "@/lib/utils";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type StatusHistoryEntry = Tables<"reservation_status_history">;
+
+interface StatusTimelineProps {
+  entries: StatusHistoryEntry[];
+  /** Nombre a mostrar para el usuario que hizo el cambio (null = sistema) */
+  getActorLabel: (userId: string | null) => string;
+}
+
+// ============================================
+// COMPONENT - Línea de tiempo
+// ============================================
+
+export function StatusTimeline({ entries, getActorLabel }: StatusTimelineProps) {
+  const sorted = [...entries].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sin cambios registrados</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {sorted.map((entry, index) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={cn(
+              "absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-background",
+              index === sorted.length - 1 ? "bg-accent" : "bg-muted-foreground"
+            )}
+          />
+          <p className="text-sm font-medium">
+            {entry.from_status
+              ? `${getReservationStatusLabel(entry.from_status)} → ${getReservationStatusLabel(entry.to_status)}`
+              : `Creada como ${getReservationStatusLabel(entry.to_status).toLowerCase()}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(entry.changed_at), "dd/MM/yyyy HH:mm", { locale: es })}
+            {" · "}
+            {getActorLabel(entry.changed_by)}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
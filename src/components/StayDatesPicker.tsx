@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Selector de fechas de entrada y salida
+ * @module StayDatesPicker
+ *
+ * @description
+ * Dos calendarios en popover para elegir el rango de la estadía. Se comparte
+ * entre la búsqueda de habitaciones y el formulario de reserva.
+ *
+ * @design-decisions
+ * - Si la nueva entrada es igual o posterior a la salida, se limpia la salida
+ *   para no dejar nunca un rango inválido seleccionado
+ * - No se permiten fechas pasadas (se compara contra el inicio del día actual)
+ */
+
+import { format, startOfToday } from "date-fns";
+import { es } from "date-fns/locale";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { StayDates } from "@/lib/stay";
+
+interface StayDatesPickerProps {
+  checkIn?: Date;
+  checkOut?: Date;
+  onChange: (dates: StayDates) => void;
+  /** Disposición de los selectores: apilados o en dos columnas */
+  layout?: "stacked" | "inline";
+}
+
+export function StayDatesPicker({ checkIn, checkOut, onChange, layout = "stacked" }: StayDatesPickerProps) {
+  const today = startOfToday();
+
+  const handleCheckInChange = (date?: Date) => {
+    const keepCheckOut = date && checkOut && checkOut > date;
+    onChange({ checkIn: date, checkOut: keepCheckOut ? checkOut : undefined });
+  };
+
+  const handleCheckOutChange = (date?: Date) => {
+    onChange({ checkIn, checkOut: date });
+  };
+
+  return (
+    <div className={cn(layout === "inline" ? "grid md:grid-cols-2 gap-4" : "space-y-6")}>
+      {/* Selector: Fecha de entrada */}
+      <div className="space-y-2">
+        <Label>Fecha de entrada</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !checkIn && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {checkIn ? format(checkIn, "PPP", { locale: es }) : "Seleccione una fecha"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={checkIn}
+              onSelect={handleCheckInChange}
+              disabled={(date) => date < today} // No permitir fechas pasadas
+              initialFocus
+              className="pointer-events-auto"
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {/* Selector: Fecha de salida */}
+      <div className="space-y-2">
+        <Label>Fecha de salida</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !checkOut && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {checkOut ? format(checkOut, "PPP", { locale: es }) : "Seleccione una fecha"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={checkOut}
+              onSelect={handleCheckOutChange}
+              disabled={(date) => date <= (checkIn || today)} // Debe ser posterior a check-in
+              initialFocus
+              className="pointer-events-auto"
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Hook para el catálogo de comodidades
+ * @module useAmenities
+ *
+ * @description
+ * Carga la tabla amenities en su orden de presentación. La usan el selector
+ * de comodidades del editor de habitaciones, el filtro de la página de
+ * habitaciones y la página de gestión del catálogo.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Amenity } from "@/lib/amenities";
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para obtener las comodidades
+ *
+ * @example
+ * ```tsx
+ * const { amenities } = useAmenities();
+ * ```
+ *
+ * @returns {{ amenities: Amenity[], loading: boolean, refetch: () => Promise<void> }}
+ */
+export function useAmenities() {
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("amenities")
+      .select("*")
+      .order("position")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching amenities:", error);
+    } else {
+      setAmenities(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { amenities, loading, refetch };
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Hook para el carrito de reserva guardado en el servidor
+ * @module useBookingCart
+ *
+ * @description
+ * El carrito (tabla booking_carts) guarda solo los ids de las habitaciones
+ * elegidas por el usuario. Al cargarlo se leen de la tabla rooms los datos
+ * vigentes (nombre, capacidad, precio) y, si se indican fechas, se descartan
+ * las habitaciones que ya no están libres para esa estadía.
+ *
+ * @design-decisions
+ * - Solo ids en la base de datos: el precio nunca queda desactualizado
+ * - Suscripción realtime a la fila del usuario: el contador del menú y las
+ *   páginas abiertas en otras pestañas o dispositivos se actualizan solos
+ * - El carrito caduca a los 30 minutos del último cambio (lo renueva un
+ *   trigger); uno caducado se trata como vacío y se borra al detectarlo
+ * - Los duplicados se eliminan en el trigger, así que agregar dos veces la
+ *   misma habitación no tiene efecto
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { isValidStay, StayDates, toISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Habitación del carrito con sus datos vigentes */
+export type CartRoom = Tables<"rooms">;
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para leer y modificar el carrito de reserva del usuario actual
+ *
+ * @example
+ * ```tsx
+ * const cart = useBookingCart({ checkIn, checkOut });
+ * cart.addRoom(room.id);
+ * ```
+ *
+ * @param {StayDates} [stayDates] - Fechas contra las que revalidar la disponibilidad
+ */
+export function useBookingCart(stayDates?: StayDates) {
+  const { user } = useAuth();
+  const [roomIds, setRoomIds] = useState<string[]>([]);
+  const [rooms, setRooms] = useState<CartRoom[]>([]);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+  const from = isValidStay(stayDates?.checkIn, stayDates?.checkOut) ? toISODate(stayDates?.checkIn) : null;
+  const to = isValidStay(stayDates?.checkIn, stayDates?.checkOut) ? toISODate(stayDates?.checkOut) : null;
+
+  // ============================================
+  // PERSISTENCE - Escritura del carrito
+  // ============================================
+
+  /**
+   * Reemplaza las habitaciones del carrito (un carrito vacío se borra)
+   */
+  const saveRoomIds = useCallback(
+    async (ids: string[]) => {
+      if (!userId) return false;
+
+      const { error } = ids.length
+        ? await supabase.from("booking_carts").upsert({ user_id: userId, room_ids: ids })
+        : await supabase.from("booking_carts").delete().eq("user_id", userId);
+
+      if (error) {
+        console.error("Error saving booking cart:", error);
+        toast.error("No se pudo actualizar su selección");
+        return false;
+      }
+      return true;
+    },
+    [userId]
+  );
+
+  // ============================================
+  // DATA FETCHING - Carga y revalidación
+  // ============================================
+
+  const fetchCart = useCallback(async () => {
+    if (!userId) return;
+
+    const { data: cart, error } = await supabase
+      .from("booking_carts")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching booking cart:", error);
+      setLoading(false);
+      return;
+    }
+
+    // Carrito inexistente o caducado: selección vacía
+    if (!cart || new Date(cart.expires_at) <= new Date()) {
+      if (cart) await supabase.from("booking_carts").delete().eq("user_id", userId);
+      setRoomIds([]);
+      setRooms([]);
+      setExpiresAt(null);
+      setLoading(false);
+      return;
+    }
+
+    // Datos vigentes de las habitaciones (precio actual, fuera de servicio, borradas)
+    const { data: roomRows, error: roomsError } = await supabase
+      .from("rooms")
+      .select("*")
+      .in("id", cart.room_ids);
+
+    if (roomsError) {
+      console.error("Error fetching cart rooms:", roomsError);
+      setLoading(false);
+      return;
+    }
+
+    let valid = cart.room_ids
+      .map((id) => roomRows?.find((room) => room.id === id))
+      .filter((room): room is CartRoom => !!room && room.status !== "maintenance");
+
+    // Disponibilidad para las fechas elegidas
+    if (from && to && valid.length > 0) {
+      const { data: available, error: availabilityError } = await supabase.rpc("get_available_rooms", {
+        _check_in: from,
+        _check_out: to,
+      });
+
+      if (availabilityError) {
+        console.error("Error checking cart availability:", availabilityError);
+      } else {
+        valid = valid.filter((room) => available?.some((a) => a.id === room.id));
+      }
+    }
+
+    if (valid.length < cart.room_ids.length) {
+      toast.warning("Algunas habitaciones de su selección ya no están disponibles y se quitaron");
+      await saveRoomIds(valid.map((room) => room.id));
+    }
+
+    setRoomIds(valid.map((room) => room.id));
+    setRooms(valid);
+    setExpiresAt(valid.length ? new Date(cart.expires_at) : null);
+    setLoading(false);
+  }, [userId, from, to, saveRoomIds]);
+
+  useEffect(() => {
+    if (!userId) {
+      setRoomIds([]);
+      setRooms([]);
+      setLoading(false);
+      return;
+    }
+    fetchCart();
+  }, [userId, fetchCart]);
+
+  // ============================================
+  // REALTIME - Sincronización entre pestañas y dispositivos
+  // ============================================
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`booking-cart-${userId}-${crypto.randomUUID()}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "booking_carts", filter: `user_id=eq.${userId}` },
+        () => fetchCart()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchCart]);
+
+  // Vaciar la selección en cuanto caduca
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const timer = setTimeout(() => fetchCart(), Math.max(expiresAt.getTime() - Date.now(), 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [expiresAt, fetchCart]);
+
+  // ============================================
+  // ACTIONS - Operaciones sobre el carrito
+  // ============================================
+
+  const addRoom = async (roomId: string) => {
+    if (roomIds.includes(roomId)) return false;
+    const saved = await saveRoomIds([...roomIds, roomId]);
+    if (saved) await fetchCart();
+    return saved;
+  };
+
+  const removeRoom = async (roomId: string) => {
+    const saved = await saveRoomIds(roomIds.filter((id) => id !== roomId));
+    if (saved) await fetchCart();
+    return saved;
+  };
+
+  const clear = async () => {
+    const saved = await saveRoomIds([]);
+    if (saved) await fetchCart();
+    return saved;
+  };
+
+  return {
+    roomIds,
+    rooms,
+    expiresAt,
+    loading,
+    addRoom,
+    removeRoom,
+    clear,
+    refetch: fetchCart,
+  };
+}
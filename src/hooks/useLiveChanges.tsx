@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Hook para mantener en vivo las listas de administración
+ * @module useLiveChanges
+ *
+ * @description
+ * Se suscribe a los cambios (realtime) de las tablas indicadas y vuelve a
+ * cargar los datos de la pantalla cuando otro usuario crea, modifica o
+ * elimina una fila. Las filas que cambió otra persona (según updated_by) se
+ * marcan durante unos segundos para que se note qué cambió.
+ *
+ * @design-decisions
+ * - La recarga se agrupa (LIVE_RELOAD_DELAY_MS): una operación que toca
+ *   varias filas o tablas produce una sola recarga
+ * - El callback se guarda en una ref: las páginas pueden pasar una función
+ *   nueva en cada render sin que se rehaga la suscripción
+ * - Los cambios propios también recargan (mantienen varias pestañas al
+ *   día) pero no se resaltan
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Tablas publicadas en realtime con columna updated_by */
+export type LiveTable = "reservations" | "rooms";
+
+interface LiveRow {
+  id?: string;
+  updated_by?: string | null;
+}
+
+// ============================================
+// CONSTANTS - Tiempos
+// ============================================
+
+const LIVE_RELOAD_DELAY_MS = 300;
+const HIGHLIGHT_DURATION_MS = 6000;
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para recargar una pantalla con los cambios de otros usuarios
+ *
+ * @example
+ * ```tsx
+ * const LIVE_TABLES: LiveTable[] = ["rooms"];
+ * const { highlightedIds } = useLiveChanges(LIVE_TABLES, fetchRooms, isAdmin);
+ * <TableRow className={highlightedIds.has(room.id) ? "bg-accent/10" : undefined}>
+ * ```
+ *
+ * @param {LiveTable[]} tables - Tablas a escuchar (una referencia estable)
+ * @param {() => void} onChange - Recarga de los datos de la pantalla
+ * @param {boolean} [enabled=true] - Suscribirse solo cuando la pantalla puede cargar datos
+ */
+export function useLiveChanges(tables: LiveTable[], onChange: () => void, enabled = true) {
+  const { user } = useAuth();
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+
+  const onChangeRef = useRef(onChange);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // ============================================
+  // REALTIME - Suscripción a las tablas
+  // ============================================
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const highlight = (id: string) => {
+      clearTimeout(timers.get(id));
+      setHighlightedIds((prev) => new Set(prev).add(id));
+      timers.set(
+        id,
+        setTimeout(() => {
+          timers.delete(id);
+          setHighlightedIds((prev) => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+          });
+        }, HIGHLIGHT_DURATION_MS)
+      );
+    };
+
+    const channel = supabase.channel(`live-${tables.join("-")}-${crypto.randomUUID()}`);
+    for (const table of tables) {
+      channel.on("postgres_changes", { event: "*", schema: "public", table }, (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as LiveRow;
+        if (payload.eventType !== "DELETE" && row.id && row.updated_by !== userId) {
+          highlight(row.id);
+        }
+
+        clearTimeout(reloadTimer);
+        reloadTimer = setTimeout(() => onChangeRef.current(), LIVE_RELOAD_DELAY_MS);
+      });
+    }
+    channel.subscribe();
+
+    return () => {
+      clearTimeout(reloadTimer);
+      timers.forEach((timer) => clearTimeout(timer));
+      supabase.removeChannel(channel);
+    };
+  }, [tables, enabled, userId]);
+
+  return { highlightedIds };
+}
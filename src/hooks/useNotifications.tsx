@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Hook para las notificaciones del usuario
+ * @module useNotifications
+ *
+ * @description
+ * Lee las notificaciones del usuario actual (tabla notifications) y las
+ * mantiene al día con una suscripción realtime. Las notificaciones las
+ * escriben triggers de la base de datos: cambios de estado de las reservas
+ * para el huésped y reservas nuevas pendientes para los administradores.
+ *
+ * @design-decisions
+ * - Solo se cargan las últimas NOTIFICATIONS_LIMIT; el contador de no leídas
+ *   se pide aparte con count para que no dependa de ese límite
+ * - Marcar como leída solo cambia read_at, la única columna que el usuario
+ *   puede modificar
+ * - Con announce, cada notificación nueva recibida en vivo se muestra además
+ *   como toast; solo lo activa la campanita para no repetir el aviso
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type Notification = Tables<"notifications">;
+
+interface UseNotificationsOptions {
+  /** Mostrar un toast por cada notificación nueva recibida en vivo */
+  announce?: boolean;
+}
+
+// ============================================
+// CONSTANTS - Configuración
+// ============================================
+
+const NOTIFICATIONS_LIMIT = 50;
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para listar y marcar como leídas las notificaciones del usuario actual
+ *
+ * @example
+ * ```tsx
+ * const { notifications, unreadCount, markAsRead } = useNotifications();
+ * ```
+ */
+export function useNotifications({ announce = false }: UseNotificationsOptions = {}) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  // ============================================
+  // DATA FETCHING - Lista y contador
+  // ============================================
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATIONS_LIMIT),
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .is("read_at", null),
+    ]);
+
+    if (error || countError) {
+      console.error("Error fetching notifications:", error ?? countError);
+    } else {
+      setNotifications(data ?? []);
+      setUnreadCount(count ?? 0);
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+    fetchNotifications();
+  }, [userId, fetchNotifications]);
+
+  // ============================================
+  // REALTIME - Notificaciones en vivo
+  // ============================================
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}-${crypto.randomUUID()}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (announce && payload.eventType === "INSERT") {
+            const notification = payload.new as Notification;
+            toast.info(notification.title, { description: notification.body ?? undefined });
+          }
+          fetchNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, announce, fetchNotifications]);
+
+  // ============================================
+  // ACTIONS - Marcar como leídas y eliminar
+  // ============================================
+
+  const markAsRead = async (id: string) => {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("id", id)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error marking notification as read:", error);
+      toast.error("No se pudo marcar la notificación como leída");
+      return;
+    }
+    await fetchNotifications();
+  };
+
+  const markAllAsRead = async () => {
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+      toast.error("No se pudieron marcar las notificaciones como leídas");
+      return;
+    }
+    await fetchNotifications();
+  };
+
+  const remove = async (id: string) => {
+    const { error } = await supabase.from("notifications").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting notification:", error);
+      toast.error("No se pudo eliminar la notificación");
+      return;
+    }
+    await fetchNotifications();
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    remove,
+    refetch: fetchNotifications,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Hook para consultar habitaciones disponibles por fechas
+ * @module useRoomAvailability
+ *
+ * @description
+ * Consulta la función get_available_rooms de la base de datos, que cruza las
+ * habitaciones con las reservas no canceladas que se solapan con la estadía.
+ * Sustituye la comprobación estática de rooms.status === 'available'.
+ *
+ * @design-decisions
+ * - El cálculo se hace en PostgreSQL (SECURITY DEFINER) porque las políticas RLS
+ *   impiden a un cliente ver las reservas de otros usuarios
+ * - Las dependencias del efecto son las fechas en formato ISO y no los objetos
+ *   Date, para no repetir la consulta en cada render
+ * - Se descartan respuestas de consultas anteriores si las fechas cambian
+ *   antes de que terminen
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { isValidStay, toISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Habitación libre para la estadía consultada */
+export type AvailableRoom = Tables<"rooms">;
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para obtener las habitaciones libres en un rango de fechas
+ *
+ * @example
+ * ```tsx
+ * const { availableRooms, loading } = useRoomAvailability(checkIn, checkOut);
+ * ```
+ *
+ * @param {Date | undefined} checkIn - Fecha de entrada
+ * @param {Date | undefined} checkOut - Fecha de salida (no incluida)
+ * @returns {{ availableRooms: AvailableRoom[], loading: boolean, error: string | null, refetch: () => Promise<void> }}
+ */
+export function useRoomAvailability(checkIn?: Date, checkOut?: Date) {
+  const [availableRooms, setAvailableRooms] = useState<AvailableRoom[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = isValidStay(checkIn, checkOut) ? toISODate(checkIn) : null;
+  const to = isValidStay(checkIn, checkOut) ? toISODate(checkOut) : null;
+
+  /**
+   * Ejecuta la consulta y devuelve el resultado sin tocar el estado,
+   * para que el efecto pueda ignorar respuestas obsoletas
+   */
+  const query = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_available_rooms", {
+      _check_in: from,
+      _check_out: to,
+    });
+    if (error) throw error;
+    return data || [];
+  }, [from, to]);
+
+  useEffect(() => {
+    // Sin un rango válido no hay nada que consultar
+    if (!from || !to) {
+      setAvailableRooms([]);
+      setError(null);
+      return;
+    }
+
+    let stale = false;
+    setLoading(true);
+
+    query()
+      .then((rooms) => {
+        if (stale) return;
+        setAvailableRooms(rooms);
+        setError(null);
+      })
+      .catch((error) => {
+        if (stale) return;
+        console.error("Error fetching room availability:", error);
+        setAvailableRooms([]);
+        setError("No se pudo consultar la disponibilidad");
+      })
+      .finally(() => {
+        if (!stale) setLoading(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [from, to, query]);
+
+  /**
+   * Repite la consulta para las mismas fechas (p. ej. tras un conflicto)
+   */
+  const refetch = useCallback(async () => {
+    if (!from || !to) return;
+    setLoading(true);
+    try {
+      setAvailableRooms(await query());
+      setError(null);
+    } catch (error) {
+      console.error("Error fetching room availability:", error);
+      setError("No se pudo consultar la disponibilidad");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, query]);
+
+  return { availableRooms, loading, error, refetch };
+}
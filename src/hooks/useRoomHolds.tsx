@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Hook para las retenciones temporales de habitaciones
+ * @module useRoomHolds
+ *
+ * @description
+ * Mientras el huésped completa el formulario de reserva, sus habitaciones
+ * quedan retenidas 15 minutos (tabla room_holds) para que nadie más pueda
+ * reservarlas. El hook crea o confirma la retención con hold_rooms, expone
+ * los segundos restantes y permite renovarla cuando caduca.
+ *
+ * @design-decisions
+ * - hold_rooms es idempotente: repetirla con las mismas habitaciones y fechas
+ *   conserva la hora de caducidad original, así que recargar la página no
+ *   alarga la retención
+ * - Si cambian las fechas o las habitaciones se vuelve a llamar y la base de
+ *   datos libera lo que ya no corresponde
+ * - create_reservation convierte la retención en la reserva; el limpiado de
+ *   retenciones caducadas lo hace un job de pg_cron
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { isValidStay, toISODate } from "@/lib/stay";
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para retener las habitaciones durante el checkout
+ *
+ * @example
+ * ```tsx
+ * const hold = useRoomHolds(roomIds, checkIn, checkOut);
+ * if (hold.expired) hold.renew();
+ * ```
+ *
+ * @param {string[]} roomIds - Habitaciones a retener
+ * @param {Date | undefined} checkIn - Fecha de entrada
+ * @param {Date | undefined} checkOut - Fecha de salida (no incluida)
+ */
+export function useRoomHolds(roomIds: string[], checkIn?: Date, checkOut?: Date) {
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const rooms = roomIds.join(",");
+  const from = isValidStay(checkIn, checkOut) ? toISODate(checkIn) : null;
+  const to = isValidStay(checkIn, checkOut) ? toISODate(checkOut) : null;
+
+  /**
+   * Crea (o confirma) la retención de las habitaciones
+   */
+  const renew = useCallback(async () => {
+    if (!rooms || !from || !to) {
+      setExpiresAt(null);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase.rpc("hold_rooms", {
+      _room_ids: rooms.split(","),
+      _check_in: from,
+      _check_out: to,
+    });
+
+    if (error) {
+      console.error("Error holding rooms:", error);
+      setExpiresAt(null);
+      setError(getBookingErrorMessage(error));
+    } else {
+      setExpiresAt(data ? new Date(data) : null);
+      setError(null);
+    }
+    setLoading(false);
+  }, [rooms, from, to]);
+
+  useEffect(() => {
+    renew();
+  }, [renew]);
+
+  // Cuenta regresiva
+  useEffect(() => {
+    if (!expiresAt) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const tick = () =>
+      setSecondsLeft(Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / 1000), 0));
+    tick();
+
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  return {
+    expiresAt,
+    secondsLeft,
+    expired: !!expiresAt && secondsLeft === 0,
+    loading,
+    error,
+    renew,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Hook para el catálogo de tipos de habitación
+ * @module useRoomTypes
+ *
+ * @description
+ * Carga la tabla room_types en su orden de presentación. Los filtros y
+ * selects de tipo de habitación se generan a partir de esta lista, de modo
+ * que un tipo nuevo aparece en todas las pantallas sin tocar código.
+ *
+ * @design-decisions
+ * - rooms.type guarda el código del tipo; getRoomTypeName traduce el código
+ *   al nombre y, si el tipo no está cargado, devuelve el código tal cual
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type RoomType = Tables<"room_types">;
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para obtener los tipos de habitación
+ *
+ * @example
+ * ```tsx
+ * const { roomTypes, getRoomTypeName } = useRoomTypes();
+ * ```
+ *
+ * @returns {{ roomTypes: RoomType[], loading: boolean, getRoomTypeName: (code: string) => string, refetch: () => Promise<void> }}
+ */
+export function useRoomTypes() {
+  const [roomTypes, setRoomTypes] = useState<RoomType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("room_types")
+      .select("*")
+      .order("position")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching room types:", error);
+    } else {
+      setRoomTypes(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const getRoomTypeName = useCallback(
+    (code: string) => roomTypes.find((type) => type.code === code)?.name ?? code,
+    [roomTypes]
+  );
+
+  return { roomTypes, loading, getRoomTypeName, refetch };
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Hook para cotizar una estadía noche a noche
+ * @module useStayQuote
+ *
+ * @description
+ * Consulta la función quote_stay de la base de datos, que aplica los planes
+ * tarifarios (temporadas, fin de semana y tarifas por tipo de habitación) a
+ * cada noche de la estadía, y price_reservation, que arma el folio con el
+ * alojamiento, los cargos fijos y los impuestos. Son las mismas funciones que
+ * usa create_reservation, por lo que la cotización coincide con lo que se cobra.
+ * También devuelve la política de cancelación que se copiará en la reserva.
+ *
+ * @design-decisions
+ * - Las dependencias del efecto son cadenas (ids y fechas ISO) para no repetir
+ *   la consulta en cada render
+ * - La estadía mínima se devuelve ya resuelta (el mayor mínimo entre las noches)
+ *   para poder avisar al usuario antes de enviar la reserva
+ * - El total es la suma de las líneas del folio (impuestos incluidos)
+ */
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { FolioLine } from "@/components/Folio";
+import type { CancellationPolicy } from "@/lib/cancellationPolicy";
+import { isValidStay, toISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Precio de una habitación para una noche concreta */
+export type QuoteNight = Database["public"]["Functions"]["quote_stay"]["Returns"][number];
+
+// ============================================
+// HOOK - Implementación principal
+// ============================================
+
+/**
+ * Hook para obtener la cotización noche a noche de una estadía
+ *
+ * @example
+ * ```tsx
+ * const { nights, lines, total, loading } = useStayQuote(roomIds, checkIn, checkOut, guests, "cc");
+ * ```
+ *
+ * @param {string[]} roomIds - Habitaciones a cotizar
+ * @param {Date | undefined} checkIn - Fecha de entrada
+ * @param {Date | undefined} checkOut - Fecha de salida (no incluida)
+ * @param {number} guests - Número de huéspedes (para cargos por persona)
+ * @param {string} [documentType] - Tipo de documento del huésped (exenciones)
+ */
+export function useStayQuote(
+  roomIds: string[],
+  checkIn?: Date,
+  checkOut?: Date,
+  guests = 1,
+  documentType?: string
+) {
+  const [nights, setNights] = useState<QuoteNight[]>([]);
+  const [lines, setLines] = useState<FolioLine[]>([]);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rooms = roomIds.join(",");
+  const from = isValidStay(checkIn, checkOut) ? toISODate(checkIn) : null;
+  const to = isValidStay(checkIn, checkOut) ? toISODate(checkOut) : null;
+
+  useEffect(() => {
+    if (!rooms || !from || !to) {
+      setNights([]);
+      setLines([]);
+      setCancellationPolicy(null);
+      setError(null);
+      return;
+    }
+
+    let stale = false;
+    setLoading(true);
+
+    const roomIdList = rooms.split(",");
+    Promise.all([
+      supabase.rpc("quote_stay", { _room_ids: roomIdList, _check_in: from, _check_out: to }),
+      supabase.rpc("price_reservation", {
+        _room_ids: roomIdList,
+        _check_in: from,
+        _check_out: to,
+        _guests: guests,
+        _document_type: documentType,
+      }),
+      supabase.rpc("get_cancellation_policy", { _room_ids: roomIdList, _check_in: from, _check_out: to }),
+    ]).then(([quoteResult, priceResult, policyResult]) => {
+      if (stale) return;
+      const error = quoteResult.error || priceResult.error || policyResult.error;
+      if (error) {
+        console.error("Error fetching stay quote:", error);
+        setNights([]);
+        setLines([]);
+        setCancellationPolicy(null);
+        setError("No se pudo calcular la tarifa");
+      } else {
+        setNights(quoteResult.data || []);
+        setLines(priceResult.data || []);
+        setCancellationPolicy(policyResult.data?.[0] ?? null);
+        setError(null);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      stale = true;
+    };
+  }, [rooms, from, to, guests, documentType]);
+
+  // Total del folio y estadía mínima exigida por las tarifas aplicadas
+  const total = lines.reduce((sum, line) => sum + Number(line.amount), 0);
+  const strictest = nights.reduce<QuoteNight | null>(
+    (max, night) => (!max || night.min_nights > max.min_nights ? night : max),
+    null
+  );
+
+  return {
+    nights,
+    lines,
+    total,
+    minNights: strictest?.min_nights ?? 1,
+    minNightsPlan: strictest?.rate_plan_name ?? null,
+    cancellationPolicy,
+    loading,
+    error,
+  };
+}
@@ -14,6 +14,759 @@ export type Database = {
   }
   public: {
     Tables: {
+      amenities: {
+        Row: {
+          category: string
+          created_at: string
+          icon: string
+          id: string
+          name: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          name: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          name?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      billing_profiles: {
+        Row: {
+          address: string | null
+          city: string | null
+          created_at: string
+          email: string | null
+          legal_name: string
+          tax_id: string
+          tax_id_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          created_at?: string
+          email?: string | null
+          legal_name: string
+          tax_id: string
+          tax_id_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          created_at?: string
+          email?: string | null
+          legal_name?: string
+          tax_id?: string
+          tax_id_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      booking_carts: {
+        Row: {
+          created_at: string
+          expires_at: string
+          room_ids: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          room_ids?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          room_ids?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cancellation_policies: {
+        Row: {
+          active: boolean
+          created_at: string
+          description: string | null
+          free_until_hours: number
+          id: string
+          is_default: boolean
+          name: string
+          non_refundable: boolean
+          penalty_kind: string
+          penalty_percent: number
+          room_types: string[]
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          free_until_hours?: number
+          id?: string
+          is_default?: boolean
+          name: string
+          non_refundable?: boolean
+          penalty_kind?: string
+          penalty_percent?: number
+          room_types?: string[]
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          free_until_hours?: number
+          id?: string
+          is_default?: boolean
+          name?: string
+          non_refundable?: boolean
+          penalty_kind?: string
+          penalty_percent?: number
+          room_types?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_log: {
+        Row: {
+          attempted_at: string
+          error: string | null
+          id: string
+          queue_id: string
+          recipient: string
+          reservation_id: string
+          status: string
+          subject: string | null
+          template: string
+        }
+        Insert: {
+          attempted_at?: string
+          error?: string | null
+          id?: string
+          queue_id: string
+          recipient: string
+          reservation_id: string
+          status: string
+          subject?: string | null
+          template: string
+        }
+        Update: {
+          attempted_at?: string
+          error?: string | null
+          id?: string
+          queue_id?: string
+          recipient?: string
+          reservation_id?: string
+          status?: string
+          subject?: string | null
+          template?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_log_queue_id_fkey"
+            columns: ["queue_id"]
+            isOneToOne: false
+            referencedRelation: "email_queue"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_log_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_queue: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          recipient: string
+          reservation_id: string
+          send_after: string
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          recipient: string
+          reservation_id: string
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          recipient?: string
+          reservation_id?: string
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_queue_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fees: {
+        Row: {
+          active: boolean
+          amount: number
+          charge_per: string
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          taxable: boolean
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          charge_per?: string
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          taxable?: boolean
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          charge_per?: string
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          taxable?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_lines: {
+        Row: {
+          amount: number
+          description: string
+          exempt: boolean
+          id: string
+          invoice_id: string
+          kind: string
+          quantity: number
+          rate: number | null
+          sort_order: number
+          unit_price: number | null
+        }
+        Insert: {
+          amount: number
+          description: string
+          exempt?: boolean
+          id?: string
+          invoice_id: string
+          kind: string
+          quantity?: number
+          rate?: number | null
+          sort_order?: number
+          unit_price?: number | null
+        }
+        Update: {
+          amount?: number
+          description?: string
+          exempt?: boolean
+          id?: string
+          invoice_id?: string
+          kind?: string
+          quantity?: number
+          rate?: number | null
+          sort_order?: number
+          unit_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_series: {
+        Row: {
+          code: string
+          created_at: string
+          issuer_address: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          name: string
+          next_number: number
+          resolution: string | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          issuer_address?: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          name: string
+          next_number?: number
+          resolution?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          issuer_address?: string | null
+          issuer_name?: string
+          issuer_tax_id?: string
+          kind?: string
+          name?: string
+          next_number?: number
+          resolution?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          corrects_invoice_id: string | null
+          currency: string
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_tax_id: string
+          customer_tax_id_type: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          issued_by: string | null
+          issuer_address: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          number: number
+          payment_refund_id: string | null
+          reason: string | null
+          reservation_id: string
+          resolution: string | null
+          series: string
+          subtotal: number
+          tax_total: number
+          total: number
+        }
+        Insert: {
+          corrects_invoice_id?: string | null
+          currency?: string
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_tax_id: string
+          customer_tax_id_type: string
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          issued_by?: string | null
+          issuer_address?: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          number: number
+          payment_refund_id?: string | null
+          reason?: string | null
+          reservation_id: string
+          resolution?: string | null
+          series: string
+          subtotal: number
+          tax_total: number
+          total: number
+        }
+        Update: {
+          corrects_invoice_id?: string | null
+          currency?: string
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_tax_id?: string
+          customer_tax_id_type?: string
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          issued_by?: string | null
+          issuer_address?: string | null
+          issuer_name?: string
+          issuer_tax_id?: string
+          kind?: string
+          number?: number
+          payment_refund_id?: string | null
+          reason?: string | null
+          reservation_id?: string
+          resolution?: string | null
+          series?: string
+          subtotal?: number
+          tax_total?: number
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_corrects_invoice_id_fkey"
+            columns: ["corrects_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_payment_refund_id_fkey"
+            columns: ["payment_refund_id"]
+            isOneToOne: false
+            referencedRelation: "payment_refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_series_fkey"
+            columns: ["series"]
+            isOneToOne: false
+            referencedRelation: "invoice_series"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      maintenance_ticket_events: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: string | null
+          id: string
+          note: string | null
+          ticket_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          ticket_id: string
+          to_status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          ticket_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_ticket_photos: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          path: string
+          ticket_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          path: string
+          ticket_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          path?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_ticket_photos_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_tickets: {
+        Row: {
+          assigned_to: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          out_of_order_from: string | null
+          out_of_order_until: string | null
+          priority: string
+          resolution: string | null
+          resolved_at: string | null
+          room_id: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          out_of_order_from?: string | null
+          out_of_order_until?: string | null
+          priority?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          room_id: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          out_of_order_from?: string | null
+          out_of_order_until?: string | null
+          priority?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          room_id?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_tickets_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          reservation_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          reservation_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          reservation_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          payment_id: string
+          provider_reference: string | null
+          reason: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          payment_id: string
+          provider_reference?: string | null
+          reason: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          payment_id?: string
+          provider_reference?: string | null
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          authorized_at: string | null
+          captured_at: string | null
+          card_brand: string | null
+          card_last4: string | null
+          created_at: string
+          created_by: string | null
+          failure_reason: string | null
+          id: string
+          kind: string
+          method: string
+          notes: string | null
+          provider: string
+          provider_reference: string | null
+          refunded_amount: number
+          reservation_id: string
+          status: string
+          updated_at: string
+          voided_at: string | null
+        }
+        Insert: {
+          amount: number
+          authorized_at?: string | null
+          captured_at?: string | null
+          card_brand?: string | null
+          card_last4?: string | null
+          created_at?: string
+          created_by?: string | null
+          failure_reason?: string | null
+          id?: string
+          kind: string
+          method?: string
+          notes?: string | null
+          provider: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          reservation_id: string
+          status?: string
+          updated_at?: string
+          voided_at?: string | null
+        }
+        Update: {
+          amount?: number
+          authorized_at?: string | null
+          captured_at?: string | null
+          card_brand?: string | null
+          card_last4?: string | null
+          created_at?: string
+          created_by?: string | null
+          failure_reason?: string | null
+          id?: string
+          kind?: string
+          method?: string
+          notes?: string | null
+          provider?: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          reservation_id?: string
+          status?: string
+          updated_at?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -24,63 +777,592 @@ export type Database = {
           phone: string | null
         }
         Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          email: string
-          id: string
-          name: string
-          phone?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          id: string
+          name: string
+          phone?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          phone?: string | null
+        }
+        Relationships: []
+      }
+      rate_plan_room_types: {
+        Row: {
+          min_nights: number | null
+          rate_plan_id: string
+          room_type: string
+          weekday_price: number
+          weekend_price: number | null
+        }
+        Insert: {
+          min_nights?: number | null
+          rate_plan_id: string
+          room_type: string
+          weekday_price: number
+          weekend_price?: number | null
+        }
+        Update: {
+          min_nights?: number | null
+          rate_plan_id?: string
+          room_type?: string
+          weekday_price?: number
+          weekend_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_plan_room_types_rate_plan_id_fkey"
+            columns: ["rate_plan_id"]
+            isOneToOne: false
+            referencedRelation: "rate_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_plan_room_types_room_type_fkey"
+            columns: ["room_type"]
+            isOneToOne: false
+            referencedRelation: "room_types"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      rate_plans: {
+        Row: {
+          active: boolean
+          cancellation_policy_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          end_date: string | null
+          id: string
+          min_nights: number
+          name: string
+          priority: number
+          start_date: string | null
+          updated_at: string
+          weekday_modifier: number
+          weekend_modifier: number
+        }
+        Insert: {
+          active?: boolean
+          cancellation_policy_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          min_nights?: number
+          name: string
+          priority?: number
+          start_date?: string | null
+          updated_at?: string
+          weekday_modifier?: number
+          weekend_modifier?: number
+        }
+        Update: {
+          active?: boolean
+          cancellation_policy_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          min_nights?: number
+          name?: string
+          priority?: number
+          start_date?: string | null
+          updated_at?: string
+          weekday_modifier?: number
+          weekend_modifier?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_plans_cancellation_policy_id_fkey"
+            columns: ["cancellation_policy_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_changes: {
+        Row: {
+          change_fee: number
+          changed_at: string
+          changed_by: string | null
+          check_in: string
+          check_out: string
+          guests: number
+          id: string
+          previous_check_in: string
+          previous_check_out: string
+          previous_guests: number
+          previous_room_ids: string[]
+          previous_total: number
+          refund_due: number
+          reservation_id: string
+          room_ids: string[]
+          total_price: number
+        }
+        Insert: {
+          change_fee?: number
+          changed_at?: string
+          changed_by?: string | null
+          check_in: string
+          check_out: string
+          guests: number
+          id?: string
+          previous_check_in: string
+          previous_check_out: string
+          previous_guests: number
+          previous_room_ids: string[]
+          previous_total: number
+          refund_due?: number
+          reservation_id: string
+          room_ids: string[]
+          total_price: number
+        }
+        Update: {
+          change_fee?: number
+          changed_at?: string
+          changed_by?: string | null
+          check_in?: string
+          check_out?: string
+          guests?: number
+          id?: string
+          previous_check_in?: string
+          previous_check_out?: string
+          previous_guests?: number
+          previous_room_ids?: string[]
+          previous_total?: number
+          refund_due?: number
+          reservation_id?: string
+          room_ids?: string[]
+          total_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_changes_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_keys: {
+        Row: {
+          issued_at: string
+          issued_by: string | null
+          key_code: string
+          reservation_id: string
+          returned_at: string | null
+          room_id: string
+        }
+        Insert: {
+          issued_at?: string
+          issued_by?: string | null
+          key_code: string
+          reservation_id: string
+          returned_at?: string | null
+          room_id: string
+        }
+        Update: {
+          issued_at?: string
+          issued_by?: string | null
+          key_code?: string
+          reservation_id?: string
+          returned_at?: string | null
+          room_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_keys_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_keys_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_line_items: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          exempt: boolean
+          id: string
+          kind: string
+          quantity: number
+          rate: number | null
+          reservation_id: string
+          room_id: string | null
+          sort_order: number
+          unit_price: number | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          exempt?: boolean
+          id?: string
+          kind: string
+          quantity?: number
+          rate?: number | null
+          reservation_id: string
+          room_id?: string | null
+          sort_order?: number
+          unit_price?: number | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          exempt?: boolean
+          id?: string
+          kind?: string
+          quantity?: number
+          rate?: number | null
+          reservation_id?: string
+          room_id?: string | null
+          sort_order?: number
+          unit_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_line_items_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_line_items_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_rooms: {
+        Row: {
+          created_at: string
+          reservation_id: string
+          room_id: string
+          stay: unknown
+        }
+        Insert: {
+          created_at?: string
+          reservation_id: string
+          room_id: string
+          stay: unknown
+        }
+        Update: {
+          created_at?: string
+          reservation_id?: string
+          room_id?: string
+          stay?: unknown
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_rooms_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_rooms_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: string | null
+          id: string
+          reservation_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          reservation_id: string
+          to_status: string
         }
         Update: {
-          avatar_url?: string | null
-          created_at?: string
-          email?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
           id?: string
-          name?: string
-          phone?: string | null
+          reservation_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_status_history_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_status_transitions: {
+        Row: {
+          from_status: string
+          role: Database["public"]["Enums"]["app_role"]
+          to_status: string
+        }
+        Insert: {
+          from_status: string
+          role: Database["public"]["Enums"]["app_role"]
+          to_status: string
+        }
+        Update: {
+          from_status?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          to_status?: string
         }
         Relationships: []
       }
       reservations: {
         Row: {
+          cancellation_penalty: number | null
+          cancellation_policy: Json | null
+          cancellation_reason: string | null
+          cancellation_refund: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           check_in: string
           check_out: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
           created_at: string
           guest_data: Json
           guests: number
           id: string
+          payment_status: string
           room_ids: string[]
+          settlement_method: string | null
           status: string
           total_price: number
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
+          cancellation_penalty?: number | null
+          cancellation_policy?: Json | null
+          cancellation_reason?: string | null
+          cancellation_refund?: number | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           check_in: string
           check_out: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          checked_out_at?: string | null
+          checked_out_by?: string | null
           created_at?: string
           guest_data: Json
           guests: number
           id?: string
+          payment_status?: string
           room_ids: string[]
+          settlement_method?: string | null
           status?: string
           total_price: number
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
+          cancellation_penalty?: number | null
+          cancellation_policy?: Json | null
+          cancellation_reason?: string | null
+          cancellation_refund?: number | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           check_in?: string
           check_out?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          checked_out_at?: string | null
+          checked_out_by?: string | null
           created_at?: string
           guest_data?: Json
           guests?: number
           id?: string
+          payment_status?: string
           room_ids?: string[]
+          settlement_method?: string | null
           status?: string
           total_price?: number
           updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      room_amenities: {
+        Row: {
+          amenity_id: string
+          room_id: string
+        }
+        Insert: {
+          amenity_id: string
+          room_id: string
+        }
+        Update: {
+          amenity_id?: string
+          room_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_amenities_amenity_id_fkey"
+            columns: ["amenity_id"]
+            isOneToOne: false
+            referencedRelation: "amenities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_amenities_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_holds: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          room_id: string
+          stay: unknown
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          room_id: string
+          stay: unknown
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          room_id?: string
+          stay?: unknown
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "room_holds_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_images: {
+        Row: {
+          created_at: string
+          id: string
+          is_cover: boolean
+          path: string
+          position: number
+          room_id: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_cover?: boolean
+          path: string
+          position?: number
+          room_id: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_cover?: boolean
+          path?: string
+          position?: number
+          room_id?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_images_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_types: {
+        Row: {
+          base_capacity: number
+          base_price: number
+          code: string
+          created_at: string
+          description: string | null
+          name: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          base_capacity?: number
+          base_price?: number
+          code: string
+          created_at?: string
+          description?: string | null
+          name: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          base_capacity?: number
+          base_price?: number
+          code?: string
+          created_at?: string
+          description?: string | null
+          name?: string
+          position?: number
+          updated_at?: string
+        }
         Relationships: []
       }
       rooms: {
@@ -89,7 +1371,9 @@ export type Database = {
           created_at: string
           created_by: string | null
           description: string | null
-          features: string[] | null
+          housekeeping_assigned_to: string | null
+          housekeeping_status: string
+          housekeeping_updated_at: string
           id: string
           image_url: string | null
           name: string
@@ -97,13 +1381,16 @@ export type Database = {
           status: string
           type: string
           updated_at: string
+          updated_by: string | null
         }
         Insert: {
           capacity: number
           created_at?: string
           created_by?: string | null
           description?: string | null
-          features?: string[] | null
+          housekeeping_assigned_to?: string | null
+          housekeeping_status?: string
+          housekeeping_updated_at?: string
           id?: string
           image_url?: string | null
           name: string
@@ -111,13 +1398,16 @@ export type Database = {
           status?: string
           type: string
           updated_at?: string
+          updated_by?: string | null
         }
         Update: {
           capacity?: number
           created_at?: string
           created_by?: string | null
           description?: string | null
-          features?: string[] | null
+          housekeeping_assigned_to?: string | null
+          housekeeping_status?: string
+          housekeeping_updated_at?: string
           id?: string
           image_url?: string | null
           name?: string
@@ -125,6 +1415,48 @@ export type Database = {
           status?: string
           type?: string
           updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rooms_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "room_types"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      tax_rules: {
+        Row: {
+          active: boolean
+          created_at: string
+          exempt_document_types: string[]
+          id: string
+          name: string
+          rate: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          exempt_document_types?: string[]
+          id?: string
+          name: string
+          rate: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          exempt_document_types?: string[]
+          id?: string
+          name?: string
+          rate?: number
+          sort_order?: number
+          updated_at?: string
         }
         Relationships: []
       }
@@ -154,6 +1486,174 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      cancellation_penalty: {
+        Args: {
+          _at: string
+          _reservation: Database["public"]["Tables"]["reservations"]["Row"]
+        }
+        Returns: number
+      }
+      check_in_reservation: {
+        Args: {
+          _document_id: string
+          _document_type?: string
+          _keys: Json
+          _reservation_id: string
+        }
+        Returns: {
+          cancellation_penalty: number | null
+          cancellation_policy: Json | null
+          cancellation_reason: string | null
+          cancellation_refund: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          check_in: string
+          check_out: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
+          created_at: string
+          guest_data: Json
+          guests: number
+          id: string
+          payment_status: string
+          room_ids: string[]
+          settlement_method: string | null
+          status: string
+          total_price: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      check_out_reservation: {
+        Args: { _reservation_id: string; _settlement_method: string }
+        Returns: {
+          cancellation_penalty: number | null
+          cancellation_policy: Json | null
+          cancellation_reason: string | null
+          cancellation_refund: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          check_in: string
+          check_out: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
+          created_at: string
+          guest_data: Json
+          guests: number
+          id: string
+          payment_status: string
+          room_ids: string[]
+          settlement_method: string | null
+          status: string
+          total_price: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      claim_pending_emails: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          recipient: string
+          reservation_id: string
+          send_after: string
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string
+        }[]
+      }
+      compute_payment_status: {
+        Args: { _reservation_id: string; _total: number }
+        Returns: string
+      }
+      create_reservation: {
+        Args: {
+          _check_in: string
+          _check_out: string
+          _guest_data: Json
+          _guests: number
+          _room_ids: string[]
+          _user_id?: string
+        }
+        Returns: {
+          cancellation_penalty: number | null
+          cancellation_policy: Json | null
+          cancellation_reason: string | null
+          cancellation_refund: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          check_in: string
+          check_out: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
+          created_at: string
+          guest_data: Json
+          guests: number
+          id: string
+          payment_status: string
+          room_ids: string[]
+          settlement_method: string | null
+          status: string
+          total_price: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      enqueue_email: {
+        Args: { _reservation_id: string; _send_after?: string; _template: string }
+        Returns: undefined
+      }
+      enqueue_scheduled_emails: { Args: never; Returns: number }
+      get_available_rooms: {
+        Args: { _check_in: string; _check_out: string }
+        Returns: {
+          capacity: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          housekeeping_assigned_to: string | null
+          housekeeping_status: string
+          housekeeping_updated_at: string
+          id: string
+          image_url: string | null
+          name: string
+          price: number
+          status: string
+          type: string
+          updated_at: string
+          updated_by: string | null
+        }[]
+      }
+      get_cancellation_policy: {
+        Args: { _check_in: string; _check_out: string; _room_ids: string[] }
+        Returns: {
+          active: boolean
+          created_at: string
+          description: string | null
+          free_until_hours: number
+          id: string
+          is_default: boolean
+          name: string
+          non_refundable: boolean
+          penalty_kind: string
+          penalty_percent: number
+          room_types: string[]
+          updated_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -161,6 +1661,324 @@ export type Database = {
         }
         Returns: boolean
       }
+      hold_rooms: {
+        Args: { _check_in: string; _check_out: string; _room_ids: string[] }
+        Returns: string
+      }
+      invoice_open_amount: {
+        Args: { _invoice_id: string }
+        Returns: number
+      }
+      is_blocking_status: {
+        Args: { _status: string }
+        Returns: boolean
+      }
+      is_room_held: {
+        Args: { _room_id: string; _stay: unknown; _user_id: string }
+        Returns: boolean
+      }
+      is_room_out_of_order: {
+        Args: { _room_id: string; _stay: unknown }
+        Returns: boolean
+      }
+      issue_credit_note: {
+        Args: {
+          _amount: number
+          _invoice_id: string
+          _payment_refund_id?: string
+          _reason: string
+          _series?: string
+        }
+        Returns: {
+          corrects_invoice_id: string | null
+          currency: string
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_tax_id: string
+          customer_tax_id_type: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          issued_by: string | null
+          issuer_address: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          number: number
+          payment_refund_id: string | null
+          reason: string | null
+          reservation_id: string
+          resolution: string | null
+          series: string
+          subtotal: number
+          tax_total: number
+          total: number
+        }
+      }
+      issue_invoice: {
+        Args: { _reservation_id: string; _series?: string }
+        Returns: {
+          corrects_invoice_id: string | null
+          currency: string
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_tax_id: string
+          customer_tax_id_type: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          issued_by: string | null
+          issuer_address: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          number: number
+          payment_refund_id: string | null
+          reason: string | null
+          reservation_id: string
+          resolution: string | null
+          series: string
+          subtotal: number
+          tax_total: number
+          total: number
+        }
+      }
+      modify_reservation: {
+        Args: {
+          _check_in: string
+          _check_out: string
+          _guests: number
+          _reservation_id: string
+          _room_ids: string[]
+        }
+        Returns: {
+          cancellation_penalty: number | null
+          cancellation_policy: Json | null
+          cancellation_reason: string | null
+          cancellation_refund: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          check_in: string
+          check_out: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
+          created_at: string
+          guest_data: Json
+          guests: number
+          id: string
+          payment_status: string
+          room_ids: string[]
+          settlement_method: string | null
+          status: string
+          total_price: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      move_reservation: {
+        Args: {
+          _check_in: string
+          _from_room_id: string
+          _reservation_id: string
+          _to_room_id: string
+        }
+        Returns: {
+          cancellation_penalty: number | null
+          cancellation_policy: Json | null
+          cancellation_reason: string | null
+          cancellation_refund: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          check_in: string
+          check_out: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
+          created_at: string
+          guest_data: Json
+          guests: number
+          id: string
+          payment_status: string
+          room_ids: string[]
+          settlement_method: string | null
+          status: string
+          total_price: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      next_payment_kind: {
+        Args: { _amount: number; _reservation_id: string }
+        Returns: string
+      }
+      normalize_document_id: {
+        Args: { _value: string }
+        Returns: string
+      }
+      price_reservation: {
+        Args: {
+          _check_in: string
+          _check_out: string
+          _document_type?: string
+          _guests: number
+          _room_ids: string[]
+        }
+        Returns: {
+          amount: number
+          description: string
+          exempt: boolean
+          kind: string
+          quantity: number
+          rate: number
+          room_id: string
+          sort_order: number
+          unit_price: number
+        }[]
+      }
+      purge_expired_booking_carts: { Args: never; Returns: number }
+      purge_expired_room_holds: { Args: never; Returns: number }
+      quote_cancellation: {
+        Args: { _reservation_id: string }
+        Returns: {
+          free_until: string
+          penalty: number
+          refund: number
+        }[]
+      }
+      quote_reservation_change: {
+        Args: {
+          _check_in: string
+          _check_out: string
+          _guests: number
+          _reservation_id: string
+          _room_ids: string[]
+        }
+        Returns: {
+          change_fee: number
+          current_total: number
+          difference: number
+          new_total: number
+          refund_due: number
+        }[]
+      }
+      quote_stay: {
+        Args: { _check_in: string; _check_out: string; _room_ids: string[] }
+        Returns: {
+          is_weekend: boolean
+          min_nights: number
+          night: string
+          price: number
+          rate_plan_id: string
+          rate_plan_name: string
+          room_id: string
+        }[]
+      }
+      record_manual_payment: {
+        Args: {
+          _amount: number
+          _method: string
+          _notes?: string
+          _reservation_id: string
+        }
+        Returns: {
+          amount: number
+          authorized_at: string | null
+          captured_at: string | null
+          card_brand: string | null
+          card_last4: string | null
+          created_at: string
+          created_by: string | null
+          failure_reason: string | null
+          id: string
+          kind: string
+          method: string
+          notes: string | null
+          provider: string
+          provider_reference: string | null
+          refunded_amount: number
+          reservation_id: string
+          status: string
+          updated_at: string
+          voided_at: string | null
+        }
+      }
+      refund_payment: {
+        Args: { _amount: number; _payment_id: string; _reason: string }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          payment_id: string
+          provider_reference: string | null
+          reason: string
+        }
+      }
+      reservation_amount_paid: {
+        Args: { _reservation_id: string }
+        Returns: number
+      }
+      reservation_arrival: {
+        Args: { _check_in: string }
+        Returns: string
+      }
+      reservation_balance: {
+        Args: { _reservation_id: string }
+        Returns: number
+      }
+      set_room_cover: { Args: { _image_id: string }; Returns: undefined }
+      start_card_payment: {
+        Args: {
+          _amount: number
+          _created_by: string
+          _kind: string
+          _provider: string
+          _reservation_id: string
+        }
+        Returns: {
+          amount: number
+          authorized_at: string | null
+          captured_at: string | null
+          card_brand: string | null
+          card_last4: string | null
+          created_at: string
+          created_by: string | null
+          failure_reason: string | null
+          id: string
+          kind: string
+          method: string
+          notes: string | null
+          provider: string
+          provider_reference: string | null
+          refunded_amount: number
+          reservation_id: string
+          status: string
+          updated_at: string
+          voided_at: string | null
+        }
+      }
+      take_invoice_number: {
+        Args: { _kind: string; _series: string }
+        Returns: {
+          code: string
+          created_at: string
+          issuer_address: string | null
+          issuer_name: string
+          issuer_tax_id: string
+          kind: string
+          name: string
+          next_number: number
+          resolution: string | null
+          updated_at: string
+        }
+      }
     }
     Enums: {
       app_role: "cliente" | "admin"
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Catálogo de comodidades de las habitaciones
+ * @module amenities
+ *
+ * @description
+ * Cada comodidad tiene nombre, categoría y la clave de un icono de lucide.
+ * La base de datos solo guarda la clave; aquí se traduce al componente, de
+ * modo que las claves válidas son las de AMENITY_ICONS. Una clave
+ * desconocida se muestra con el icono genérico.
+ */
+
+import {
+  Accessibility,
+  AirVent,
+  Baby,
+  Bath,
+  Briefcase,
+  Car,
+  Check,
+  CigaretteOff,
+  Coffee,
+  Dumbbell,
+  Heater,
+  Lock,
+  LucideIcon,
+  Mountain,
+  PawPrint,
+  Refrigerator,
+  ShowerHead,
+  Sofa,
+  Sun,
+  Tv,
+  UtensilsCrossed,
+  Waves,
+  Wifi,
+  Wind,
+  Wine,
+} from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type Amenity = Tables<"amenities">;
+
+export type AmenityCategory =
+  | "connectivity"
+  | "comfort"
+  | "bathroom"
+  | "food"
+  | "views"
+  | "accessibility"
+  | "other";
+
+// ============================================
+// CONSTANTS - Categorías e iconos
+// ============================================
+
+/** Categorías en el orden en que se agrupan */
+export const AMENITY_CATEGORIES: AmenityCategory[] = [
+  "connectivity",
+  "comfort",
+  "bathroom",
+  "food",
+  "views",
+  "accessibility",
+  "other",
+];
+
+export const AMENITY_CATEGORY_LABELS: Record<string, string> = {
+  connectivity: "Conectividad",
+  comfort: "Confort",
+  bathroom: "Baño",
+  food: "Comida y bebida",
+  views: "Vistas y exteriores",
+  accessibility: "Accesibilidad",
+  other: "Otros",
+};
+
+/** Iconos disponibles por clave, con su descripción para el selector */
+export const AMENITY_ICONS: Record<string, { icon: LucideIcon; label: string }> = {
+  check: { icon: Check, label: "Genérico" },
+  wifi: { icon: Wifi, label: "WiFi" },
+  tv: { icon: Tv, label: "Televisión" },
+  "air-vent": { icon: AirVent, label: "Aire acondicionado" },
+  heater: { icon: Heater, label: "Calefacción" },
+  lock: { icon: Lock, label: "Caja fuerte" },
+  briefcase: { icon: Briefcase, label: "Escritorio" },
+  sofa: { icon: Sofa, label: "Sala" },
+  bath: { icon: Bath, label: "Bañera" },
+  shower: { icon: ShowerHead, label: "Ducha" },
+  wind: { icon: Wind, label: "Secador" },
+  wine: { icon: Wine, label: "Minibar" },
+  fridge: { icon: Refrigerator, label: "Nevera" },
+  coffee: { icon: Coffee, label: "Cafetera" },
+  utensils: { icon: UtensilsCrossed, label: "Cocina / desayuno" },
+  sun: { icon: Sun, label: "Balcón / terraza" },
+  waves: { icon: Waves, label: "Mar / piscina" },
+  mountain: { icon: Mountain, label: "Montaña" },
+  accessibility: { icon: Accessibility, label: "Accesible" },
+  baby: { icon: Baby, label: "Cuna" },
+  "no-smoking": { icon: CigaretteOff, label: "Libre de humo" },
+  car: { icon: Car, label: "Parqueadero" },
+  gym: { icon: Dumbbell, label: "Gimnasio" },
+  paw: { icon: PawPrint, label: "Mascotas" },
+};
+
+// ============================================
+// HELPERS - Iconos y agrupación
+// ============================================
+
+/**
+ * Componente de icono para una clave, o el genérico si no existe
+ */
+export function getAmenityIcon(key: string): LucideIcon {
+  return AMENITY_ICONS[key]?.icon ?? Check;
+}
+
+/**
+ * Agrupa las comodidades por categoría, en el orden de AMENITY_CATEGORIES
+ * y sin categorías vacías
+ */
+export function groupAmenitiesByCategory(amenities: Amenity[]): [string, Amenity[]][] {
+  return AMENITY_CATEGORIES.map(
+    (category) => [category, amenities.filter((amenity) => amenity.category === category)] as [string, Amenity[]]
+  ).filter(([, items]) => items.length > 0);
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Interpretación de errores de la base de datos al reservar
+ * @module bookingErrors
+ *
+ * @description
+ * La tabla reservation_rooms tiene una restricción de exclusión que impide
+ * reservar la misma habitación en fechas solapadas. Cuando otra reserva se
+ * adelanta, PostgreSQL responde con el código 23P01 (exclusion_violation).
+ * La función create_reservation usa el mismo código para sus comprobaciones
+ * de disponibilidad y códigos estándar para el resto de validaciones.
+ * Este módulo traduce esos errores a mensajes para el usuario.
+ */
+
+import type { PostgrestError } from "@supabase/supabase-js";
+
+/** Código SQLSTATE de exclusion_violation */
+export const ROOM_UNAVAILABLE_ERROR_CODE = "23P01";
+
+/** Mensaje mostrado cuando la habitación fue tomada por otra reserva */
+export const ROOM_UNAVAILABLE_MESSAGE =
+  "Una de las habitaciones ya no está disponible para esas fechas. Por favor, elija otra habitación.";
+
+/**
+ * Códigos SQLSTATE de validaciones cuyo mensaje ya está redactado en español
+ * en la base de datos y puede mostrarse tal cual al usuario
+ * - 22007: fechas inválidas
+ * - 22023: parámetro inválido (huéspedes, capacidad, habitaciones)
+ * - 42501: permisos insuficientes
+ */
+const USER_FACING_ERROR_CODES = ["22007", "22023", "42501"];
+
+/**
+ * Indica si el error se debe a que la habitación ya está reservada
+ *
+ * @param {PostgrestError | null} error - Error devuelto por Supabase
+ * @returns {boolean} true si se violó la restricción de no solapamiento
+ */
+export function isRoomUnavailableError(error: PostgrestError | null): boolean {
+  return error?.code === ROOM_UNAVAILABLE_ERROR_CODE;
+}
+
+/**
+ * Devuelve el mensaje a mostrar para un error al crear una reserva
+ *
+ * @param {PostgrestError} error - Error devuelto por Supabase
+ * @param {string} [fallback] - Mensaje para errores inesperados
+ * @returns {string} Mensaje en español para el toast
+ */
+export function getBookingErrorMessage(
+  error: PostgrestError,
+  fallback = "Error al crear la reserva. Por favor, intente de nuevo."
+): string {
+  if (isRoomUnavailableError(error)) return ROOM_UNAVAILABLE_MESSAGE;
+  if (USER_FACING_ERROR_CODES.includes(error.code)) return error.message;
+  return fallback;
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Políticas de cancelación
+ * @module cancellationPolicy
+ *
+ * @description
+ * Una política es no reembolsable o gratuita hasta cierto número de horas
+ * antes de la llegada; pasado ese plazo se cobra una penalidad (la primera
+ * noche o un porcentaje del total). La reserva guarda una copia de la política
+ * vigente al crearla (reservations.cancellation_policy) y la penalidad la
+ * calcula la base de datos; aquí solo se interpreta y se describe.
+ */
+
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Campos de la política que se copian en la reserva */
+export type CancellationPolicy = Pick<
+  Tables<"cancellation_policies">,
+  "id" | "name" | "description" | "non_refundable" | "free_until_hours" | "penalty_kind" | "penalty_percent"
+>;
+
+// ============================================
+// CONSTANTS - Tipos de penalidad
+// ============================================
+
+export const PENALTY_KINDS = [
+  { value: "first_night", label: "Primera noche" },
+  { value: "percent", label: "Porcentaje del total" },
+];
+
+// ============================================
+// HELPERS - Interpretación y descripción
+// ============================================
+
+/**
+ * Convierte la copia JSON guardada en la reserva
+ * Devuelve null si la reserva no tiene política
+ */
+export const parseCancellationPolicy = (value: Json | null): CancellationPolicy | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const policy = value as Record<string, Json>;
+
+  return {
+    id: String(policy.id ?? ""),
+    name: String(policy.name ?? ""),
+    description: typeof policy.description === "string" ? policy.description : null,
+    non_refundable: policy.non_refundable === true,
+    free_until_hours: Number(policy.free_until_hours ?? 0),
+    penalty_kind: String(policy.penalty_kind ?? "first_night"),
+    penalty_percent: Number(policy.penalty_percent ?? 0),
+  };
+};
+
+/**
+ * Explica la política en una frase para el huésped
+ *
+ * @example
+ * describeCancellationPolicy(flexible)
+ * // "Cancelación gratuita hasta 48 horas antes de la llegada; después se cobra la primera noche"
+ */
+export const describeCancellationPolicy = (policy: CancellationPolicy): string => {
+  if (policy.non_refundable) {
+    return "No reembolsable: si cancela se cobra el total de la reserva";
+  }
+
+  const deadline =
+    policy.free_until_hours > 0
+      ? `hasta ${policy.free_until_hours} horas antes de la llegada`
+      : "hasta la hora de llegada";
+  const penalty =
+    policy.penalty_kind === "percent"
+      ? `el ${Number(policy.penalty_percent)}% del total`
+      : "la primera noche";
+
+  return `Cancelación gratuita ${deadline}; después se cobra ${penalty}`;
+};
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Correos de reservas
+ * @module emails
+ *
+ * @description
+ * Los correos (reserva recibida, confirmada, cancelada, recordatorio de
+ * llegada y agradecimiento) se ponen en cola en la base de datos cuando
+ * cambia la reserva, y los envía la función "send-emails". Este módulo
+ * presenta los nombres de las plantillas y pide el envío inmediato.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type EmailLogEntry = Tables<"email_log">;
+
+// ============================================
+// CONSTANTS - Nombres de plantillas
+// ============================================
+
+export const EMAIL_TEMPLATE_LABELS: Record<string, string> = {
+  booking_received: "Reserva recibida",
+  booking_confirmed: "Reserva confirmada",
+  booking_cancelled: "Reserva cancelada",
+  pre_arrival: "Recordatorio de llegada",
+  post_stay: "Agradecimiento",
+};
+
+// ============================================
+// API - Envío
+// ============================================
+
+/**
+ * Pide a la función de correos que envíe lo que haya en cola. No se espera
+ * el resultado: si falla, el envío programado lo reintenta.
+ */
+export function sendQueuedEmails(): void {
+  supabase.functions.invoke("send-emails").then(({ error }) => {
+    if (error) {
+      console.error("Error sending queued emails:", error);
+    }
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Datos del huésped guardados en reservations.guest_data
+ * @module guest
+ *
+ * @description
+ * guest_data es una columna JSONB: este módulo define su forma y los tipos de
+ * documento aceptados. El tipo de documento determina las exenciones de
+ * impuestos (p. ej. los extranjeros con pasaporte no pagan IVA).
+ *
+ * @design-decisions
+ * - Las reservas anteriores no tienen documentType: se tratan como cédula
+ */
+
+import type { Json } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Tipos de documento de identidad (valores guardados en la base de datos) */
+export type DocumentType = "cc" | "ce" | "passport";
+
+/**
+ * Datos del huésped principal de una reserva
+ * @interface GuestData
+ */
+export interface GuestData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  documentType?: DocumentType;
+  documentId: string;
+}
+
+// ============================================
+// CONSTANTS - Tipos de documento
+// ============================================
+
+export const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
+  { value: "cc", label: "Cédula de ciudadanía" },
+  { value: "ce", label: "Cédula de extranjería" },
+  { value: "passport", label: "Pasaporte" },
+];
+
+// ============================================
+// HELPERS - Lectura de guest_data
+// ============================================
+
+/**
+ * Interpreta la columna guest_data de una reserva
+ *
+ * @param {Json} value - Valor JSONB leído de la base de datos
+ * @returns {GuestData} Datos del huésped (campos vacíos si faltan)
+ */
+export const parseGuestData = (value: Json): GuestData => {
+  const data = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as Record<
+    string,
+    Json | undefined
+  >;
+  const text = (key: string) => (typeof data[key] === "string" ? (data[key] as string) : "");
+
+  return {
+    firstName: text("firstName"),
+    lastName: text("lastName"),
+    email: text("email"),
+    phone: text("phone"),
+    documentType: DOCUMENT_TYPES.some((t) => t.value === data.documentType)
+      ? (data.documentType as DocumentType)
+      : undefined,
+    documentId: text("documentId"),
+  };
+};
+
+/**
+ * Etiqueta legible de un tipo de documento
+ *
+ * @param {DocumentType} [type] - Tipo de documento
+ * @returns {string} Etiqueta en español ("Documento" si no se indicó)
+ */
+export const getDocumentTypeLabel = (type?: DocumentType) =>
+  DOCUMENT_TYPES.find((t) => t.value === type)?.label ?? "Documento";
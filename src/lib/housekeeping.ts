@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Limpieza de habitaciones
+ * @module housekeeping
+ *
+ * @description
+ * Cada habitación tiene un estado de limpieza independiente de
+ * rooms.status (disponibilidad y mantenimiento): sucia, en limpieza, limpia
+ * e inspeccionada. El check-out deja sucias las habitaciones de la reserva;
+ * el personal las avanza desde el tablero de limpieza. Solo una habitación
+ * inspeccionada está lista para recibir huéspedes.
+ */
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type HousekeepingStatus = "dirty" | "cleaning" | "clean" | "inspected";
+
+// ============================================
+// CONSTANTS - Estados en orden
+// ============================================
+
+/** Estados en el orden en que avanza la limpieza */
+export const HOUSEKEEPING_STATUSES: HousekeepingStatus[] = ["dirty", "cleaning", "clean", "inspected"];
+
+export const HOUSEKEEPING_STATUS_LABELS: Record<string, string> = {
+  dirty: "Sucia",
+  cleaning: "En limpieza",
+  clean: "Limpia",
+  inspected: "Inspeccionada",
+};
+
+/** Acción que lleva una habitación al estado siguiente */
+const NEXT_ACTION_LABELS: Record<string, string> = {
+  dirty: "Empezar limpieza",
+  cleaning: "Terminar limpieza",
+  clean: "Inspeccionar",
+};
+
+// ============================================
+// HELPERS - Avance de estados
+// ============================================
+
+/**
+ * Estado siguiente de la limpieza, o null si ya está inspeccionada
+ */
+export function getNextHousekeepingStatus(status: string): HousekeepingStatus | null {
+  const index = HOUSEKEEPING_STATUSES.indexOf(status as HousekeepingStatus);
+  return index >= 0 && index < HOUSEKEEPING_STATUSES.length - 1 ? HOUSEKEEPING_STATUSES[index + 1] : null;
+}
+
+export function getNextHousekeepingActionLabel(status: string): string | null {
+  return NEXT_ACTION_LABELS[status] ?? null;
+}
+
+/**
+ * Una habitación solo está lista para un check-in cuando fue inspeccionada
+ */
+export function isRoomReady(room: { housekeeping_status: string }): boolean {
+  return room.housekeeping_status === "inspected";
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Facturas y notas crédito
+ * @module invoices
+ *
+ * @description
+ * Las facturas se emiten en la base de datos (issue_invoice) copiando el folio
+ * de la reserva, con numeración consecutiva sin saltos por serie. Los
+ * reembolsos se corrigen con notas crédito (issue_credit_note). Este módulo
+ * define los tipos, las etiquetas y la exportación XML para el proveedor de
+ * facturación electrónica.
+ *
+ * @design-decisions
+ * - El XML sigue UBL 2.1 (Invoice y CreditNote), el formato que aceptan los
+ *   proveedores de facturación electrónica
+ * - El XML se genera solo con los datos guardados en la factura, sin la hora
+ *   de exportación ni datos de otras tablas: exportar dos veces la misma
+ *   factura, con o sin conexión, produce el mismo archivo
+ * - Los impuestos son líneas del folio pero en UBL van en TaxTotal, no como
+ *   líneas de la factura
+ */
+
+import type { Tables } from "@/integrations/supabase/types";
+import { DOCUMENT_TYPES } from "@/lib/guest";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type Invoice = Tables<"invoices">;
+
+export type InvoiceLine = Tables<"invoice_lines">;
+
+/** Factura o nota crédito con sus líneas */
+export type InvoiceWithLines = Invoice & { invoice_lines: InvoiceLine[] };
+
+export type BillingProfile = Tables<"billing_profiles">;
+
+/** Tipo de identificación tributaria: NIT o un documento de persona */
+export type TaxIdType = "nit" | "cc" | "ce" | "passport";
+
+// ============================================
+// CONSTANTS - Etiquetas y códigos
+// ============================================
+
+export const INVOICE_KIND_LABELS: Record<string, string> = {
+  invoice: "Factura de venta",
+  credit_note: "Nota crédito",
+};
+
+export const TAX_ID_TYPES: { value: TaxIdType; label: string }[] = [
+  { value: "nit", label: "NIT" },
+  ...DOCUMENT_TYPES,
+];
+
+/** Códigos de tipo de documento de la DIAN usados en schemeName */
+const TAX_ID_SCHEME_CODES: Record<string, string> = {
+  cc: "13",
+  ce: "22",
+  nit: "31",
+  passport: "41",
+};
+
+const UBL_NAMESPACES = [
+  'xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+  'xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"',
+].join(" ");
+
+// ============================================
+// HELPERS - Etiquetas y saldos
+// ============================================
+
+/**
+ * Etiqueta legible de un tipo de identificación
+ */
+export const getTaxIdTypeLabel = (type: string) =>
+  TAX_ID_TYPES.find((t) => t.value === type)?.label ?? "Documento";
+
+/**
+ * Importe de una factura que todavía no cubren sus notas crédito (mismo
+ * cálculo que invoice_open_amount)
+ *
+ * @param {Invoice} invoice - Factura
+ * @param {Invoice[]} documents - Documentos de la reserva, incluidas las notas crédito
+ */
+export function getInvoiceOpenAmount(invoice: Invoice, documents: Invoice[]): number {
+  const credited = documents
+    .filter((doc) => doc.corrects_invoice_id === invoice.id)
+    .reduce((sum, doc) => sum + Number(doc.total), 0);
+  return Math.round((Number(invoice.total) - credited) * 100) / 100;
+}
+
+// ============================================
+// XML - Exportación UBL 2.1
+// ============================================
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const formatXmlAmount = (value: number | null) => Number(value ?? 0).toFixed(2);
+
+/**
+ * Elemento con texto; se omite si no hay valor
+ */
+const element = (indent: number, tag: string, value: string | null | undefined, attributes = "") =>
+  value === null || value === undefined || value === ""
+    ? []
+    : [`${"  ".repeat(indent)}<${tag}${attributes ? ` ${attributes}` : ""}>${escapeXml(value)}</${tag}>`];
+
+/**
+ * Elemento con hijos
+ */
+const group = (indent: number, tag: string, children: string[]) => [
+  `${"  ".repeat(indent)}<${tag}>`,
+  ...children,
+  `${"  ".repeat(indent)}</${tag}>`,
+];
+
+/**
+ * Parte (emisor o cliente) con su identificación tributaria
+ */
+const party = (
+  indent: number,
+  name: string,
+  taxIdType: string,
+  taxId: string,
+  address: string | null,
+  email: string | null
+) =>
+  group(indent, "cac:Party", [
+    ...group(indent + 1, "cac:PartyName", element(indent + 2, "cbc:Name", name)),
+    ...(address
+      ? group(indent + 1, "cac:PostalAddress", element(indent + 2, "cbc:StreetName", address))
+      : []),
+    ...group(indent + 1, "cac:PartyTaxScheme", [
+      ...element(indent + 2, "cbc:RegistrationName", name),
+      ...element(indent + 2, "cbc:CompanyID", taxId, `schemeName="${TAX_ID_SCHEME_CODES[taxIdType] ?? ""}"`),
+      ...group(indent + 2, "cac:TaxScheme", element(indent + 3, "cbc:ID", "01")),
+    ]),
+    ...(email ? group(indent + 1, "cac:Contact", element(indent + 2, "cbc:ElectronicMail", email)) : []),
+  ]);
+
+/**
+ * Genera el XML UBL 2.1 de una factura o nota crédito
+ *
+ * @param {InvoiceWithLines} invoice - Documento con sus líneas
+ * @param {string} [correctedNumber] - Número de la factura que corrige una nota crédito
+ * @returns {string} Documento XML
+ */
+export function buildInvoiceXml(invoice: InvoiceWithLines, correctedNumber?: string): string {
+  const isCreditNote = invoice.kind === "credit_note";
+  const root = isCreditNote ? "CreditNote" : "Invoice";
+  const currency = `currencyID="${invoice.currency}"`;
+  const issuedAt = new Date(invoice.issued_at).toISOString();
+  const lines = [...invoice.invoice_lines].sort((a, b) => a.sort_order - b.sort_order);
+  const charges = lines.filter((line) => line.kind !== "tax");
+  const taxes = lines.filter((line) => line.kind === "tax");
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2" ${UBL_NAMESPACES}>`,
+    ...element(1, "cbc:UBLVersionID", "UBL 2.1"),
+    ...element(1, "cbc:ID", invoice.invoice_number),
+    ...element(1, "cbc:UUID", invoice.id),
+    ...element(1, "cbc:IssueDate", issuedAt.slice(0, 10)),
+    ...element(1, "cbc:IssueTime", `${issuedAt.slice(11, 19)}Z`),
+    ...element(1, isCreditNote ? "cbc:CreditNoteTypeCode" : "cbc:InvoiceTypeCode", isCreditNote ? "91" : "01"),
+    ...element(1, "cbc:Note", invoice.resolution),
+    ...element(1, "cbc:DocumentCurrencyCode", invoice.currency),
+    ...element(1, "cbc:LineCountNumeric", String(charges.length)),
+    ...(isCreditNote
+      ? [
+          ...group(1, "cac:DiscrepancyResponse", [
+            ...element(2, "cbc:ReferenceID", correctedNumber),
+            ...element(2, "cbc:Description", invoice.reason),
+          ]),
+          ...group(
+            1,
+            "cac:BillingReference",
+            group(2, "cac:InvoiceDocumentReference", element(3, "cbc:ID", correctedNumber))
+          ),
+        ]
+      : []),
+    ...group(1, "cac:OrderReference", element(2, "cbc:ID", invoice.reservation_id)),
+    ...group(1, "cac:AccountingSupplierParty", [
+      ...element(2, "cbc:AdditionalAccountID", "1"),
+      ...party(2, invoice.issuer_name, "nit", invoice.issuer_tax_id, invoice.issuer_address, null),
+    ]),
+    ...group(1, "cac:AccountingCustomerParty", [
+      ...element(2, "cbc:AdditionalAccountID", invoice.customer_tax_id_type === "nit" ? "1" : "2"),
+      ...party(
+        2,
+        invoice.customer_name,
+        invoice.customer_tax_id_type,
+        invoice.customer_tax_id,
+        invoice.customer_address,
+        invoice.customer_email
+      ),
+    ]),
+    ...(taxes.length > 0
+      ? group(1, "cac:TaxTotal", [
+          ...element(2, "cbc:TaxAmount", formatXmlAmount(invoice.tax_total), currency),
+          ...taxes.flatMap((tax) =>
+            group(2, "cac:TaxSubtotal", [
+              ...element(3, "cbc:TaxableAmount", formatXmlAmount(tax.unit_price), currency),
+              ...element(3, "cbc:TaxAmount", formatXmlAmount(tax.amount), currency),
+              ...group(3, "cac:TaxCategory", [
+                ...element(4, "cbc:Percent", formatXmlAmount(tax.rate)),
+                ...(tax.exempt ? element(4, "cbc:TaxExemptionReason", "Exento") : []),
+                ...group(4, "cac:TaxScheme", element(5, "cbc:Name", tax.description)),
+              ]),
+            ])
+          ),
+        ])
+      : []),
+    ...group(1, "cac:LegalMonetaryTotal", [
+      ...element(2, "cbc:LineExtensionAmount", formatXmlAmount(invoice.subtotal), currency),
+      ...element(2, "cbc:TaxExclusiveAmount", formatXmlAmount(invoice.subtotal), currency),
+      ...element(2, "cbc:TaxInclusiveAmount", formatXmlAmount(invoice.total), currency),
+      ...element(2, "cbc:PayableAmount", formatXmlAmount(invoice.total), currency),
+    ]),
+    ...charges.flatMap((line, index) =>
+      group(1, isCreditNote ? "cac:CreditNoteLine" : "cac:InvoiceLine", [
+        ...element(2, "cbc:ID", String(index + 1)),
+        ...element(
+          2,
+          isCreditNote ? "cbc:CreditedQuantity" : "cbc:InvoicedQuantity",
+          formatXmlAmount(line.quantity),
+          `unitCode="${line.kind === "lodging" ? "DAY" : "EA"}"`
+        ),
+        ...element(2, "cbc:LineExtensionAmount", formatXmlAmount(line.amount), currency),
+        ...group(2, "cac:Item", element(3, "cbc:Description", line.description)),
+        ...group(2, "cac:Price", element(3, "cbc:PriceAmount", formatXmlAmount(line.unit_price ?? line.amount), currency)),
+      ])
+    ),
+    `</${root}>`,
+  ];
+
+  return `${xml.join("\n")}\n`;
+}
+
+/**
+ * Descarga el XML de una factura como archivo <número>.xml
+ */
+export function downloadInvoiceXml(invoice: InvoiceWithLines, correctedNumber?: string) {
+  const blob = new Blob([buildInvoiceXml(invoice, correctedNumber)], { type: "application/xml" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${invoice.invoice_number}.xml`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
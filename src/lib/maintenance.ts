@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Órdenes de mantenimiento de habitaciones
+ * @module maintenance
+ *
+ * @description
+ * Una orden describe un problema de una habitación con su prioridad, quién
+ * lo atiende y fotos, y puede dejar la habitación fuera de servicio entre dos
+ * fechas (ambas incluidas). Mientras la orden no esté resuelta esas noches no
+ * se pueden reservar; la base de datos lo comprueba al buscar disponibilidad
+ * y al guardar cualquier reserva. Cada cambio de estado queda en
+ * maintenance_ticket_events.
+ *
+ * Las fotos se guardan en el bucket privado "maintenance-photos", en una
+ * carpeta por orden, y se muestran con URLs firmadas.
+ */
+
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type MaintenanceTicket = Tables<"maintenance_tickets">;
+
+export type MaintenanceTicketEvent = Tables<"maintenance_ticket_events">;
+
+export type MaintenanceTicketPhoto = Tables<"maintenance_ticket_photos">;
+
+/** Orden con su historial y sus fotos, tal como se muestra en la lista */
+export type MaintenanceTicketWithDetails = MaintenanceTicket & {
+  maintenance_ticket_events: MaintenanceTicketEvent[];
+  maintenance_ticket_photos: MaintenanceTicketPhoto[];
+};
+
+export type MaintenanceStatus = "open" | "in_progress" | "resolved";
+
+export type MaintenancePriority = "low" | "medium" | "high" | "urgent";
+
+// ============================================
+// CONSTANTS - Nombres y límites
+// ============================================
+
+export const MAINTENANCE_PHOTOS_BUCKET = "maintenance-photos";
+
+/** Tamaño máximo de cada foto */
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+/** Validez de las URLs firmadas de las fotos, en segundos */
+const PHOTO_URL_TTL = 60 * 60;
+
+export const MAINTENANCE_STATUS_LABELS: Record<string, string> = {
+  open: "Abierta",
+  in_progress: "En curso",
+  resolved: "Resuelta",
+};
+
+/** Prioridades de menor a mayor */
+export const MAINTENANCE_PRIORITIES: MaintenancePriority[] = ["low", "medium", "high", "urgent"];
+
+export const MAINTENANCE_PRIORITY_LABELS: Record<string, string> = {
+  low: "Baja",
+  medium: "Media",
+  high: "Alta",
+  urgent: "Urgente",
+};
+
+// ============================================
+// HELPERS - Presentación
+// ============================================
+
+/**
+ * Fechas fuera de servicio de una orden, o null si no bloquea fechas
+ */
+export function describeOutOfOrder(ticket: MaintenanceTicket): string | null {
+  if (!ticket.out_of_order_from || !ticket.out_of_order_until) return null;
+
+  const from = format(parseISODate(ticket.out_of_order_from), "d MMM yyyy", { locale: es });
+  const until = format(parseISODate(ticket.out_of_order_until), "d MMM yyyy", { locale: es });
+  return from === until ? from : `${from} – ${until}`;
+}
+
+// ============================================
+// API - Fotos
+// ============================================
+
+/**
+ * Sube fotos a la carpeta de la orden y las registra
+ *
+ * @returns {Promise<string | null>} Mensaje de error, o null si todas se subieron
+ */
+export async function uploadMaintenancePhotos(ticketId: string, files: File[]): Promise<string | null> {
+  for (const file of files) {
+    if (!file.type.startsWith("image/")) {
+      return `${file.name} no es una imagen`;
+    }
+    if (file.size > MAX_PHOTO_SIZE) {
+      return `${file.name} supera los 5MB`;
+    }
+
+    const extension = file.name.split(".").pop()?.toLowerCase() || "jpg";
+    const path = `${ticketId}/${crypto.randomUUID()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage.from(MAINTENANCE_PHOTOS_BUCKET).upload(path, file);
+    if (uploadError) {
+      console.error("Error uploading maintenance photo:", uploadError);
+      return `No se pudo subir ${file.name}`;
+    }
+
+    const { error } = await supabase.from("maintenance_ticket_photos").insert({ ticket_id: ticketId, path });
+    if (error) {
+      console.error("Error saving maintenance photo:", error);
+      await supabase.storage.from(MAINTENANCE_PHOTOS_BUCKET).remove([path]);
+      return `No se pudo guardar ${file.name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Elimina una foto del bucket y su registro
+ */
+export async function deleteMaintenancePhoto(photo: MaintenanceTicketPhoto): Promise<boolean> {
+  const { error: storageError } = await supabase.storage.from(MAINTENANCE_PHOTOS_BUCKET).remove([photo.path]);
+  if (storageError) {
+    console.error("Error deleting maintenance photo:", storageError);
+    return false;
+  }
+
+  const { error } = await supabase.from("maintenance_ticket_photos").delete().eq("id", photo.id);
+  if (error) {
+    console.error("Error deleting maintenance photo row:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * URLs firmadas de las fotos, por ruta
+ */
+export async function getMaintenancePhotoUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(MAINTENANCE_PHOTOS_BUCKET)
+    .createSignedUrls(paths, PHOTO_URL_TTL);
+
+  if (error) {
+    console.error("Error signing maintenance photo URLs:", error);
+    return {};
+  }
+  return Object.fromEntries(
+    (data || []).filter((item) => item.path && item.signedUrl).map((item) => [item.path as string, item.signedUrl])
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Pagos de reservas
+ * @module payments
+ *
+ * @description
+ * Los pagos con tarjeta se procesan en la función "payments" de Supabase, que
+ * habla con la pasarela configurada (una de prueba en desarrollo local) y
+ * guarda cada intento en la tabla payments. Este módulo envía las
+ * operaciones a esa función y presenta los estados.
+ *
+ * reservations.payment_status resume lo cobrado: sin pagar, abonada (por
+ * ejemplo, un depósito), pagada o reembolsada. Lo mantiene la base de datos.
+ *
+ * Los pagos tomados en el mostrador (efectivo, datáfono o transferencia) se
+ * registran con record_manual_payment y no pasan por la pasarela; sus
+ * reembolsos se registran con refund_payment. Todo reembolso lleva un motivo
+ * y queda en payment_refunds.
+ */
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type Payment = Tables<"payments">;
+
+export type PaymentRefund = Tables<"payment_refunds">;
+
+/** Pago con sus reembolsos, tal como se muestra en el folio */
+export type PaymentWithRefunds = Payment & { payment_refunds: PaymentRefund[] };
+
+/** Forma de pago: tarjeta, efectivo o transferencia */
+export type PaymentMethod = "cash" | "card" | "transfer";
+
+/** Depósito al reservar, saldo tras un depósito o pago del total */
+export type PaymentKind = "deposit" | "balance" | "full";
+
+/** Tarjeta tal como se envía a la función de pagos (no se guarda completa) */
+export interface CardDetails {
+  number: string;
+  expMonth: number;
+  expYear: number;
+  cvc: string;
+  holderName: string;
+}
+
+/** Resultado de una operación: el pago actualizado o un mensaje de error */
+export type PaymentResult = { payment: Payment; error: null } | { payment: null; error: string };
+
+/** Proveedor de los pagos registrados en el mostrador */
+export const MANUAL_PROVIDER = "manual";
+
+// ============================================
+// CONSTANTS - Depósito y nombres de estados
+// ============================================
+
+/** Porcentaje del total que se cobra como depósito al reservar */
+export const DEPOSIT_PERCENT = 30;
+
+export const RESERVATION_PAYMENT_STATUS_LABELS: Record<string, string> = {
+  unpaid: "Sin pagar",
+  partially_paid: "Abonada",
+  paid: "Pagada",
+  refunded: "Reembolsada",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Efectivo",
+  card: "Tarjeta",
+  transfer: "Transferencia",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: "En proceso",
+  authorized: "Autorizado",
+  captured: "Cobrado",
+  refunded: "Reembolsado",
+  voided: "Anulado",
+  failed: "Fallido",
+};
+
+// ============================================
+// HELPERS - Cálculos
+// ============================================
+
+/**
+ * Depósito de una reserva, redondeado a dos decimales
+ *
+ * @example
+ * getDepositAmount(350000) // 105000
+ */
+export function getDepositAmount(total: number): number {
+  return Math.round(total * DEPOSIT_PERCENT) / 100;
+}
+
+/**
+ * Importe cobrado y no reembolsado (mismo cálculo que reservation_amount_paid)
+ */
+export function getAmountPaid(payments: Payment[]): number {
+  return payments
+    .filter((payment) => ["captured", "refunded"].includes(payment.status))
+    .reduce((sum, payment) => sum + Number(payment.amount) - Number(payment.refunded_amount), 0);
+}
+
+/**
+ * Saldo pendiente: total menos lo cobrado. Es negativo si se cobró de más
+ * (por ejemplo, tras reducir la estancia) y hay que reembolsar.
+ */
+export function getBalanceDue(total: number, payments: Payment[]): number {
+  return Math.round((Number(total) - getAmountPaid(payments)) * 100) / 100;
+}
+
+/**
+ * Importe de un pago que todavía se puede reembolsar
+ */
+export function getRefundableAmount(payment: Payment): number {
+  if (!["captured", "refunded"].includes(payment.status)) return 0;
+  return Number(payment.amount) - Number(payment.refunded_amount);
+}
+
+// ============================================
+// API - Operaciones de pago
+// ============================================
+
+/**
+ * Llama a la función de pagos y extrae el mensaje de error que devuelve
+ */
+async function invokePayments(body: Record<string, unknown>, fallback: string): Promise<PaymentResult> {
+  const { data, error } = await supabase.functions.invoke<{ payment: Payment }>("payments", { body });
+
+  if (error) {
+    console.error("Error invoking payments function:", error);
+    const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    return { payment: null, error: details?.error ?? fallback };
+  }
+  return { payment: data.payment, error: null };
+}
+
+/**
+ * Autoriza y captura un pago con tarjeta para una reserva
+ */
+export function chargeReservation(
+  reservationId: string,
+  amount: number,
+  kind: PaymentKind,
+  card: CardDetails
+): Promise<PaymentResult> {
+  return invokePayments(
+    { action: "charge", reservationId, amount, kind, card },
+    "No se pudo procesar el pago"
+  );
+}
+
+/**
+ * Reembolsa parte o todo un pago. Los pagos en línea vuelven por la pasarela;
+ * los del mostrador solo se registran.
+ */
+export async function refundPayment(payment: Payment, amount: number, reason: string): Promise<string | null> {
+  if (payment.provider !== MANUAL_PROVIDER) {
+    const { error } = await invokePayments(
+      { action: "refund", paymentId: payment.id, amount, reason },
+      "No se pudo procesar el reembolso"
+    );
+    return error;
+  }
+
+  const { error } = await supabase.rpc("refund_payment", {
+    _payment_id: payment.id,
+    _amount: amount,
+    _reason: reason,
+  });
+  if (error) {
+    console.error("Error refunding payment:", error);
+    return getBookingErrorMessage(error, "No se pudo registrar el reembolso");
+  }
+  return null;
+}
+
+/**
+ * Registra un pago tomado en el mostrador
+ */
+export async function recordManualPayment(
+  reservationId: string,
+  amount: number,
+  method: PaymentMethod,
+  notes: string
+): Promise<string | null> {
+  const { error } = await supabase.rpc("record_manual_payment", {
+    _reservation_id: reservationId,
+    _amount: amount,
+    _method: method,
+    _notes: notes,
+  });
+  if (error) {
+    console.error("Error recording payment:", error);
+    return getBookingErrorMessage(error, "No se pudo registrar el pago");
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Estados de una reserva
+ * @module reservationStatus
+ *
+ * @description
+ * Nombres en español de los estados que puede tener una reserva. Las
+ * transiciones permitidas las define la tabla reservation_status_transitions
+ * y las aplica un trigger en la base de datos; aquí solo se presentan.
+ *
+ * Flujo normal: pending → confirmed → checked_in → checked_out → completed.
+ * Salidas laterales: cancelled (desde pending o confirmed) y no_show.
+ */
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/** Estados válidos (restricción reservations_status_check) */
+export type ReservationStatus =
+  | "pending"
+  | "confirmed"
+  | "checked_in"
+  | "checked_out"
+  | "completed"
+  | "cancelled"
+  | "no_show";
+
+// ============================================
+// CONSTANTS - Nombres de los estados
+// ============================================
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: "Pendiente",
+  confirmed: "Confirmada",
+  checked_in: "Hospedado",
+  checked_out: "Salida registrada",
+  completed: "Completada",
+  cancelled: "Cancelada",
+  no_show: "No se presentó",
+};
+
+// ============================================
+// HELPERS - Presentación
+// ============================================
+
+/**
+ * Nombre de un estado; los desconocidos se muestran tal cual
+ */
+export function getReservationStatusLabel(status: string): string {
+  return RESERVATION_STATUS_LABELS[status as ReservationStatus] ?? status;
+}
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Galería de fotos de las habitaciones
+ * @module roomImages
+ *
+ * @description
+ * Las fotos se guardan en el bucket público "room-images", en una carpeta por
+ * habitación, y se registran en room_images con su orden y la marca de
+ * portada. La base de datos copia la URL de la portada (o de la primera foto)
+ * en rooms.image_url.
+ *
+ * Antes de subir, cada foto se reduce en el navegador a un máximo de
+ * MAX_IMAGE_DIMENSION píxeles por lado y se guarda como JPEG, para que la
+ * galería cargue rápido aunque se suban fotos tomadas con el móvil.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+export type RoomImage = Tables<"room_images">;
+
+// ============================================
+// CONSTANTS - Límites
+// ============================================
+
+export const ROOM_IMAGES_BUCKET = "room-images";
+
+/** Lado mayor de las fotos una vez reducidas */
+const MAX_IMAGE_DIMENSION = 1600;
+
+/** Calidad JPEG de las fotos reducidas */
+const JPEG_QUALITY = 0.85;
+
+/** Tamaño máximo del archivo original */
+const MAX_SOURCE_SIZE = 20 * 1024 * 1024;
+
+// ============================================
+// HELPERS - Orden y redimensionado
+// ============================================
+
+/**
+ * Ordena las fotos de una habitación: la portada primero y luego por posición
+ */
+export function sortRoomImages(images: RoomImage[]): RoomImage[] {
+  return [...images].sort(
+    (a, b) => Number(b.is_cover) - Number(a.is_cover) || a.position - b.position
+  );
+}
+
+/**
+ * Reduce una imagen para que su lado mayor no supere MAX_IMAGE_DIMENSION
+ *
+ * @returns {Promise<Blob>} JPEG reducido (las imágenes pequeñas se recodifican igual)
+ */
+export async function resizeImage(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context not available");
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode image"))),
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+}
+
+// ============================================
+// API - Fotos
+// ============================================
+
+/**
+ * Reduce y sube fotos al final de la galería de una habitación
+ *
+ * @param {number} nextPosition - Posición de la primera foto nueva
+ * @returns {Promise<string | null>} Mensaje de error, o null si todas se subieron
+ */
+export async function uploadRoomImages(
+  roomId: string,
+  files: File[],
+  nextPosition: number
+): Promise<string | null> {
+  for (const [index, file] of files.entries()) {
+    if (!file.type.startsWith("image/")) {
+      return `${file.name} no es una imagen`;
+    }
+    if (file.size > MAX_SOURCE_SIZE) {
+      return `${file.name} supera los 20MB`;
+    }
+
+    let resized: Blob;
+    try {
+      resized = await resizeImage(file);
+    } catch (error) {
+      console.error("Error resizing room image:", error);
+      return `No se pudo procesar ${file.name}`;
+    }
+
+    const path = `${roomId}/${crypto.randomUUID()}.jpg`;
+    const { error: uploadError } = await supabase.storage
+      .from(ROOM_IMAGES_BUCKET)
+      .upload(path, resized, { contentType: "image/jpeg" });
+    if (uploadError) {
+      console.error("Error uploading room image:", uploadError);
+      return `No se pudo subir ${file.name}`;
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from(ROOM_IMAGES_BUCKET).getPublicUrl(path);
+
+    const { error } = await supabase
+      .from("room_images")
+      .insert({ room_id: roomId, path, url: publicUrl, position: nextPosition + index });
+    if (error) {
+      console.error("Error saving room image:", error);
+      await supabase.storage.from(ROOM_IMAGES_BUCKET).remove([path]);
+      return `No se pudo guardar ${file.name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Elimina una foto del bucket y de la galería
+ */
+export async function deleteRoomImage(image: RoomImage): Promise<boolean> {
+  const { error: storageError } = await supabase.storage.from(ROOM_IMAGES_BUCKET).remove([image.path]);
+  if (storageError) {
+    console.error("Error deleting room image:", storageError);
+    return false;
+  }
+
+  const { error } = await supabase.from("room_images").delete().eq("id", image.id);
+  if (error) {
+    console.error("Error deleting room image row:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Guarda el nuevo orden de la galería (posición = índice en la lista)
+ */
+export async function reorderRoomImages(images: RoomImage[]): Promise<boolean> {
+  const results = await Promise.all(
+    images.map((image, position) =>
+      image.position === position
+        ? Promise.resolve({ error: null })
+        : supabase.from("room_images").update({ position }).eq("id", image.id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed) {
+    console.error("Error reordering room images:", failed.error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Marca una foto como portada de su habitación
+ */
+export async function setRoomCover(image: RoomImage): Promise<boolean> {
+  const { error } = await supabase.rpc("set_room_cover", { _image_id: image.id });
+  if (error) {
+    console.error("Error setting room cover:", error);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Utilidades de fechas para estadías
+ * @module stay
+ *
+ * @description
+ * Funciones compartidas para convertir y comparar las fechas de una estadía.
+ * Las columnas check_in/check_out son de tipo DATE en la base de datos, por lo
+ * que siempre se intercambian como cadenas "yyyy-MM-dd" sin zona horaria.
+ *
+ * @design-decisions
+ * - parseISO en lugar de new Date(string): new Date("2025-01-10") se interpreta
+ *   en UTC y puede mostrar el día anterior en zonas horarias negativas
+ * - La noche de salida no se cuenta: una estadía del 10 al 12 son 2 noches
+ */
+
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+/**
+ * Rango de fechas de una estadía
+ * @interface StayDates
+ */
+export interface StayDates {
+  checkIn?: Date;
+  checkOut?: Date;
+}
+
+// ============================================
+// CONSTANTS - Claves de almacenamiento
+// ============================================
+
+/** Clave de localStorage donde se guardan las fechas elegidas en /rooms */
+const STAY_DATES_KEY = "stayDates";
+
+// ============================================
+// HELPERS - Conversión y cálculo
+// ============================================
+
+/**
+ * Convierte una fecha al formato DATE de PostgreSQL
+ *
+ * @example
+ * toISODate(new Date(2025, 0, 10)) // "2025-01-10"
+ */
+export function toISODate(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Convierte una columna DATE ("yyyy-MM-dd") a Date en hora local
+ */
+export function parseISODate(value: string): Date {
+  return parseISO(value);
+}
+
+/**
+ * Número de noches entre la entrada y la salida
+ * Devuelve 0 si el rango no es válido
+ */
+export function getNights(checkIn?: Date, checkOut?: Date): number {
+  if (!checkIn || !checkOut) return 0;
+  return Math.max(differenceInCalendarDays(checkOut, checkIn), 0);
+}
+
+/**
+ * Indica si el rango forma una estadía válida (al menos una noche)
+ */
+export function isValidStay(checkIn?: Date, checkOut?: Date): boolean {
+  return getNights(checkIn, checkOut) > 0;
+}
+
+// ============================================
+// PERSISTENCE - Fechas elegidas entre páginas
+// ============================================
+
+/**
+ * Recupera las fechas elegidas en la página de habitaciones
+ */
+export function loadStayDates(): StayDates {
+  const saved = localStorage.getItem(STAY_DATES_KEY);
+  if (!saved) return {};
+
+  try {
+    const { checkIn, checkOut } = JSON.parse(saved);
+    return {
+      checkIn: checkIn ? parseISODate(checkIn) : undefined,
+      checkOut: checkOut ? parseISODate(checkOut) : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Guarda las fechas elegidas para que la página de reserva las reutilice
+ */
+export function saveStayDates({ checkIn, checkOut }: StayDates) {
+  localStorage.setItem(
+    STAY_DATES_KEY,
+    JSON.stringify({
+      checkIn: checkIn ? toISODate(checkIn) : null,
+      checkOut: checkOut ? toISODate(checkOut) : null,
+    })
+  );
+}
@@ -0,0 +1,344 @@
+/**
+ * @fileoverview Página de pago de una reserva
+ * @module Checkout
+ *
+ * @description
+ * Paso de pago después de crear la reserva (/checkout/:reservationId). El
+ * huésped elige pagar un depósito o el total y lo paga con tarjeta a través
+ * de la función de pagos. También sirve para pagar más tarde el saldo
+ * pendiente desde "Mis Reservas".
+ *
+ * @design-decisions
+ * - El pago es opcional al reservar: "Pagar más tarde" lleva a la
+ *   confirmación y la reserva queda como "Sin pagar"
+ * - El depósito solo se ofrece si todavía no se ha pagado nada; después solo
+ *   queda pagar el saldo
+ * - El saldo se calcula con los pagos cobrados; la función de pagos vuelve a
+ *   comprobarlo contra la base de datos antes de cobrar
+ * - Los datos de la tarjeta solo se envían a la función de pagos; en la base
+ *   de datos se guardan la marca y los últimos cuatro dígitos
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { CreditCard, Loader2, SearchX } from "lucide-react";
+import { toast } from "sonner";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Folio, FolioLine } from "@/components/Folio";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  chargeReservation,
+  DEPOSIT_PERCENT,
+  getAmountPaid,
+  getDepositAmount,
+  Payment,
+} from "@/lib/payments";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+interface Reservation {
+  id: string;
+  status: string;
+  total_price: number;
+  payment_status: string;
+  reservation_line_items: FolioLine[];
+  payments: Payment[];
+}
+
+// ============================================
+// VALIDATION SCHEMA - Datos de la tarjeta
+// ============================================
+
+const cardSchema = z.object({
+  holderName: z.string().min(3, "Indique el nombre como aparece en la tarjeta"),
+  number: z
+    .string()
+    .transform((value) => value.replace(/\D/g, ""))
+    .pipe(z.string().min(12, "Número de tarjeta inválido").max(19, "Número de tarjeta inválido")),
+  expiry: z.string().regex(/^(0[1-9]|1[0-2])\/\d{2}$/, "Use el formato MM/AA"),
+  cvc: z.string().regex(/^\d{3,4}$/, "CVC inválido"),
+});
+
+// ============================================
+// COMPONENT - Página de pago
+// ============================================
+
+const Checkout = () => {
+  const navigate = useNavigate();
+  const { reservationId } = useParams<{ reservationId: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const [reservation, setReservation] = useState<Reservation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [option, setOption] = useState<"deposit" | "full">("deposit");
+  const [paying, setPaying] = useState(false);
+
+  const form = useForm<z.input<typeof cardSchema>, unknown, z.output<typeof cardSchema>>({
+    resolver: zodResolver(cardSchema),
+    defaultValues: { holderName: "", number: "", expiry: "", cvc: "" },
+  });
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [navigate, user, authLoading]);
+
+  // ============================================
+  // DATA FETCHING - Reserva y pagos
+  // ============================================
+
+  useEffect(() => {
+    if (!user || !reservationId) return;
+
+    const fetchReservation = async () => {
+      const { data, error } = await supabase
+        .from("reservations")
+        .select("id, status, total_price, payment_status, reservation_line_items(*), payments(*)")
+        .eq("id", reservationId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching reservation:", error);
+        toast.error("Error al cargar la reserva");
+      }
+      setReservation(data);
+      setLoading(false);
+    };
+
+    fetchReservation();
+  }, [user, reservationId]);
+
+  if (authLoading || (user && loading)) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-accent" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!reservation) {
+    return (
+      <DashboardLayout>
+        <div className="p-6">
+          <Card className="max-w-xl mx-auto shadow-elegant">
+            <CardContent className="py-12 text-center space-y-4">
+              <SearchX className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">No se encontró la reserva solicitada</p>
+              <Button variant="gold" onClick={() => navigate("/my-reservations")}>
+                Ver mis reservas
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // CALCULATIONS - Importes
+  // ============================================
+
+  const paid = getAmountPaid(reservation.payments);
+  const balance = Math.max(Number(reservation.total_price) - paid, 0);
+  const deposit = getDepositAmount(Number(reservation.total_price));
+  const canPayDeposit = paid === 0 && deposit > 0 && deposit < balance;
+  const amount = canPayDeposit && option === "deposit" ? deposit : balance;
+  const payable = ["pending", "confirmed", "checked_in"].includes(reservation.status) && balance > 0;
+
+  // ============================================
+  // HANDLERS - Pago
+  // ============================================
+
+  const onSubmit = async (card: z.output<typeof cardSchema>) => {
+    const [expMonth, expYear] = card.expiry.split("/").map(Number);
+
+    setPaying(true);
+    const { error } = await chargeReservation(
+      reservation.id,
+      amount,
+      paid > 0 ? "balance" : canPayDeposit && option === "deposit" ? "deposit" : "full",
+      { number: card.number, expMonth, expYear, cvc: card.cvc, holderName: card.holderName }
+    );
+    setPaying(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success(`Pago de $${amount.toLocaleString()} realizado correctamente`);
+    navigate(`/confirmation/${reservation.id}`);
+  };
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-serif font-bold mb-2">Pago de la reserva</h1>
+            <p className="text-muted-foreground">
+              Reserva #{reservation.id.slice(0, 8).toUpperCase()}
+            </p>
+          </div>
+
+          <Card className="shadow-elegant">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <CardTitle>Resumen</CardTitle>
+                <PaymentStatusBadge status={reservation.payment_status} />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Folio lines={reservation.reservation_line_items} />
+              <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Pagado</span>
+                  <span>${paid.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Saldo pendiente</span>
+                  <span className="text-accent">${balance.toLocaleString()}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {payable ? (
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5 text-accent" />
+                  Pago con tarjeta
+                </CardTitle>
+                <CardDescription>
+                  Puede pagar ahora o más tarde desde "Mis Reservas"
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    {canPayDeposit && (
+                      <RadioGroup
+                        value={option}
+                        onValueChange={(value) => setOption(value as "deposit" | "full")}
+                      >
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="deposit" id="option_deposit" />
+                          <Label htmlFor="option_deposit" className="font-normal">
+                            Depósito del {DEPOSIT_PERCENT}%: ${deposit.toLocaleString()}
+                          </Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="full" id="option_full" />
+                          <Label htmlFor="option_full" className="font-normal">
+                            Total: ${balance.toLocaleString()}
+                          </Label>
+                        </div>
+                      </RadioGroup>
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="holderName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Titular de la tarjeta</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="cc-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="number"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Número de tarjeta</FormLabel>
+                          <FormControl>
+                            <Input inputMode="numeric" autoComplete="cc-number" placeholder="4242 4242 4242 4242" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="expiry"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Vencimiento</FormLabel>
+                            <FormControl>
+                              <Input autoComplete="cc-exp" placeholder="MM/AA" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="cvc"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>CVC</FormLabel>
+                            <FormControl>
+                              <Input inputMode="numeric" autoComplete="cc-csc" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-2 pt-2">
+                      <Button type="submit" variant="gold" className="flex-1" disabled={paying}>
+                        {paying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Pagar ${amount.toLocaleString()}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="flex-1"
+                        disabled={paying}
+                        onClick={() => navigate(`/confirmation/${reservation.id}`)}
+                      >
+                        Pagar más tarde
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+          ) : (
+            <Button variant="gold" className="w-full" onClick={() => navigate(`/confirmation/${reservation.id}`)}>
+              Ver confirmación
+            </Button>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Checkout;
@@ -1,66 +1,135 @@
+/**
+ * @fileoverview Página de confirmación de una reserva
+ * @module Confirmation
+ *
+ * @description
+ * Muestra la reserva indicada en la URL (/confirmation/:reservationId) con sus
+ * habitaciones, datos del huésped, folio y estado de pago, y permite descargar
+ * el comprobante.
+ *
+ * @design-decisions
+ * - Los datos se cargan de Supabase y no de localStorage: el enlace funciona
+ *   al recargar, desde otro dispositivo o al compartirlo
+ * - Las políticas RLS deciden quién puede verla (el titular o un admin); si la
+ *   consulta no devuelve nada se muestra "no encontrada" sin distinguir entre
+ *   reservas ajenas e inexistentes
+ */
+
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { CheckCircle2, Download, Home, Loader2 } from "lucide-react";
+import { CheckCircle2, Home, Loader2, SearchX } from "lucide-react";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { useAuth } from "@/hooks/useAuth";
-import { toast } from "sonner";
+import { Folio, FolioLine } from "@/components/Folio";
+import { ReservationVoucher } from "@/components/ReservationVoucher";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { GuestData, getDocumentTypeLabel, parseGuestData } from "@/lib/guest";
+import { getNights, parseISODate } from "@/lib/stay";
+import { getAmountPaid } from "@/lib/payments";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
 
 interface Room {
   id: string;
   name: string;
   type: string;
   capacity: number;
-  price: number;
-}
-
-interface GuestData {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  documentId: string;
 }
 
 interface Reservation {
+  id: string;
   rooms: Room[];
-  checkIn: string;
-  checkOut: string;
+  checkIn: Date;
+  checkOut: Date;
   guests: number;
   guestData: GuestData;
   total: number;
   confirmationNumber: string;
+  lines: FolioLine[];
+  paymentStatus: string;
+  amountPaid: number;
 }
 
+// ============================================
+// COMPONENT - Página de confirmación
+// ============================================
+
 const Confirmation = () => {
   const navigate = useNavigate();
+  const { reservationId } = useParams<{ reservationId: string }>();
   const { user, loading: authLoading } = useAuth();
   const [reservation, setReservation] = useState<Reservation | null>(null);
+  const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (!authLoading && !user) {
       navigate("/login");
-      return;
     }
+  }, [navigate, user, authLoading]);
 
-    const currentReservation = localStorage.getItem("currentReservation");
-    if (!currentReservation) {
-      toast.error("No se encontró información de reserva");
-      navigate("/rooms");
-      return;
-    }
+  // ============================================
+  // DATA FETCHING - Reserva, folio y habitaciones
+  // ============================================
 
-    setReservation(JSON.parse(currentReservation));
-  }, [navigate, user, authLoading]);
+  useEffect(() => {
+    if (!user || !reservationId) return;
+
+    const fetchReservation = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("reservations")
+          .select("*, reservation_line_items(*), payments(*)")
+          .eq("id", reservationId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+          setReservation(null);
+          return;
+        }
+
+        const { data: rooms, error: roomsError } = await supabase
+          .from("rooms")
+          .select("id, name, type, capacity")
+          .in("id", data.room_ids);
+
+        if (roomsError) throw roomsError;
+
+        setReservation({
+          id: data.id,
+          rooms: data.room_ids
+            .map((id) => rooms?.find((room) => room.id === id))
+            .filter((room): room is Room => !!room),
+          checkIn: parseISODate(data.check_in),
+          checkOut: parseISODate(data.check_out),
+          guests: data.guests,
+          guestData: parseGuestData(data.guest_data),
+          total: data.total_price,
+          confirmationNumber: data.id.slice(0, 8).toUpperCase(),
+          lines: [...data.reservation_line_items].sort((a, b) => a.sort_order - b.sort_order),
+          paymentStatus: data.payment_status,
+          amountPaid: getAmountPaid(data.payments),
+        });
+      } catch (error) {
+        console.error("Error fetching reservation:", error);
+        setReservation(null);
+      } finally {
+        setLoading(false);
+      }
+    };
 
-  const handleDownload = () => {
-    toast.success("Descargando confirmación de reserva...");
-  };
+    fetchReservation();
+  }, [user, reservationId]);
 
-  if (authLoading) {
+  if (authLoading || (user && loading)) {
     return (
       <DashboardLayout>
         <div className="flex items-center justify-center h-full">
@@ -71,12 +140,25 @@ const Confirmation = () => {
   }
 
   if (!reservation) {
-    return null;
+    return (
+      <DashboardLayout>
+        <div className="p-6">
+          <Card className="max-w-xl mx-auto shadow-elegant">
+            <CardContent className="py-12 text-center space-y-4">
+              <SearchX className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">No se encontró la reserva solicitada</p>
+              <Button variant="gold" onClick={() => navigate("/my-reservations")}>
+                Ver mis reservas
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </DashboardLayout>
+    );
   }
 
-  const checkIn = new Date(reservation.checkIn);
-  const checkOut = new Date(reservation.checkOut);
-  const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+  const { checkIn, checkOut, lines } = reservation;
+  const nights = getNights(checkIn, checkOut);
 
   return (
     <DashboardLayout>
@@ -122,7 +204,7 @@ const Confirmation = () => {
                       <span className="font-medium">{reservation.guestData.phone}</span>
                     </div>
                     <div>
-                      <span className="text-muted-foreground">Documento:</span>{" "}
+                      <span className="text-muted-foreground">{getDocumentTypeLabel(reservation.guestData.documentType)}:</span>{" "}
                       <span className="font-medium">{reservation.guestData.documentId}</span>
                     </div>
                   </div>
@@ -177,20 +259,41 @@ const Confirmation = () => {
                       <div className="text-sm text-muted-foreground">
                         {nights} {nights === 1 ? "noche" : "noches"}
                       </div>
-                      <div className="text-sm text-muted-foreground">
-                        ${Math.round(reservation.total / nights)} por noche
-                      </div>
                     </div>
+                    {lines.length > 0 && (
+                      <div className="mb-4">
+                        <Folio lines={lines} showTotal={false} />
+                      </div>
+                    )}
                     <div className="flex items-center justify-between">
-                      <div className="font-semibold text-lg">Total a pagar</div>
+                      <div className="font-semibold text-lg">Total a pagar (impuestos incluidos)</div>
                       <div className="text-3xl font-bold text-accent">
                         ${reservation.total}
                       </div>
                     </div>
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t text-sm">
+                      <div className="flex items-center gap-2">
+                        <PaymentStatusBadge status={reservation.paymentStatus} />
+                        <span className="text-muted-foreground">
+                          Pagado: ${reservation.amountPaid.toLocaleString()}
+                        </span>
+                      </div>
+                      {reservation.amountPaid < reservation.total && (
+                        <Button variant="outline" size="sm" onClick={() => navigate(`/checkout/${reservation.id}`)}>
+                          Pagar saldo
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
 
                 <div className="border-t pt-6 space-y-3">
+                  <ReservationVoucher
+                    reservation={reservation}
+                    variant="gold"
+                    size="lg"
+                    className="w-full"
+                  />
                   <Button
                     variant="outline"
                     className="w-full"
@@ -2,14 +2,38 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { Folio, FolioLine } from "@/components/Folio";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { ReservationVoucher } from "@/components/ReservationVoucher";
+import { InvoicePdfButton } from "@/components/InvoiceDocument";
+import { ModifyReservationDialog } from "@/components/ModifyReservationDialog";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json, Tables } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
+import { parseGuestData } from "@/lib/guest";
+import { parseISODate, toISODate } from "@/lib/stay";
+import { describeCancellationPolicy, parseCancellationPolicy } from "@/lib/cancellationPolicy";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { INVOICE_KIND_LABELS, InvoiceWithLines } from "@/lib/invoices";
+import { sendQueuedEmails } from "@/lib/emails";
+import { getReservationStatusLabel } from "@/lib/reservationStatus";
 
 interface Reservation {
   id: string;
@@ -21,13 +45,36 @@ interface Reservation {
   guest_data: any;
   created_at: string;
   room_ids: string[];
+  reservation_line_items: FolioLine[];
+  reservation_status_history: Tables<"reservation_status_history">[];
+  reservation_changes: Tables<"reservation_changes">[];
+  cancellation_policy: Json | null;
+  cancellation_penalty: number | null;
+  cancellation_refund: number | null;
+  payment_status: string;
+  invoices: InvoiceWithLines[];
+}
+
+type CancellationQuote = Database["public"]["Functions"]["quote_cancellation"]["Returns"][number];
+
+interface Room {
+  id: string;
+  name: string;
+  type: string;
+  capacity: number;
 }
 
 const MyReservations = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [rooms, setRooms] = useState<Record<string, Room>>({});
   const [loading, setLoading] = useState(true);
+  const [cancelTarget, setCancelTarget] = useState<Reservation | null>(null);
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [cancelling, setCancelling] = useState(false);
+  const [modifyTarget, setModifyTarget] = useState<Reservation | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -45,12 +92,24 @@ const MyReservations = () => {
     try {
       const { data, error } = await supabase
         .from("reservations")
-        .select("*")
+        .select("*, reservation_line_items(*), reservation_status_history(*), reservation_changes(*), invoices(*, invoice_lines(*))")
         .eq("user_id", user?.id)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
       setReservations(data || []);
+
+      // Habitaciones de las reservas (para el comprobante)
+      const roomIds = [...new Set((data || []).flatMap((r) => r.room_ids))];
+      if (roomIds.length > 0) {
+        const { data: roomsData, error: roomsError } = await supabase
+          .from("rooms")
+          .select("id, name, type, capacity")
+          .in("id", roomIds);
+
+        if (roomsError) throw roomsError;
+        setRooms(Object.fromEntries((roomsData || []).map((room) => [room.id, room])));
+      }
     } catch (error: any) {
       console.error("Error fetching reservations:", error);
       toast.error("Error al cargar las reservas");
@@ -59,44 +118,123 @@ const MyReservations = () => {
     }
   };
 
-  const handleCancelReservation = async (reservationId: string, checkIn: string) => {
-    const checkInDate = new Date(checkIn);
-    const today = new Date();
-
-    if (checkInDate <= today) {
+  /**
+   * Abre el diálogo de cancelación con la penalidad y el reembolso actuales
+   */
+  const openCancelDialog = async (reservation: Reservation) => {
+    if (reservation.check_in <= toISODate(new Date())) {
       toast.error("No se puede cancelar una reserva que ya ha iniciado");
       return;
     }
 
-    if (!confirm("¿Estás seguro de que deseas cancelar esta reserva?")) {
+    setCancelTarget(reservation);
+    setCancelQuote(null);
+    setCancelReason("");
+
+    const { data, error } = await supabase.rpc("quote_cancellation", {
+      _reservation_id: reservation.id,
+    });
+
+    if (error) {
+      console.error("Error quoting cancellation:", error);
+      toast.error("No se pudo calcular la penalidad de cancelación");
+      setCancelTarget(null);
       return;
     }
+    setCancelQuote(data?.[0] ?? null);
+  };
 
-    try {
-      const { error } = await supabase
-        .from("reservations")
-        .update({ status: "cancelled" })
-        .eq("id", reservationId);
+  /**
+   * Abre el diálogo de modificación; como la cancelación, solo antes de la llegada
+   */
+  const openModifyDialog = (reservation: Reservation) => {
+    if (reservation.check_in <= toISODate(new Date())) {
+      toast.error("No se puede modificar una reserva que ya ha iniciado");
+      return;
+    }
+    setModifyTarget(reservation);
+  };
 
-      if (error) throw error;
-      toast.success("Reserva cancelada exitosamente");
-      fetchReservations();
-    } catch (error: any) {
+  /**
+   * Resume un cambio registrado: fechas, huéspedes, habitaciones y total
+   */
+  const describeChange = (change: Tables<"reservation_changes">) => {
+    const formatDate = (value: string) => format(parseISODate(value), "dd/MM/yyyy");
+    const parts: string[] = [];
+
+    if (change.previous_check_in !== change.check_in || change.previous_check_out !== change.check_out) {
+      parts.push(
+        `Fechas ${formatDate(change.previous_check_in)}-${formatDate(change.previous_check_out)} → ${formatDate(change.check_in)}-${formatDate(change.check_out)}`
+      );
+    }
+    if (change.previous_guests !== change.guests) {
+      parts.push(`Huéspedes ${change.previous_guests} → ${change.guests}`);
+    }
+    if (change.previous_room_ids.join() !== change.room_ids.join()) {
+      const names = (ids: string[]) => ids.map((id) => rooms[id]?.name ?? id.slice(0, 8)).join(", ");
+      parts.push(`Habitaciones ${names(change.previous_room_ids)} → ${names(change.room_ids)}`);
+    }
+    parts.push(
+      `Total $${Number(change.previous_total).toLocaleString()} → $${Number(change.total_price).toLocaleString()}`
+    );
+    if (Number(change.refund_due) > 0) {
+      parts.push(`Reembolso $${Number(change.refund_due).toLocaleString()}`);
+    }
+    return parts.join(" · ");
+  };
+
+  /**
+   * Cancela la reserva; la base de datos calcula y guarda penalidad y reembolso
+   */
+  const handleCancelReservation = async () => {
+    if (!cancelTarget) return;
+
+    setCancelling(true);
+    const { data, error } = await supabase
+      .from("reservations")
+      .update({ status: "cancelled", cancellation_reason: cancelReason.trim() || null })
+      .eq("id", cancelTarget.id)
+      .select("cancellation_refund")
+      .single();
+    setCancelling(false);
+
+    if (error) {
       console.error("Error cancelling reservation:", error);
-      toast.error("Error al cancelar la reserva");
+      toast.error(getBookingErrorMessage(error, "Error al cancelar la reserva"));
+      return;
     }
+
+    sendQueuedEmails();
+    const refund = Number(data.cancellation_refund ?? 0);
+    toast.success(
+      refund > 0 ? `Reserva cancelada. Reembolso: $${refund.toLocaleString()}` : "Reserva cancelada"
+    );
+    setCancelTarget(null);
+    fetchReservations();
+  };
+
+  /**
+   * Política de cancelación copiada en la reserva, en una frase
+   */
+  const getPolicyText = (reservation: Reservation) => {
+    const policy = parseCancellationPolicy(reservation.cancellation_policy);
+    return policy
+      ? `${policy.name}: ${describeCancellationPolicy(policy)}`
+      : "Cancelación gratuita hasta la llegada";
   };
 
   const getStatusBadge = (status: string) => {
-    const statusMap: Record<string, { label: string; variant: any }> = {
-      pending: { label: "Pendiente", variant: "secondary" },
-      confirmed: { label: "Confirmada", variant: "default" },
-      completed: { label: "Completada", variant: "outline" },
-      cancelled: { label: "Cancelada", variant: "destructive" },
+    const variantMap: Record<string, any> = {
+      pending: "secondary",
+      confirmed: "default",
+      checked_in: "default",
+      checked_out: "outline",
+      completed: "outline",
+      cancelled: "destructive",
+      no_show: "destructive",
     };
 
-    const statusInfo = statusMap[status] || { label: status, variant: "secondary" };
-    return <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>;
+    return <Badge variant={variantMap[status] || "secondary"}>{getReservationStatusLabel(status)}</Badge>;
   };
 
   if (authLoading || loading) {
@@ -140,7 +278,10 @@ const MyReservations = () => {
                         Creada el {format(new Date(reservation.created_at), "dd 'de' MMMM, yyyy", { locale: es })}
                       </p>
                     </div>
-                    {getStatusBadge(reservation.status)}
+                    <div className="flex gap-2">
+                      {getStatusBadge(reservation.status)}
+                      <PaymentStatusBadge status={reservation.payment_status} />
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -173,20 +314,200 @@ const MyReservations = () => {
                     </div>
                   </div>
 
-                  {reservation.status === "pending" && (
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleCancelReservation(reservation.id, reservation.check_in)}
-                    >
-                      Cancelar reserva
-                    </Button>
+                  {reservation.reservation_line_items.length > 0 && (
+                    <div className="mb-4">
+                      <p className="text-sm text-muted-foreground mb-2">Detalle de cargos</p>
+                      <div className="bg-muted/30 rounded-lg p-3">
+                        <Folio lines={reservation.reservation_line_items} />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="mb-4">
+                    <p className="text-sm text-muted-foreground mb-2">Política de cancelación</p>
+                    <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-sm">
+                      <p>{getPolicyText(reservation)}</p>
+                      {reservation.status === "cancelled" && reservation.cancellation_penalty !== null && (
+                        <p>
+                          <span className="font-medium">Penalidad:</span>{" "}
+                          ${Number(reservation.cancellation_penalty).toLocaleString()}
+                          {" · "}
+                          <span className="font-medium">Reembolso:</span>{" "}
+                          ${Number(reservation.cancellation_refund ?? 0).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="mb-4">
+                    <p className="text-sm text-muted-foreground mb-2">Historial</p>
+                    <div className="bg-muted/30 rounded-lg p-3">
+                      <StatusTimeline
+                        entries={reservation.reservation_status_history}
+                        getActorLabel={(userId) =>
+                          userId === user?.id ? "Usted" : userId ? "Personal del hotel" : "Sistema"
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  {reservation.reservation_changes.length > 0 && (
+                    <div className="mb-4">
+                      <p className="text-sm text-muted-foreground mb-2">Modificaciones</p>
+                      <div className="bg-muted/30 rounded-lg p-3 space-y-2 text-sm">
+                        {[...reservation.reservation_changes]
+                          .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+                          .map((change) => (
+                            <div key={change.id}>
+                              <p>{describeChange(change)}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {format(new Date(change.changed_at), "dd/MM/yyyy HH:mm", { locale: es })}
+                                {Number(change.change_fee) > 0 &&
+                                  ` · Cargo por modificación: $${Number(change.change_fee).toLocaleString()}`}
+                              </p>
+                            </div>
+                          ))}
+                      </div>
+                    </div>
                   )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {reservation.status !== "cancelled" && (
+                      <ReservationVoucher
+                        reservation={{
+                          id: reservation.id,
+                          checkIn: parseISODate(reservation.check_in),
+                          checkOut: parseISODate(reservation.check_out),
+                          guests: reservation.guests,
+                          total: reservation.total_price,
+                          guestData: parseGuestData(reservation.guest_data),
+                          rooms: reservation.room_ids
+                            .map((id) => rooms[id])
+                            .filter((room): room is Room => !!room),
+                          lines: reservation.reservation_line_items,
+                        }}
+                        size="sm"
+                      />
+                    )}
+
+                    {[...reservation.invoices]
+                      .sort((a, b) => a.issued_at.localeCompare(b.issued_at))
+                      .map((invoice) => (
+                        <InvoicePdfButton
+                          key={invoice.id}
+                          invoice={invoice}
+                          correctedNumber={
+                            reservation.invoices.find((i) => i.id === invoice.corrects_invoice_id)?.invoice_number
+                          }
+                          label={`${INVOICE_KIND_LABELS[invoice.kind] ?? "Factura"} ${invoice.invoice_number}`}
+                        />
+                      ))}
+
+                    {["pending", "confirmed", "checked_in"].includes(reservation.status) &&
+                      ["unpaid", "partially_paid"].includes(reservation.payment_status) && (
+                        <Button variant="gold" size="sm" onClick={() => navigate(`/checkout/${reservation.id}`)}>
+                          Pagar
+                        </Button>
+                      )}
+
+                    {["pending", "confirmed"].includes(reservation.status) && (
+                      <Button variant="outline" size="sm" onClick={() => openModifyDialog(reservation)}>
+                        Modificar reserva
+                      </Button>
+                    )}
+
+                    {["pending", "confirmed"].includes(reservation.status) && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => openCancelDialog(reservation)}
+                      >
+                        Cancelar reserva
+                      </Button>
+                    )}
+                  </div>
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
+
+        {/* Modificación de fechas, habitaciones o huéspedes */}
+        <ModifyReservationDialog
+          reservation={modifyTarget}
+          currentRooms={
+            modifyTarget?.room_ids.map((id) => rooms[id]).filter((room): room is Room => !!room) ?? []
+          }
+          onClose={() => setModifyTarget(null)}
+          onModified={() => {
+            setModifyTarget(null);
+            fetchReservations();
+          }}
+        />
+
+        {/* Confirmación de cancelación */}
+        <Dialog
+          open={!!cancelTarget}
+          onOpenChange={(open) => !open && !cancelling && setCancelTarget(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cancelar reserva #{cancelTarget?.id.slice(0, 8)}</DialogTitle>
+              <DialogDescription>
+                {cancelTarget && getPolicyText(cancelTarget)}
+              </DialogDescription>
+            </DialogHeader>
+            {!cancelQuote ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-accent" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Total de la reserva</span>
+                    <span>${Number(cancelTarget?.total_price ?? 0).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Penalidad</span>
+                    <span className="text-destructive">${Number(cancelQuote.penalty).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Reembolso</span>
+                    <span className="text-accent">${Number(cancelQuote.refund).toLocaleString()}</span>
+                  </div>
+                  {cancelQuote.free_until && new Date(cancelQuote.free_until) > new Date() && (
+                    <p className="text-xs text-muted-foreground pt-1">
+                      Sin penalidad hasta el{" "}
+                      {format(new Date(cancelQuote.free_until), "dd 'de' MMMM, HH:mm", { locale: es })}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cancelReason">Motivo (opcional)</Label>
+                  <Textarea
+                    id="cancelReason"
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={cancelling}>
+                Volver
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleCancelReservation}
+                disabled={cancelling || !cancelQuote}
+              >
+                {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirmar cancelación
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Página de notificaciones
+ * @module Notifications
+ *
+ * @description
+ * Lista completa de las notificaciones del usuario (clientes y
+ * administradores), con filtro de no leídas, marcar como leídas y eliminar.
+ * Cada notificación enlaza con la página donde se atiende.
+ */
+
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Bell, Check, Loader2, Trash2 } from "lucide-react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Notification, useNotifications } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+
+// ============================================
+// COMPONENT - Página de notificaciones
+// ============================================
+
+const Notifications = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead, remove } = useNotifications();
+  const [onlyUnread, setOnlyUnread] = useState(false);
+
+  const visible = onlyUnread ? notifications.filter((n) => !n.read_at) : notifications;
+
+  /**
+   * Abre el enlace de la notificación y la marca como leída
+   */
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read_at) {
+      await markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-3xl">
+        <div className="mb-8 flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-serif font-bold mb-2">Notificaciones</h1>
+            <p className="text-muted-foreground">
+              {unreadCount > 0 ? `${unreadCount} sin leer` : "Estás al día"}
+            </p>
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="outline" onClick={() => markAllAsRead()}>
+              <Check className="mr-2 h-4 w-4" />
+              Marcar todas como leídas
+            </Button>
+          )}
+        </div>
+
+        <Tabs value={onlyUnread ? "unread" : "all"} onValueChange={(value) => setOnlyUnread(value === "unread")}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="all">Todas</TabsTrigger>
+            <TabsTrigger value="unread">Sin leer</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-accent" />
+          </div>
+        ) : visible.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 flex flex-col items-center gap-3 text-muted-foreground">
+              <Bell className="h-8 w-8" />
+              <p>{onlyUnread ? "No tienes notificaciones sin leer" : "No tienes notificaciones"}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((notification) => (
+              <Card key={notification.id} className={cn(!notification.read_at && "border-accent/50 bg-accent/5")}>
+                <CardContent className="p-4 flex items-start gap-4">
+                  <button
+                    type="button"
+                    className="flex-1 text-left"
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <p className={cn(!notification.read_at && "font-semibold")}>{notification.title}</p>
+                    {notification.body && <p className="text-sm text-muted-foreground">{notification.body}</p>}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {format(new Date(notification.created_at), "d 'de' MMMM yyyy, HH:mm", { locale: es })}
+                    </p>
+                  </button>
+                  <div className="flex gap-1">
+                    {!notification.read_at && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Marcar como leída"
+                        onClick={() => markAsRead(notification.id)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Eliminar"
+                      onClick={() => remove(notification.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Notifications;
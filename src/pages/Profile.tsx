@@ -5,6 +5,8 @@
  * @description
  * Permite a los usuarios ver y editar su información personal, incluyendo
  * nombre, teléfono y foto de perfil. El email no es editable por seguridad.
+ * También guarda los datos de facturación (razón social y NIT o documento)
+ * que se usan en las facturas en lugar de los del huésped.
  * 
  * @design-decisions
  * - Email no editable: previene problemas de autenticación y seguridad
@@ -12,6 +14,8 @@
  * - Limpieza de avatares antiguos: evita acumulación de archivos no usados
  * - Formato de avatar: organizado por user_id para fácil gestión
  * - Iniciales como fallback: UX amigable cuando no hay foto
+ * - Datos de facturación opcionales: sin ellos la factura sale a nombre del
+ *   huésped principal de la reserva
  */
 
 import { useState, useEffect } from "react";
@@ -21,11 +25,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Camera, Loader2, User, Mail, Phone } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { TAX_ID_TYPES, TaxIdType } from "@/lib/invoices";
 
 // ============================================
 // TYPES - Definición de tipos
@@ -43,6 +55,28 @@ interface Profile {
   avatar_url: string | null;
 }
 
+/**
+ * Datos de facturación editables
+ * @interface BillingForm
+ */
+interface BillingForm {
+  legal_name: string;
+  tax_id_type: TaxIdType;
+  tax_id: string;
+  address: string;
+  city: string;
+  email: string;
+}
+
+const emptyBilling = (): BillingForm => ({
+  legal_name: "",
+  tax_id_type: "nit",
+  tax_id: "",
+  address: "",
+  city: "",
+  email: "",
+});
+
 // ============================================
 // COMPONENT - Página de perfil
 // ============================================
@@ -83,6 +117,10 @@ const Profile = () => {
   const [name, setName] = useState("");
   const [phone, setPhone] = useState("");
 
+  /** Datos de facturación (vacíos si el usuario no los ha guardado) */
+  const [billing, setBilling] = useState<BillingForm>(emptyBilling);
+  const [savingBilling, setSavingBilling] = useState(false);
+
   // ============================================
   // EFFECTS - Carga y autenticación
   // ============================================
@@ -102,6 +140,7 @@ const Profile = () => {
   useEffect(() => {
     if (user) {
       fetchProfile();
+      fetchBillingProfile();
     }
   }, [user]);
 
@@ -133,6 +172,32 @@ const Profile = () => {
     setLoading(false);
   };
 
+  /**
+   * Obtiene los datos de facturación, si el usuario los guardó
+   */
+  const fetchBillingProfile = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("billing_profiles")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching billing profile:", error);
+    } else if (data) {
+      setBilling({
+        legal_name: data.legal_name,
+        tax_id_type: data.tax_id_type as TaxIdType,
+        tax_id: data.tax_id,
+        address: data.address || "",
+        city: data.city || "",
+        email: data.email || "",
+      });
+    }
+  };
+
   // ============================================
   // HANDLERS - Manejadores de eventos
   // ============================================
@@ -160,6 +225,37 @@ const Profile = () => {
     setSaving(false);
   };
 
+  /**
+   * Guarda los datos de facturación (crea el registro la primera vez)
+   */
+  const handleSaveBilling = async () => {
+    if (!user) return;
+
+    if (!billing.legal_name.trim() || !billing.tax_id.trim()) {
+      toast.error("Indique la razón social y el número de identificación");
+      return;
+    }
+
+    setSavingBilling(true);
+    const { error } = await supabase.from("billing_profiles").upsert({
+      user_id: user.id,
+      legal_name: billing.legal_name.trim(),
+      tax_id_type: billing.tax_id_type,
+      tax_id: billing.tax_id.trim(),
+      address: billing.address.trim() || null,
+      city: billing.city.trim() || null,
+      email: billing.email.trim() || null,
+    });
+
+    if (error) {
+      console.error("Error saving billing profile:", error);
+      toast.error("Error al guardar los datos de facturación");
+    } else {
+      toast.success("Datos de facturación guardados");
+    }
+    setSavingBilling(false);
+  };
+
   /**
    * Maneja la subida de una nueva foto de perfil
    * 
@@ -418,6 +514,103 @@ const Profile = () => {
               </Button>
             </CardContent>
           </Card>
+
+          {/* ============================================ */}
+          {/* BILLING FORM - Datos de facturación */}
+          {/* ============================================ */}
+          <Card className="shadow-elegant">
+            <CardHeader>
+              <CardTitle className="font-serif text-xl">Datos de facturación</CardTitle>
+              <CardDescription>
+                Opcional: si los completa, sus facturas se emitirán con estos datos
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="legal_name">Nombre o razón social</Label>
+                <Input
+                  id="legal_name"
+                  value={billing.legal_name}
+                  onChange={(e) => setBilling({ ...billing, legal_name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Tipo de identificación</Label>
+                  <Select
+                    value={billing.tax_id_type}
+                    onValueChange={(value) => setBilling({ ...billing, tax_id_type: value as TaxIdType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAX_ID_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tax_id">Número</Label>
+                  <Input
+                    id="tax_id"
+                    value={billing.tax_id}
+                    onChange={(e) => setBilling({ ...billing, tax_id: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="billing_address">Dirección</Label>
+                  <Input
+                    id="billing_address"
+                    value={billing.address}
+                    onChange={(e) => setBilling({ ...billing, address: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="billing_city">Ciudad</Label>
+                  <Input
+                    id="billing_city"
+                    value={billing.city}
+                    onChange={(e) => setBilling({ ...billing, city: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="billing_email">Email para facturas</Label>
+                <Input
+                  id="billing_email"
+                  type="email"
+                  value={billing.email}
+                  onChange={(e) => setBilling({ ...billing, email: e.target.value })}
+                  placeholder={profile?.email}
+                />
+              </div>
+
+              <Button
+                variant="gold"
+                className="w-full"
+                onClick={handleSaveBilling}
+                disabled={savingBilling}
+              >
+                {savingBilling ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Guardando...
+                  </>
+                ) : (
+                  "Guardar datos de facturación"
+                )}
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </DashboardLayout>
@@ -0,0 +1,326 @@
+/**
+ * @fileoverview Gestión del catálogo de comodidades
+ * @module AdminAmenities
+ *
+ * @description
+ * Permite a los administradores mantener las comodidades que se asignan a
+ * las habitaciones: nombre, categoría, icono y orden dentro de su categoría.
+ *
+ * @design-decisions
+ * - Los nombres son únicos sin distinguir mayúsculas, para que no vuelvan a
+ *   convivir "WiFi" y "wifi"
+ * - Eliminar una comodidad la quita de todas las habitaciones
+ * - Los iconos se eligen de una lista cerrada (AMENITY_ICONS)
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useAmenities } from "@/hooks/useAmenities";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Amenity,
+  AMENITY_CATEGORIES,
+  AMENITY_CATEGORY_LABELS,
+  AMENITY_ICONS,
+  getAmenityIcon,
+  groupAmenitiesByCategory,
+} from "@/lib/amenities";
+
+// ============================================
+// CONSTANTS - Valores por defecto
+// ============================================
+
+const emptyForm = () => ({
+  name: "",
+  category: "other",
+  icon: "check",
+  position: 0,
+});
+
+// ============================================
+// COMPONENT - Página de comodidades
+// ============================================
+
+const AdminAmenities = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const { amenities, loading, refetch } = useAmenities();
+  const [roomCounts, setRoomCounts] = useState<Record<string, number>>({});
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAmenity, setEditingAmenity] = useState<Amenity | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // ============================================
+  // DATA FETCHING - Carga de datos
+  // ============================================
+
+  const fetchRoomCounts = useCallback(async () => {
+    const { data, error } = await supabase.from("room_amenities").select("amenity_id");
+
+    if (error) {
+      console.error("Error fetching room amenities:", error);
+      return;
+    }
+    const counts: Record<string, number> = {};
+    (data || []).forEach((link) => {
+      counts[link.amenity_id] = (counts[link.amenity_id] ?? 0) + 1;
+    });
+    setRoomCounts(counts);
+  }, []);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchRoomCounts();
+    }
+  }, [user, isAdmin, fetchRoomCounts]);
+
+  // ============================================
+  // HANDLERS - Manejadores de eventos
+  // ============================================
+
+  const openDialog = (amenity: Amenity | null) => {
+    setEditingAmenity(amenity);
+    setFormData(
+      amenity
+        ? {
+            name: amenity.name,
+            category: amenity.category,
+            icon: amenity.icon,
+            position: amenity.position,
+          }
+        : emptyForm()
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amenityData = { ...formData, name: formData.name.trim() };
+
+    const { error } = editingAmenity
+      ? await supabase.from("amenities").update(amenityData).eq("id", editingAmenity.id)
+      : await supabase.from("amenities").insert(amenityData);
+
+    if (error) {
+      console.error("Error saving amenity:", error);
+      toast.error(
+        error.code === "23505" ? "Ya existe una comodidad con ese nombre" : "Error al guardar la comodidad"
+      );
+      return;
+    }
+    toast.success(editingAmenity ? "Comodidad actualizada" : "Comodidad creada");
+    setDialogOpen(false);
+    refetch();
+  };
+
+  const handleDelete = async (amenity: Amenity) => {
+    const rooms = roomCounts[amenity.id] ?? 0;
+    const warning = rooms > 0 ? ` Se quitará de ${rooms} habitación(es).` : "";
+    if (!confirm(`¿Estás seguro de eliminar "${amenity.name}"?${warning}`)) return;
+
+    const { error } = await supabase.from("amenities").delete().eq("id", amenity.id);
+    if (error) {
+      console.error("Error deleting amenity:", error);
+      toast.error("Error al eliminar");
+      return;
+    }
+    toast.success("Eliminado correctamente");
+    refetch();
+    fetchRoomCounts();
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">
+                  Comodidades
+                </h1>
+                <p className="text-muted-foreground">
+                  Catálogo que se asigna a las habitaciones y por el que filtran los huéspedes
+                </p>
+              </div>
+              <Button variant="gold" onClick={() => openDialog(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nueva Comodidad
+              </Button>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle>Comodidades ({amenities.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Comodidad</TableHead>
+                      <TableHead>Categoría</TableHead>
+                      <TableHead>Orden</TableHead>
+                      <TableHead>Habitaciones</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {groupAmenitiesByCategory(amenities).flatMap(([category, items]) =>
+                      items.map((amenity) => {
+                        const Icon = getAmenityIcon(amenity.icon);
+
+                        return (
+                          <TableRow key={amenity.id}>
+                            <TableCell>
+                              <span className="flex items-center gap-2 font-medium">
+                                <Icon className="h-4 w-4 text-accent" />
+                                {amenity.name}
+                              </span>
+                            </TableCell>
+                            <TableCell>{AMENITY_CATEGORY_LABELS[category] ?? category}</TableCell>
+                            <TableCell>{amenity.position}</TableCell>
+                            <TableCell>{roomCounts[amenity.id] ?? 0}</TableCell>
+                            <TableCell className="text-right space-x-2">
+                              <Button variant="ghost" size="icon" onClick={() => openDialog(amenity)}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => handleDelete(amenity)}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingAmenity ? "Editar Comodidad" : "Nueva Comodidad"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Nombre</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="WiFi"
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Categoría</Label>
+                      <Select
+                        value={formData.category}
+                        onValueChange={(category) => setFormData({ ...formData, category })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AMENITY_CATEGORIES.map((category) => (
+                            <SelectItem key={category} value={category}>
+                              {AMENITY_CATEGORY_LABELS[category]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Icono</Label>
+                      <Select value={formData.icon} onValueChange={(icon) => setFormData({ ...formData, icon })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(AMENITY_ICONS).map(([key, { icon: Icon, label }]) => (
+                            <SelectItem key={key} value={key}>
+                              <span className="flex items-center gap-2">
+                                <Icon className="h-4 w-4" />
+                                {label}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="position">Orden</Label>
+                      <Input
+                        id="position"
+                        type="number"
+                        value={formData.position}
+                        onChange={(e) => setFormData({ ...formData, position: parseInt(e.target.value) })}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold">
+                      {editingAmenity ? "Actualizar" : "Crear"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminAmenities;
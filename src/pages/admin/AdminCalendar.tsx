@@ -0,0 +1,580 @@
+/**
+ * @fileoverview Calendario de ocupación (tape chart) para recepción
+ * @module AdminCalendar
+ *
+ * @description
+ * Vista de línea de tiempo con las habitaciones como filas y los días como
+ * columnas. Cada reserva se dibuja como una barra coloreada según su estado.
+ * El personal puede avanzar por semanas o meses, abrir una reserva con un clic
+ * y arrastrarla a otra habitación o a otra fecha de llegada.
+ *
+ * @design-decisions
+ * - Cada columna es una noche: la barra ocupa desde el check-in hasta la
+ *   noche anterior al check-out, igual que los rangos de reservation_rooms
+ * - Las reservas canceladas o no presentadas no ocupan habitación y no se dibujan
+ * - Al arrastrar se comprueba primero contra las barras cargadas (la vista
+ *   previa se pinta en rojo si choca) y después move_reservation vuelve a
+ *   validar en la base de datos con bloqueo, capacidad y retenciones
+ * - Mover conserva las noches y el precio acordado; solo cambian la
+ *   habitación y las fechas
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  isSameDay,
+  isWeekend,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { es } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Loader2, Wrench } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Folio } from "@/components/Folio";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { parseGuestData } from "@/lib/guest";
+import { getReservationStatusLabel } from "@/lib/reservationStatus";
+import { cn } from "@/lib/utils";
+import { getNights, parseISODate, toISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type Room = Tables<"rooms">;
+
+type Reservation = Tables<"reservations"> & {
+  reservation_line_items: Tables<"reservation_line_items">[];
+};
+
+type View = "week" | "month";
+
+/** Barra que se está arrastrando */
+interface DragState {
+  reservation: Reservation;
+  roomId: string;
+  /** Noche de la reserva por la que se agarró la barra */
+  offset: number;
+}
+
+/** Destino provisional mientras se arrastra */
+interface DropPreview {
+  roomId: string;
+  checkIn: Date;
+  free: boolean;
+}
+
+/** Movimiento pendiente de confirmar */
+interface PendingMove {
+  reservation: Reservation;
+  fromRoomId: string;
+  toRoomId: string;
+  checkIn: Date;
+}
+
+// ============================================
+// CONSTANTS - Vistas y estados
+// ============================================
+
+/** Ancho de cada columna (noche) en píxeles según la vista */
+const DAY_WIDTH: Record<View, number> = { week: 120, month: 40 };
+
+/** Ancho de la columna con el nombre de la habitación */
+const ROOM_COLUMN_WIDTH = 160;
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-amber-500 text-white",
+  confirmed: "bg-accent text-accent-foreground",
+  checked_in: "bg-emerald-600 text-white",
+  checked_out: "bg-muted-foreground text-background",
+  completed: "bg-muted-foreground text-background",
+};
+
+/** Estados que ocupan la habitación (mismos que is_blocking_status) */
+const OCCUPYING_STATUSES = ["pending", "confirmed", "checked_in"];
+
+/** Solo se arrastran las reservas cuyo huésped aún no ha llegado */
+const MOVABLE_STATUSES = ["pending", "confirmed"];
+
+const getRangeStart = (date: Date, view: View) =>
+  view === "week" ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+
+// ============================================
+// COMPONENT - Página del calendario
+// ============================================
+
+const AdminCalendar = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const [view, setView] = useState<View>("week");
+  const [rangeStart, setRangeStart] = useState(() => getRangeStart(new Date(), "week"));
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Reservation | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [preview, setPreview] = useState<DropPreview | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [moving, setMoving] = useState(false);
+
+  const dayCount = view === "week" ? 7 : getDaysInMonth(rangeStart);
+  const dayWidth = DAY_WIDTH[view];
+  const days = useMemo(
+    () => Array.from({ length: dayCount }, (_, i) => addDays(rangeStart, i)),
+    [rangeStart, dayCount]
+  );
+  const rangeEnd = addDays(rangeStart, dayCount);
+  const from = toISODate(rangeStart);
+  const to = toISODate(rangeEnd);
+
+  // ============================================
+  // DATA FETCHING - Habitaciones y reservas del rango
+  // ============================================
+
+  const fetchData = useCallback(async () => {
+    const [roomsResult, reservationsResult] = await Promise.all([
+      supabase.from("rooms").select("*").order("name"),
+      supabase
+        .from("reservations")
+        .select("*, reservation_line_items(*)")
+        .lt("check_in", to)
+        .gt("check_out", from)
+        .in("status", Object.keys(STATUS_STYLES)),
+    ]);
+
+    if (roomsResult.error || reservationsResult.error) {
+      console.error("Error fetching calendar:", roomsResult.error || reservationsResult.error);
+      toast.error("Error al cargar el calendario");
+    } else {
+      setRooms(roomsResult.data || []);
+      setReservations(reservationsResult.data || []);
+    }
+    setLoading(false);
+  }, [from, to]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchData();
+    }
+  }, [user, isAdmin, fetchData]);
+
+  // ============================================
+  // HELPERS - Posición y disponibilidad
+  // ============================================
+
+  /** Reservas dibujadas en la fila de una habitación */
+  const getRoomReservations = (roomId: string) =>
+    reservations.filter((reservation) => reservation.room_ids.includes(roomId));
+
+  /**
+   * Comprobación previa contra las reservas cargadas; la definitiva la hace
+   * move_reservation en la base de datos
+   */
+  const isFree = (room: Room, checkIn: Date, nights: number, reservationId: string) => {
+    if (room.status === "maintenance") return false;
+    const checkOut = addDays(checkIn, nights);
+
+    return !getRoomReservations(room.id).some(
+      (reservation) =>
+        reservation.id !== reservationId &&
+        OCCUPYING_STATUSES.includes(reservation.status) &&
+        parseISODate(reservation.check_in) < checkOut &&
+        parseISODate(reservation.check_out) > checkIn
+    );
+  };
+
+  /** Posición horizontal de una estadía recortada al rango visible */
+  const getBarStyle = (checkIn: Date, checkOut: Date) => {
+    const start = Math.max(differenceInCalendarDays(checkIn, rangeStart), 0);
+    const end = Math.min(differenceInCalendarDays(checkOut, rangeStart), dayCount);
+    return { left: start * dayWidth, width: Math.max(end - start, 0) * dayWidth };
+  };
+
+  const getGuestName = (reservation: Reservation) => {
+    const guest = parseGuestData(reservation.guest_data);
+    return `${guest.firstName ?? ""} ${guest.lastName ?? ""}`.trim() || reservation.id.slice(0, 8);
+  };
+
+  const getRoomName = (roomId: string) => rooms.find((room) => room.id === roomId)?.name ?? "—";
+
+  // ============================================
+  // HANDLERS - Navegación
+  // ============================================
+
+  const handleViewChange = (value: string) => {
+    if (!value) return;
+    setView(value as View);
+    setRangeStart(getRangeStart(rangeStart, value as View));
+  };
+
+  const handleShift = (direction: 1 | -1) => {
+    setRangeStart((current) =>
+      view === "week" ? addWeeks(current, direction) : addMonths(current, direction)
+    );
+  };
+
+  // ============================================
+  // HANDLERS - Arrastrar y soltar
+  // ============================================
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, reservation: Reservation, roomId: string) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const hiddenNights = Math.max(differenceInCalendarDays(rangeStart, parseISODate(reservation.check_in)), 0);
+
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", reservation.id);
+    setDrag({
+      reservation,
+      roomId,
+      offset: hiddenNights + Math.floor((e.clientX - bounds.left) / dayWidth),
+    });
+  };
+
+  const handleDragEnd = () => {
+    setDrag(null);
+    setPreview(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, room: Room, day: Date) => {
+    if (!drag) return;
+    e.preventDefault();
+
+    const checkIn = addDays(day, -drag.offset);
+    if (preview?.roomId === room.id && isSameDay(preview.checkIn, checkIn)) return;
+
+    const nights = getNights(parseISODate(drag.reservation.check_in), parseISODate(drag.reservation.check_out));
+    setPreview({ roomId: room.id, checkIn, free: isFree(room, checkIn, nights, drag.reservation.id) });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, room: Room, day: Date) => {
+    e.preventDefault();
+    if (!drag) return;
+
+    const { reservation, roomId, offset } = drag;
+    const checkIn = addDays(day, -offset);
+    const nights = getNights(parseISODate(reservation.check_in), parseISODate(reservation.check_out));
+    handleDragEnd();
+
+    if (room.id === roomId && isSameDay(checkIn, parseISODate(reservation.check_in))) return;
+
+    if (room.id !== roomId && reservation.room_ids.includes(room.id)) {
+      toast.error("La reserva ya incluye esa habitación");
+      return;
+    }
+
+    if (!isFree(room, checkIn, nights, reservation.id)) {
+      toast.error("La habitación no está disponible para esas fechas");
+      return;
+    }
+
+    setPendingMove({ reservation, fromRoomId: roomId, toRoomId: room.id, checkIn });
+  };
+
+  /**
+   * Aplica el movimiento confirmado con move_reservation
+   */
+  const handleConfirmMove = async () => {
+    if (!pendingMove) return;
+
+    setMoving(true);
+    const { error } = await supabase.rpc("move_reservation", {
+      _reservation_id: pendingMove.reservation.id,
+      _from_room_id: pendingMove.fromRoomId,
+      _to_room_id: pendingMove.toRoomId,
+      _check_in: toISODate(pendingMove.checkIn),
+    });
+    setMoving(false);
+
+    if (error) {
+      console.error("Error moving reservation:", error);
+      toast.error(getBookingErrorMessage(error, "Error al mover la reserva"));
+    } else {
+      toast.success("Reserva movida");
+    }
+
+    setPendingMove(null);
+    fetchData();
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  const today = new Date();
+  const pendingNights = pendingMove
+    ? getNights(parseISODate(pendingMove.reservation.check_in), parseISODate(pendingMove.reservation.check_out))
+    : 0;
+  const selectedGuest = selected ? parseGuestData(selected.guest_data) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">
+                  Calendario de Ocupación
+                </h1>
+                <p className="text-muted-foreground">
+                  Arrastre una reserva para cambiarla de habitación o de fecha
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <ToggleGroup type="single" variant="outline" value={view} onValueChange={handleViewChange}>
+                  <ToggleGroupItem value="week">Semana</ToggleGroupItem>
+                  <ToggleGroupItem value="month">Mes</ToggleGroupItem>
+                </ToggleGroup>
+                <Button variant="outline" size="icon" onClick={() => handleShift(-1)} title="Anterior">
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setRangeStart(getRangeStart(new Date(), view))}>
+                  Hoy
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => handleShift(1)} title="Siguiente">
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardContent className="pt-6">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                  <h2 className="font-semibold capitalize">
+                    {view === "week"
+                      ? `${format(rangeStart, "d MMM", { locale: es })} - ${format(addDays(rangeEnd, -1), "d MMM yyyy", { locale: es })}`
+                      : format(rangeStart, "MMMM yyyy", { locale: es })}
+                  </h2>
+                  <div className="flex flex-wrap gap-3 text-xs">
+                    {Object.entries(STATUS_STYLES).map(([status, className]) => (
+                      <div key={status} className="flex items-center gap-1">
+                        <span className={cn("w-3 h-3 rounded-sm", className)} />
+                        {getReservationStatusLabel(status)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto border rounded-md">
+                  <div style={{ width: ROOM_COLUMN_WIDTH + dayCount * dayWidth }}>
+                    {/* Cabecera de días */}
+                    <div className="flex border-b bg-muted/50 sticky top-0">
+                      <div
+                        className="shrink-0 px-3 py-2 text-sm font-medium border-r"
+                        style={{ width: ROOM_COLUMN_WIDTH }}
+                      >
+                        Habitación
+                      </div>
+                      {days.map((day) => (
+                        <div
+                          key={day.toISOString()}
+                          className={cn(
+                            "shrink-0 py-2 text-center text-xs border-r capitalize",
+                            isWeekend(day) && "bg-muted",
+                            isSameDay(day, today) && "text-accent font-bold"
+                          )}
+                          style={{ width: dayWidth }}
+                        >
+                          {view === "week" ? format(day, "EEE d", { locale: es }) : format(day, "d")}
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Filas de habitaciones */}
+                    {rooms.map((room) => (
+                      <div key={room.id} className="flex border-b last:border-b-0">
+                        <div
+                          className="shrink-0 px-3 py-2 border-r flex items-center justify-between gap-2"
+                          style={{ width: ROOM_COLUMN_WIDTH }}
+                        >
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium truncate">{room.name}</div>
+                            <div className="text-xs text-muted-foreground capitalize">{room.type}</div>
+                          </div>
+                          {room.status === "maintenance" && (
+                            <Wrench className="w-4 h-4 text-muted-foreground shrink-0" aria-label="En mantenimiento" />
+                          )}
+                        </div>
+
+                        <div className="relative h-14">
+                          {/* Celdas (destinos de arrastre) */}
+                          <div className="flex h-full">
+                            {days.map((day) => (
+                              <div
+                                key={day.toISOString()}
+                                className={cn(
+                                  "shrink-0 h-full border-r",
+                                  isWeekend(day) && "bg-muted/40",
+                                  room.status === "maintenance" && "bg-muted"
+                                )}
+                                style={{ width: dayWidth }}
+                                onDragOver={(e) => handleDragOver(e, room, day)}
+                                onDrop={(e) => handleDrop(e, room, day)}
+                              />
+                            ))}
+                          </div>
+
+                          {/* Reservas */}
+                          {getRoomReservations(room.id).map((reservation) => {
+                            const movable = MOVABLE_STATUSES.includes(reservation.status);
+                            const statusClassName = STATUS_STYLES[reservation.status];
+                            const dragging = drag?.reservation.id === reservation.id && drag.roomId === room.id;
+
+                            return (
+                              <div
+                                key={reservation.id}
+                                draggable={movable}
+                                onDragStart={(e) => handleDragStart(e, reservation, room.id)}
+                                onDragEnd={handleDragEnd}
+                                onClick={() => setSelected(reservation)}
+                                title={`${getGuestName(reservation)} · ${getReservationStatusLabel(reservation.status)}`}
+                                className={cn(
+                                  "absolute top-2 bottom-2 rounded px-2 text-xs flex items-center overflow-hidden whitespace-nowrap shadow-sm",
+                                  statusClassName ?? "bg-secondary text-secondary-foreground",
+                                  movable ? "cursor-grab" : "cursor-pointer",
+                                  dragging && "opacity-40",
+                                  drag && !dragging && "pointer-events-none"
+                                )}
+                                style={getBarStyle(parseISODate(reservation.check_in), parseISODate(reservation.check_out))}
+                              >
+                                {getGuestName(reservation)}
+                              </div>
+                            );
+                          })}
+
+                          {/* Vista previa del destino */}
+                          {drag && preview?.roomId === room.id && (
+                            <div
+                              className={cn(
+                                "absolute top-1 bottom-1 rounded border-2 border-dashed pointer-events-none",
+                                preview.free ? "border-accent bg-accent/10" : "border-destructive bg-destructive/10"
+                              )}
+                              style={getBarStyle(
+                                preview.checkIn,
+                                addDays(
+                                  preview.checkIn,
+                                  getNights(parseISODate(drag.reservation.check_in), parseISODate(drag.reservation.check_out))
+                                )
+                              )}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Detalle de la reserva */}
+            <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Reserva #{selected?.id.slice(0, 8)}</DialogTitle>
+                  {selected && (
+                    <DialogDescription>
+                      {format(parseISODate(selected.check_in), "dd/MM/yyyy")} -{" "}
+                      {format(parseISODate(selected.check_out), "dd/MM/yyyy")}
+                      {" · "}
+                      {selected.guests} {selected.guests === 1 ? "huésped" : "huéspedes"}
+                    </DialogDescription>
+                  )}
+                </DialogHeader>
+                {selected && selectedGuest && (
+                  <div className="space-y-4 text-sm">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{selectedGuest.firstName} {selectedGuest.lastName}</p>
+                        <p className="text-muted-foreground">{selectedGuest.email} · {selectedGuest.phone}</p>
+                      </div>
+                      <Badge variant="outline">{getReservationStatusLabel(selected.status)}</Badge>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Habitaciones:</span>{" "}
+                      {selected.room_ids.map(getRoomName).join(", ")}
+                    </div>
+                    <Folio lines={selected.reservation_line_items} />
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {/* Confirmación del movimiento */}
+            <Dialog open={!!pendingMove} onOpenChange={(open) => !open && !moving && setPendingMove(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Mover reserva</DialogTitle>
+                  <DialogDescription>
+                    El precio de la reserva no cambia.
+                  </DialogDescription>
+                </DialogHeader>
+                {pendingMove && (
+                  <div className="space-y-2 text-sm">
+                    <p>
+                      <span className="text-muted-foreground">Huésped:</span>{" "}
+                      {getGuestName(pendingMove.reservation)}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Habitación:</span>{" "}
+                      {getRoomName(pendingMove.fromRoomId)} → {getRoomName(pendingMove.toRoomId)}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Fechas:</span>{" "}
+                      {format(parseISODate(pendingMove.reservation.check_in), "dd/MM/yyyy")} -{" "}
+                      {format(parseISODate(pendingMove.reservation.check_out), "dd/MM/yyyy")} →{" "}
+                      {format(pendingMove.checkIn, "dd/MM/yyyy")} -{" "}
+                      {format(addDays(pendingMove.checkIn, pendingNights), "dd/MM/yyyy")}
+                    </p>
+                  </div>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setPendingMove(null)} disabled={moving}>
+                    Cancelar
+                  </Button>
+                  <Button variant="gold" onClick={handleConfirmMove} disabled={moving}>
+                    {moving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Mover
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminCalendar;
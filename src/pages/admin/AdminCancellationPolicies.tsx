@@ -0,0 +1,417 @@
+/**
+ * @fileoverview Gestión de políticas de cancelación
+ * @module AdminCancellationPolicies
+ *
+ * @description
+ * Permite a los administradores definir las políticas de cancelación: no
+ * reembolsable, o gratuita hasta cierto número de horas antes de la llegada y
+ * con una penalidad posterior (primera noche o porcentaje del total).
+ *
+ * @design-decisions
+ * - Una política se asigna a tipos de habitación desde aquí y a tarifas desde
+ *   la página de tarifas; la de la tarifa tiene prioridad
+ * - Una sola política es la predeterminada (índice único en la base de datos)
+ * - Cada reserva guarda una copia de su política, así que los cambios solo
+ *   afectan a reservas nuevas
+ */
+
+import { useEffect, useState } from "react";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeCancellationPolicy, PENALTY_KINDS } from "@/lib/cancellationPolicy";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type CancellationPolicy = Tables<"cancellation_policies">;
+
+// ============================================
+// CONSTANTS - Valores por defecto
+// ============================================
+
+const emptyForm = () => ({
+  name: "",
+  description: "",
+  non_refundable: false,
+  free_until_hours: 48,
+  penalty_kind: "first_night",
+  penalty_percent: 0,
+  room_types: [] as string[],
+  is_default: false,
+  active: true,
+});
+
+// ============================================
+// COMPONENT - Página de políticas de cancelación
+// ============================================
+
+const AdminCancellationPolicies = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const { roomTypes, getRoomTypeName } = useRoomTypes();
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<CancellationPolicy | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchPolicies();
+    }
+  }, [user, isAdmin]);
+
+  // ============================================
+  // DATA FETCHING - Carga de datos
+  // ============================================
+
+  const fetchPolicies = async () => {
+    const { data, error } = await supabase
+      .from("cancellation_policies")
+      .select("*")
+      .order("is_default", { ascending: false })
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching cancellation policies:", error);
+      toast.error("Error al cargar las políticas de cancelación");
+    } else {
+      setPolicies(data || []);
+    }
+    setLoading(false);
+  };
+
+  // ============================================
+  // HANDLERS - Manejadores de eventos
+  // ============================================
+
+  const openDialog = (policy: CancellationPolicy | null) => {
+    setEditingPolicy(policy);
+    setFormData(
+      policy
+        ? {
+            name: policy.name,
+            description: policy.description || "",
+            non_refundable: policy.non_refundable,
+            free_until_hours: policy.free_until_hours,
+            penalty_kind: policy.penalty_kind,
+            penalty_percent: policy.penalty_percent,
+            room_types: policy.room_types,
+            is_default: policy.is_default,
+            active: policy.active,
+          }
+        : emptyForm()
+    );
+    setDialogOpen(true);
+  };
+
+  /**
+   * Guarda la política; si se marca como predeterminada, primero se desmarca
+   * la anterior para respetar el índice único
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const policyData = { ...formData, description: formData.description || null };
+
+    if (formData.is_default) {
+      const { error } = await supabase
+        .from("cancellation_policies")
+        .update({ is_default: false })
+        .eq("is_default", true)
+        .neq("id", editingPolicy?.id ?? "");
+
+      if (error) {
+        console.error("Error clearing default cancellation policy:", error);
+        toast.error("Error al guardar la política");
+        return;
+      }
+    }
+
+    const { error } = editingPolicy
+      ? await supabase.from("cancellation_policies").update(policyData).eq("id", editingPolicy.id)
+      : await supabase.from("cancellation_policies").insert(policyData);
+
+    if (error) {
+      console.error("Error saving cancellation policy:", error);
+      toast.error("Error al guardar la política");
+      return;
+    }
+    toast.success(editingPolicy ? "Política actualizada" : "Política creada");
+    setDialogOpen(false);
+    fetchPolicies();
+  };
+
+  const toggleRoomType = (type: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      room_types: checked
+        ? [...formData.room_types, type]
+        : formData.room_types.filter((t) => t !== type),
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("¿Estás seguro de eliminar esta política?")) return;
+
+    const { error } = await supabase.from("cancellation_policies").delete().eq("id", id);
+    if (error) {
+      console.error("Error deleting cancellation policy:", error);
+      toast.error("Error al eliminar");
+      return;
+    }
+    toast.success("Eliminado correctamente");
+    fetchPolicies();
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">
+                  Políticas de Cancelación
+                </h1>
+                <p className="text-muted-foreground">
+                  Plazos y penalidades que se copian en cada nueva reserva
+                </p>
+              </div>
+              <Button variant="gold" onClick={() => openDialog(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nueva Política
+              </Button>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle>Políticas ({policies.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nombre</TableHead>
+                      <TableHead>Condiciones</TableHead>
+                      <TableHead>Tipos de habitación</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.map((policy) => (
+                      <TableRow key={policy.id}>
+                        <TableCell className="font-medium">
+                          {policy.name}
+                          {policy.is_default && (
+                            <Badge variant="outline" className="ml-2">Predeterminada</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{describeCancellationPolicy(policy)}</TableCell>
+                        <TableCell>
+                          {policy.room_types.length > 0 ? policy.room_types.map(getRoomTypeName).join(", ") : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={policy.active ? "default" : "secondary"}>
+                            {policy.active ? "Activa" : "Inactiva"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="ghost" size="icon" onClick={() => openDialog(policy)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(policy.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Formulario de política */}
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingPolicy ? "Editar Política" : "Nueva Política"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Nombre</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="Flexible"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Descripción</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="non_refundable"
+                      checked={formData.non_refundable}
+                      onCheckedChange={(checked) => setFormData({ ...formData, non_refundable: checked })}
+                    />
+                    <Label htmlFor="non_refundable">No reembolsable (se cobra el total)</Label>
+                  </div>
+                  {!formData.non_refundable && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="free_until_hours">Gratis hasta (horas antes)</Label>
+                        <Input
+                          id="free_until_hours"
+                          type="number"
+                          min="0"
+                          value={formData.free_until_hours}
+                          onChange={(e) =>
+                            setFormData({ ...formData, free_until_hours: parseInt(e.target.value) || 0 })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Penalidad</Label>
+                        <Select
+                          value={formData.penalty_kind}
+                          onValueChange={(value) => setFormData({ ...formData, penalty_kind: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PENALTY_KINDS.map((kind) => (
+                              <SelectItem key={kind.value} value={kind.value}>
+                                {kind.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {formData.penalty_kind === "percent" && (
+                        <div className="space-y-2">
+                          <Label htmlFor="penalty_percent">Porcentaje (%)</Label>
+                          <Input
+                            id="penalty_percent"
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={formData.penalty_percent}
+                            onChange={(e) =>
+                              setFormData({ ...formData, penalty_percent: parseFloat(e.target.value) || 0 })
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label>Aplicar a tipos de habitación</Label>
+                    {roomTypes.map((type) => (
+                      <div key={type.code} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`room_type_${type.code}`}
+                          checked={formData.room_types.includes(type.code)}
+                          onCheckedChange={(checked) => toggleRoomType(type.code, checked === true)}
+                        />
+                        <Label htmlFor={`room_type_${type.code}`} className="font-normal">
+                          {type.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="is_default"
+                      checked={formData.is_default}
+                      onCheckedChange={(checked) => setFormData({ ...formData, is_default: checked })}
+                    />
+                    <Label htmlFor="is_default">Predeterminada (si no aplica otra)</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="active"
+                      checked={formData.active}
+                      onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                    />
+                    <Label htmlFor="active">Política activa</Label>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold">
+                      {editingPolicy ? "Actualizar" : "Crear"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminCancellationPolicies;
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { LiveTable, useLiveChanges } from "@/hooks/useLiveChanges";
 import { useUserRole } from "@/hooks/useUserRole";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,6 +9,9 @@ import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { Hotel, Calendar, Users, TrendingUp, Loader2 } from "lucide-react";
 
+/** Tablas que se escuchan en vivo */
+const LIVE_TABLES: LiveTable[] = ["reservations", "rooms"];
+
 const AdminDashboard = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
@@ -69,6 +73,9 @@ const AdminDashboard = () => {
     });
   };
 
+  // Estadísticas en vivo
+  useLiveChanges(LIVE_TABLES, fetchStats, !!user && isAdmin);
+
   if (authLoading || roleLoading) {
     return (
       <DashboardLayout>
@@ -0,0 +1,770 @@
+/**
+ * @fileoverview Recepción: llegadas y salidas del día
+ * @module AdminFrontDesk
+ *
+ * @description
+ * Pantalla de trabajo de recepción. Lista las llegadas y salidas de hoy y
+ * permite registrar el check-in (verificando el documento del huésped,
+ * asignando habitación y llaves) y el check-out (liquidando el folio).
+ *
+ * @design-decisions
+ * - Las transiciones las hacen check_in_reservation y check_out_reservation en
+ *   la base de datos, que guardan la hora y el miembro del personal
+ * - El documento se escribe tal como aparece en la identificación presentada
+ *   y se compara en el servidor ignorando espacios, puntos y guiones; la
+ *   pantalla nunca muestra el número guardado
+ * - El cambio de habitación al llegar reutiliza move_reservation, así que se
+ *   valida la disponibilidad igual que en el calendario
+ * - Las llegadas atrasadas (fecha de entrada pasada, aún sin check-in) y los
+ *   huéspedes que debían salir antes de hoy también se listan
+ * - Al llegar se puede cobrar el resto (o un depósito) desde el mismo diálogo;
+ *   al salir, check_out_reservation registra el saldo que quede con la forma
+ *   de pago elegida
+ * - Una habitación sin inspeccionar no bloquea el check-in: se avisa y
+ *   recepción decide (por ejemplo, dejar el equipaje mientras se termina)
+ * - El tipo de documento declarado al reservar decide las exenciones de
+ *   impuestos; recepción confirma el que se presenta y, si es otro, el
+ *   servidor recalcula los impuestos del folio al registrar la llegada
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertTriangle, DoorOpen, KeyRound, Loader2, LogIn, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { LiveTable, useLiveChanges } from "@/hooks/useLiveChanges";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Folio } from "@/components/Folio";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { FolioPayments } from "@/components/FolioPayments";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { DOCUMENT_TYPES, DocumentType, parseGuestData } from "@/lib/guest";
+import { HOUSEKEEPING_STATUS_LABELS, isRoomReady } from "@/lib/housekeeping";
+import { getReservationStatusLabel } from "@/lib/reservationStatus";
+import { getBalanceDue, PAYMENT_METHOD_LABELS, PaymentWithRefunds } from "@/lib/payments";
+import { parseISODate, toISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type Room = Tables<"rooms">;
+
+type Reservation = Tables<"reservations"> & {
+  reservation_line_items: Tables<"reservation_line_items">[];
+  reservation_keys: Tables<"reservation_keys">[];
+  payments: PaymentWithRefunds[];
+};
+
+/** Habitación y llave elegidas para cada habitación original de la reserva */
+interface RoomAssignment {
+  roomId: string;
+  keyCode: string;
+}
+
+// ============================================
+// CONSTANTS - Estados
+// ============================================
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline"> = {
+  pending: "secondary",
+  confirmed: "default",
+  checked_in: "default",
+  checked_out: "outline",
+};
+
+/** Tablas que se escuchan en vivo (el estado de limpieza está en rooms) */
+const LIVE_TABLES: LiveTable[] = ["rooms"];
+
+// ============================================
+// COMPONENT - Página de recepción
+// ============================================
+
+const AdminFrontDesk = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const { getRoomTypeName } = useRoomTypes();
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Check-in
+  const [checkInReservation, setCheckInReservation] = useState<Reservation | null>(null);
+  const [documentId, setDocumentId] = useState("");
+  const [documentType, setDocumentType] = useState<DocumentType>("cc");
+  const [assignments, setAssignments] = useState<Record<string, RoomAssignment>>({});
+  const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
+
+  // Check-out
+  const [checkOutReservation, setCheckOutReservation] = useState<Reservation | null>(null);
+  const [settlementMethod, setSettlementMethod] = useState("");
+
+  const today = toISODate(new Date());
+
+  // ============================================
+  // DATA FETCHING - Movimientos del día
+  // ============================================
+
+  const fetchData = useCallback(async () => {
+    const select = "*, reservation_line_items(*), reservation_keys(*), payments(*, payment_refunds(*))";
+    const [todayResult, overdueResult, roomsResult] = await Promise.all([
+      supabase
+        .from("reservations")
+        .select(select)
+        .lte("check_in", today)
+        .gte("check_out", today)
+        .in("status", ["pending", "confirmed", "checked_in", "checked_out"]),
+      supabase
+        .from("reservations")
+        .select(select)
+        .lt("check_out", today)
+        .eq("status", "checked_in"),
+      supabase.from("rooms").select("*").order("name"),
+    ]);
+
+    const error = todayResult.error || overdueResult.error || roomsResult.error;
+    if (error) {
+      console.error("Error fetching front desk:", error);
+      toast.error("Error al cargar los movimientos del día");
+    } else {
+      setReservations([...(todayResult.data || []), ...(overdueResult.data || [])]);
+      setRooms(roomsResult.data || []);
+    }
+    setLoading(false);
+  }, [today]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchData();
+    }
+  }, [user, isAdmin, fetchData]);
+
+  useLiveChanges(LIVE_TABLES, fetchData, !!user && isAdmin);
+
+  // Llegadas: entran hoy, o debían entrar antes y aún no lo han hecho
+  const arrivals = reservations.filter(
+    (r) =>
+      (r.check_in === today && ["pending", "confirmed", "checked_in"].includes(r.status)) ||
+      (r.check_in < today && r.check_out > today && ["pending", "confirmed"].includes(r.status))
+  );
+
+  // Salidas: salen hoy, o debían salir antes y siguen hospedados
+  const departures = reservations.filter(
+    (r) =>
+      (r.check_out === today && ["checked_in", "checked_out"].includes(r.status)) ||
+      (r.check_out < today && r.status === "checked_in")
+  );
+
+  const inHouse = reservations.filter((r) => r.status === "checked_in");
+
+  // ============================================
+  // HELPERS - Presentación
+  // ============================================
+
+  const getRoomName = (roomId: string) => rooms.find((room) => room.id === roomId)?.name ?? "—";
+
+  const getGuestName = (reservation: Reservation) => {
+    const guest = parseGuestData(reservation.guest_data);
+    return `${guest.firstName ?? ""} ${guest.lastName ?? ""}`.trim() || reservation.id.slice(0, 8);
+  };
+
+  const getStatusBadge = (status: string) => {
+    return <Badge variant={STATUS_VARIANTS[status] ?? "secondary"}>{getReservationStatusLabel(status)}</Badge>;
+  };
+
+  // ============================================
+  // HANDLERS - Confirmación y check-in
+  // ============================================
+
+  const handleConfirm = async (reservation: Reservation) => {
+    const { error } = await supabase
+      .from("reservations")
+      .update({ status: "confirmed" })
+      .eq("id", reservation.id);
+
+    if (error) {
+      console.error("Error confirming reservation:", error);
+      toast.error("Error al confirmar la reserva");
+      return;
+    }
+    toast.success("Reserva confirmada");
+    fetchData();
+  };
+
+  /**
+   * Abre el diálogo de check-in y carga las habitaciones libres para la estadía
+   */
+  const openCheckIn = async (reservation: Reservation) => {
+    setCheckInReservation(reservation);
+    setDocumentId("");
+    // Reservas anteriores a los tipos de documento: cédula
+    setDocumentType(parseGuestData(reservation.guest_data).documentType ?? "cc");
+    setAssignments(
+      Object.fromEntries(reservation.room_ids.map((id) => [id, { roomId: id, keyCode: "" }]))
+    );
+
+    const { data, error } = await supabase.rpc("get_available_rooms", {
+      _check_in: reservation.check_in,
+      _check_out: reservation.check_out,
+    });
+
+    if (error) {
+      console.error("Error fetching available rooms:", error);
+      setAvailableRooms([]);
+    } else {
+      setAvailableRooms(data || []);
+    }
+  };
+
+  const updateAssignment = (originalRoomId: string, changes: Partial<RoomAssignment>) => {
+    setAssignments((current) => ({
+      ...current,
+      [originalRoomId]: { ...current[originalRoomId], ...changes },
+    }));
+  };
+
+  /**
+   * Aplica los cambios de habitación y registra la llegada
+   */
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!checkInReservation) return;
+
+    const entries = Object.entries(assignments);
+    const targets = entries.map(([, a]) => a.roomId);
+    if (new Set(targets).size !== targets.length) {
+      toast.error("Asigne una habitación distinta a cada una");
+      return;
+    }
+
+    setSubmitting(true);
+
+    // Cambios de habitación (la fecha de llegada no cambia)
+    for (const [originalRoomId, assignment] of entries) {
+      if (assignment.roomId === originalRoomId) continue;
+
+      const { error } = await supabase.rpc("move_reservation", {
+        _reservation_id: checkInReservation.id,
+        _from_room_id: originalRoomId,
+        _to_room_id: assignment.roomId,
+        _check_in: checkInReservation.check_in,
+      });
+
+      if (error) {
+        console.error("Error reassigning room:", error);
+        toast.error(getBookingErrorMessage(error, "Error al cambiar la habitación"));
+        setSubmitting(false);
+        fetchData();
+        return;
+      }
+    }
+
+    // Si la llegada falla, un nuevo intento parte de las habitaciones ya cambiadas
+    setCheckInReservation({ ...checkInReservation, room_ids: targets });
+    setAssignments(Object.fromEntries(entries.map(([, a]) => [a.roomId, a])));
+
+    const { error } = await supabase.rpc("check_in_reservation", {
+      _reservation_id: checkInReservation.id,
+      _document_id: documentId,
+      _document_type: documentType,
+      _keys: Object.fromEntries(entries.map(([, a]) => [a.roomId, a.keyCode])),
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      console.error("Error checking in:", error);
+      toast.error(getBookingErrorMessage(error, "Error al registrar la llegada"));
+      fetchData();
+      return;
+    }
+
+    toast.success(`Check-in de ${getGuestName(checkInReservation)} registrado`);
+    setCheckInReservation(null);
+    fetchData();
+  };
+
+  // ============================================
+  // HANDLERS - Check-out
+  // ============================================
+
+  const openCheckOut = (reservation: Reservation) => {
+    setCheckOutReservation(reservation);
+    setSettlementMethod("");
+  };
+
+  const handleCheckOut = async () => {
+    if (!checkOutReservation) return;
+
+    if (!settlementMethod) {
+      toast.error("Indique cómo se liquidó el folio");
+      return;
+    }
+
+    setSubmitting(true);
+    const { error } = await supabase.rpc("check_out_reservation", {
+      _reservation_id: checkOutReservation.id,
+      _settlement_method: settlementMethod,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      console.error("Error checking out:", error);
+      toast.error(getBookingErrorMessage(error, "Error al registrar la salida"));
+      return;
+    }
+
+    toast.success(`Check-out de ${getGuestName(checkOutReservation)} registrado`);
+    setCheckOutReservation(null);
+    fetchData();
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  const checkInGuest = checkInReservation ? parseGuestData(checkInReservation.guest_data) : null;
+
+  // Habitaciones asignadas que limpieza aún no ha inspeccionado
+  const unreadyRooms = Object.values(assignments)
+    .map((assignment) => rooms.find((room) => room.id === assignment.roomId))
+    .filter((room): room is Room => !!room && !isRoomReady(room));
+
+  // Los diálogos guardan una copia de la reserva; los pagos se leen de la lista recargada
+  const getPayments = (reservationId: string) =>
+    reservations.find((r) => r.id === reservationId)?.payments ?? [];
+  const checkOutBalance = checkOutReservation
+    ? getBalanceDue(checkOutReservation.total_price, getPayments(checkOutReservation.id))
+    : 0;
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl">
+            <div className="mb-8">
+              <h1 className="text-4xl font-serif font-bold mb-2">Recepción</h1>
+              <p className="text-muted-foreground capitalize">
+                {format(new Date(), "EEEE, d 'de' MMMM 'de' yyyy", { locale: es })}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <Card className="shadow-elegant">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Llegadas pendientes</CardTitle>
+                  <LogIn className="h-4 w-4 text-accent" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {arrivals.filter((r) => r.status !== "checked_in").length}
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="shadow-elegant">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Hospedados</CardTitle>
+                  <DoorOpen className="h-4 w-4 text-accent" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{inHouse.length}</div>
+                </CardContent>
+              </Card>
+              <Card className="shadow-elegant">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Salidas pendientes</CardTitle>
+                  <LogOut className="h-4 w-4 text-accent" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {departures.filter((r) => r.status === "checked_in").length}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Tabs defaultValue="arrivals">
+              <TabsList>
+                <TabsTrigger value="arrivals">Llegadas de hoy ({arrivals.length})</TabsTrigger>
+                <TabsTrigger value="departures">Salidas de hoy ({departures.length})</TabsTrigger>
+              </TabsList>
+
+              {/* Llegadas */}
+              <TabsContent value="arrivals">
+                <Card className="shadow-elegant">
+                  <CardContent className="pt-6">
+                    {arrivals.length === 0 ? (
+                      <p className="text-center text-muted-foreground py-8">No hay llegadas para hoy</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Huésped</TableHead>
+                            <TableHead>Habitaciones</TableHead>
+                            <TableHead>Estadía</TableHead>
+                            <TableHead>Huéspedes</TableHead>
+                            <TableHead>Estado</TableHead>
+                            <TableHead>Acciones</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {arrivals.map((reservation) => (
+                            <TableRow key={reservation.id}>
+                              <TableCell>
+                                <p className="font-medium">{getGuestName(reservation)}</p>
+                                <p className="text-xs text-muted-foreground font-mono">
+                                  #{reservation.id.slice(0, 8)}
+                                </p>
+                              </TableCell>
+                              <TableCell>{reservation.room_ids.map(getRoomName).join(", ")}</TableCell>
+                              <TableCell>
+                                {format(parseISODate(reservation.check_in), "dd/MM")} -{" "}
+                                {format(parseISODate(reservation.check_out), "dd/MM")}
+                                {reservation.check_in < today && reservation.status !== "checked_in" && (
+                                  <Badge variant="destructive" className="ml-2">Atrasada</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell>{reservation.guests}</TableCell>
+                              <TableCell>{getStatusBadge(reservation.status)}</TableCell>
+                              <TableCell>
+                                {reservation.status === "pending" && (
+                                  <Button size="sm" variant="outline" onClick={() => handleConfirm(reservation)}>
+                                    Confirmar
+                                  </Button>
+                                )}
+                                {reservation.status === "confirmed" && (
+                                  <Button size="sm" variant="gold" onClick={() => openCheckIn(reservation)}>
+                                    <LogIn className="mr-2 h-4 w-4" />
+                                    Check-in
+                                  </Button>
+                                )}
+                                {reservation.status === "checked_in" && reservation.checked_in_at && (
+                                  <span className="text-xs text-muted-foreground">
+                                    Llegó a las {format(new Date(reservation.checked_in_at), "HH:mm")}
+                                  </span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Salidas */}
+              <TabsContent value="departures">
+                <Card className="shadow-elegant">
+                  <CardContent className="pt-6">
+                    {departures.length === 0 ? (
+                      <p className="text-center text-muted-foreground py-8">No hay salidas para hoy</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Huésped</TableHead>
+                            <TableHead>Habitaciones y llaves</TableHead>
+                            <TableHead>Estadía</TableHead>
+                            <TableHead>Total</TableHead>
+                            <TableHead>Estado</TableHead>
+                            <TableHead>Acciones</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {departures.map((reservation) => (
+                            <TableRow key={reservation.id}>
+                              <TableCell>
+                                <p className="font-medium">{getGuestName(reservation)}</p>
+                                <p className="text-xs text-muted-foreground font-mono">
+                                  #{reservation.id.slice(0, 8)}
+                                </p>
+                              </TableCell>
+                              <TableCell>
+                                {reservation.room_ids.map((roomId) => {
+                                  const key = reservation.reservation_keys.find((k) => k.room_id === roomId);
+                                  return (
+                                    <div key={roomId} className="flex items-center gap-1 text-sm">
+                                      {getRoomName(roomId)}
+                                      {key && (
+                                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                          <KeyRound className="w-3 h-3" />
+                                          {key.key_code}
+                                        </span>
+                                      )}
+                                    </div>
+                                  );
+                                })}
+                              </TableCell>
+                              <TableCell>
+                                {format(parseISODate(reservation.check_in), "dd/MM")} -{" "}
+                                {format(parseISODate(reservation.check_out), "dd/MM")}
+                                {reservation.check_out < today && (
+                                  <Badge variant="destructive" className="ml-2">Atrasada</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="font-medium">
+                                ${reservation.total_price.toLocaleString()}
+                              </TableCell>
+                              <TableCell>{getStatusBadge(reservation.status)}</TableCell>
+                              <TableCell>
+                                {reservation.status === "checked_in" ? (
+                                  <Button size="sm" variant="gold" onClick={() => openCheckOut(reservation)}>
+                                    <LogOut className="mr-2 h-4 w-4" />
+                                    Check-out
+                                  </Button>
+                                ) : (
+                                  reservation.checked_out_at && (
+                                    <span className="text-xs text-muted-foreground">
+                                      Salió a las {format(new Date(reservation.checked_out_at), "HH:mm")}
+                                    </span>
+                                  )
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+
+            {/* Diálogo de check-in */}
+            <Dialog
+              open={!!checkInReservation}
+              onOpenChange={(open) => !open && !submitting && setCheckInReservation(null)}
+            >
+              <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Check-in de {checkInReservation && getGuestName(checkInReservation)}</DialogTitle>
+                  <DialogDescription>
+                    Verifique la identificación del huésped y entregue las llaves
+                  </DialogDescription>
+                </DialogHeader>
+                {checkInReservation && (
+                  <FolioPayments
+                    key={checkInReservation.id}
+                    reservationId={checkInReservation.id}
+                    total={checkInReservation.total_price}
+                    status={checkInReservation.status}
+                    payments={getPayments(checkInReservation.id)}
+                    onChange={fetchData}
+                  />
+                )}
+                {checkInReservation && checkInGuest && (
+                  <form onSubmit={handleCheckIn} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label>Documento presentado</Label>
+                        <Select
+                          value={documentType}
+                          onValueChange={(value) => setDocumentType(value as DocumentType)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DOCUMENT_TYPES.map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                {type.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="documentId">Número</Label>
+                        <Input
+                          id="documentId"
+                          value={documentId}
+                          onChange={(e) => setDocumentId(e.target.value)}
+                          placeholder="Tal como aparece en el documento"
+                          autoComplete="off"
+                          required
+                        />
+                      </div>
+                    </div>
+                    {documentType !== (checkInGuest.documentType ?? "cc") && (
+                      <p className="text-sm text-muted-foreground">
+                        Se reservó con otro tipo de documento: los impuestos del folio se recalcularán
+                      </p>
+                    )}
+
+                    <div className="space-y-3">
+                      <Label>Habitaciones y llaves</Label>
+                      {checkInReservation.room_ids.map((originalRoomId) => {
+                        const assignment = assignments[originalRoomId];
+                        if (!assignment) return null;
+
+                        return (
+                          <div key={originalRoomId} className="grid grid-cols-2 gap-2">
+                            <Select
+                              value={assignment.roomId}
+                              onValueChange={(roomId) => updateAssignment(originalRoomId, { roomId })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={originalRoomId}>{getRoomName(originalRoomId)}</SelectItem>
+                                {availableRooms.map((room) => (
+                                  <SelectItem key={room.id} value={room.id}>
+                                    {room.name} ({getRoomTypeName(room.type)}, {room.capacity} pers.)
+                                    {!isRoomReady(room) && ` · ${HOUSEKEEPING_STATUS_LABELS[room.housekeeping_status]}`}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              value={assignment.keyCode}
+                              onChange={(e) => updateAssignment(originalRoomId, { keyCode: e.target.value })}
+                              placeholder="Llave"
+                              required
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {unreadyRooms.length > 0 && (
+                      <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Habitaciones sin inspeccionar</AlertTitle>
+                        <AlertDescription>
+                          {unreadyRooms
+                            .map((room) => `${room.name} (${HOUSEKEEPING_STATUS_LABELS[room.housekeeping_status]})`)
+                            .join(", ")}
+                          . Limpieza aún no las ha dejado listas.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <DialogFooter>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setCheckInReservation(null)}
+                        disabled={submitting}
+                      >
+                        Cancelar
+                      </Button>
+                      <Button type="submit" variant="gold" disabled={submitting}>
+                        {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {unreadyRooms.length > 0 ? "Registrar llegada de todos modos" : "Registrar llegada"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {/* Diálogo de check-out */}
+            <Dialog
+              open={!!checkOutReservation}
+              onOpenChange={(open) => !open && !submitting && setCheckOutReservation(null)}
+            >
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Check-out de {checkOutReservation && getGuestName(checkOutReservation)}</DialogTitle>
+                  <DialogDescription>Revise el folio y registre cómo se liquidó</DialogDescription>
+                </DialogHeader>
+                {checkOutReservation && (
+                  <div className="space-y-4">
+                    <Folio lines={checkOutReservation.reservation_line_items} />
+                    <FolioPayments
+                      key={checkOutReservation.id}
+                      reservationId={checkOutReservation.id}
+                      total={checkOutReservation.total_price}
+                      status={checkOutReservation.status}
+                      payments={getPayments(checkOutReservation.id)}
+                      onChange={fetchData}
+                    />
+                    <div className="space-y-2">
+                      <Label>Forma de pago</Label>
+                      <Select value={settlementMethod} onValueChange={setSettlementMethod}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Seleccione" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {checkOutBalance > 0 && (
+                        <p className="text-sm text-muted-foreground">
+                          El saldo pendiente de ${checkOutBalance.toLocaleString()} se registrará como pagado
+                          con esta forma de pago
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setCheckOutReservation(null)} disabled={submitting}>
+                    Cancelar
+                  </Button>
+                  <Button variant="gold" onClick={handleCheckOut} disabled={submitting}>
+                    {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Liquidar y registrar salida
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminFrontDesk;
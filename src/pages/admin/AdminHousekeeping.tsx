@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Tablero de limpieza de habitaciones
+ * @module AdminHousekeeping
+ *
+ * @description
+ * Muestra las habitaciones en columnas según su estado de limpieza (sucia,
+ * en limpieza, limpia, inspeccionada). Desde cada tarjeta se asigna la
+ * habitación a un miembro del personal y se avanza al estado siguiente. Se
+ * marcan las habitaciones ocupadas y las que reciben huéspedes hoy, que son
+ * las primeras que hay que tener listas.
+ *
+ * @design-decisions
+ * - El check-out deja sucias las habitaciones en la base de datos; aquí solo
+ *   se avanza el resto del ciclo o se vuelve a marcar una habitación sucia
+ * - El tablero se actualiza en vivo, porque lo usan a la vez recepción y el
+ *   personal de limpieza
+ * - El personal asignable son los usuarios con rol admin
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { LiveTable, useLiveChanges } from "@/hooks/useLiveChanges";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { HousekeepingStatusBadge } from "@/components/HousekeepingStatusBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  getNextHousekeepingActionLabel,
+  getNextHousekeepingStatus,
+  HOUSEKEEPING_STATUS_LABELS,
+  HOUSEKEEPING_STATUSES,
+  HousekeepingStatus,
+} from "@/lib/housekeeping";
+import { toISODate } from "@/lib/stay";
+import { cn } from "@/lib/utils";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type Room = Tables<"rooms">;
+
+interface StaffMember {
+  id: string;
+  name: string;
+}
+
+// ============================================
+// CONSTANTS - Filtros y valores vacíos
+// ============================================
+
+/** Tablas que se escuchan en vivo (las reservas marcan ocupadas y llegadas) */
+const LIVE_TABLES: LiveTable[] = ["rooms", "reservations"];
+
+/** Valor del select de asignación cuando nadie tiene la habitación */
+const UNASSIGNED = "none";
+
+// ============================================
+// COMPONENT - Tablero de limpieza
+// ============================================
+
+const AdminHousekeeping = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const { getRoomTypeName } = useRoomTypes();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [occupiedRoomIds, setOccupiedRoomIds] = useState<Set<string>>(new Set());
+  const [arrivingRoomIds, setArrivingRoomIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [filterAssignee, setFilterAssignee] = useState("all");
+
+  const today = toISODate(new Date());
+
+  // ============================================
+  // DATA FETCHING - Habitaciones, huéspedes y personal
+  // ============================================
+
+  const fetchData = useCallback(async () => {
+    const [roomsResult, reservationsResult, staffResult] = await Promise.all([
+      supabase.from("rooms").select("*").order("name"),
+      supabase
+        .from("reservations")
+        .select("room_ids, status, check_in")
+        .or(`status.eq.checked_in,and(check_in.eq.${today},status.in.(pending,confirmed))`),
+      supabase.from("user_roles").select("user_id").eq("role", "admin"),
+    ]);
+
+    const error = roomsResult.error || reservationsResult.error || staffResult.error;
+    if (error) {
+      console.error("Error fetching housekeeping board:", error);
+      toast.error("Error al cargar el tablero de limpieza");
+      setLoading(false);
+      return;
+    }
+
+    const reservations = reservationsResult.data || [];
+    setRooms(roomsResult.data || []);
+    setOccupiedRoomIds(
+      new Set(reservations.filter((r) => r.status === "checked_in").flatMap((r) => r.room_ids))
+    );
+    setArrivingRoomIds(
+      new Set(reservations.filter((r) => r.status !== "checked_in").flatMap((r) => r.room_ids))
+    );
+
+    const staffIds = (staffResult.data || []).map((r) => r.user_id);
+    if (staffIds.length > 0) {
+      const { data: profiles } = await supabase.from("profiles").select("id, name").in("id", staffIds);
+      setStaff((profiles || []).sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    setLoading(false);
+  }, [today]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchData();
+    }
+  }, [user, isAdmin, fetchData]);
+
+  // Cambios de otros usuarios en vivo
+  const { highlightedIds } = useLiveChanges(LIVE_TABLES, fetchData, !!user && isAdmin);
+
+  // ============================================
+  // HANDLERS - Estado y asignación
+  // ============================================
+
+  const updateRoom = async (
+    room: Room,
+    changes: { housekeeping_status?: HousekeepingStatus; housekeeping_assigned_to?: string | null }
+  ) => {
+    const { error } = await supabase.from("rooms").update(changes).eq("id", room.id);
+
+    if (error) {
+      console.error("Error updating housekeeping:", error);
+      toast.error("Error al actualizar la habitación");
+      return;
+    }
+    if (changes.housekeeping_status) {
+      toast.success(`${room.name}: ${HOUSEKEEPING_STATUS_LABELS[changes.housekeeping_status]}`);
+    }
+    fetchData();
+  };
+
+  // ============================================
+  // HELPERS - Filtro y presentación
+  // ============================================
+
+  const visibleRooms = rooms.filter((room) => {
+    if (filterAssignee === "all") return true;
+    if (filterAssignee === UNASSIGNED) return !room.housekeeping_assigned_to;
+    if (filterAssignee === "mine") return room.housekeeping_assigned_to === user?.id;
+    return room.housekeeping_assigned_to === filterAssignee;
+  });
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-accent" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">Limpieza</h1>
+                <p className="text-muted-foreground">
+                  Estado de limpieza de cada habitación y quién se encarga de ella
+                </p>
+              </div>
+              <Select value={filterAssignee} onValueChange={setFilterAssignee}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas las habitaciones</SelectItem>
+                  <SelectItem value="mine">Asignadas a mí</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                  {staff.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+              {HOUSEKEEPING_STATUSES.map((status) => {
+                const columnRooms = visibleRooms.filter((room) => room.housekeeping_status === status);
+
+                return (
+                  <Card key={status} className="shadow-elegant">
+                    <CardHeader className="pb-3">
+                      <CardTitle className="flex items-center justify-between text-base">
+                        <HousekeepingStatusBadge status={status} />
+                        <span className="text-muted-foreground">{columnRooms.length}</span>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {columnRooms.length === 0 && (
+                        <p className="text-sm text-muted-foreground">Sin habitaciones</p>
+                      )}
+                      {columnRooms.map((room) => {
+                        const next = getNextHousekeepingStatus(room.housekeeping_status);
+
+                        return (
+                          <div
+                            key={room.id}
+                            className={cn(
+                              "rounded-lg border p-3 space-y-2 text-sm transition-colors",
+                              highlightedIds.has(room.id) && "bg-accent/15"
+                            )}
+                          >
+                            <div className="flex items-start justify-between gap-2">
+                              <div>
+                                <p className="font-medium">{room.name}</p>
+                                <p className="text-xs text-muted-foreground">{getRoomTypeName(room.type)}</p>
+                              </div>
+                              <div className="flex flex-col items-end gap-1">
+                                {occupiedRoomIds.has(room.id) && <Badge variant="secondary">Ocupada</Badge>}
+                                {arrivingRoomIds.has(room.id) && <Badge>Llegada hoy</Badge>}
+                                {room.status === "maintenance" && <Badge variant="outline">Mantenimiento</Badge>}
+                              </div>
+                            </div>
+
+                            <Select
+                              value={room.housekeeping_assigned_to ?? UNASSIGNED}
+                              onValueChange={(value) =>
+                                updateRoom(room, { housekeeping_assigned_to: value === UNASSIGNED ? null : value })
+                              }
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                                {staff.map((member) => (
+                                  <SelectItem key={member.id} value={member.id}>
+                                    {member.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+
+                            <p className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(room.housekeeping_updated_at), {
+                                addSuffix: true,
+                                locale: es,
+                              })}
+                            </p>
+
+                            <div className="flex gap-2">
+                              {next && (
+                                <Button
+                                  size="sm"
+                                  variant="gold"
+                                  className="flex-1"
+                                  onClick={() => updateRoom(room, { housekeeping_status: next })}
+                                >
+                                  {getNextHousekeepingActionLabel(room.housekeeping_status)}
+                                </Button>
+                              )}
+                              {room.housekeeping_status !== "dirty" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className={next ? undefined : "flex-1"}
+                                  onClick={() => updateRoom(room, { housekeeping_status: "dirty" })}
+                                >
+                                  Marcar sucia
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminHousekeeping;
@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Facturas y notas crédito emitidas
+ * @module AdminInvoices
+ *
+ * @description
+ * Lista las facturas y notas crédito de todas las reservas para contabilidad:
+ * permite descargarlas en PDF o en XML para el proveedor de facturación
+ * electrónica, y emitir notas crédito sobre una factura, normalmente por un
+ * reembolso. Las facturas se emiten desde el folio de cada reserva.
+ *
+ * @design-decisions
+ * - Las facturas no se editan ni se borran; cualquier corrección es una nota
+ *   crédito, así la numeración de cada serie queda sin saltos
+ * - Una nota crédito puede vincularse a un reembolso de la reserva; cada
+ *   reembolso se vincula como mucho a una nota crédito
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { FileCode, FileMinus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { InvoicePdfButton } from "@/components/InvoiceDocument";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import {
+  downloadInvoiceXml,
+  getInvoiceOpenAmount,
+  getTaxIdTypeLabel,
+  INVOICE_KIND_LABELS,
+  InvoiceWithLines,
+} from "@/lib/invoices";
+import type { PaymentRefund } from "@/lib/payments";
+
+// ============================================
+// CONSTANTS - Filtros y valores vacíos
+// ============================================
+
+/** Valor del select cuando la nota crédito no corresponde a un reembolso */
+const NO_REFUND = "none";
+
+// ============================================
+// COMPONENT - Página de facturas
+// ============================================
+
+const AdminInvoices = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const [invoices, setInvoices] = useState<InvoiceWithLines[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterKind, setFilterKind] = useState("all");
+  const [search, setSearch] = useState("");
+
+  // Nota crédito
+  const [creditInvoice, setCreditInvoice] = useState<InvoiceWithLines | null>(null);
+  const [refunds, setRefunds] = useState<PaymentRefund[]>([]);
+  const [refundId, setRefundId] = useState(NO_REFUND);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditReason, setCreditReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchInvoices();
+    }
+  }, [user, isAdmin]);
+
+  // ============================================
+  // DATA FETCHING - Carga de datos
+  // ============================================
+
+  const fetchInvoices = async () => {
+    const { data, error } = await supabase
+      .from("invoices")
+      .select("*, invoice_lines(*)")
+      .order("issued_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching invoices:", error);
+      toast.error("Error al cargar las facturas");
+    } else {
+      setInvoices(data || []);
+    }
+    setLoading(false);
+  };
+
+  const getCorrectedNumber = (invoice: InvoiceWithLines) =>
+    invoices.find((i) => i.id === invoice.corrects_invoice_id)?.invoice_number;
+
+  // ============================================
+  // HANDLERS - Nota crédito
+  // ============================================
+
+  const openCreditNote = async (invoice: InvoiceWithLines) => {
+    setCreditInvoice(invoice);
+    setCreditAmount(String(getInvoiceOpenAmount(invoice, invoices)));
+    setCreditReason("");
+    setRefundId(NO_REFUND);
+    setRefunds([]);
+
+    // Reembolsos de la reserva que todavía no tienen nota crédito
+    const { data, error } = await supabase
+      .from("payments")
+      .select("payment_refunds(*)")
+      .eq("reservation_id", invoice.reservation_id);
+
+    if (error) {
+      console.error("Error fetching refunds:", error);
+      return;
+    }
+    const linked = new Set(invoices.map((i) => i.payment_refund_id));
+    setRefunds(
+      (data || [])
+        .flatMap((payment) => payment.payment_refunds)
+        .filter((refund) => !linked.has(refund.id))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    );
+  };
+
+  const selectRefund = (value: string) => {
+    setRefundId(value);
+    const refund = refunds.find((r) => r.id === value);
+    if (refund) {
+      setCreditAmount(String(refund.amount));
+      setCreditReason(refund.reason);
+    }
+  };
+
+  const handleCreditNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creditInvoice) return;
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("issue_credit_note", {
+      _invoice_id: creditInvoice.id,
+      _amount: Number(creditAmount),
+      _reason: creditReason,
+      _payment_refund_id: refundId === NO_REFUND ? undefined : refundId,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error issuing credit note:", error);
+      toast.error(getBookingErrorMessage(error, "Error al emitir la nota crédito"));
+      return;
+    }
+
+    toast.success(`Nota crédito ${data.invoice_number} emitida`);
+    setCreditInvoice(null);
+    fetchInvoices();
+  };
+
+  // ============================================
+  // FILTERS - Tipo y búsqueda
+  // ============================================
+
+  const query = search.trim().toLowerCase();
+  const filteredInvoices = invoices.filter(
+    (invoice) =>
+      (filterKind === "all" || invoice.kind === filterKind) &&
+      (!query ||
+        invoice.invoice_number.toLowerCase().includes(query) ||
+        invoice.customer_name.toLowerCase().includes(query) ||
+        invoice.customer_tax_id.toLowerCase().includes(query))
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div>
+              <h1 className="text-4xl font-serif font-bold mb-2">Facturación</h1>
+              <p className="text-muted-foreground">
+                Facturas emitidas desde el folio de las reservas y sus notas crédito
+              </p>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <CardTitle>Documentos ({filteredInvoices.length})</CardTitle>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Número, cliente o documento"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="w-64"
+                    />
+                    <Select value={filterKind} onValueChange={setFilterKind}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Todos</SelectItem>
+                        <SelectItem value="invoice">Facturas</SelectItem>
+                        <SelectItem value="credit_note">Notas crédito</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Número</TableHead>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead>Cliente</TableHead>
+                      <TableHead>Reserva</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead>Sin acreditar</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredInvoices.map((invoice) => {
+                      const open = invoice.kind === "invoice" ? getInvoiceOpenAmount(invoice, invoices) : null;
+
+                      return (
+                        <TableRow key={invoice.id}>
+                          <TableCell>
+                            <p className="font-mono font-medium">{invoice.invoice_number}</p>
+                            <Badge variant={invoice.kind === "invoice" ? "default" : "secondary"}>
+                              {INVOICE_KIND_LABELS[invoice.kind] ?? invoice.kind}
+                            </Badge>
+                            {invoice.kind === "credit_note" && (
+                              <p className="text-xs text-muted-foreground">
+                                Corrige {getCorrectedNumber(invoice)}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>{format(new Date(invoice.issued_at), "dd/MM/yyyy HH:mm")}</TableCell>
+                          <TableCell>
+                            <p className="font-medium">{invoice.customer_name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {getTaxIdTypeLabel(invoice.customer_tax_id_type)} {invoice.customer_tax_id}
+                            </p>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {invoice.reservation_id.slice(0, 8)}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {invoice.kind === "credit_note" && "-"}${Number(invoice.total).toLocaleString()}
+                          </TableCell>
+                          <TableCell>{open === null ? "—" : `$${open.toLocaleString()}`}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <InvoicePdfButton invoice={invoice} correctedNumber={getCorrectedNumber(invoice)} />
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => downloadInvoiceXml(invoice, getCorrectedNumber(invoice))}
+                              >
+                                <FileCode className="mr-2 h-4 w-4" />
+                                XML
+                              </Button>
+                              {open !== null && open > 0 && (
+                                <Button size="sm" variant="ghost" onClick={() => openCreditNote(invoice)}>
+                                  <FileMinus className="mr-2 h-4 w-4" />
+                                  Nota crédito
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                    {filteredInvoices.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                          No hay documentos
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Nota crédito sobre una factura */}
+            <Dialog open={!!creditInvoice} onOpenChange={(open) => !open && !saving && setCreditInvoice(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Nota crédito sobre {creditInvoice?.invoice_number}</DialogTitle>
+                  <DialogDescription>
+                    Se acredita la parte indicada de cada línea de la factura, impuestos incluidos
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleCreditNote} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Reembolso</Label>
+                    <Select value={refundId} onValueChange={selectRefund}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_REFUND}>Sin reembolso asociado</SelectItem>
+                        {refunds.map((refund) => (
+                          <SelectItem key={refund.id} value={refund.id}>
+                            {format(new Date(refund.created_at), "dd/MM/yyyy")} · $
+                            {Number(refund.amount).toLocaleString()} · {refund.reason}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="creditAmount">Importe</Label>
+                    <Input
+                      id="creditAmount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={creditAmount}
+                      onChange={(e) => setCreditAmount(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="creditReason">Motivo</Label>
+                    <Input
+                      id="creditReason"
+                      value={creditReason}
+                      onChange={(e) => setCreditReason(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setCreditInvoice(null)} disabled={saving}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold" disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Emitir nota crédito
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminInvoices;
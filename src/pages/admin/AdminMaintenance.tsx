@@ -0,0 +1,731 @@
+/**
+ * @fileoverview Órdenes de mantenimiento
+ * @module AdminMaintenance
+ *
+ * @description
+ * Lista las órdenes de mantenimiento de las habitaciones. Cada orden tiene
+ * descripción, prioridad, responsable, fotos y, si hace falta, las fechas en
+ * que la habitación queda fuera de servicio. Las órdenes pasan de abiertas a
+ * en curso y a resueltas (con la solución aplicada); una orden resuelta se
+ * puede reabrir. El historial de una habitación reúne todas sus órdenes con
+ * sus cambios de estado.
+ *
+ * @design-decisions
+ * - Bloquear fechas ya reservadas se rechaza en la base de datos: primero hay
+ *   que mover esas reservas (calendario o recepción)
+ * - Las fotos se suben después de guardar la orden, porque su carpeta en el
+ *   bucket es el id de la orden
+ * - El estado "maintenance" de la habitación sigue existiendo para dejarla
+ *   fuera de servicio sin fecha de fin
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { History, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import {
+  deleteMaintenancePhoto,
+  describeOutOfOrder,
+  getMaintenancePhotoUrls,
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_PRIORITY_LABELS,
+  MAINTENANCE_STATUS_LABELS,
+  MaintenancePriority,
+  MaintenanceStatus,
+  MaintenanceTicketPhoto,
+  MaintenanceTicketWithDetails,
+  uploadMaintenancePhotos,
+} from "@/lib/maintenance";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type Room = Pick<Tables<"rooms">, "id" | "name" | "type">;
+
+interface TicketForm {
+  room_id: string;
+  title: string;
+  description: string;
+  priority: MaintenancePriority;
+  assigned_to: string;
+  out_of_order_from: string;
+  out_of_order_until: string;
+}
+
+// ============================================
+// CONSTANTS - Filtros y valores vacíos
+// ============================================
+
+/** Valor del select de responsable cuando nadie tiene la orden */
+const UNASSIGNED = "none";
+
+/** Filtro por defecto: órdenes abiertas o en curso */
+const ACTIVE = "active";
+
+const EMPTY_FORM: TicketForm = {
+  room_id: "",
+  title: "",
+  description: "",
+  priority: "medium",
+  assigned_to: UNASSIGNED,
+  out_of_order_from: "",
+  out_of_order_until: "",
+};
+
+const PRIORITY_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  urgent: "destructive",
+};
+
+// ============================================
+// COMPONENT - Página de mantenimiento
+// ============================================
+
+const AdminMaintenance = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const [tickets, setTickets] = useState<MaintenanceTicketWithDetails[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [filterStatus, setFilterStatus] = useState(ACTIVE);
+  const [filterRoom, setFilterRoom] = useState("all");
+
+  // Crear / editar
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTicketId, setEditingTicketId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<TicketForm>(EMPTY_FORM);
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+
+  // Resolver
+  const [resolvingTicket, setResolvingTicket] = useState<MaintenanceTicketWithDetails | null>(null);
+  const [resolution, setResolution] = useState("");
+
+  // Historial por habitación
+  const [historyRoomId, setHistoryRoomId] = useState<string | null>(null);
+
+  // ============================================
+  // DATA FETCHING - Órdenes, habitaciones y personal
+  // ============================================
+
+  const fetchData = useCallback(async () => {
+    const [ticketsResult, roomsResult, staffResult] = await Promise.all([
+      supabase
+        .from("maintenance_tickets")
+        .select("*, maintenance_ticket_events(*), maintenance_ticket_photos(*)")
+        .order("created_at", { ascending: false }),
+      supabase.from("rooms").select("id, name, type").order("name"),
+      supabase.from("user_roles").select("user_id").eq("role", "admin"),
+    ]);
+
+    const error = ticketsResult.error || roomsResult.error || staffResult.error;
+    if (error) {
+      console.error("Error fetching maintenance tickets:", error);
+      toast.error("Error al cargar las órdenes de mantenimiento");
+      setLoading(false);
+      return;
+    }
+
+    const loadedTickets = ticketsResult.data || [];
+    setTickets(loadedTickets);
+    setRooms(roomsResult.data || []);
+
+    const staffIds = (staffResult.data || []).map((r) => r.user_id);
+    if (staffIds.length > 0) {
+      const { data: profiles } = await supabase.from("profiles").select("id, name").in("id", staffIds);
+      setStaffNames(Object.fromEntries((profiles || []).map((p) => [p.id, p.name])));
+    }
+
+    setPhotoUrls(
+      await getMaintenancePhotoUrls(
+        loadedTickets.flatMap((ticket) => ticket.maintenance_ticket_photos.map((photo) => photo.path))
+      )
+    );
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchData();
+    }
+  }, [user, isAdmin, fetchData]);
+
+  // ============================================
+  // HELPERS - Presentación
+  // ============================================
+
+  const getRoomName = (roomId: string) => rooms.find((room) => room.id === roomId)?.name ?? "—";
+
+  const getStaffName = (userId: string | null) => (userId ? staffNames[userId] || "Usuario" : "Sin asignar");
+
+  const filteredTickets = tickets.filter((ticket) => {
+    if (filterRoom !== "all" && ticket.room_id !== filterRoom) return false;
+    if (filterStatus === ACTIVE) return ticket.status !== "resolved";
+    return filterStatus === "all" || ticket.status === filterStatus;
+  });
+
+  const editingTicket = tickets.find((ticket) => ticket.id === editingTicketId) ?? null;
+
+  // ============================================
+  // HANDLERS - Crear y editar
+  // ============================================
+
+  const openCreate = () => {
+    setEditingTicketId(null);
+    setFormData({ ...EMPTY_FORM, room_id: filterRoom !== "all" ? filterRoom : "" });
+    setNewPhotos([]);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (ticket: MaintenanceTicketWithDetails) => {
+    setEditingTicketId(ticket.id);
+    setFormData({
+      room_id: ticket.room_id,
+      title: ticket.title,
+      description: ticket.description ?? "",
+      priority: ticket.priority as MaintenancePriority,
+      assigned_to: ticket.assigned_to ?? UNASSIGNED,
+      out_of_order_from: ticket.out_of_order_from ?? "",
+      out_of_order_until: ticket.out_of_order_until ?? "",
+    });
+    setNewPhotos([]);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.room_id) {
+      toast.error("Seleccione la habitación");
+      return;
+    }
+    if (!!formData.out_of_order_from !== !!formData.out_of_order_until) {
+      toast.error("Indique las dos fechas fuera de servicio, o ninguna");
+      return;
+    }
+    if (formData.out_of_order_from && formData.out_of_order_until < formData.out_of_order_from) {
+      toast.error("La fecha final debe ser igual o posterior a la inicial");
+      return;
+    }
+
+    const ticketData = {
+      room_id: formData.room_id,
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      priority: formData.priority,
+      assigned_to: formData.assigned_to === UNASSIGNED ? null : formData.assigned_to,
+      out_of_order_from: formData.out_of_order_from || null,
+      out_of_order_until: formData.out_of_order_until || null,
+    };
+
+    setSaving(true);
+    const { data, error } = editingTicketId
+      ? await supabase.from("maintenance_tickets").update(ticketData).eq("id", editingTicketId).select("id").single()
+      : await supabase.from("maintenance_tickets").insert(ticketData).select("id").single();
+
+    if (error) {
+      console.error("Error saving maintenance ticket:", error);
+      toast.error(getBookingErrorMessage(error, "Error al guardar la orden"));
+      setSaving(false);
+      return;
+    }
+
+    if (newPhotos.length > 0) {
+      const uploadError = await uploadMaintenancePhotos(data.id, newPhotos);
+      if (uploadError) {
+        toast.error(uploadError);
+      }
+    }
+
+    setSaving(false);
+    toast.success(editingTicketId ? "Orden actualizada" : "Orden creada");
+    setDialogOpen(false);
+    fetchData();
+  };
+
+  const handleDeletePhoto = async (photo: MaintenanceTicketPhoto) => {
+    if (!(await deleteMaintenancePhoto(photo))) {
+      toast.error("No se pudo eliminar la foto");
+      return;
+    }
+    fetchData();
+  };
+
+  // ============================================
+  // HANDLERS - Estados
+  // ============================================
+
+  const updateStatus = async (ticket: MaintenanceTicketWithDetails, status: MaintenanceStatus, note?: string) => {
+    const { error } = await supabase
+      .from("maintenance_tickets")
+      .update({ status, resolution: status === "resolved" ? note ?? null : ticket.resolution })
+      .eq("id", ticket.id);
+
+    if (error) {
+      console.error("Error updating maintenance ticket:", error);
+      toast.error(getBookingErrorMessage(error, "Error al actualizar la orden"));
+      return false;
+    }
+    toast.success(`Orden ${MAINTENANCE_STATUS_LABELS[status].toLowerCase()}`);
+    fetchData();
+    return true;
+  };
+
+  const handleResolve = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolvingTicket) return;
+
+    setSaving(true);
+    const resolved = await updateStatus(resolvingTicket, "resolved", resolution.trim());
+    setSaving(false);
+    if (resolved) {
+      setResolvingTicket(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-accent" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  const historyTickets = tickets.filter((ticket) => ticket.room_id === historyRoomId);
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">Mantenimiento</h1>
+                <p className="text-muted-foreground">
+                  Órdenes de trabajo de las habitaciones y fechas fuera de servicio
+                </p>
+              </div>
+              <Button variant="gold" onClick={openCreate}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nueva Orden
+              </Button>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <CardTitle>Órdenes ({filteredTickets.length})</CardTitle>
+                  <div className="flex gap-2">
+                    <Select value={filterRoom} onValueChange={setFilterRoom}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Todas las habitaciones</SelectItem>
+                        {rooms.map((room) => (
+                          <SelectItem key={room.id} value={room.id}>
+                            {room.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={filterStatus} onValueChange={setFilterStatus}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ACTIVE}>Pendientes</SelectItem>
+                        <SelectItem value="all">Todas</SelectItem>
+                        {Object.entries(MAINTENANCE_STATUS_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Habitación</TableHead>
+                      <TableHead>Orden</TableHead>
+                      <TableHead>Fuera de servicio</TableHead>
+                      <TableHead>Responsable</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredTickets.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          Sin órdenes
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {filteredTickets.map((ticket) => (
+                      <TableRow key={ticket.id}>
+                        <TableCell className="font-medium">{getRoomName(ticket.room_id)}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{ticket.title}</p>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Badge variant={PRIORITY_VARIANTS[ticket.priority] ?? "outline"}>
+                              {MAINTENANCE_PRIORITY_LABELS[ticket.priority] ?? ticket.priority}
+                            </Badge>
+                            {ticket.maintenance_ticket_photos.length > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {ticket.maintenance_ticket_photos.length} foto(s)
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{describeOutOfOrder(ticket) ?? "—"}</TableCell>
+                        <TableCell>{getStaffName(ticket.assigned_to)}</TableCell>
+                        <TableCell>
+                          <Badge variant={ticket.status === "resolved" ? "outline" : "secondary"}>
+                            {MAINTENANCE_STATUS_LABELS[ticket.status] ?? ticket.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {ticket.status === "open" && (
+                              <Button size="sm" variant="outline" onClick={() => updateStatus(ticket, "in_progress")}>
+                                Empezar
+                              </Button>
+                            )}
+                            {ticket.status !== "resolved" ? (
+                              <Button
+                                size="sm"
+                                variant="gold"
+                                onClick={() => {
+                                  setResolvingTicket(ticket);
+                                  setResolution("");
+                                }}
+                              >
+                                Resolver
+                              </Button>
+                            ) : (
+                              <Button size="sm" variant="outline" onClick={() => updateStatus(ticket, "open")}>
+                                Reabrir
+                              </Button>
+                            )}
+                            <Button size="icon" variant="ghost" onClick={() => openEdit(ticket)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Historial de la habitación"
+                              onClick={() => setHistoryRoomId(ticket.room_id)}
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Crear / editar orden */}
+            <Dialog open={dialogOpen} onOpenChange={(open) => !saving && setDialogOpen(open)}>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingTicketId ? "Editar Orden" : "Nueva Orden"}</DialogTitle>
+                  <DialogDescription>
+                    Las fechas fuera de servicio no se pueden reservar mientras la orden no esté resuelta
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Habitación</Label>
+                      <Select
+                        value={formData.room_id}
+                        onValueChange={(room_id) => setFormData({ ...formData, room_id })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Seleccione" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {rooms.map((room) => (
+                            <SelectItem key={room.id} value={room.id}>
+                              {room.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Prioridad</Label>
+                      <Select
+                        value={formData.priority}
+                        onValueChange={(priority) =>
+                          setFormData({ ...formData, priority: priority as MaintenancePriority })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MAINTENANCE_PRIORITIES.map((priority) => (
+                            <SelectItem key={priority} value={priority}>
+                              {MAINTENANCE_PRIORITY_LABELS[priority]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="title">Problema</Label>
+                      <Input
+                        id="title"
+                        value={formData.title}
+                        onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                        placeholder="Aire acondicionado no enfría"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="description">Descripción</Label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        rows={3}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label>Responsable</Label>
+                      <Select
+                        value={formData.assigned_to}
+                        onValueChange={(assigned_to) => setFormData({ ...formData, assigned_to })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                          {Object.entries(staffNames).map(([id, name]) => (
+                            <SelectItem key={id} value={id}>
+                              {name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="out_of_order_from">Fuera de servicio desde (opcional)</Label>
+                      <Input
+                        id="out_of_order_from"
+                        type="date"
+                        value={formData.out_of_order_from}
+                        onChange={(e) => setFormData({ ...formData, out_of_order_from: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="out_of_order_until">Hasta (incluida)</Label>
+                      <Input
+                        id="out_of_order_until"
+                        type="date"
+                        value={formData.out_of_order_until}
+                        onChange={(e) => setFormData({ ...formData, out_of_order_until: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="photos">Fotos</Label>
+                      {editingTicket && editingTicket.maintenance_ticket_photos.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {editingTicket.maintenance_ticket_photos.map((photo) => (
+                            <div key={photo.id} className="relative">
+                              <img
+                                src={photoUrls[photo.path]}
+                                alt="Foto de la orden"
+                                className="h-20 w-20 rounded object-cover border"
+                              />
+                              <Button
+                                type="button"
+                                size="icon"
+                                variant="destructive"
+                                className="absolute -top-2 -right-2 h-6 w-6"
+                                onClick={() => handleDeletePhoto(photo)}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <Input
+                        id="photos"
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={(e) => setNewPhotos(Array.from(e.target.files ?? []))}
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold" disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Guardar
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+
+            {/* Resolver orden */}
+            <Dialog open={!!resolvingTicket} onOpenChange={(open) => !open && !saving && setResolvingTicket(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Resolver orden</DialogTitle>
+                  <DialogDescription>
+                    {resolvingTicket && `${getRoomName(resolvingTicket.room_id)}: ${resolvingTicket.title}`}
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleResolve} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="resolution">Solución aplicada</Label>
+                    <Textarea
+                      id="resolution"
+                      value={resolution}
+                      onChange={(e) => setResolution(e.target.value)}
+                      rows={3}
+                      required
+                    />
+                  </div>
+                  <DialogFooter>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setResolvingTicket(null)}
+                      disabled={saving}
+                    >
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold" disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Resolver
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+
+            {/* Historial de la habitación */}
+            <Dialog open={!!historyRoomId} onOpenChange={(open) => !open && setHistoryRoomId(null)}>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Mantenimiento de {historyRoomId && getRoomName(historyRoomId)}</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  {historyTickets.map((ticket) => (
+                    <div key={ticket.id} className="bg-muted/30 rounded-lg p-3 space-y-2 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium">{ticket.title}</p>
+                        <Badge variant={ticket.status === "resolved" ? "outline" : "secondary"}>
+                          {MAINTENANCE_STATUS_LABELS[ticket.status] ?? ticket.status}
+                        </Badge>
+                      </div>
+                      {ticket.description && <p className="text-muted-foreground">{ticket.description}</p>}
+                      {describeOutOfOrder(ticket) && <p>Fuera de servicio: {describeOutOfOrder(ticket)}</p>}
+                      {ticket.maintenance_ticket_photos.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {ticket.maintenance_ticket_photos.map((photo) => (
+                            <a key={photo.id} href={photoUrls[photo.path]} target="_blank" rel="noreferrer">
+                              <img
+                                src={photoUrls[photo.path]}
+                                alt="Foto de la orden"
+                                className="h-16 w-16 rounded object-cover border"
+                              />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      <ul className="space-y-1 border-l pl-3">
+                        {[...ticket.maintenance_ticket_events]
+                          .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+                          .map((event) => (
+                            <li key={event.id}>
+                              <span className="font-medium">
+                                {MAINTENANCE_STATUS_LABELS[event.to_status] ?? event.to_status}
+                              </span>
+                              {" · "}
+                              <span className="text-muted-foreground">
+                                {format(new Date(event.changed_at), "d MMM yyyy, HH:mm", { locale: es })}
+                                {" · "}
+                                {event.changed_by ? staffNames[event.changed_by] || "Usuario" : "Sistema"}
+                              </span>
+                              {event.note && <p className="text-muted-foreground">{event.note}</p>}
+                            </li>
+                          ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminMaintenance;
@@ -0,0 +1,600 @@
+/**
+ * @fileoverview Gestión de planes tarifarios
+ * @module AdminRatePlans
+ *
+ * @description
+ * Permite a los administradores definir temporadas y tarifas: rango de fechas,
+ * ajuste porcentual sobre el precio base para noches entre semana y de fin de
+ * semana, estadía mínima, prioridad y precios fijos por tipo de habitación.
+ *
+ * @design-decisions
+ * - Los ajustes son porcentajes sobre rooms.price: una temporada alta "+20%"
+ *   sirve para todas las habitaciones sin repetir precios
+ * - Los precios por tipo de habitación sustituyen al ajuste cuando existen
+ * - Fin de semana = noches de viernes y sábado (igual que quote_stay)
+ * - Si varios planes cubren la misma noche se aplica el de mayor prioridad
+ * - La política de cancelación del plan prevalece sobre la del tipo de
+ *   habitación para las reservas que llegan en una de sus noches
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseISODate } from "@/lib/stay";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type RatePlan = Tables<"rate_plans"> & {
+  rate_plan_room_types: Tables<"rate_plan_room_types">[];
+};
+
+/** Precio fijo por tipo de habitación tal como se edita en el formulario */
+interface OverrideForm {
+  weekday_price: string;
+  weekend_price: string;
+  min_nights: string;
+}
+
+// ============================================
+// CONSTANTS - Valores por defecto
+// ============================================
+
+/** Precios por tipo sin rellenar (el tipo no tiene precio fijo) */
+const EMPTY_OVERRIDE: OverrideForm = { weekday_price: "", weekend_price: "", min_nights: "" };
+
+const emptyForm = () => ({
+  name: "",
+  description: "",
+  start_date: "",
+  end_date: "",
+  weekday_modifier: 0,
+  weekend_modifier: 0,
+  min_nights: 1,
+  priority: 0,
+  active: true,
+  cancellation_policy_id: "",
+  overrides: {} as Record<string, OverrideForm>,
+});
+
+/** Valor del selector para "sin política propia" (Select no admite "") */
+const NO_POLICY = "none";
+
+// ============================================
+// COMPONENT - Página de planes tarifarios
+// ============================================
+
+const AdminRatePlans = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const { roomTypes, getRoomTypeName } = useRoomTypes();
+  const [ratePlans, setRatePlans] = useState<RatePlan[]>([]);
+  const [policies, setPolicies] = useState<Tables<"cancellation_policies">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<RatePlan | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchRatePlans();
+      fetchPolicies();
+    }
+  }, [user, isAdmin]);
+
+  // ============================================
+  // DATA FETCHING - Carga de datos
+  // ============================================
+
+  const fetchRatePlans = async () => {
+    const { data, error } = await supabase
+      .from("rate_plans")
+      .select("*, rate_plan_room_types(*)")
+      .order("priority", { ascending: false })
+      .order("start_date", { ascending: true, nullsFirst: true });
+
+    if (error) {
+      console.error("Error fetching rate plans:", error);
+      toast.error("Error al cargar las tarifas");
+    } else {
+      setRatePlans(data || []);
+    }
+    setLoading(false);
+  };
+
+  const fetchPolicies = async () => {
+    const { data, error } = await supabase
+      .from("cancellation_policies")
+      .select("*")
+      .eq("active", true)
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching cancellation policies:", error);
+    } else {
+      setPolicies(data || []);
+    }
+  };
+
+  // ============================================
+  // HANDLERS - Manejadores de eventos
+  // ============================================
+
+  /**
+   * Guarda el plan y reemplaza sus precios por tipo de habitación
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.start_date && formData.end_date && formData.end_date < formData.start_date) {
+      toast.error("La fecha final debe ser posterior a la inicial");
+      return;
+    }
+
+    const planData = {
+      name: formData.name,
+      description: formData.description || null,
+      start_date: formData.start_date || null,
+      end_date: formData.end_date || null,
+      weekday_modifier: formData.weekday_modifier,
+      weekend_modifier: formData.weekend_modifier,
+      min_nights: formData.min_nights,
+      priority: formData.priority,
+      active: formData.active,
+      cancellation_policy_id: formData.cancellation_policy_id || null,
+    };
+
+    const { data: plan, error } = editingPlan
+      ? await supabase.from("rate_plans").update(planData).eq("id", editingPlan.id).select().single()
+      : await supabase.from("rate_plans").insert({ ...planData, created_by: user?.id }).select().single();
+
+    if (error) {
+      console.error("Error saving rate plan:", error);
+      toast.error("Error al guardar la tarifa");
+      return;
+    }
+
+    // Solo se guardan los tipos con precio entre semana indicado
+    const overrides = Object.entries(formData.overrides)
+      .filter(([, o]) => o.weekday_price !== "")
+      .map(([roomType, o]) => ({
+        rate_plan_id: plan.id,
+        room_type: roomType,
+        weekday_price: parseFloat(o.weekday_price),
+        weekend_price: o.weekend_price !== "" ? parseFloat(o.weekend_price) : null,
+        min_nights: o.min_nights !== "" ? parseInt(o.min_nights) : null,
+      }));
+
+    const { error: deleteError } = await supabase
+      .from("rate_plan_room_types")
+      .delete()
+      .eq("rate_plan_id", plan.id);
+
+    const { error: insertError } = overrides.length
+      ? await supabase.from("rate_plan_room_types").insert(overrides)
+      : { error: null };
+
+    if (deleteError || insertError) {
+      console.error("Error saving rate plan overrides:", deleteError || insertError);
+      toast.error("La tarifa se guardó, pero no sus precios por tipo de habitación");
+    } else {
+      toast.success(editingPlan ? "Tarifa actualizada" : "Tarifa creada");
+    }
+
+    setDialogOpen(false);
+    resetForm();
+    fetchRatePlans();
+  };
+
+  const handleEdit = (plan: RatePlan) => {
+    const overrides: Record<string, OverrideForm> = {};
+    plan.rate_plan_room_types.forEach((o) => {
+      overrides[o.room_type] = {
+        weekday_price: String(o.weekday_price),
+        weekend_price: o.weekend_price !== null ? String(o.weekend_price) : "",
+        min_nights: o.min_nights !== null ? String(o.min_nights) : "",
+      };
+    });
+
+    setEditingPlan(plan);
+    setFormData({
+      name: plan.name,
+      description: plan.description || "",
+      start_date: plan.start_date || "",
+      end_date: plan.end_date || "",
+      weekday_modifier: plan.weekday_modifier,
+      weekend_modifier: plan.weekend_modifier,
+      min_nights: plan.min_nights,
+      priority: plan.priority,
+      active: plan.active,
+      cancellation_policy_id: plan.cancellation_policy_id || "",
+      overrides,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (planId: string) => {
+    if (!confirm("¿Estás seguro de eliminar esta tarifa?")) return;
+
+    const { error } = await supabase.from("rate_plans").delete().eq("id", planId);
+    if (error) {
+      console.error("Error deleting rate plan:", error);
+      toast.error("Error al eliminar la tarifa");
+      return;
+    }
+    toast.success("Tarifa eliminada");
+    fetchRatePlans();
+  };
+
+  const resetForm = () => {
+    setEditingPlan(null);
+    setFormData(emptyForm());
+  };
+
+  const updateOverride = (roomType: string, field: keyof OverrideForm, value: string) => {
+    setFormData({
+      ...formData,
+      overrides: {
+        ...formData.overrides,
+        [roomType]: { ...EMPTY_OVERRIDE, ...formData.overrides[roomType], [field]: value },
+      },
+    });
+  };
+
+  // ============================================
+  // HELPER FUNCTIONS - Funciones auxiliares
+  // ============================================
+
+  const formatDate = (value: string | null) =>
+    value ? format(parseISODate(value), "dd MMM yyyy", { locale: es }) : null;
+
+  const formatPeriod = (plan: RatePlan) => {
+    const from = formatDate(plan.start_date);
+    const to = formatDate(plan.end_date);
+    if (!from && !to) return "Todo el año";
+    if (!to) return `Desde ${from}`;
+    if (!from) return `Hasta ${to}`;
+    return `${from} – ${to}`;
+  };
+
+  const formatModifier = (value: number) =>
+    value === 0 ? "Precio base" : `${value > 0 ? "+" : ""}${value}%`;
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl">
+            <div className="flex justify-between items-center mb-8">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">
+                  Tarifas y Temporadas
+                </h1>
+                <p className="text-muted-foreground">
+                  Define precios por temporada, fin de semana y tipo de habitación
+                </p>
+              </div>
+              <Dialog
+                open={dialogOpen}
+                onOpenChange={(open) => {
+                  setDialogOpen(open);
+                  if (!open) resetForm();
+                }}
+              >
+                <DialogTrigger asChild>
+                  <Button variant="gold">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Nueva Tarifa
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingPlan ? "Editar Tarifa" : "Nueva Tarifa"}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2 col-span-2">
+                        <Label htmlFor="name">Nombre</Label>
+                        <Input
+                          id="name"
+                          value={formData.name}
+                          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                          placeholder="Temporada alta"
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="start_date">Desde (opcional)</Label>
+                        <Input
+                          id="start_date"
+                          type="date"
+                          value={formData.start_date}
+                          onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="end_date">Hasta (opcional, incluida)</Label>
+                        <Input
+                          id="end_date"
+                          type="date"
+                          value={formData.end_date}
+                          onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="weekday_modifier">Ajuste entre semana (%)</Label>
+                        <Input
+                          id="weekday_modifier"
+                          type="number"
+                          step="0.01"
+                          value={formData.weekday_modifier}
+                          onChange={(e) =>
+                            setFormData({ ...formData, weekday_modifier: parseFloat(e.target.value) || 0 })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="weekend_modifier">Ajuste fin de semana (%)</Label>
+                        <Input
+                          id="weekend_modifier"
+                          type="number"
+                          step="0.01"
+                          value={formData.weekend_modifier}
+                          onChange={(e) =>
+                            setFormData({ ...formData, weekend_modifier: parseFloat(e.target.value) || 0 })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="min_nights">Estadía mínima (noches)</Label>
+                        <Input
+                          id="min_nights"
+                          type="number"
+                          min="1"
+                          value={formData.min_nights}
+                          onChange={(e) =>
+                            setFormData({ ...formData, min_nights: parseInt(e.target.value) || 1 })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="priority">Prioridad</Label>
+                        <Input
+                          id="priority"
+                          type="number"
+                          value={formData.priority}
+                          onChange={(e) =>
+                            setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Descripción</Label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        rows={2}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Política de cancelación</Label>
+                      <Select
+                        value={formData.cancellation_policy_id || NO_POLICY}
+                        onValueChange={(value) =>
+                          setFormData({ ...formData, cancellation_policy_id: value === NO_POLICY ? "" : value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_POLICY}>La del tipo de habitación</SelectItem>
+                          {policies.map((policy) => (
+                            <SelectItem key={policy.id} value={policy.id}>
+                              {policy.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Precios fijos por tipo de habitación */}
+                    <div className="space-y-2">
+                      <Label>Precio por tipo de habitación (opcional)</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Si se indica, reemplaza el ajuste porcentual para ese tipo
+                      </p>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Tipo</TableHead>
+                            <TableHead>Entre semana</TableHead>
+                            <TableHead>Fin de semana</TableHead>
+                            <TableHead>Estadía mín.</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {roomTypes.map(({ code: value, name: label }) => (
+                            <TableRow key={value}>
+                              <TableCell className="font-medium">{label}</TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={(formData.overrides[value] ?? EMPTY_OVERRIDE).weekday_price}
+                                  onChange={(e) => updateOverride(value, "weekday_price", e.target.value)}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={(formData.overrides[value] ?? EMPTY_OVERRIDE).weekend_price}
+                                  onChange={(e) => updateOverride(value, "weekend_price", e.target.value)}
+                                  placeholder="Igual"
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  value={(formData.overrides[value] ?? EMPTY_OVERRIDE).min_nights}
+                                  onChange={(e) => updateOverride(value, "min_nights", e.target.value)}
+                                  placeholder="Plan"
+                                />
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="active"
+                        checked={formData.active}
+                        onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                      />
+                      <Label htmlFor="active">Tarifa activa</Label>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit" variant="gold">
+                        {editingPlan ? "Actualizar" : "Crear"}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle>Tarifas ({ratePlans.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {ratePlans.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">
+                    No hay tarifas definidas: se aplica el precio base de cada habitación
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nombre</TableHead>
+                        <TableHead>Vigencia</TableHead>
+                        <TableHead>Entre semana</TableHead>
+                        <TableHead>Fin de semana</TableHead>
+                        <TableHead>Estadía mín.</TableHead>
+                        <TableHead>Prioridad</TableHead>
+                        <TableHead>Estado</TableHead>
+                        <TableHead className="text-right">Acciones</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ratePlans.map((plan) => (
+                        <TableRow key={plan.id}>
+                          <TableCell>
+                            <p className="font-medium">{plan.name}</p>
+                            {plan.rate_plan_room_types.length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                Precio fijo: {plan.rate_plan_room_types.map((o) => getRoomTypeName(o.room_type)).join(", ")}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatPeriod(plan)}</TableCell>
+                          <TableCell>{formatModifier(plan.weekday_modifier)}</TableCell>
+                          <TableCell>{formatModifier(plan.weekend_modifier)}</TableCell>
+                          <TableCell>{plan.min_nights}</TableCell>
+                          <TableCell>{plan.priority}</TableCell>
+                          <TableCell>
+                            <Badge variant={plan.active ? "default" : "secondary"}>
+                              {plan.active ? "Activa" : "Inactiva"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button variant="ghost" size="icon" onClick={() => handleEdit(plan)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDelete(plan.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminRatePlans;
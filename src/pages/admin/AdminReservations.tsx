@@ -1,11 +1,15 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { LiveTable, useLiveChanges } from "@/hooks/useLiveChanges";
 import { useUserRole } from "@/hooks/useUserRole";
 import Navigation from "@/components/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Table,
   TableBody,
@@ -14,6 +18,14 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -25,8 +37,20 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
-import { CheckCircle, XCircle, Clock } from "lucide-react";
+import { CheckCircle, XCircle, Clock, Receipt, LogIn, LogOut, History, UserX, FileCode, Loader2 } from "lucide-react";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { Folio, FolioLine } from "@/components/Folio";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
+import { FolioPayments } from "@/components/FolioPayments";
+import { InvoicePdfButton } from "@/components/InvoiceDocument";
+import type { Database, Json, Tables } from "@/integrations/supabase/types";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { describeCancellationPolicy, parseCancellationPolicy } from "@/lib/cancellationPolicy";
+import { downloadInvoiceXml, getInvoiceOpenAmount, INVOICE_KIND_LABELS, InvoiceWithLines } from "@/lib/invoices";
+import { getAmountPaid, getBalanceDue, PaymentWithRefunds } from "@/lib/payments";
+import { EMAIL_TEMPLATE_LABELS, EmailLogEntry, sendQueuedEmails } from "@/lib/emails";
+import { getReservationStatusLabel } from "@/lib/reservationStatus";
 
 interface Reservation {
   id: string;
@@ -39,9 +63,27 @@ interface Reservation {
   status: string;
   guest_data: any;
   created_at: string;
+  cancellation_policy: Json | null;
+  cancellation_penalty: number | null;
+  cancellation_refund: number | null;
+  cancellation_reason: string | null;
   profiles: { name: string; email: string };
+  reservation_line_items: FolioLine[];
+  reservation_status_history: Tables<"reservation_status_history">[];
+  payments: PaymentWithRefunds[];
+  payment_status: string;
+  invoices: InvoiceWithLines[];
+  email_log: EmailLogEntry[];
 }
 
+type CancellationQuote = Database["public"]["Functions"]["quote_cancellation"]["Returns"][number];
+
+/** Estados en los que issue_invoice permite facturar */
+const INVOICEABLE_STATUSES = ["confirmed", "checked_in", "checked_out", "completed"];
+
+/** Tablas que se escuchan en vivo */
+const LIVE_TABLES: LiveTable[] = ["reservations"];
+
 const AdminReservations = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
@@ -49,6 +91,15 @@ const AdminReservations = () => {
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState("all");
+  const [folioReservationId, setFolioReservationId] = useState<string | null>(null);
+  const [historyReservation, setHistoryReservation] = useState<Reservation | null>(null);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+  const [issuingInvoice, setIssuingInvoice] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<Reservation | null>(null);
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null);
+  const [cancelPenalty, setCancelPenalty] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+  const [cancelling, setCancelling] = useState(false);
 
   useEffect(() => {
     if (authLoading || roleLoading) return;
@@ -74,7 +125,7 @@ const AdminReservations = () => {
     try {
       const { data, error } = await supabase
         .from("reservations")
-        .select("*")
+        .select("*, reservation_line_items(*), reservation_status_history(*), payments(*, payment_refunds(*)), invoices(*, invoice_lines(*)), email_log(*)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -96,6 +147,22 @@ const AdminReservations = () => {
       );
 
       setReservations(enrichedReservations);
+
+      // Nombres de quienes cambiaron estados (para el historial)
+      const actorIds = [
+        ...new Set(
+          enrichedReservations.flatMap((r) =>
+            r.reservation_status_history.map((h) => h.changed_by).filter((id): id is string => !!id)
+          )
+        ),
+      ];
+      if (actorIds.length > 0) {
+        const { data: actors } = await supabase
+          .from("profiles")
+          .select("id, name")
+          .in("id", actorIds);
+        setStaffNames(Object.fromEntries((actors || []).map((a) => [a.id, a.name])));
+      }
     } catch (error: any) {
       console.error("Error fetching reservations:", error);
       toast.error("Error al cargar reservas");
@@ -104,6 +171,36 @@ const AdminReservations = () => {
     }
   };
 
+  // Cambios de otros usuarios en vivo
+  const { highlightedIds } = useLiveChanges(LIVE_TABLES, fetchReservations, !!user && isAdmin);
+
+  const issueInvoice = async (reservationId: string) => {
+    setIssuingInvoice(true);
+    const { data, error } = await supabase.rpc("issue_invoice", { _reservation_id: reservationId });
+    setIssuingInvoice(false);
+
+    if (error) {
+      console.error("Error issuing invoice:", error);
+      toast.error(getBookingErrorMessage(error, "Error al emitir la factura"));
+      return;
+    }
+    toast.success(`Factura ${data.invoice_number} emitida`);
+    fetchReservations();
+  };
+
+  /**
+   * Se puede facturar una reserva confirmada sin factura vigente (una factura
+   * anulada por completo con notas crédito deja facturar de nuevo)
+   */
+  const canIssueInvoice = (reservation: Reservation) =>
+    INVOICEABLE_STATUSES.includes(reservation.status) &&
+    !reservation.invoices.some(
+      (invoice) => invoice.kind === "invoice" && getInvoiceOpenAmount(invoice, reservation.invoices) > 0
+    );
+
+  const getCorrectedNumber = (reservation: Reservation, invoice: InvoiceWithLines) =>
+    reservation.invoices.find((i) => i.id === invoice.corrects_invoice_id)?.invoice_number;
+
   const updateReservationStatus = async (
     reservationId: string,
     newStatus: string
@@ -114,15 +211,16 @@ const AdminReservations = () => {
         .update({ status: newStatus })
         .eq("id", reservationId);
 
-      if (error) throw error;
+      if (error) {
+        console.error("Error updating reservation:", error);
+        toast.error(getBookingErrorMessage(error, "Error al actualizar reserva"));
+        return;
+      }
+      sendQueuedEmails();
       toast.success(
-        `Reserva ${
-          newStatus === "confirmed"
-            ? "confirmada"
-            : newStatus === "cancelled"
-            ? "cancelada"
-            : "completada"
-        }`
+        newStatus === "no_show"
+          ? "Reserva marcada como no presentada"
+          : `Reserva ${newStatus === "confirmed" ? "confirmada" : "completada"}`
       );
       fetchReservations();
     } catch (error: any) {
@@ -131,19 +229,102 @@ const AdminReservations = () => {
     }
   };
 
+  /**
+   * Abre el diálogo de cancelación con la penalidad de la política, que el
+   * personal puede reducir o condonar antes de confirmar
+   */
+  const openCancelDialog = async (reservation: Reservation) => {
+    setCancelTarget(reservation);
+    setCancelQuote(null);
+    setCancelPenalty("");
+    setCancelReason("");
+
+    const { data, error } = await supabase.rpc("quote_cancellation", {
+      _reservation_id: reservation.id,
+    });
+
+    if (error) {
+      console.error("Error quoting cancellation:", error);
+      toast.error("No se pudo calcular la penalidad de cancelación");
+      setCancelTarget(null);
+      return;
+    }
+    const quote = data?.[0] ?? null;
+    setCancelQuote(quote);
+    setCancelPenalty(quote ? String(quote.penalty) : "");
+  };
+
+  /**
+   * Cancela con la penalidad indicada; record_cancellation la acota al total
+   * y calcula el reembolso (solo respeta la penalidad enviada por el personal)
+   */
+  const handleCancelReservation = async () => {
+    if (!cancelTarget) return;
+
+    const penalty = Number(cancelPenalty);
+    if (cancelPenalty.trim() === "" || !Number.isFinite(penalty) || penalty < 0) {
+      toast.error("Indique una penalidad válida");
+      return;
+    }
+
+    setCancelling(true);
+    const { data, error } = await supabase
+      .from("reservations")
+      .update({
+        status: "cancelled",
+        cancellation_reason: cancelReason.trim() || null,
+        cancellation_penalty: penalty,
+      })
+      .eq("id", cancelTarget.id)
+      .select("cancellation_refund")
+      .single();
+    setCancelling(false);
+
+    if (error) {
+      console.error("Error cancelling reservation:", error);
+      toast.error(getBookingErrorMessage(error, "Error al cancelar la reserva"));
+      return;
+    }
+
+    sendQueuedEmails();
+    const refund = Number(data.cancellation_refund ?? 0);
+    toast.success(
+      refund > 0 ? `Reserva cancelada. Por reembolsar: $${refund.toLocaleString()}` : "Reserva cancelada"
+    );
+    setCancelTarget(null);
+    fetchReservations();
+  };
+
+  /**
+   * Política de cancelación copiada en la reserva, en una frase
+   */
+  const getPolicyText = (reservation: Reservation) => {
+    const policy = parseCancellationPolicy(reservation.cancellation_policy);
+    return policy ? `${policy.name}: ${describeCancellationPolicy(policy)}` : "Sin política registrada";
+  };
+
+  /**
+   * Lo que aún hay que devolver: lo pagado por encima de la penalidad si se
+   * canceló, o del total si una modificación lo redujo. Ni cancelar ni
+   * modificar reembolsan nada, el personal lo hace desde los pagos del folio
+   */
+  const getPendingRefund = (reservation: Reservation) =>
+    reservation.status === "cancelled"
+      ? Math.max(getAmountPaid(reservation.payments) - Number(reservation.cancellation_penalty ?? 0), 0)
+      : Math.max(-getBalanceDue(reservation.total_price, reservation.payments), 0);
+
   const getStatusBadge = (status: string) => {
-    const statusMap: Record<
-      string,
-      { label: string; variant: any; icon: any }
-    > = {
-      pending: { label: "Pendiente", variant: "secondary", icon: Clock },
-      confirmed: { label: "Confirmada", variant: "default", icon: CheckCircle },
-      completed: { label: "Completada", variant: "outline", icon: CheckCircle },
-      cancelled: { label: "Cancelada", variant: "destructive", icon: XCircle },
+    const statusMap: Record<string, { variant: any; icon: any }> = {
+      pending: { variant: "secondary", icon: Clock },
+      confirmed: { variant: "default", icon: CheckCircle },
+      checked_in: { variant: "default", icon: LogIn },
+      checked_out: { variant: "outline", icon: LogOut },
+      completed: { variant: "outline", icon: CheckCircle },
+      cancelled: { variant: "destructive", icon: XCircle },
+      no_show: { variant: "destructive", icon: UserX },
     };
 
     const statusInfo = statusMap[status] || {
-      label: status,
       variant: "secondary",
       icon: Clock,
     };
@@ -155,7 +336,7 @@ const AdminReservations = () => {
         className="flex items-center gap-1 w-fit"
       >
         <Icon className="w-3 h-3" />
-        {statusInfo.label}
+        {getReservationStatusLabel(status)}
       </Badge>
     );
   };
@@ -165,6 +346,9 @@ const AdminReservations = () => {
       ? reservations
       : reservations.filter((r) => r.status === filterStatus);
 
+  // Se busca en la lista para que el folio abierto refleje los pagos recién registrados
+  const folioReservation = reservations.find((r) => r.id === folioReservationId) ?? null;
+
   if (authLoading || roleLoading || loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -203,8 +387,11 @@ const AdminReservations = () => {
                   <SelectItem value="all">Todas</SelectItem>
                   <SelectItem value="pending">Pendientes</SelectItem>
                   <SelectItem value="confirmed">Confirmadas</SelectItem>
+                  <SelectItem value="checked_in">Hospedados</SelectItem>
+                  <SelectItem value="checked_out">Salidas registradas</SelectItem>
                   <SelectItem value="completed">Completadas</SelectItem>
                   <SelectItem value="cancelled">Canceladas</SelectItem>
+                  <SelectItem value="no_show">No presentadas</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -223,13 +410,20 @@ const AdminReservations = () => {
                       <TableHead>Check-out</TableHead>
                       <TableHead>Huéspedes</TableHead>
                       <TableHead>Total</TableHead>
+                      <TableHead>Pagado</TableHead>
+                      <TableHead>Saldo</TableHead>
                       <TableHead>Estado</TableHead>
+                      <TableHead>Pago</TableHead>
                       <TableHead>Acciones</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {filteredReservations.map((reservation) => (
-                      <TableRow key={reservation.id}>
+                      <TableRow
+                        key={reservation.id}
+                        className={highlightedIds.has(reservation.id) ? "bg-accent/15" : undefined}
+                        title={highlightedIds.has(reservation.id) ? "Modificada por otro usuario" : undefined}
+                      >
                         <TableCell className="font-mono text-sm">
                           {reservation.id.slice(0, 8)}...
                         </TableCell>
@@ -256,11 +450,42 @@ const AdminReservations = () => {
                         <TableCell className="font-medium">
                           ${reservation.total_price.toLocaleString()}
                         </TableCell>
+                        <TableCell>
+                          ${getAmountPaid(reservation.payments).toLocaleString()}
+                        </TableCell>
+                        <TableCell
+                          className={
+                            getBalanceDue(reservation.total_price, reservation.payments) > 0
+                              ? "font-medium text-destructive"
+                              : undefined
+                          }
+                        >
+                          ${getBalanceDue(reservation.total_price, reservation.payments).toLocaleString()}
+                        </TableCell>
                         <TableCell>
                           {getStatusBadge(reservation.status)}
                         </TableCell>
+                        <TableCell>
+                          <PaymentStatusBadge status={reservation.payment_status} />
+                        </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Ver folio"
+                              onClick={() => setFolioReservationId(reservation.id)}
+                            >
+                              <Receipt className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Ver historial"
+                              onClick={() => setHistoryReservation(reservation)}
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
                             {reservation.status === "pending" && (
                               <>
                                 <Button
@@ -278,21 +503,45 @@ const AdminReservations = () => {
                                 <Button
                                   size="sm"
                                   variant="destructive"
+                                  onClick={() => openCancelDialog(reservation)}
+                                >
+                                  Cancelar
+                                </Button>
+                              </>
+                            )}
+                            {reservation.status === "confirmed" && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
                                   onClick={() =>
                                     updateReservationStatus(
                                       reservation.id,
-                                      "cancelled"
+                                      "no_show"
                                     )
                                   }
+                                >
+                                  No se presentó
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => openCancelDialog(reservation)}
                                 >
                                   Cancelar
                                 </Button>
                               </>
                             )}
-                            {reservation.status === "confirmed" && (
+                            {reservation.status === "checked_out" && (
                               <Button
                                 size="sm"
                                 variant="outline"
+                                disabled={getBalanceDue(reservation.total_price, reservation.payments) > 0}
+                                title={
+                                  getBalanceDue(reservation.total_price, reservation.payments) > 0
+                                    ? "Tiene saldo pendiente"
+                                    : undefined
+                                }
                                 onClick={() =>
                                   updateReservationStatus(
                                     reservation.id,
@@ -311,6 +560,247 @@ const AdminReservations = () => {
                 </Table>
               </CardContent>
             </Card>
+
+            {/* Folio de la reserva seleccionada */}
+            <Dialog
+              open={!!folioReservation}
+              onOpenChange={(open) => !open && setFolioReservationId(null)}
+            >
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    Folio #{folioReservation?.id.slice(0, 8)}
+                  </DialogTitle>
+                </DialogHeader>
+                {folioReservation && (
+                  <div className="space-y-4">
+                    <div className="text-sm text-muted-foreground">
+                      {folioReservation.guest_data?.firstName} {folioReservation.guest_data?.lastName}
+                      {" · "}
+                      {format(new Date(folioReservation.check_in), "dd/MM/yyyy")} -{" "}
+                      {format(new Date(folioReservation.check_out), "dd/MM/yyyy")}
+                    </div>
+                    <Folio lines={folioReservation.reservation_line_items} />
+                    <FolioPayments
+                      key={folioReservation.id}
+                      reservationId={folioReservation.id}
+                      total={folioReservation.total_price}
+                      status={folioReservation.status}
+                      payments={folioReservation.payments}
+                      onChange={fetchReservations}
+                    />
+                    <div className="bg-muted/30 rounded-lg p-3 space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium">Facturación</p>
+                        {canIssueInvoice(folioReservation) && (
+                          <Button
+                            size="sm"
+                            variant="gold"
+                            disabled={issuingInvoice}
+                            onClick={() => issueInvoice(folioReservation.id)}
+                          >
+                            Emitir factura
+                          </Button>
+                        )}
+                      </div>
+                      {folioReservation.invoices.length === 0 ? (
+                        <p className="text-muted-foreground">Sin facturas emitidas</p>
+                      ) : (
+                        [...folioReservation.invoices]
+                          .sort((a, b) => a.issued_at.localeCompare(b.issued_at))
+                          .map((invoice) => (
+                            <div key={invoice.id} className="flex items-center justify-between gap-2">
+                              <span>
+                                <span className="font-mono">{invoice.invoice_number}</span>
+                                {" · "}
+                                {INVOICE_KIND_LABELS[invoice.kind] ?? invoice.kind}
+                                {" · "}
+                                {invoice.kind === "credit_note" && "-"}${Number(invoice.total).toLocaleString()}
+                              </span>
+                              <span className="flex gap-1">
+                                <InvoicePdfButton
+                                  invoice={invoice}
+                                  correctedNumber={getCorrectedNumber(folioReservation, invoice)}
+                                  variant="ghost"
+                                />
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() =>
+                                    downloadInvoiceXml(invoice, getCorrectedNumber(folioReservation, invoice))
+                                  }
+                                >
+                                  <FileCode className="mr-2 h-4 w-4" />
+                                  XML
+                                </Button>
+                              </span>
+                            </div>
+                          ))
+                      )}
+                    </div>
+                    <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-sm">
+                      <p className="font-medium">Política de cancelación</p>
+                      <p>{getPolicyText(folioReservation)}</p>
+                      {folioReservation.status === "cancelled" && folioReservation.cancellation_penalty !== null && (
+                        <>
+                          <p>
+                            Penalidad: ${Number(folioReservation.cancellation_penalty).toLocaleString()}
+                            {" · "}
+                            Reembolso: ${Number(folioReservation.cancellation_refund ?? 0).toLocaleString()}
+                          </p>
+                          {folioReservation.cancellation_reason && (
+                            <p className="text-muted-foreground">Motivo: {folioReservation.cancellation_reason}</p>
+                          )}
+                        </>
+                      )}
+                      {getPendingRefund(folioReservation) > 0 && (
+                        <p className="text-destructive">
+                          Pendiente de reembolsar: ${getPendingRefund(folioReservation).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {/* Historial de estados de la reserva seleccionada */}
+            <Dialog
+              open={!!historyReservation}
+              onOpenChange={(open) => !open && setHistoryReservation(null)}
+            >
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>
+                    Historial #{historyReservation?.id.slice(0, 8)}
+                  </DialogTitle>
+                </DialogHeader>
+                {historyReservation && (
+                  <div className="space-y-4">
+                    <StatusTimeline
+                      entries={historyReservation.reservation_status_history}
+                      getActorLabel={(userId) =>
+                        userId ? staffNames[userId] || "Usuario" : "Sistema"
+                      }
+                    />
+                    {/* Correos enviados al huésped */}
+                    <div className="bg-muted/30 rounded-lg p-3 space-y-2 text-sm">
+                      <p className="font-medium">Correos</p>
+                      {historyReservation.email_log.length === 0 ? (
+                        <p className="text-muted-foreground">Sin correos enviados</p>
+                      ) : (
+                        [...historyReservation.email_log]
+                          .sort((a, b) => a.attempted_at.localeCompare(b.attempted_at))
+                          .map((entry) => (
+                            <div key={entry.id}>
+                              <div className="flex items-center justify-between gap-2">
+                                <span>
+                                  {EMAIL_TEMPLATE_LABELS[entry.template] ?? entry.template}
+                                  {" · "}
+                                  <span className="text-muted-foreground">{entry.recipient}</span>
+                                </span>
+                                <Badge variant={entry.status === "sent" ? "secondary" : "destructive"}>
+                                  {entry.status === "sent" ? "Enviado" : "Fallido"}
+                                </Badge>
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {format(new Date(entry.attempted_at), "d MMM yyyy, HH:mm", { locale: es })}
+                                {entry.error && ` · ${entry.error}`}
+                              </p>
+                            </div>
+                          ))
+                      )}
+                    </div>
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {/* Cancelación con penalidad editable (condonación) */}
+            <Dialog
+              open={!!cancelTarget}
+              onOpenChange={(open) => !open && !cancelling && setCancelTarget(null)}
+            >
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Cancelar reserva #{cancelTarget?.id.slice(0, 8)}</DialogTitle>
+                  <DialogDescription>
+                    {cancelTarget && getPolicyText(cancelTarget)}
+                  </DialogDescription>
+                </DialogHeader>
+                {!cancelQuote || !cancelTarget ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin text-accent" />
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-sm">
+                      <div className="flex justify-between">
+                        <span>Total de la reserva</span>
+                        <span>${Number(cancelTarget.total_price).toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Pagado</span>
+                        <span>${getAmountPaid(cancelTarget.payments).toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Penalidad según la política</span>
+                        <span>${Number(cancelQuote.penalty).toLocaleString()}</span>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cancelPenalty">Penalidad a cobrar</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="cancelPenalty"
+                          type="number"
+                          min={0}
+                          max={cancelTarget.total_price}
+                          value={cancelPenalty}
+                          onChange={(e) => setCancelPenalty(e.target.value)}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => setCancelPenalty("0")}
+                          disabled={Number(cancelPenalty) === 0}
+                        >
+                          Condonar
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Por reembolsar: $
+                        {Math.max(
+                          getAmountPaid(cancelTarget.payments) -
+                            Math.min(Math.max(Number(cancelPenalty) || 0, 0), Number(cancelTarget.total_price)),
+                          0
+                        ).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cancelReason">Motivo (opcional)</Label>
+                      <Textarea
+                        id="cancelReason"
+                        value={cancelReason}
+                        onChange={(e) => setCancelReason(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={cancelling}>
+                    Volver
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleCancelReservation}
+                    disabled={cancelling || !cancelQuote}
+                  >
+                    {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Confirmar cancelación
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
           </div>
         </div>
       </div>
@@ -0,0 +1,351 @@
+/**
+ * @fileoverview Gestión de tipos de habitación
+ * @module AdminRoomTypes
+ *
+ * @description
+ * Permite a los administradores mantener el catálogo de tipos de habitación:
+ * nombre, descripción, capacidad y precio base y orden en que aparecen en
+ * filtros y selects.
+ *
+ * @design-decisions
+ * - El código del tipo se fija al crearlo: es lo que guardan las habitaciones,
+ *   las tarifas y las políticas de cancelación
+ * - La capacidad y el precio base solo se proponen al crear una habitación;
+ *   cambiarlos no modifica las habitaciones existentes
+ * - No se puede eliminar un tipo con habitaciones (clave foránea en la base
+ *   de datos)
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { RoomType, useRoomTypes } from "@/hooks/useRoomTypes";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+
+// ============================================
+// CONSTANTS - Valores por defecto
+// ============================================
+
+const emptyForm = () => ({
+  code: "",
+  name: "",
+  description: "",
+  base_capacity: 2,
+  base_price: 0,
+  position: 0,
+});
+
+/**
+ * Código propuesto a partir del nombre: minúsculas, sin tildes ni espacios
+ */
+const toCode = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+// ============================================
+// COMPONENT - Página de tipos de habitación
+// ============================================
+
+const AdminRoomTypes = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const { roomTypes, loading, refetch } = useRoomTypes();
+  const [roomCounts, setRoomCounts] = useState<Record<string, number>>({});
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingType, setEditingType] = useState<RoomType | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // ============================================
+  // DATA FETCHING - Carga de datos
+  // ============================================
+
+  const fetchRoomCounts = useCallback(async () => {
+    const { data, error } = await supabase.from("rooms").select("type");
+
+    if (error) {
+      console.error("Error fetching rooms by type:", error);
+      return;
+    }
+    const counts: Record<string, number> = {};
+    (data || []).forEach((room) => {
+      counts[room.type] = (counts[room.type] ?? 0) + 1;
+    });
+    setRoomCounts(counts);
+  }, []);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchRoomCounts();
+    }
+  }, [user, isAdmin, fetchRoomCounts]);
+
+  // ============================================
+  // HANDLERS - Manejadores de eventos
+  // ============================================
+
+  const openDialog = (roomType: RoomType | null) => {
+    setEditingType(roomType);
+    setFormData(
+      roomType
+        ? {
+            code: roomType.code,
+            name: roomType.name,
+            description: roomType.description || "",
+            base_capacity: roomType.base_capacity,
+            base_price: roomType.base_price,
+            position: roomType.position,
+          }
+        : {
+            ...emptyForm(),
+            position: roomTypes.length > 0 ? Math.max(...roomTypes.map((t) => t.position)) + 1 : 1,
+          }
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { code, ...fields } = formData;
+    const typeData = { ...fields, name: fields.name.trim(), description: fields.description.trim() || null };
+
+    const { error } = editingType
+      ? await supabase.from("room_types").update(typeData).eq("code", editingType.code)
+      : await supabase.from("room_types").insert({ ...typeData, code });
+
+    if (error) {
+      console.error("Error saving room type:", error);
+      toast.error(
+        error.code === "23505" ? "Ya existe un tipo con ese código" : "Error al guardar el tipo de habitación"
+      );
+      return;
+    }
+    toast.success(editingType ? "Tipo actualizado" : "Tipo creado");
+    setDialogOpen(false);
+    refetch();
+  };
+
+  const handleDelete = async (roomType: RoomType) => {
+    if (!confirm(`¿Estás seguro de eliminar el tipo "${roomType.name}"?`)) return;
+
+    const { error } = await supabase.from("room_types").delete().eq("code", roomType.code);
+    if (error) {
+      console.error("Error deleting room type:", error);
+      toast.error(
+        error.code === "23503"
+          ? "Hay habitaciones de este tipo. Cámbielas de tipo antes de eliminarlo"
+          : "Error al eliminar"
+      );
+      return;
+    }
+    toast.success("Eliminado correctamente");
+    refetch();
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-4xl font-serif font-bold mb-2">
+                  Tipos de Habitación
+                </h1>
+                <p className="text-muted-foreground">
+                  Catálogo usado en los filtros de habitaciones, tarifas y políticas
+                </p>
+              </div>
+              <Button variant="gold" onClick={() => openDialog(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nuevo Tipo
+              </Button>
+            </div>
+
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle>Tipos ({roomTypes.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Orden</TableHead>
+                      <TableHead>Nombre</TableHead>
+                      <TableHead>Código</TableHead>
+                      <TableHead>Capacidad base</TableHead>
+                      <TableHead>Precio base</TableHead>
+                      <TableHead>Habitaciones</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roomTypes.map((roomType) => (
+                      <TableRow key={roomType.code}>
+                        <TableCell>{roomType.position}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{roomType.name}</div>
+                          {roomType.description && (
+                            <div className="text-sm text-muted-foreground">{roomType.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{roomType.code}</TableCell>
+                        <TableCell>{roomType.base_capacity} personas</TableCell>
+                        <TableCell>${roomType.base_price.toLocaleString()}</TableCell>
+                        <TableCell>{roomCounts[roomType.code] ?? 0}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="ghost" size="icon" onClick={() => openDialog(roomType)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(roomType)}
+                            disabled={(roomCounts[roomType.code] ?? 0) > 0}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>{editingType ? "Editar Tipo" : "Nuevo Tipo"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Nombre</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            name: e.target.value,
+                            // El código sigue al nombre mientras se crea el tipo
+                            code: editingType ? formData.code : toCode(e.target.value),
+                          })
+                        }
+                        placeholder="Familiar"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="code">Código</Label>
+                      <Input
+                        id="code"
+                        value={formData.code}
+                        onChange={(e) => setFormData({ ...formData, code: toCode(e.target.value) })}
+                        disabled={!!editingType}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="base_capacity">Capacidad base</Label>
+                      <Input
+                        id="base_capacity"
+                        type="number"
+                        min={1}
+                        value={formData.base_capacity}
+                        onChange={(e) => setFormData({ ...formData, base_capacity: parseInt(e.target.value) })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="base_price">Precio base por noche</Label>
+                      <Input
+                        id="base_price"
+                        type="number"
+                        min={0}
+                        value={formData.base_price}
+                        onChange={(e) => setFormData({ ...formData, base_price: parseFloat(e.target.value) })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="position">Orden</Label>
+                      <Input
+                        id="position"
+                        type="number"
+                        value={formData.position}
+                        onChange={(e) => setFormData({ ...formData, position: parseInt(e.target.value) })}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Descripción</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold">
+                      {editingType ? "Actualizar" : "Crear"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminRoomTypes;
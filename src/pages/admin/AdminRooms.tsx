@@ -1,8 +1,14 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { LiveTable, useLiveChanges } from "@/hooks/useLiveChanges";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { useAmenities } from "@/hooks/useAmenities";
 import Navigation from "@/components/Navigation";
+import { HousekeepingStatusBadge } from "@/components/HousekeepingStatusBadge";
+import { RoomImagesManager } from "@/components/RoomImagesManager";
+import { AmenityPicker } from "@/components/AmenityPicker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -32,7 +38,7 @@ import {
 } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import { Bed, Plus, Pencil, Trash2 } from "lucide-react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 
 interface Room {
@@ -43,26 +49,32 @@ interface Room {
   price: number;
   description: string;
   status: string;
+  housekeeping_status: string;
   image_url: string | null;
-  features: string[];
+  room_amenities: { amenity_id: string }[];
 }
 
+/** Tablas que se escuchan en vivo */
+const LIVE_TABLES: LiveTable[] = ["rooms"];
+
 const AdminRooms = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const { isAdmin, loading: roleLoading } = useUserRole(user?.id);
+  const { roomTypes, getRoomTypeName } = useRoomTypes();
+  const { amenities } = useAmenities();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
   const [formData, setFormData] = useState({
     name: "",
-    type: "suite",
+    type: "",
     capacity: 2,
     price: 0,
     description: "",
     status: "available",
-    features: "",
+    amenity_ids: [] as string[],
   });
   useEffect(() => {
     if (authLoading || roleLoading) return;
@@ -88,7 +100,7 @@ const AdminRooms = () => {
     try {
       const { data, error } = await supabase
         .from("rooms")
-        .select("*")
+        .select("*, room_amenities(amenity_id)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -101,9 +113,17 @@ const AdminRooms = () => {
     }
   };
 
+  // Cambios de otros usuarios en vivo
+  const { highlightedIds } = useLiveChanges(LIVE_TABLES, fetchRooms, !!user && isAdmin);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (!formData.type) {
+      toast.error("Seleccione el tipo de habitación");
+      return;
+    }
+
     try {
       const roomData = {
         name: formData.name,
@@ -112,12 +132,9 @@ const AdminRooms = () => {
         price: formData.price,
         description: formData.description,
         status: formData.status,
-        features: formData.features
-          .split(",")
-          .map((f) => f.trim())
-          .filter(Boolean),
       };
 
+      let roomId = editingRoom?.id;
       if (editingRoom) {
         const { error } = await supabase
           .from("rooms")
@@ -125,14 +142,34 @@ const AdminRooms = () => {
           .eq("id", editingRoom.id);
 
         if (error) throw error;
-        toast.success("Habitación actualizada");
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from("rooms")
-          .insert([{ ...roomData, created_by: user?.id }]);
+          .insert([{ ...roomData, created_by: user?.id }])
+          .select("id")
+          .single();
 
         if (error) throw error;
-        toast.success("Habitación creada");
+        roomId = data.id;
+      }
+
+      // Las comodidades se reemplazan por completo, como los precios por tipo de las tarifas
+      const { error: deleteError } = await supabase
+        .from("room_amenities")
+        .delete()
+        .eq("room_id", roomId);
+
+      const { error: insertError } = formData.amenity_ids.length
+        ? await supabase
+            .from("room_amenities")
+            .insert(formData.amenity_ids.map((amenity_id) => ({ room_id: roomId, amenity_id })))
+        : { error: null };
+
+      if (deleteError || insertError) {
+        console.error("Error saving room amenities:", deleteError || insertError);
+        toast.error("La habitación se guardó, pero no sus comodidades");
+      } else {
+        toast.success(editingRoom ? "Habitación actualizada" : "Habitación creada");
       }
 
       setDialogOpen(false);
@@ -153,7 +190,7 @@ const AdminRooms = () => {
       price: room.price,
       description: room.description || "",
       status: room.status,
-      features: room.features?.join(", ") || "",
+      amenity_ids: room.room_amenities.map((a) => a.amenity_id),
     });
     setDialogOpen(true);
   };
@@ -176,12 +213,12 @@ const AdminRooms = () => {
     setEditingRoom(null);
     setFormData({
       name: "",
-      type: "suite",
+      type: "",
       capacity: 2,
       price: 0,
       description: "",
       status: "available",
-      features: "",
+      amenity_ids: [],
     });
   };
 
@@ -225,7 +262,7 @@ const AdminRooms = () => {
                     Nueva Habitación
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>
                       {editingRoom ? "Editar Habitación" : "Nueva Habitación"}
@@ -248,17 +285,30 @@ const AdminRooms = () => {
                         <Label htmlFor="type">Tipo</Label>
                         <Select
                           value={formData.type}
-                          onValueChange={(value) =>
-                            setFormData({ ...formData, type: value })
-                          }
+                          onValueChange={(value) => {
+                            const roomType = roomTypes.find((t) => t.code === value);
+                            // Al crear, se proponen la capacidad y el precio base del tipo
+                            setFormData(
+                              !editingRoom && roomType
+                                ? {
+                                    ...formData,
+                                    type: value,
+                                    capacity: roomType.base_capacity,
+                                    price: roomType.base_price,
+                                  }
+                                : { ...formData, type: value }
+                            );
+                          }}
                         >
                           <SelectTrigger>
-                            <SelectValue />
+                            <SelectValue placeholder="Seleccione" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="suite">Suite</SelectItem>
-                            <SelectItem value="doble">Doble</SelectItem>
-                            <SelectItem value="sencilla">Sencilla</SelectItem>
+                            {roomTypes.map((roomType) => (
+                              <SelectItem key={roomType.code} value={roomType.code}>
+                                {roomType.name}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -313,22 +363,9 @@ const AdminRooms = () => {
                             </SelectItem>
                           </SelectContent>
                         </Select>
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="features">
-                          Características (separadas por comas)
-                        </Label>
-                        <Input
-                          id="features"
-                          value={formData.features}
-                          onChange={(e) =>
-                            setFormData({
-                              ...formData,
-                              features: e.target.value,
-                            })
-                          }
-                          placeholder="WiFi, TV, Minibar"
-                        />
+                        <p className="text-xs text-muted-foreground">
+                          Para bloquear fechas concretas cree una orden de mantenimiento
+                        </p>
                       </div>
                     </div>
                     <div className="space-y-2">
@@ -345,6 +382,21 @@ const AdminRooms = () => {
                         rows={3}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label>Comodidades</Label>
+                      <AmenityPicker
+                        amenities={amenities}
+                        selected={formData.amenity_ids}
+                        onChange={(amenity_ids) => setFormData({ ...formData, amenity_ids })}
+                      />
+                    </div>
+                    {editingRoom ? (
+                      <RoomImagesManager roomId={editingRoom.id} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Podrá agregar fotos después de crear la habitación
+                      </p>
+                    )}
                     <div className="flex justify-end gap-2">
                       <Button
                         type="button"
@@ -375,23 +427,44 @@ const AdminRooms = () => {
                       <TableHead>Capacidad</TableHead>
                       <TableHead>Precio</TableHead>
                       <TableHead>Estado</TableHead>
+                      <TableHead>Limpieza</TableHead>
                       <TableHead className="text-right">Acciones</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {rooms.map((room) => (
-                      <TableRow key={room.id}>
+                      <TableRow
+                        key={room.id}
+                        className={highlightedIds.has(room.id) ? "bg-accent/15" : undefined}
+                        title={highlightedIds.has(room.id) ? "Modificada por otro usuario" : undefined}
+                      >
                         <TableCell className="font-medium">
-                          {room.name}
+                          <div className="flex items-center gap-3">
+                            {room.image_url ? (
+                              <img
+                                src={room.image_url}
+                                alt={room.name}
+                                className="h-10 w-14 rounded object-cover"
+                              />
+                            ) : (
+                              <div className="h-10 w-14 rounded bg-muted flex items-center justify-center">
+                                <Bed className="h-4 w-4 text-muted-foreground" />
+                              </div>
+                            )}
+                            {room.name}
+                          </div>
                         </TableCell>
-                        <TableCell className="capitalize">
-                          {room.type}
+                        <TableCell>
+                          {getRoomTypeName(room.type)}
                         </TableCell>
                         <TableCell>{room.capacity} personas</TableCell>
                         <TableCell>${room.price.toLocaleString()}</TableCell>
                         <TableCell className="capitalize">
                           {room.status}
                         </TableCell>
+                        <TableCell>
+                          <HousekeepingStatusBadge status={room.housekeeping_status} />
+                        </TableCell>
                         <TableCell className="text-right space-x-2">
                           <Button
                             variant="ghost"
@@ -0,0 +1,535 @@
+/**
+ * @fileoverview Gestión de impuestos y cargos fijos
+ * @module AdminTaxes
+ *
+ * @description
+ * Permite a los administradores configurar los impuestos (porcentaje sobre la
+ * base gravable, con exenciones por tipo de documento) y los cargos fijos que
+ * price_reservation agrega al folio de cada nueva reserva.
+ *
+ * @design-decisions
+ * - Los cambios solo afectan a reservas nuevas: las existentes conservan las
+ *   líneas guardadas en reservation_line_items
+ * - Un cargo marcado como gravable se suma a la base de los impuestos
+ */
+
+import { useEffect, useState } from "react";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DOCUMENT_TYPES, getDocumentTypeLabel, DocumentType } from "@/lib/guest";
+
+// ============================================
+// TYPES - Definición de tipos
+// ============================================
+
+type TaxRule = Tables<"tax_rules">;
+type Fee = Tables<"fees">;
+
+// ============================================
+// CONSTANTS - Opciones de cobro
+// ============================================
+
+const CHARGE_PER = [
+  { value: "stay", label: "Por estadía" },
+  { value: "night", label: "Por noche" },
+  { value: "room_night", label: "Por habitación y noche" },
+  { value: "guest_night", label: "Por huésped y noche" },
+];
+
+const emptyTaxForm = () => ({
+  name: "",
+  rate: 0,
+  exempt_document_types: [] as string[],
+  sort_order: 0,
+  active: true,
+});
+
+const emptyFeeForm = () => ({
+  name: "",
+  amount: 0,
+  charge_per: "stay",
+  taxable: false,
+  sort_order: 0,
+  active: true,
+});
+
+// ============================================
+// COMPONENT - Página de impuestos y cargos
+// ============================================
+
+const AdminTaxes = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole(user?.id);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [fees, setFees] = useState<Fee[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [taxDialogOpen, setTaxDialogOpen] = useState(false);
+  const [editingTax, setEditingTax] = useState<TaxRule | null>(null);
+  const [taxForm, setTaxForm] = useState(emptyTaxForm);
+
+  const [feeDialogOpen, setFeeDialogOpen] = useState(false);
+  const [editingFee, setEditingFee] = useState<Fee | null>(null);
+  const [feeForm, setFeeForm] = useState(emptyFeeForm);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchData();
+    }
+  }, [user, isAdmin]);
+
+  // ============================================
+  // DATA FETCHING - Carga de datos
+  // ============================================
+
+  const fetchData = async () => {
+    const [taxResult, feeResult] = await Promise.all([
+      supabase.from("tax_rules").select("*").order("sort_order").order("name"),
+      supabase.from("fees").select("*").order("sort_order").order("name"),
+    ]);
+
+    if (taxResult.error || feeResult.error) {
+      console.error("Error fetching taxes and fees:", taxResult.error || feeResult.error);
+      toast.error("Error al cargar impuestos y cargos");
+    } else {
+      setTaxRules(taxResult.data || []);
+      setFees(feeResult.data || []);
+    }
+    setLoading(false);
+  };
+
+  // ============================================
+  // HANDLERS - Impuestos
+  // ============================================
+
+  const openTaxDialog = (rule: TaxRule | null) => {
+    setEditingTax(rule);
+    setTaxForm(
+      rule
+        ? {
+            name: rule.name,
+            rate: rule.rate,
+            exempt_document_types: rule.exempt_document_types,
+            sort_order: rule.sort_order,
+            active: rule.active,
+          }
+        : emptyTaxForm()
+    );
+    setTaxDialogOpen(true);
+  };
+
+  const handleTaxSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { error } = editingTax
+      ? await supabase.from("tax_rules").update(taxForm).eq("id", editingTax.id)
+      : await supabase.from("tax_rules").insert(taxForm);
+
+    if (error) {
+      console.error("Error saving tax rule:", error);
+      toast.error("Error al guardar el impuesto");
+      return;
+    }
+    toast.success(editingTax ? "Impuesto actualizado" : "Impuesto creado");
+    setTaxDialogOpen(false);
+    fetchData();
+  };
+
+  const toggleExemption = (type: DocumentType, checked: boolean) => {
+    setTaxForm({
+      ...taxForm,
+      exempt_document_types: checked
+        ? [...taxForm.exempt_document_types, type]
+        : taxForm.exempt_document_types.filter((t) => t !== type),
+    });
+  };
+
+  // ============================================
+  // HANDLERS - Cargos fijos
+  // ============================================
+
+  const openFeeDialog = (fee: Fee | null) => {
+    setEditingFee(fee);
+    setFeeForm(
+      fee
+        ? {
+            name: fee.name,
+            amount: fee.amount,
+            charge_per: fee.charge_per,
+            taxable: fee.taxable,
+            sort_order: fee.sort_order,
+            active: fee.active,
+          }
+        : emptyFeeForm()
+    );
+    setFeeDialogOpen(true);
+  };
+
+  const handleFeeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { error } = editingFee
+      ? await supabase.from("fees").update(feeForm).eq("id", editingFee.id)
+      : await supabase.from("fees").insert(feeForm);
+
+    if (error) {
+      console.error("Error saving fee:", error);
+      toast.error("Error al guardar el cargo");
+      return;
+    }
+    toast.success(editingFee ? "Cargo actualizado" : "Cargo creado");
+    setFeeDialogOpen(false);
+    fetchData();
+  };
+
+  const handleDelete = async (table: "tax_rules" | "fees", id: string) => {
+    if (!confirm("¿Estás seguro de eliminar este registro?")) return;
+
+    const { error } = await supabase.from(table).delete().eq("id", id);
+    if (error) {
+      console.error("Error deleting record:", error);
+      toast.error("Error al eliminar");
+      return;
+    }
+    toast.success("Eliminado correctamente");
+    fetchData();
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="w-16 h-16 border-4 border-accent border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // ============================================
+  // RENDER - Renderizado del componente
+  // ============================================
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-background">
+        <div className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-7xl space-y-8">
+            <div>
+              <h1 className="text-4xl font-serif font-bold mb-2">
+                Impuestos y Cargos
+              </h1>
+              <p className="text-muted-foreground">
+                Se aplican al folio de cada nueva reserva
+              </p>
+            </div>
+
+            {/* Impuestos */}
+            <Card className="shadow-elegant">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Impuestos ({taxRules.length})</CardTitle>
+                <Button variant="gold" onClick={() => openTaxDialog(null)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nuevo Impuesto
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nombre</TableHead>
+                      <TableHead>Tarifa</TableHead>
+                      <TableHead>Exentos</TableHead>
+                      <TableHead>Orden</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taxRules.map((rule) => (
+                      <TableRow key={rule.id}>
+                        <TableCell className="font-medium">{rule.name}</TableCell>
+                        <TableCell>{rule.rate}%</TableCell>
+                        <TableCell>
+                          {rule.exempt_document_types.length > 0
+                            ? rule.exempt_document_types
+                                .map((t) => getDocumentTypeLabel(t as DocumentType))
+                                .join(", ")
+                            : "—"}
+                        </TableCell>
+                        <TableCell>{rule.sort_order}</TableCell>
+                        <TableCell>
+                          <Badge variant={rule.active ? "default" : "secondary"}>
+                            {rule.active ? "Activo" : "Inactivo"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="ghost" size="icon" onClick={() => openTaxDialog(rule)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete("tax_rules", rule.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Cargos fijos */}
+            <Card className="shadow-elegant">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Cargos fijos ({fees.length})</CardTitle>
+                <Button variant="gold" onClick={() => openFeeDialog(null)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nuevo Cargo
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {fees.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">
+                    No hay cargos fijos configurados
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nombre</TableHead>
+                        <TableHead>Importe</TableHead>
+                        <TableHead>Cobro</TableHead>
+                        <TableHead>Gravable</TableHead>
+                        <TableHead>Estado</TableHead>
+                        <TableHead className="text-right">Acciones</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fees.map((fee) => (
+                        <TableRow key={fee.id}>
+                          <TableCell className="font-medium">{fee.name}</TableCell>
+                          <TableCell>${fee.amount.toLocaleString()}</TableCell>
+                          <TableCell>
+                            {CHARGE_PER.find((c) => c.value === fee.charge_per)?.label}
+                          </TableCell>
+                          <TableCell>{fee.taxable ? "Sí" : "No"}</TableCell>
+                          <TableCell>
+                            <Badge variant={fee.active ? "default" : "secondary"}>
+                              {fee.active ? "Activo" : "Inactivo"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button variant="ghost" size="icon" onClick={() => openFeeDialog(fee)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDelete("fees", fee.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Formulario de impuesto */}
+            <Dialog open={taxDialogOpen} onOpenChange={setTaxDialogOpen}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingTax ? "Editar Impuesto" : "Nuevo Impuesto"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleTaxSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tax_name">Nombre</Label>
+                    <Input
+                      id="tax_name"
+                      value={taxForm.name}
+                      onChange={(e) => setTaxForm({ ...taxForm, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="tax_rate">Tarifa (%)</Label>
+                      <Input
+                        id="tax_rate"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={taxForm.rate}
+                        onChange={(e) => setTaxForm({ ...taxForm, rate: parseFloat(e.target.value) || 0 })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="tax_order">Orden en el folio</Label>
+                      <Input
+                        id="tax_order"
+                        type="number"
+                        value={taxForm.sort_order}
+                        onChange={(e) => setTaxForm({ ...taxForm, sort_order: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Exentos según documento del huésped</Label>
+                    {DOCUMENT_TYPES.map((type) => (
+                      <div key={type.value} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`exempt_${type.value}`}
+                          checked={taxForm.exempt_document_types.includes(type.value)}
+                          onCheckedChange={(checked) => toggleExemption(type.value, checked === true)}
+                        />
+                        <Label htmlFor={`exempt_${type.value}`} className="font-normal">
+                          {type.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="tax_active"
+                      checked={taxForm.active}
+                      onCheckedChange={(checked) => setTaxForm({ ...taxForm, active: checked })}
+                    />
+                    <Label htmlFor="tax_active">Impuesto activo</Label>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setTaxDialogOpen(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold">
+                      {editingTax ? "Actualizar" : "Crear"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+
+            {/* Formulario de cargo fijo */}
+            <Dialog open={feeDialogOpen} onOpenChange={setFeeDialogOpen}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingFee ? "Editar Cargo" : "Nuevo Cargo"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleFeeSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="fee_name">Nombre</Label>
+                    <Input
+                      id="fee_name"
+                      value={feeForm.name}
+                      onChange={(e) => setFeeForm({ ...feeForm, name: e.target.value })}
+                      placeholder="Seguro hotelero"
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="fee_amount">Importe</Label>
+                      <Input
+                        id="fee_amount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={feeForm.amount}
+                        onChange={(e) => setFeeForm({ ...feeForm, amount: parseFloat(e.target.value) || 0 })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Cobro</Label>
+                      <Select
+                        value={feeForm.charge_per}
+                        onValueChange={(value) => setFeeForm({ ...feeForm, charge_per: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CHARGE_PER.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fee_order">Orden en el folio</Label>
+                      <Input
+                        id="fee_order"
+                        type="number"
+                        value={feeForm.sort_order}
+                        onChange={(e) => setFeeForm({ ...feeForm, sort_order: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="fee_taxable"
+                      checked={feeForm.taxable}
+                      onCheckedChange={(checked) => setFeeForm({ ...feeForm, taxable: checked })}
+                    />
+                    <Label htmlFor="fee_taxable">Gravable (suma a la base de impuestos)</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="fee_active"
+                      checked={feeForm.active}
+                      onCheckedChange={(checked) => setFeeForm({ ...feeForm, active: checked })}
+                    />
+                    <Label htmlFor="fee_active">Cargo activo</Label>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setFeeDialogOpen(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" variant="gold">
+                      {editingFee ? "Actualizar" : "Crear"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AdminTaxes;
@@ -5,15 +5,24 @@
  * @description
  * Permite a los usuarios completar su reserva ingresando datos del huésped,
  * seleccionando fechas y número de huéspedes. Guarda la reserva en Supabase
- * y redirige a la página de confirmación.
+ * y redirige al paso de pago.
  * 
  * @design-decisions
  * - Validación con Zod: proporciona mensajes de error claros y type-safety
  * - React Hook Form: manejo eficiente de formularios con validación
- * - Cálculo dinámico de precio: actualiza en tiempo real según fechas y habitaciones
- * - localStorage para habitaciones: permite persistir selección entre páginas
+ * - Cotización noche a noche (quote_stay): muestra qué tarifa se aplica a cada noche;
+ *   create_reservation usa la misma función, así que el total cotizado es el que se guarda
+ * - Folio con cargos e impuestos (price_reservation): el tipo de documento del huésped
+ *   decide las exenciones, por eso la cotización se recalcula al cambiarlo
+ * - Habitaciones desde el carrito del servidor (useBookingCart) y fechas desde localStorage:
+ *   la selección se mantiene entre páginas y dispositivos y se revalida con las fechas
  * - Validación de capacidad: previene reservas que excedan capacidad máxima
- * - Número de confirmación: primeros 8 caracteres del UUID para fácil referencia
+ * - Retención temporal (useRoomHolds): las habitaciones quedan reservadas 15 minutos
+ *   mientras se completa el formulario y se muestra la cuenta regresiva
+ * - Política de cancelación (get_cancellation_policy): se muestra antes de reservar y
+ *   la base de datos copia esa misma política en la reserva al crearla
+ * - El pago (/checkout/:reservationId) y la confirmación (/confirmation/:reservationId)
+ *   reciben la reserva por URL, no por localStorage
  */
 
 import { useState, useEffect } from "react";
@@ -22,37 +31,35 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Calendar } from "@/components/ui/calendar";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
-import { CalendarIcon, Users, Mail, Phone, CreditCard, Loader2 } from "lucide-react";
+import { Users, Mail, Phone, CreditCard, Loader2 } from "lucide-react";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { StayDatesPicker } from "@/components/StayDatesPicker";
+import { PriceBreakdown } from "@/components/PriceBreakdown";
+import { Folio } from "@/components/Folio";
+import { HoldCountdown } from "@/components/HoldCountdown";
 import { toast } from "sonner";
-import { cn } from "@/lib/utils";
+import { getNights, loadStayDates, saveStayDates, StayDates, toISODate } from "@/lib/stay";
+import { getBookingErrorMessage, isRoomUnavailableError } from "@/lib/bookingErrors";
+import { DOCUMENT_TYPES } from "@/lib/guest";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useStayQuote } from "@/hooks/useStayQuote";
+import { describeCancellationPolicy } from "@/lib/cancellationPolicy";
+import { useBookingCart } from "@/hooks/useBookingCart";
+import { useRoomHolds } from "@/hooks/useRoomHolds";
+import { sendQueuedEmails } from "@/lib/emails";
 
 // ============================================
 // TYPES - Definición de tipos
 // ============================================
 
-/**
- * Estructura de habitación para el resumen
- * Versión reducida con solo campos necesarios para cálculos
- */
-interface Room {
-  id: string;
-  name: string;
-  type: string;
-  capacity: number;
-  price: number;
-}
-
 // ============================================
 // VALIDATION SCHEMA - Esquema de validación Zod
 // ============================================
@@ -65,6 +72,7 @@ interface Room {
  * - firstName/lastName: mínimo 2 caracteres
  * - email: formato válido de email
  * - phone: mínimo 10 dígitos
+ * - documentType: cédula, cédula de extranjería o pasaporte (define exenciones)
  * - documentId: mínimo 5 caracteres (DNI, pasaporte, etc.)
  */
 const guestSchema = z.object({
@@ -72,6 +80,7 @@ const guestSchema = z.object({
   lastName: z.string().min(2, "El apellido debe tener al menos 2 caracteres"),
   email: z.string().email("Email inválido"),
   phone: z.string().min(10, "El teléfono debe tener al menos 10 dígitos"),
+  documentType: z.enum(["cc", "ce", "passport"]),
   documentId: z.string().min(5, "El documento debe tener al menos 5 caracteres"),
 });
 
@@ -84,12 +93,12 @@ const guestSchema = z.object({
  * 
  * @description
  * Flujo del componente:
- * 1. Carga habitaciones seleccionadas de localStorage
+ * 1. Carga habitaciones del carrito (revalidadas contra las fechas)
  * 2. Usuario completa formulario de huésped
  * 3. Usuario selecciona fechas check-in/check-out
  * 4. Usuario indica número de huéspedes
- * 5. Sistema valida y guarda en Supabase
- * 6. Redirección a página de confirmación
+ * 5. El servidor valida, calcula el precio y guarda la reserva (create_reservation)
+ * 6. Redirección al paso de pago (depósito o total)
  * 
  * @returns {JSX.Element} Formulario de reserva con resumen
  */
@@ -101,14 +110,18 @@ const Reservation = () => {
   // STATE - Estados del componente
   // ============================================
   
-  /** Habitaciones seleccionadas (cargadas de localStorage) */
-  const [rooms, setRooms] = useState<Room[]>([]);
+  /** Fecha de entrada (preseleccionada desde /rooms) */
+  const [checkIn, setCheckIn] = useState<Date | undefined>(() => loadStayDates().checkIn);
+  
+  /** Fecha de salida (preseleccionada desde /rooms) */
+  const [checkOut, setCheckOut] = useState<Date | undefined>(() => loadStayDates().checkOut);
   
-  /** Fecha de entrada */
-  const [checkIn, setCheckIn] = useState<Date>();
+  /** Carrito del servidor; quita las habitaciones que dejen de estar libres */
+  const cart = useBookingCart({ checkIn, checkOut });
+  const rooms = cart.rooms;
   
-  /** Fecha de salida */
-  const [checkOut, setCheckOut] = useState<Date>();
+  /** Retención de las habitaciones mientras se completa el formulario */
+  const hold = useRoomHolds(cart.roomIds, checkIn, checkOut);
   
   /** Número de huéspedes */
   const [guests, setGuests] = useState(1);
@@ -131,17 +144,28 @@ const Reservation = () => {
       lastName: "",
       email: "",
       phone: "",
+      documentType: "cc",
       documentId: "",
     },
   });
 
+  /** Cotización y folio según las tarifas, cargos e impuestos vigentes */
+  const quote = useStayQuote(
+    rooms.map((r) => r.id),
+    checkIn,
+    checkOut,
+    guests,
+    form.watch("documentType")
+  );
+
   // ============================================
   // EFFECTS - Carga inicial y validaciones
   // ============================================
 
   /**
-   * Verifica autenticación y carga habitaciones seleccionadas
-   * Redirige si no hay usuario o no hay habitaciones seleccionadas
+   * Verifica autenticación y que el carrito tenga habitaciones
+   * Redirige si no hay usuario o el carrito está vacío (salvo tras reservar,
+   * cuando se vacía a propósito)
    */
   useEffect(() => {
     // Verificar autenticación
@@ -151,48 +175,16 @@ const Reservation = () => {
       return;
     }
 
-    // Cargar habitaciones de localStorage
-    const selectedRooms = localStorage.getItem("selectedRooms");
-    if (!selectedRooms) {
+    if (user && !cart.loading && rooms.length === 0 && !submitting) {
       toast.error("No se ha seleccionado ninguna habitación");
-      navigate("/rooms");
-      return;
+      navigate("/admin/roomscrearadmin");
     }
-
-    const parsedRooms = JSON.parse(selectedRooms);
-    if (parsedRooms.length === 0) {
-      toast.error("No se ha seleccionado ninguna habitación");
-      navigate("/rooms");
-      return;
-    }
-
-    setRooms(parsedRooms);
-  }, [navigate, user, authLoading]);
+  }, [navigate, user, authLoading, cart.loading, rooms.length, submitting]);
 
   // ============================================
   // CALCULATIONS - Funciones de cálculo
   // ============================================
 
-  /**
-   * Calcula el precio total de la reserva
-   * 
-   * @description
-   * Fórmula: (suma de precios por noche) × número de noches
-   * 
-   * @returns {number} Precio total en la moneda del sistema
-   */
-  const calculateTotal = () => {
-    if (!checkIn || !checkOut || rooms.length === 0) return 0;
-    
-    // Calcular número de noches
-    const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Sumar tarifa diaria de todas las habitaciones
-    const totalRate = rooms.reduce((sum, room) => sum + room.price, 0);
-    
-    return nights * totalRate;
-  };
-
   /**
    * Calcula la capacidad total de las habitaciones seleccionadas
    * 
@@ -203,9 +195,20 @@ const Reservation = () => {
   };
 
   // ============================================
-  // HANDLERS - Manejador de envío
+  // HANDLERS - Manejadores de eventos
   // ============================================
 
+  /**
+   * Actualiza las fechas y las mantiene sincronizadas con /rooms
+   * 
+   * @param {StayDates} dates - Nuevo rango de fechas
+   */
+  const handleDatesChange = (dates: StayDates) => {
+    setCheckIn(dates.checkIn);
+    setCheckOut(dates.checkOut);
+    saveStayDates(dates);
+  };
+
   /**
    * Procesa el envío del formulario de reserva
    * 
@@ -213,11 +216,10 @@ const Reservation = () => {
    * Pasos:
    * 1. Validar usuario autenticado
    * 2. Validar fechas seleccionadas
-   * 3. Validar capacidad vs huéspedes
-   * 4. Insertar reserva en Supabase
-   * 5. Limpiar localStorage
-   * 6. Guardar datos para confirmación
-   * 7. Redirigir a /confirmation
+   * 3. Validar capacidad vs huéspedes y estadía mínima de la tarifa
+   * 4. Crear la reserva con create_reservation (precio calculado en servidor; convierte la retención)
+   * 5. Vaciar el carrito
+   * 6. Redirigir a /checkout/:reservationId (la página carga la reserva de la base de datos)
    * 
    * @param {z.infer<typeof guestSchema>} guestData - Datos validados del huésped
    */
@@ -246,6 +248,18 @@ const Reservation = () => {
       return;
     }
 
+    // Validar retención vigente
+    if (hold.expired) {
+      toast.error("La retención de sus habitaciones caducó. Vuelva a retenerlas para continuar");
+      return;
+    }
+
+    // Validar estadía mínima (el servidor también la exige)
+    if (getNights(checkIn, checkOut) < quote.minNights) {
+      toast.error(`La tarifa "${quote.minNightsPlan}" exige una estadía mínima de ${quote.minNights} noches`);
+      return;
+    }
+
     setSubmitting(true);
     const email = form.getValues("email");
 
@@ -264,56 +278,44 @@ if (profileError || !profile) {
 }
     try {
       // ============================================
-      // DATABASE INSERT - Guardar reserva en Supabase
+      // DATABASE RPC - Crear reserva en el servidor
       // ============================================
-      const { data, error } = await supabase
-        .from("reservations")
-        .insert({
-          user_id:profile.id,                           // ID del usuario autenticado
-          room_ids: rooms.map((r) => r.id),          // Array de IDs de habitaciones
-          check_in: format(checkIn, "yyyy-MM-dd"),   // Fecha formato ISO
-          check_out: format(checkOut, "yyyy-MM-dd"), // Fecha formato ISO
-          guests,                                     // Número de huéspedes
-          total_price: calculateTotal(),             // Precio calculado
-          guest_data: guestData,                     // Datos del huésped (JSONB)
-          status: "pending",                         // Estado inicial
-        })
-        .select()
-        .single();
+      /**
+       * create_reservation valida capacidad y disponibilidad y calcula
+       * total_price con los precios actuales; solo un admin puede indicar
+       * un _user_id distinto al de la sesión
+       */
+      const { data, error } = await supabase.rpc("create_reservation", {
+        _room_ids: rooms.map((r) => r.id),   // Array de IDs de habitaciones
+        _check_in: toISODate(checkIn),       // Fecha formato ISO
+        _check_out: toISODate(checkOut),     // Fecha formato ISO
+        _guests: guests,                     // Número de huéspedes
+        _guest_data: guestData,              // Datos del huésped (JSONB)
+        _user_id: profile.id,                // Cliente a cuyo nombre se reserva
+      });
 
       if (error) {
         console.error("Error creating reservation:", error);
-        toast.error("Error al crear la reserva. Por favor, intente de nuevo.");
+        // La habitación fue tomada por otra reserva: ofrecer volver a elegir
+        if (isRoomUnavailableError(error)) {
+          toast.error(getBookingErrorMessage(error), {
+            action: { label: "Ver habitaciones", onClick: () => navigate("/admin/roomscrearadmin") },
+          });
+        } else {
+          toast.error(getBookingErrorMessage(error));
+        }
         setSubmitting(false);
         return;
       }
 
       // ============================================
-      // CLEANUP - Limpiar selección de localStorage
+      // CLEANUP - Vaciar el carrito
       // ============================================
-      localStorage.removeItem("selectedRooms");
-
-      // ============================================
-      // CONFIRMATION DATA - Preparar datos para página de confirmación
-      // ============================================
-      /**
-       * Número de confirmación: primeros 8 caracteres del UUID
-       * Más fácil de comunicar que un UUID completo
-       */
-      const reservation = {
-        id: data.id,
-        rooms,
-        checkIn,
-        checkOut,
-        guests,
-        guestData,
-        total: calculateTotal(),
-        confirmationNumber: data.id.slice(0, 8).toUpperCase(),
-      };
-      localStorage.setItem("currentReservation", JSON.stringify(reservation));
+      await cart.clear();
+      sendQueuedEmails();
 
       toast.success("¡Reserva creada exitosamente!");
-      navigate("/confirmation");
+      navigate(`/checkout/${data.id}`);
     } catch (error) {
       console.error("Error:", error);
       toast.error("Error al procesar la reserva");
@@ -325,7 +327,7 @@ if (profileError || !profile) {
   // LOADING STATE - Estado de carga
   // ============================================
 
-  if (authLoading) {
+  if (authLoading || cart.loading) {
     return (
       <DashboardLayout>
         <div className="flex items-center justify-center h-full">
@@ -341,9 +343,7 @@ if (profileError || !profile) {
   }
 
   // Calcular noches para mostrar en resumen
-  const nights = checkIn && checkOut 
-    ? Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24))
-    : 0;
+  const nights = getNights(checkIn, checkOut);
 
   // ============================================
   // RENDER - Renderizado del componente
@@ -365,6 +365,17 @@ if (profileError || !profile) {
             </p>
           </div>
 
+          {/* Cuenta regresiva de la retención */}
+          <div className="mb-6">
+            <HoldCountdown
+              secondsLeft={hold.secondsLeft}
+              expired={hold.expired}
+              loading={hold.loading}
+              error={hold.error}
+              onRenew={hold.renew}
+            />
+          </div>
+
           <div className="grid md:grid-cols-2 gap-8">
             {/* ============================================ */}
             {/* FORM SECTION - Formularios de datos */}
@@ -445,6 +456,32 @@ if (profileError || !profile) {
                         )}
                       />
                       
+                      {/* Campo: Tipo de documento */}
+                      <FormField
+                        control={form.control}
+                        name="documentType"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tipo de documento</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {DOCUMENT_TYPES.map((type) => (
+                                  <SelectItem key={type.value} value={type.value}>
+                                    {type.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       {/* Campo: Documento de identidad */}
                       <FormField
                         control={form.control}
@@ -474,63 +511,12 @@ if (profileError || !profile) {
                   <CardDescription>Seleccione las fechas de su estadía</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
-                  {/* Selector: Fecha de entrada */}
-                  <div className="space-y-2">
-                    <Label>Fecha de entrada</Label>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <Button
-                          variant="outline"
-                          className={cn(
-                            "w-full justify-start text-left font-normal",
-                            !checkIn && "text-muted-foreground"
-                          )}
-                        >
-                          <CalendarIcon className="mr-2 h-4 w-4" />
-                          {checkIn ? format(checkIn, "PPP", { locale: es }) : "Seleccione una fecha"}
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={checkIn}
-                          onSelect={setCheckIn}
-                          disabled={(date) => date < new Date()} // No permitir fechas pasadas
-                          initialFocus
-                          className="pointer-events-auto"
-                        />
-                      </PopoverContent>
-                    </Popover>
-                  </div>
-
-                  {/* Selector: Fecha de salida */}
-                  <div className="space-y-2">
-                    <Label>Fecha de salida</Label>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <Button
-                          variant="outline"
-                          className={cn(
-                            "w-full justify-start text-left font-normal",
-                            !checkOut && "text-muted-foreground"
-                          )}
-                        >
-                          <CalendarIcon className="mr-2 h-4 w-4" />
-                          {checkOut ? format(checkOut, "PPP", { locale: es }) : "Seleccione una fecha"}
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={checkOut}
-                          onSelect={setCheckOut}
-                          disabled={(date) => date <= (checkIn || new Date())} // Debe ser posterior a check-in
-                          initialFocus
-                          className="pointer-events-auto"
-                        />
-                      </PopoverContent>
-                    </Popover>
-                  </div>
+                  {/* Selectores: Fechas de entrada y salida */}
+                  <StayDatesPicker
+                    checkIn={checkIn}
+                    checkOut={checkOut}
+                    onChange={handleDatesChange}
+                  />
 
                   {/* Input: Número de huéspedes */}
                   <div className="space-y-2">
@@ -559,7 +545,7 @@ if (profileError || !profile) {
                     className="w-full" 
                     size="lg"
                     onClick={form.handleSubmit(onSubmit)}
-                    disabled={submitting}
+                    disabled={submitting || hold.expired}
                   >
                     {submitting ? (
                       <>
@@ -626,17 +612,53 @@ if (profileError || !profile) {
                         <div className="font-semibold">{guests} {guests === 1 ? "persona" : "personas"}</div>
                       </div>
 
+                      {/* Desglose noche a noche */}
+                      <div className="border-t pt-4">
+                        <div className="text-sm text-muted-foreground mb-2">Tarifa por noche</div>
+                        {quote.loading ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-accent" />
+                        ) : (
+                          <PriceBreakdown nights={quote.nights} rooms={rooms} />
+                        )}
+                        {nights < quote.minNights && (
+                          <p className="text-xs text-destructive mt-2">
+                            La tarifa "{quote.minNightsPlan}" exige una estadía mínima de {quote.minNights} noches
+                          </p>
+                        )}
+                      </div>
+
+                      {/* Folio: alojamiento, cargos e impuestos */}
+                      <div className="border-t pt-4">
+                        <div className="text-sm text-muted-foreground mb-2">Detalle de cargos</div>
+                        {quote.loading ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-accent" />
+                        ) : (
+                          <Folio lines={quote.lines} showTotal={false} />
+                        )}
+                      </div>
+
+                      {/* Política de cancelación que se copiará en la reserva */}
+                      {quote.cancellationPolicy && (
+                        <div className="border-t pt-4">
+                          <div className="text-sm text-muted-foreground mb-1">Política de cancelación</div>
+                          <div className="font-semibold text-sm">{quote.cancellationPolicy.name}</div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {describeCancellationPolicy(quote.cancellationPolicy)}
+                          </p>
+                        </div>
+                      )}
+
                       {/* Total de la reserva */}
                       <div className="border-t pt-4 bg-muted/50 -mx-6 px-6 py-4 rounded-b-lg">
                         <div className="flex items-center justify-between">
                           <div>
-                            <div className="text-sm text-muted-foreground">Total</div>
+                            <div className="text-sm text-muted-foreground">Total (impuestos incluidos)</div>
                             <div className="text-xs text-muted-foreground">
                               {rooms.length} {rooms.length === 1 ? "habitación" : "habitaciones"} × {nights} {nights === 1 ? "noche" : "noches"}
                             </div>
                           </div>
                           <div className="text-3xl font-bold text-accent">
-                            ${calculateTotal()}
+                            ${quote.total.toLocaleString()}
                           </div>
                         </div>
                       </div>
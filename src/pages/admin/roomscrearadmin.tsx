@@ -3,29 +3,59 @@
  * @module Rooms
  * 
  * @description
- * Permite a los usuarios autenticados explorar las habitaciones disponibles,
- * filtrarlas por tipo y agregarlas a su reserva. Las habitaciones seleccionadas
- * se persisten en localStorage para mantener el estado durante la navegación.
+ * Permite a los usuarios autenticados elegir las fechas de su estadía, explorar
+ * las habitaciones libres para esas fechas, filtrarlas por tipo y agregarlas a
+ * su reserva. Las habitaciones seleccionadas se guardan en el carrito del
+ * servidor (booking_carts) y las fechas en localStorage.
  * 
  * @design-decisions
- * - localStorage para persistir selección: evita pérdida de datos si el usuario
- *   navega a otras páginas antes de completar la reserva
- * - Filtro por tipo de habitación: mejora UX para hoteles con muchas habitaciones
+ * - Fechas primero: la disponibilidad depende del rango de la estadía, por lo que
+ *   no se listan habitaciones hasta que el usuario elige entrada y salida
+ * - Disponibilidad calculada en BD (get_available_rooms): una reserva para el
+ *   mes siguiente no bloquea la habitación para otras fechas
+ * - Carrito en el servidor (useBookingCart): la selección se comparte entre
+ *   pestañas y dispositivos, guarda solo ids y se revalida al cargar
+ * - Filtro por tipo de habitación: mejora UX para hoteles con muchas habitaciones;
+ *   los botones salen del catálogo room_types (useRoomTypes)
+ * - Filtro por comodidades: solo quedan las habitaciones que tienen todas las
+ *   marcadas; se filtra en el cliente porque la lista ya está acotada por fechas
+ * - Fotos en carrusel (RoomGallery): se cargan solo las de las habitaciones
+ *   libres, y la ficha de detalle muestra la galería a mayor tamaño
  * - Múltiples habitaciones por reserva: permite reservas grupales o familias grandes
- * - Estado de disponibilidad visual: opacidad reducida para habitaciones no disponibles
  * - Verificación de autenticación: requiere login antes de ver habitaciones (requisito de negocio)
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Users, Bed, Check, ShoppingCart, Trash2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Users, Bed, Check, ShoppingCart, Trash2, Loader2, CalendarDays, SlidersHorizontal } from "lucide-react";
 import { DashboardLayout } from "@/components/DashboardLayout";
+import { RoomGallery } from "@/components/RoomGallery";
+import { AmenityList } from "@/components/AmenityList";
+import { AmenityPicker } from "@/components/AmenityPicker";
+import { StayDatesPicker } from "@/components/StayDatesPicker";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useRoomAvailability } from "@/hooks/useRoomAvailability";
+import { useBookingCart } from "@/hooks/useBookingCart";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { useAmenities } from "@/hooks/useAmenities";
+import { getNights, loadStayDates, saveStayDates, StayDates, toISODate } from "@/lib/stay";
+import { getBookingErrorMessage } from "@/lib/bookingErrors";
+import { RoomImage } from "@/lib/roomImages";
+import { Amenity } from "@/lib/amenities";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
 
 // ============================================
 // TYPES - Definición de tipos
@@ -38,11 +68,11 @@ import { useAuth } from "@/hooks/useAuth";
 interface Room {
   id: string;
   name: string;
-  type: string;       // 'suite' | 'doble' | 'sencilla'
+  type: string;       // Código del tipo (room_types)
   capacity: number;   // Número máximo de huéspedes
   price: number;      // Precio por noche
   status: string;     // 'available' | 'occupied' | 'maintenance'
-  features: string[]; // Lista de características (WiFi, TV, etc.)
+  description: string | null;
 }
 
 // ============================================
@@ -54,10 +84,13 @@ interface Room {
  * 
  * @description
  * Funcionalidades principales:
- * - Carga habitaciones desde Supabase ordenadas por precio
- * - Filtra por tipo de habitación (todas, suite, doble, sencilla)
+ * - Pide las fechas de la estadía antes de mostrar habitaciones
+ * - Carga las habitaciones libres para esas fechas ordenadas por precio
+ * - Filtra por tipo de habitación (todas o uno de los tipos del catálogo)
+ *   y por las comodidades que el huésped necesita
  * - Permite agregar/quitar habitaciones de la selección
- * - Persiste selección en localStorage
+ * - Persiste selección en el carrito del servidor
+ * - Muestra las fotos de cada habitación y su ficha de detalle
  * - Navega a /reservation cuando el usuario confirma
  * 
  * @returns {JSX.Element} Página con grid de habitaciones y resumen de selección
@@ -72,15 +105,36 @@ const Rooms = () => {
   
   /** Filtro activo por tipo de habitación */
   const [selectedType, setSelectedType] = useState<string>("all");
+
+  /** Catálogo de tipos para los filtros y los nombres */
+  const { roomTypes, getRoomTypeName } = useRoomTypes();
+
+  /** Catálogo de comodidades y las que el huésped exige */
+  const { amenities } = useAmenities();
+  const [requiredAmenityIds, setRequiredAmenityIds] = useState<string[]>([]);
   
-  /** Habitaciones seleccionadas para la reserva */
-  const [selectedRooms, setSelectedRooms] = useState<Room[]>([]);
-  
-  /** Todas las habitaciones cargadas desde BD */
-  const [rooms, setRooms] = useState<Room[]>([]);
-  
-  /** Estado de carga inicial */
-  const [loading, setLoading] = useState(true);
+  /** Fechas de la estadía (recuperadas de localStorage si existen) */
+  const [stayDates, setStayDates] = useState<StayDates>(loadStayDates);
+
+  /** Carrito del servidor, revalidado contra las fechas elegidas */
+  const cart = useBookingCart(stayDates);
+  const selectedRooms = cart.rooms;
+
+  /** Habitaciones libres para las fechas elegidas */
+  const { availableRooms: rooms, loading } = useRoomAvailability(
+    stayDates.checkIn,
+    stayDates.checkOut
+  );
+  const nights = getNights(stayDates.checkIn, stayDates.checkOut);
+
+  /** Fotos de las habitaciones listadas, por habitación */
+  const [imagesByRoom, setImagesByRoom] = useState<Record<string, RoomImage[]>>({});
+
+  /** Comodidades de las habitaciones listadas (ids), por habitación */
+  const [amenityIdsByRoom, setAmenityIdsByRoom] = useState<Record<string, string[]>>({});
+
+  /** Habitación abierta en la ficha de detalle */
+  const [detailRoom, setDetailRoom] = useState<Room | null>(null);
 
   // ============================================
   // EFFECTS - Efectos de carga y autenticación
@@ -98,109 +152,138 @@ const Rooms = () => {
     }
   }, [user, authLoading, navigate]);
 
+  /** Clave estable de las habitaciones listadas, para no repetir la consulta de fotos */
+  const roomIdsKey = useMemo(() => rooms.map((room) => room.id).join(","), [rooms]);
+
   /**
-   * Carga habitaciones y selección previa cuando hay usuario
+   * Carga las fotos y las comodidades de las habitaciones libres para las
+   * fechas elegidas
    */
   useEffect(() => {
-    if (user) {
-      fetchRooms();
-      loadSelectedRooms();
+    const roomIds = roomIdsKey ? roomIdsKey.split(",") : [];
+    if (roomIds.length === 0) {
+      setImagesByRoom({});
+      setAmenityIdsByRoom({});
+      return;
     }
-  }, [user]);
 
-  // ============================================
-  // DATA FETCHING - Carga de datos
-  // ============================================
+    let stale = false;
+    Promise.all([
+      supabase.from("room_images").select("*").in("room_id", roomIds),
+      supabase.from("room_amenities").select("room_id, amenity_id").in("room_id", roomIds),
+    ]).then(([imagesResult, amenitiesResult]) => {
+      if (stale) return;
+      if (imagesResult.error || amenitiesResult.error) {
+        console.error("Error fetching room details:", imagesResult.error || amenitiesResult.error);
+        return;
+      }
 
-  /**
-   * Obtiene todas las habitaciones desde Supabase
-   * Ordenadas por precio ascendente para mostrar opciones económicas primero
-   */
-  const fetchRooms = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("rooms")
-        .select("*")
-        .order("price", { ascending: true });
-
-      if (error) throw error;
-      setRooms(data || []);
-    } catch (error: any) {
-      console.error("Error fetching rooms:", error);
-      toast.error("Error al cargar habitaciones");
-    } finally {
-      setLoading(false);
-    }
-  };
+      const images: Record<string, RoomImage[]> = {};
+      for (const image of imagesResult.data || []) {
+        (images[image.room_id] ??= []).push(image);
+      }
+      setImagesByRoom(images);
 
-  /**
-   * Recupera habitaciones previamente seleccionadas de localStorage
-   * Permite mantener la selección si el usuario navega fuera y vuelve
-   */
-  const loadSelectedRooms = () => {
-    const saved = localStorage.getItem("selectedRooms");
-    if (saved) {
-      setSelectedRooms(JSON.parse(saved));
-    }
-  };
+      const amenityIds: Record<string, string[]> = {};
+      for (const link of amenitiesResult.data || []) {
+        (amenityIds[link.room_id] ??= []).push(link.amenity_id);
+      }
+      setAmenityIdsByRoom(amenityIds);
+    });
+
+    return () => {
+      stale = true;
+    };
+  }, [roomIdsKey]);
 
   // ============================================
   // COMPUTED VALUES - Valores calculados
   // ============================================
 
   /**
-   * Habitaciones filtradas según el tipo seleccionado
+   * Habitaciones filtradas según el tipo seleccionado y las comodidades exigidas
    * Si selectedType es "all", muestra todas las habitaciones
    */
-  const filteredRooms = selectedType === "all" 
-    ? rooms 
-    : rooms.filter(room => room.type === selectedType);
+  const filteredRooms = (selectedType === "all"
+    ? rooms
+    : rooms.filter(room => room.type === selectedType)
+  ).filter(room =>
+    requiredAmenityIds.every(id => amenityIdsByRoom[room.id]?.includes(id))
+  );
+
+  /**
+   * Comodidades de una habitación, en el orden del catálogo
+   *
+   * @param {string} roomId - Id de la habitación
+   */
+  const getRoomAmenities = (roomId: string): Amenity[] =>
+    amenities.filter(amenity => amenityIdsByRoom[roomId]?.includes(amenity.id));
 
   // ============================================
   // HANDLERS - Manejadores de eventos
   // ============================================
 
   /**
-   * Agrega una habitación a la selección
-   * Solo permite agregar habitaciones disponibles
+   * Actualiza las fechas de la estadía y las persiste para la página de reserva
+   * 
+   * @param {StayDates} dates - Nuevo rango de fechas
+   */
+  const handleDatesChange = (dates: StayDates) => {
+    setStayDates(dates);
+    saveStayDates(dates);
+  };
+
+  /**
+   * Agrega una habitación al carrito
+   * Solo se listan habitaciones libres para las fechas elegidas y el botón
+   * se desactiva si ya está en el carrito
    * 
    * @param {Room} room - Habitación a agregar
    */
-  const handleAddRoom = (room: Room) => {
-    if (room.status !== 'available') {
-      toast.error("Esta habitación no está disponible");
-      return;
+  const handleAddRoom = async (room: Room) => {
+    if (await cart.addRoom(room.id)) {
+      toast.success(`${room.name} agregada a su reserva`);
     }
-
-    const newSelectedRooms = [...selectedRooms, room];
-    setSelectedRooms(newSelectedRooms);
-    // Persistir en localStorage para mantener selección entre navegaciones
-    localStorage.setItem("selectedRooms", JSON.stringify(newSelectedRooms));
-    toast.success(`${room.name} agregada a su reserva`);
   };
 
   /**
-   * Elimina una habitación de la selección por índice
-   * Usa índice en lugar de id porque puede haber duplicados
+   * Quita una habitación del carrito
    * 
-   * @param {number} roomId - Índice de la habitación en el array
+   * @param {Room} room - Habitación a quitar
    */
-  const handleRemoveRoom = (roomId: number) => {
-    const newSelectedRooms = selectedRooms.filter((r, idx) => idx !== roomId);
-    setSelectedRooms(newSelectedRooms);
-    localStorage.setItem("selectedRooms", JSON.stringify(newSelectedRooms));
-    toast.success("Habitación eliminada de su reserva");
+  const handleRemoveRoom = async (room: Room) => {
+    if (await cart.removeRoom(room.id)) {
+      toast.success("Habitación eliminada de su reserva");
+    }
   };
 
   /**
-   * Navega a la página de reserva
-   * Valida que haya al menos una habitación seleccionada
+   * Retiene las habitaciones y navega a la página de reserva
+   * Valida que haya fechas y al menos una habitación seleccionada; si otra
+   * persona tomó o retiene alguna, se avisa y no se avanza
    */
-  const handleGoToReservation = () => {
+  const handleGoToReservation = async () => {
+    if (nights === 0) {
+      toast.error("Por favor, seleccione las fechas de su estadía");
+      return;
+    }
     if (selectedRooms.length === 0) {
       toast.error("Debe seleccionar al menos una habitación");
       return;
     }
+
+    const { error } = await supabase.rpc("hold_rooms", {
+      _room_ids: cart.roomIds,
+      _check_in: toISODate(stayDates.checkIn),
+      _check_out: toISODate(stayDates.checkOut),
+    });
+
+    if (error) {
+      console.error("Error holding rooms:", error);
+      toast.error(getBookingErrorMessage(error));
+      cart.refetch();
+      return;
+    }
     navigate("/admin/admincrearreserva");
   };
 
@@ -208,7 +291,7 @@ const Rooms = () => {
   // LOADING STATE - Estado de carga
   // ============================================
 
-  if (authLoading || loading) {
+  if (authLoading) {
     return (
       <DashboardLayout>
         <div className="flex items-center justify-center h-full">
@@ -237,6 +320,31 @@ const Rooms = () => {
           </p>
         </div>
 
+        {/* ============================================ */}
+        {/* STAY DATES - Fechas de la estadía */}
+        {/* ============================================ */}
+        <Card className="shadow-elegant mb-8">
+          <CardHeader>
+            <CardTitle className="font-serif text-2xl flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-accent" />
+              Fechas de su estadía
+            </CardTitle>
+            <CardDescription>
+              {nights > 0
+                ? `${nights} ${nights === 1 ? "noche" : "noches"}`
+                : "Seleccione las fechas para ver las habitaciones disponibles"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StayDatesPicker
+              checkIn={stayDates.checkIn}
+              checkOut={stayDates.checkOut}
+              onChange={handleDatesChange}
+              layout="inline"
+            />
+          </CardContent>
+        </Card>
+
         {/* ============================================ */}
         {/* SELECTED ROOMS SUMMARY - Resumen de selección */}
         {/* Solo visible cuando hay habitaciones seleccionadas */}
@@ -244,18 +352,25 @@ const Rooms = () => {
         {selectedRooms.length > 0 && (
           <div className="mb-8 bg-accent/10 border border-accent/20 rounded-lg p-6">
             <div className="flex items-center justify-between mb-4">
-              <h2 className="font-serif text-xl font-semibold flex items-center gap-2">
-                <ShoppingCart className="h-5 w-5" />
-                Habitaciones seleccionadas ({selectedRooms.length})
-              </h2>
+              <div>
+                <h2 className="font-serif text-xl font-semibold flex items-center gap-2">
+                  <ShoppingCart className="h-5 w-5" />
+                  Habitaciones seleccionadas ({selectedRooms.length})
+                </h2>
+                {cart.expiresAt && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Su selección se conserva hasta las {format(cart.expiresAt, "HH:mm")}
+                  </p>
+                )}
+              </div>
               <Button variant="gold" onClick={handleGoToReservation}>
                 Continuar con reserva
               </Button>
             </div>
             {/* Grid de habitaciones seleccionadas */}
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {selectedRooms.map((room, index) => (
-                <div key={index} className="bg-background rounded-lg p-4 flex items-center justify-between">
+              {selectedRooms.map((room) => (
+                <div key={room.id} className="bg-background rounded-lg p-4 flex items-center justify-between">
                   <div>
                     <div className="font-semibold">{room.name}</div>
                     <div className="text-sm text-muted-foreground">${room.price}/noche</div>
@@ -263,7 +378,7 @@ const Rooms = () => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handleRemoveRoom(index)}
+                    onClick={() => handleRemoveRoom(room)}
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
@@ -274,106 +389,205 @@ const Rooms = () => {
         )}
 
         {/* ============================================ */}
-        {/* FILTERS - Botones de filtro por tipo */}
-        {/* ============================================ */}
-        <div className="flex flex-wrap gap-3 mb-8">
-          <Button
-            variant={selectedType === "all" ? "gold" : "outline"}
-            onClick={() => setSelectedType("all")}
-          >
-            Todas
-          </Button>
-          <Button
-            variant={selectedType === "suite" ? "gold" : "outline"}
-            onClick={() => setSelectedType("suite")}
-          >
-            Suites
-          </Button>
-          <Button
-            variant={selectedType === "doble" ? "gold" : "outline"}
-            onClick={() => setSelectedType("doble")}
-          >
-            Dobles
-          </Button>
-          <Button
-            variant={selectedType === "sencilla" ? "gold" : "outline"}
-            onClick={() => setSelectedType("sencilla")}
-          >
-            Sencillas
-          </Button>
-        </div>
-
-        {/* ============================================ */}
-        {/* ROOMS GRID - Grid de tarjetas de habitaciones */}
+        {/* NO DATES - Aviso hasta que se elijan fechas */}
         {/* ============================================ */}
-        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredRooms.map((room) => (
-            <Card
-              key={room.id}
-              className={`shadow-elegant hover:shadow-gold transition-smooth ${
-                room.status !== 'available' ? "opacity-70" : ""
-              }`}
-            >
-              <CardHeader>
-                <div className="flex items-start justify-between mb-2">
-                  <CardTitle className="font-serif text-2xl">{room.name}</CardTitle>
-                  {/* Badge de disponibilidad */}
-                  <Badge variant={room.status === 'available' ? "default" : "secondary"}>
-                    {room.status === 'available' ? "Disponible" : "No disponible"}
-                  </Badge>
-                </div>
-                {/* Información de capacidad y tipo */}
-                <CardDescription className="flex items-center gap-4 text-base">
-                  <span className="flex items-center gap-1">
-                    <Users className="h-4 w-4" />
-                    {room.capacity} personas
-                  </span>
-                  <span className="flex items-center gap-1">
-                    <Bed className="h-4 w-4" />
-                    {room.type}
-                  </span>
-                </CardDescription>
-              </CardHeader>
-              
-              <CardContent>
-                <div className="space-y-4">
-                  {/* Precio destacado */}
-                  <div className="bg-muted/50 rounded-lg p-4">
-                    <div className="text-3xl font-bold text-accent mb-1">
-                      ${room.price}
+        {nights === 0 ? (
+          <Card className="shadow-elegant">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Elija las fechas de entrada y salida para consultar la disponibilidad
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* ============================================ */}
+            {/* FILTERS - Botones de filtro por tipo */}
+            {/* ============================================ */}
+            <div className="flex flex-wrap gap-3 mb-8">
+              <Button
+                variant={selectedType === "all" ? "gold" : "outline"}
+                onClick={() => setSelectedType("all")}
+              >
+                Todas
+              </Button>
+              {roomTypes.map((roomType) => (
+                <Button
+                  key={roomType.code}
+                  variant={selectedType === roomType.code ? "gold" : "outline"}
+                  onClick={() => setSelectedType(roomType.code)}
+                >
+                  {roomType.name}
+                </Button>
+              ))}
+              {amenities.length > 0 && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant={requiredAmenityIds.length > 0 ? "gold" : "outline"}>
+                      <SlidersHorizontal className="mr-2 h-4 w-4" />
+                      Comodidades
+                      {requiredAmenityIds.length > 0 && ` (${requiredAmenityIds.length})`}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-96 max-h-[60vh] overflow-y-auto" align="start">
+                    <div className="space-y-4">
+                      <AmenityPicker
+                        amenities={amenities}
+                        selected={requiredAmenityIds}
+                        onChange={setRequiredAmenityIds}
+                        idPrefix="required_amenity"
+                      />
+                      {requiredAmenityIds.length > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => setRequiredAmenityIds([])}
+                        >
+                          Quitar filtro
+                        </Button>
+                      )}
                     </div>
-                    <div className="text-sm text-muted-foreground">por noche</div>
-                  </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+            </div>
 
-                  {/* Lista de características */}
-                  {room.features && room.features.length > 0 && (
-                    <div className="space-y-2">
-                      <div className="text-sm font-medium">Características:</div>
-                      <ul className="space-y-1">
-                        {room.features.map((feature, index) => (
-                          <li key={index} className="flex items-center gap-2 text-sm text-muted-foreground">
-                            <Check className="h-3 w-3 text-accent" />
-                            {feature}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
+            {/* ============================================ */}
+            {/* ROOMS GRID - Grid de tarjetas de habitaciones */}
+            {/* ============================================ */}
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-accent" />
+              </div>
+            ) : filteredRooms.length === 0 ? (
+              <Card className="shadow-elegant">
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  {requiredAmenityIds.length > 0
+                    ? "Ninguna habitación libre tiene todas las comodidades elegidas"
+                    : "No hay habitaciones disponibles para estas fechas"}
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {filteredRooms.map((room) => (
+                  <Card key={room.id} className="shadow-elegant hover:shadow-gold transition-smooth overflow-hidden">
+                    {/* Fotos de la habitación */}
+                    <RoomGallery
+                      images={imagesByRoom[room.id] ?? []}
+                      roomName={room.name}
+                      className="m-4 mb-0"
+                    />
+                    <CardHeader>
+                      <div className="flex items-start justify-between mb-2">
+                        <CardTitle className="font-serif text-2xl">{room.name}</CardTitle>
+                        {/* Badge de disponibilidad para las fechas elegidas */}
+                        <Badge variant="default">Disponible</Badge>
+                      </div>
+                      {/* Información de capacidad y tipo */}
+                      <CardDescription className="flex items-center gap-4 text-base">
+                        <span className="flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          {room.capacity} personas
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Bed className="h-4 w-4" />
+                          {getRoomTypeName(room.type)}
+                        </span>
+                      </CardDescription>
+                    </CardHeader>
+                    
+                    <CardContent>
+                      <div className="space-y-4">
+                        {/* Precio destacado */}
+                        <div className="bg-muted/50 rounded-lg p-4">
+                          <div className="text-3xl font-bold text-accent mb-1">
+                            ${room.price}
+                          </div>
+                          <div className="text-sm text-muted-foreground">por noche</div>
+                        </div>
+
+                        {/* Lista de comodidades */}
+                        {getRoomAmenities(room.id).length > 0 && (
+                          <div className="space-y-2">
+                            <div className="text-sm font-medium">Comodidades:</div>
+                            <AmenityList amenities={getRoomAmenities(room.id)} />
+                          </div>
+                        )}
 
-                  {/* Botón de agregar/no disponible */}
+                        <Button variant="outline" className="w-full" onClick={() => setDetailRoom(room)}>
+                          Ver detalles
+                        </Button>
+
+                        {/* Botón de agregar (una habitación solo puede estar una vez) */}
+                        {cart.roomIds.includes(room.id) ? (
+                          <Button variant="outline" className="w-full" disabled>
+                            <Check className="mr-2 h-4 w-4" />
+                            Agregada a la reserva
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="gold"
+                            className="w-full"
+                            onClick={() => handleAddRoom(room)}
+                          >
+                            Agregar a reserva
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {/* ============================================ */}
+        {/* ROOM DETAIL - Ficha con la galería completa */}
+        {/* ============================================ */}
+        <Dialog open={!!detailRoom} onOpenChange={(open) => !open && setDetailRoom(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            {detailRoom && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="font-serif text-2xl">{detailRoom.name}</DialogTitle>
+                  <DialogDescription className="flex items-center gap-4">
+                    <span className="flex items-center gap-1">
+                      <Users className="h-4 w-4" />
+                      {detailRoom.capacity} personas
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Bed className="h-4 w-4" />
+                      {getRoomTypeName(detailRoom.type)}
+                    </span>
+                    <span className="font-semibold text-accent">${detailRoom.price} por noche</span>
+                  </DialogDescription>
+                </DialogHeader>
+                <RoomGallery images={imagesByRoom[detailRoom.id] ?? []} roomName={detailRoom.name} />
+                {detailRoom.description && (
+                  <p className="text-muted-foreground whitespace-pre-line">{detailRoom.description}</p>
+                )}
+                <AmenityList amenities={getRoomAmenities(detailRoom.id)} className="grid grid-cols-2 gap-1 space-y-0" />
+                {cart.roomIds.includes(detailRoom.id) ? (
+                  <Button variant="outline" className="w-full" disabled>
+                    <Check className="mr-2 h-4 w-4" />
+                    Agregada a la reserva
+                  </Button>
+                ) : (
                   <Button
-                    variant={room.status === 'available' ? "gold" : "outline"}
+                    variant="gold"
                     className="w-full"
-                    onClick={() => handleAddRoom(room)}
-                    disabled={room.status !== 'available'}
+                    onClick={() => {
+                      handleAddRoom(detailRoom);
+                      setDetailRoom(null);
+                    }}
                   >
-                    {room.status === 'available' ? "Agregar a reserva" : "No disponible"}
+                    Agregar a reserva
                   </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
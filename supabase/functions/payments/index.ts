@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Función de pagos con tarjeta
+ * @module payments
+ *
+ * @description
+ * Recibe las operaciones de pago de la aplicación, las ejecuta contra el
+ * proveedor configurado y guarda cada intento en la tabla payments con la
+ * clave de servicio (los clientes solo pueden leer esa tabla).
+ *
+ * Acciones:
+ * - charge: autoriza y captura un pago de una reserva (titular o admin)
+ * - capture: captura un pago autorizado (admin)
+ * - void: anula un pago autorizado sin capturar (admin)
+ * - refund: reembolsa total o parcialmente un pago capturado, con motivo (admin)
+ *
+ * @design-decisions
+ * - La fila se crea como pending antes de llamar al proveedor y su id se usa
+ *   como referencia: un fallo a mitad de camino deja rastro del intento
+ * - La reserva se lee con el token del usuario, así las políticas RLS deciden
+ *   si puede pagarla; las escrituras usan la clave de servicio
+ * - El importe no puede superar el saldo pendiente (reservation_balance);
+ *   start_card_payment lo comprueba y crea el pago con la reserva bloqueada
+ * - Cada reembolso se guarda en payment_refunds; un trigger suma el importe
+ *   al pago, igual que con los reembolsos registrados en el mostrador
+ * - Los errores se responden como { error } con el mensaje en español
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "./providers/index.ts";
+import type { CardDetails } from "./providers/index.ts";
+
+// ============================================
+// TYPES - Peticiones
+// ============================================
+
+type PaymentKind = "deposit" | "balance" | "full";
+
+type PaymentRequest =
+  | { action: "charge"; reservationId: string; amount: number; kind: PaymentKind; card: CardDetails }
+  | { action: "capture"; paymentId: string }
+  | { action: "void"; paymentId: string }
+  | { action: "refund"; paymentId: string; amount: number; reason: string };
+
+/** Error con mensaje para el usuario y código HTTP */
+class PaymentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// ============================================
+// CONSTANTS - Tipos de pago
+// ============================================
+
+const PAYMENT_KINDS: PaymentKind[] = ["deposit", "balance", "full"];
+
+// ============================================
+// HELPERS - Respuestas
+// ============================================
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const roundAmount = (value: number) => Math.round(Number(value) * 100) / 100;
+
+// ============================================
+// HANDLER - Punto de entrada
+// ============================================
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const serviceClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+    const {
+      data: { user },
+    } = await userClient.auth.getUser();
+    if (!user) {
+      throw new PaymentError("Debe iniciar sesión para realizar pagos", 401);
+    }
+
+    const { data: isAdmin } = await serviceClient.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    const provider = getPaymentProvider();
+    const request = (await req.json()) as PaymentRequest;
+
+    // ============================================
+    // ACTION - charge: autorizar y capturar
+    // ============================================
+
+    if (request.action === "charge") {
+      const amount = roundAmount(request.amount);
+
+      const { data: reservation } = await userClient
+        .from("reservations")
+        .select("id")
+        .eq("id", request.reservationId)
+        .maybeSingle();
+
+      if (!reservation) {
+        throw new PaymentError("La reserva no existe", 404);
+      }
+
+      // Estado, importe y saldo se comprueban con la reserva bloqueada, en la
+      // misma transacción que crea el pago pendiente
+      const { data: payment, error: startError } = await serviceClient.rpc("start_card_payment", {
+        _reservation_id: reservation.id,
+        _provider: provider.name,
+        _kind: PAYMENT_KINDS.includes(request.kind) ? request.kind : "full",
+        _amount: amount,
+        _created_by: user.id,
+      });
+      if (startError) {
+        if (startError.code === "22023") throw new PaymentError(startError.message);
+        throw startError;
+      }
+
+      const authorization = await provider.authorize({ paymentId: payment.id, amount, card: request.card });
+      if (!authorization.ok) {
+        await serviceClient
+          .from("payments")
+          .update({ status: "failed", failure_reason: authorization.message })
+          .eq("id", payment.id);
+        throw new PaymentError(authorization.message, 402);
+      }
+
+      const { error: authorizedError } = await serviceClient
+        .from("payments")
+        .update({
+          status: "authorized",
+          provider_reference: authorization.reference,
+          card_brand: authorization.cardBrand,
+          card_last4: authorization.cardLast4,
+          authorized_at: new Date().toISOString(),
+        })
+        .eq("id", payment.id);
+      if (authorizedError) {
+        // Sin la referencia guardada el cobro no se podría conciliar ni
+        // reembolsar: se anula la autorización en lugar de capturarla
+        await provider.void({ reference: authorization.reference });
+        await serviceClient
+          .from("payments")
+          .update({ status: "failed", failure_reason: "No se pudo registrar la autorización" })
+          .eq("id", payment.id);
+        throw authorizedError;
+      }
+
+      const capture = await provider.capture({ reference: authorization.reference, amount });
+      if (!capture.ok) {
+        throw new PaymentError(capture.message, 402);
+      }
+
+      const { data: captured, error: captureError } = await serviceClient
+        .from("payments")
+        .update({ status: "captured", captured_at: new Date().toISOString() })
+        .eq("id", payment.id)
+        .select()
+        .single();
+      if (captureError) throw captureError;
+
+      return json({ payment: captured });
+    }
+
+    // ============================================
+    // ACTIONS - capture / void / refund (personal)
+    // ============================================
+
+    if (!isAdmin) {
+      throw new PaymentError("Solo el personal puede gestionar pagos", 403);
+    }
+
+    const { data: payment } = await serviceClient
+      .from("payments")
+      .select("*")
+      .eq("id", request.paymentId)
+      .maybeSingle();
+    if (!payment) {
+      throw new PaymentError("El pago no existe", 404);
+    }
+
+    if (request.action === "capture" || request.action === "void") {
+      if (payment.status !== "authorized") {
+        throw new PaymentError("Solo se pueden capturar o anular pagos autorizados");
+      }
+
+      const result =
+        request.action === "capture"
+          ? await provider.capture({ reference: payment.provider_reference, amount: Number(payment.amount) })
+          : await provider.void({ reference: payment.provider_reference });
+      if (!result.ok) {
+        throw new PaymentError(result.message, 402);
+      }
+
+      const { data: updated, error } = await serviceClient
+        .from("payments")
+        .update(
+          request.action === "capture"
+            ? { status: "captured", captured_at: new Date().toISOString() }
+            : { status: "voided", voided_at: new Date().toISOString() }
+        )
+        .eq("id", payment.id)
+        .select()
+        .single();
+      if (error) throw error;
+
+      return json({ payment: updated });
+    }
+
+    if (request.action === "refund") {
+      const amount = roundAmount(request.amount);
+      const refundable = roundAmount(Number(payment.amount) - Number(payment.refunded_amount));
+
+      if (!["captured", "refunded"].includes(payment.status)) {
+        throw new PaymentError("Solo se pueden reembolsar pagos capturados");
+      }
+      if (!(amount > 0) || amount > refundable) {
+        throw new PaymentError(`El reembolso debe estar entre 0 y ${refundable}`);
+      }
+      if (!request.reason?.trim()) {
+        throw new PaymentError("Indique el motivo del reembolso");
+      }
+
+      const result = await provider.refund({ reference: payment.provider_reference, amount });
+      if (!result.ok) {
+        throw new PaymentError(result.message, 402);
+      }
+
+      const { error: refundError } = await serviceClient.from("payment_refunds").insert({
+        payment_id: payment.id,
+        amount,
+        reason: request.reason.trim(),
+        provider_reference: result.reference,
+        created_by: user.id,
+      });
+      if (refundError) throw refundError;
+
+      const { data: updated, error } = await serviceClient
+        .from("payments")
+        .select("*")
+        .eq("id", payment.id)
+        .single();
+      if (error) throw error;
+
+      return json({ payment: updated });
+    }
+
+    throw new PaymentError("Acción no válida");
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Error processing payment:", error);
+    return json({ error: "No se pudo procesar el pago" }, 500);
+  }
+});
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Selección del proveedor de pagos
+ * @module payments/providers
+ *
+ * @description
+ * El proveedor se elige con la variable de entorno PAYMENT_PROVIDER. Sin ella
+ * se usa el de prueba, pensado para desarrollo local; en producción se debe
+ * configurar una pasarela real registrándola aquí.
+ */
+
+import { mockProvider } from "./mock.ts";
+import type { PaymentProvider } from "./types.ts";
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  mock: mockProvider,
+};
+
+export function getPaymentProvider(): PaymentProvider {
+  const name = Deno.env.get("PAYMENT_PROVIDER") ?? "mock";
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
+
+export type { CardDetails, PaymentProvider } from "./types.ts";
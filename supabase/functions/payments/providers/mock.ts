@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Proveedor de pagos de prueba
+ * @module payments/providers/mock
+ *
+ * @description
+ * Pasarela simulada para desarrollo local. No hace llamadas externas y
+ * siempre responde lo mismo para la misma entrada, así que los flujos de
+ * pago se pueden probar sin una cuenta en una pasarela real.
+ *
+ * Tarjetas de prueba (cualquier fecha futura y CVC de 3 o 4 dígitos):
+ * - 4242 4242 4242 4242: aprobada
+ * - 4000 0000 0000 0002: rechazada
+ * - 4000 0000 0000 9995: fondos insuficientes
+ * Un número que no pase el algoritmo de Luhn se rechaza como inválido.
+ *
+ * @design-decisions
+ * - Las referencias se derivan del id del pago, no de valores aleatorios,
+ *   para que se puedan predecir y buscar en los registros
+ * - Captura, reembolso y anulación siempre se aprueban: el estado del pago
+ *   lo valida antes la función de pagos con los datos de la base de datos
+ */
+
+import type { CardDetails, PaymentProvider, ProviderFailure } from "./types.ts";
+
+// ============================================
+// CONSTANTS - Tarjetas con respuesta fija
+// ============================================
+
+const DECLINED_CARDS: Record<string, ProviderFailure> = {
+  "4000000000000002": { ok: false, code: "card_declined", message: "La tarjeta fue rechazada" },
+  "4000000000009995": { ok: false, code: "insufficient_funds", message: "Fondos insuficientes" },
+};
+
+// ============================================
+// HELPERS - Validación de la tarjeta
+// ============================================
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+/** Algoritmo de Luhn */
+function isValidCardNumber(number: string): boolean {
+  if (number.length < 12 || number.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function getCardBrand(number: string): string {
+  if (number.startsWith("4")) return "visa";
+  if (/^5[1-5]/.test(number)) return "mastercard";
+  if (/^3[47]/.test(number)) return "amex";
+  return "card";
+}
+
+function isExpired(card: CardDetails): boolean {
+  const now = new Date();
+  const year = card.expYear < 100 ? 2000 + card.expYear : card.expYear;
+  return year < now.getFullYear() || (year === now.getFullYear() && card.expMonth < now.getMonth() + 1);
+}
+
+// ============================================
+// PROVIDER - Implementación
+// ============================================
+
+export const mockProvider: PaymentProvider = {
+  name: "mock",
+
+  async authorize({ paymentId, card }) {
+    const number = digitsOnly(card.number);
+
+    if (!isValidCardNumber(number)) {
+      return { ok: false, code: "invalid_number", message: "El número de tarjeta no es válido" };
+    }
+    if (card.expMonth < 1 || card.expMonth > 12 || isExpired(card)) {
+      return { ok: false, code: "expired_card", message: "La tarjeta está vencida" };
+    }
+    if (!/^\d{3,4}$/.test(card.cvc)) {
+      return { ok: false, code: "invalid_cvc", message: "El código de seguridad no es válido" };
+    }
+    if (DECLINED_CARDS[number]) {
+      return DECLINED_CARDS[number];
+    }
+
+    return {
+      ok: true,
+      reference: `mock_auth_${paymentId}`,
+      cardBrand: getCardBrand(number),
+      cardLast4: number.slice(-4),
+    };
+  },
+
+  async capture({ reference }) {
+    return { ok: true, reference: reference.replace("mock_auth_", "mock_cap_") };
+  },
+
+  async refund({ reference, amount }) {
+    return { ok: true, reference: `${reference}_refund_${Math.round(amount * 100)}` };
+  },
+
+  async void({ reference }) {
+    return { ok: true, reference: reference.replace("mock_auth_", "mock_void_") };
+  },
+};
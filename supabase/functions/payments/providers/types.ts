@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Interfaz de los proveedores de pago
+ * @module payments/providers/types
+ *
+ * @description
+ * Cada pasarela (la de prueba o una real) implementa las cuatro operaciones
+ * de una tarjeta: autorizar, capturar, reembolsar y anular. La función de
+ * pagos solo conoce esta interfaz y guarda el resultado en la tabla payments.
+ *
+ * @design-decisions
+ * - Los importes van en la moneda del hotel con dos decimales, igual que en
+ *   la base de datos; cada proveedor los convierte a lo que espere su API
+ * - Un rechazo no es una excepción: se devuelve { ok: false } con un código y
+ *   un mensaje en español para el huésped. Las excepciones quedan para fallos
+ *   de red o de configuración
+ */
+
+// ============================================
+// TYPES - Datos de entrada
+// ============================================
+
+/** Tarjeta tal como la introduce el huésped; nunca se guarda completa */
+export interface CardDetails {
+  number: string;
+  expMonth: number;
+  expYear: number;
+  cvc: string;
+  holderName: string;
+}
+
+export interface AuthorizeRequest {
+  /** Id de la fila en payments; sirve como clave de idempotencia */
+  paymentId: string;
+  amount: number;
+  card: CardDetails;
+}
+
+export interface CaptureRequest {
+  reference: string;
+  amount: number;
+}
+
+export interface RefundRequest {
+  reference: string;
+  amount: number;
+}
+
+export interface VoidRequest {
+  reference: string;
+}
+
+// ============================================
+// TYPES - Resultados
+// ============================================
+
+export interface ProviderFailure {
+  ok: false;
+  code: string;
+  message: string;
+}
+
+export type ProviderResult<T = unknown> = ({ ok: true; reference: string } & T) | ProviderFailure;
+
+export type AuthorizeResult = ProviderResult<{ cardBrand: string; cardLast4: string }>;
+
+// ============================================
+// INTERFACE - Proveedor de pagos
+// ============================================
+
+export interface PaymentProvider {
+  /** Se guarda en payments.provider */
+  name: string;
+  authorize(request: AuthorizeRequest): Promise<AuthorizeResult>;
+  capture(request: CaptureRequest): Promise<ProviderResult>;
+  refund(request: RefundRequest): Promise<ProviderResult>;
+  void(request: VoidRequest): Promise<ProviderResult>;
+}
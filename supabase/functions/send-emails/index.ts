@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Envío de los correos en cola
+ * @module send-emails
+ *
+ * @description
+ * Toma los correos pendientes de email_queue, genera cada uno con su
+ * plantilla y lo envía por SMTP. Cada intento, exitoso o no, se registra en
+ * email_log. Se ejecuta cada cinco minutos (pg_cron) y la aplicación lo
+ * llama también después de crear, confirmar o cancelar una reserva para que
+ * el correo salga enseguida.
+ *
+ * Variables de entorno:
+ * - SMTP_HOST / SMTP_PORT: servidor SMTP (por defecto localhost:1025, MailHog)
+ * - SMTP_USER / SMTP_PASSWORD: credenciales, si el servidor las pide
+ * - SMTP_TLS: "true" para conexión cifrada
+ * - EMAIL_FROM: remitente
+ * - APP_URL: URL de la aplicación para los enlaces de los correos
+ *
+ * @design-decisions
+ * - claim_pending_emails marca los correos como "sending" antes de enviarlos:
+ *   dos ejecuciones simultáneas nunca envían el mismo correo
+ * - Un fallo vuelve a poner el correo en cola con una espera creciente; tras
+ *   MAX_ATTEMPTS intentos queda como fallido
+ * - Procesar la cola no depende de quién llama: solo envía lo que ya está en
+ *   cola, así que cualquier usuario autenticado puede dispararlo
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { renderEmail } from "./templates.ts";
+import type { EmailTemplate } from "./templates.ts";
+
+// ============================================
+// CONSTANTS - Reintentos y lote
+// ============================================
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MINUTES = 5;
+const BATCH_SIZE = 20;
+
+// ============================================
+// HELPERS - Respuestas y SMTP
+// ============================================
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const createSmtpClient = () => {
+  const tls = Deno.env.get("SMTP_TLS") === "true";
+  const username = Deno.env.get("SMTP_USER");
+
+  return new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") ?? "localhost",
+      port: Number(Deno.env.get("SMTP_PORT") ?? 1025),
+      tls,
+      auth: username ? { username, password: Deno.env.get("SMTP_PASSWORD") ?? "" } : undefined,
+    },
+    // MailHog no cifra la conexión
+    debug: tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+  });
+};
+
+// ============================================
+// HANDLER - Punto de entrada
+// ============================================
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+    const from = Deno.env.get("EMAIL_FROM") ?? "Spring Hotel <reservas@springhotel.local>";
+    const appUrl = Deno.env.get("APP_URL") ?? "http://localhost:5173";
+
+    const { data: emails, error: claimError } = await supabase.rpc("claim_pending_emails", {
+      _limit: BATCH_SIZE,
+    });
+    if (claimError) throw claimError;
+    if (!emails || emails.length === 0) {
+      return json({ sent: 0, failed: 0 });
+    }
+
+    const smtp = createSmtpClient();
+    let sent = 0;
+    let failed = 0;
+
+    for (const email of emails) {
+      let subject: string | null = null;
+
+      try {
+        const { data: reservation, error } = await supabase
+          .from("reservations")
+          .select("*")
+          .eq("id", email.reservation_id)
+          .single();
+        if (error) throw error;
+
+        const { data: rooms } = await supabase.from("rooms").select("name").in("id", reservation.room_ids);
+        const guest = reservation.guest_data ?? {};
+
+        const rendered = renderEmail(email.template as EmailTemplate, {
+          guestName: [guest.firstName, guest.lastName].filter(Boolean).join(" ") || "huésped",
+          reservationCode: reservation.id.slice(0, 8).toUpperCase(),
+          checkIn: reservation.check_in,
+          checkOut: reservation.check_out,
+          guests: reservation.guests,
+          rooms: (rooms ?? []).map((room: { name: string }) => room.name),
+          total: Number(reservation.total_price),
+          cancellationPenalty: reservation.cancellation_penalty,
+          cancellationRefund: reservation.cancellation_refund,
+          appUrl,
+        });
+        subject = rendered.subject;
+
+        await smtp.send({
+          from,
+          to: email.recipient,
+          subject: rendered.subject,
+          content: rendered.text,
+          html: rendered.html,
+        });
+
+        await supabase
+          .from("email_queue")
+          .update({ status: "sent", sent_at: new Date().toISOString(), last_error: null })
+          .eq("id", email.id);
+        await supabase.from("email_log").insert({
+          queue_id: email.id,
+          reservation_id: email.reservation_id,
+          template: email.template,
+          recipient: email.recipient,
+          subject,
+          status: "sent",
+        });
+        sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const giveUp = email.attempts >= MAX_ATTEMPTS;
+        console.error("Error sending email:", email.id, message);
+
+        await supabase
+          .from("email_queue")
+          .update({
+            status: giveUp ? "failed" : "pending",
+            last_error: message,
+            send_after: new Date(Date.now() + email.attempts * RETRY_DELAY_MINUTES * 60_000).toISOString(),
+          })
+          .eq("id", email.id);
+        await supabase.from("email_log").insert({
+          queue_id: email.id,
+          reservation_id: email.reservation_id,
+          template: email.template,
+          recipient: email.recipient,
+          subject,
+          status: "failed",
+          error: message,
+        });
+        failed++;
+      }
+    }
+
+    await smtp.close();
+    return json({ sent, failed });
+  } catch (error) {
+    console.error("Error processing email queue:", error);
+    return json({ error: "No se pudo procesar la cola de correos" }, 500);
+  }
+});
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Plantillas de los correos de reservas
+ * @module send-emails/templates
+ *
+ * @description
+ * Genera el asunto y el cuerpo (HTML y texto plano) de cada correo: reserva
+ * recibida, confirmada, cancelada, recordatorio antes de la llegada y
+ * agradecimiento después de la estadía.
+ *
+ * @design-decisions
+ * - Cada correo lleva versión HTML y de texto: los clientes de correo que no
+ *   muestran HTML (o los filtros de spam) reciben el mismo contenido
+ * - El HTML usa estilos en línea y tablas simples, lo único que respetan
+ *   todos los clientes de correo
+ * - Las fechas de la reserva son fechas sin hora y se formatean en UTC para
+ *   que no cambien de día según la zona horaria del servidor
+ */
+
+// ============================================
+// TYPES - Datos de las plantillas
+// ============================================
+
+export type EmailTemplate =
+  | "booking_received"
+  | "booking_confirmed"
+  | "booking_cancelled"
+  | "pre_arrival"
+  | "post_stay";
+
+export interface EmailData {
+  guestName: string;
+  /** Número corto de la reserva (primeros 8 caracteres del id) */
+  reservationCode: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  rooms: string[];
+  total: number;
+  cancellationPenalty: number | null;
+  /** Lo pagado menos la penalidad: lo que el hotel debe devolver */
+  cancellationRefund: number | null;
+  /** URL de la aplicación, para los enlaces a "Mis Reservas" */
+  appUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// ============================================
+// HELPERS - Formato
+// ============================================
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("es-CO", { dateStyle: "full", timeZone: "UTC" }).format(new Date(`${value}T00:00:00Z`));
+
+const formatAmount = (value: number) => `$${Number(value).toLocaleString("es-CO")}`;
+
+/** Resumen de la estadía, común a todas las plantillas */
+const summaryRows = (data: EmailData): [string, string][] => [
+  ["Reserva", data.reservationCode],
+  ["Llegada", `${formatDate(data.checkIn)} (desde las 15:00)`],
+  ["Salida", `${formatDate(data.checkOut)} (hasta las 12:00)`],
+  ["Habitaciones", data.rooms.join(", ") || "—"],
+  ["Huéspedes", String(data.guests)],
+  ["Total", formatAmount(data.total)],
+];
+
+/**
+ * Arma el correo a partir de párrafos y filas de detalle
+ */
+const layout = (subject: string, paragraphs: string[], rows: [string, string][], data: EmailData): RenderedEmail => {
+  const link = `${data.appUrl}/my-reservations`;
+
+  const html = `<!DOCTYPE html>
+<html lang="es">
+<body style="margin:0;padding:0;background:#f5f5f5;font-family:Arial,sans-serif;color:#1a1a1a;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f5f5f5;padding:24px 0;">
+    <tr><td align="center">
+      <table width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-top:4px solid #D4AF37;">
+        <tr><td style="padding:24px 32px;font-family:Georgia,serif;font-size:24px;font-weight:bold;">Spring Hotel</td></tr>
+        <tr><td style="padding:0 32px;">
+          <p style="font-size:16px;">Hola ${escapeHtml(data.guestName)},</p>
+          ${paragraphs.map((p) => `<p style="font-size:14px;line-height:1.5;">${escapeHtml(p)}</p>`).join("\n          ")}
+          <table width="100%" cellpadding="6" cellspacing="0" style="font-size:14px;border-collapse:collapse;margin:16px 0;">
+            ${rows
+              .map(
+                ([label, value]) =>
+                  `<tr><td style="color:#666;border-bottom:1px solid #eee;">${escapeHtml(label)}</td><td style="border-bottom:1px solid #eee;">${escapeHtml(value)}</td></tr>`
+              )
+              .join("\n            ")}
+          </table>
+          <p style="margin:24px 0;"><a href="${escapeHtml(link)}" style="background:#D4AF37;color:#1a1a1a;padding:10px 18px;text-decoration:none;font-weight:bold;">Ver mis reservas</a></p>
+        </td></tr>
+        <tr><td style="padding:16px 32px;font-size:12px;color:#888;border-top:1px solid #eee;">
+          Spring Hotel · Este es un mensaje automático, por favor no lo responda.
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+  const text = [
+    `Hola ${data.guestName},`,
+    "",
+    ...paragraphs.flatMap((p) => [p, ""]),
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    "",
+    `Ver mis reservas: ${link}`,
+    "",
+    "Spring Hotel · Este es un mensaje automático, por favor no lo responda.",
+  ].join("\n");
+
+  return { subject, html, text };
+};
+
+// ============================================
+// TEMPLATES - Un generador por plantilla
+// ============================================
+
+const TEMPLATES: Record<EmailTemplate, (data: EmailData) => RenderedEmail> = {
+  booking_received: (data) =>
+    layout(
+      `Hemos recibido su reserva ${data.reservationCode}`,
+      [
+        "Gracias por elegir Spring Hotel. Hemos recibido su reserva y la confirmaremos en breve.",
+        "Puede pagar, modificar o cancelar la reserva desde \"Mis Reservas\".",
+      ],
+      summaryRows(data),
+      data
+    ),
+
+  booking_confirmed: (data) =>
+    layout(
+      `Su reserva ${data.reservationCode} está confirmada`,
+      ["Su reserva está confirmada. Le esperamos en las fechas indicadas."],
+      summaryRows(data),
+      data
+    ),
+
+  booking_cancelled: (data) =>
+    layout(
+      `Su reserva ${data.reservationCode} ha sido cancelada`,
+      [
+        "Le confirmamos que su reserva ha sido cancelada.",
+        ...(data.cancellationRefund !== null && data.cancellationRefund > 0
+          ? [
+              `Le devolveremos ${formatAmount(data.cancellationRefund)} de lo que pagó, en el medio de pago original.`,
+            ]
+          : []),
+        "Esperamos recibirle en otra ocasión.",
+      ],
+      [
+        ...summaryRows(data),
+        ...(data.cancellationPenalty !== null
+          ? ([["Penalidad", formatAmount(data.cancellationPenalty)]] as [string, string][])
+          : []),
+      ],
+      data
+    ),
+
+  pre_arrival: (data) =>
+    layout(
+      `Su llegada a Spring Hotel se acerca`,
+      [
+        `Le recordamos que su llegada es el ${formatDate(data.checkIn)}. El check-in está disponible a partir de las 15:00.`,
+        "Recuerde presentar el documento de identidad indicado en la reserva al llegar.",
+      ],
+      summaryRows(data),
+      data
+    ),
+
+  post_stay: (data) =>
+    layout(
+      "Gracias por hospedarse en Spring Hotel",
+      [
+        "Gracias por su visita. Esperamos que haya disfrutado de su estadía.",
+        "Será un placer recibirle de nuevo.",
+      ],
+      summaryRows(data),
+      data
+    ),
+};
+
+/**
+ * Genera el correo de una plantilla
+ */
+export function renderEmail(template: EmailTemplate, data: EmailData): RenderedEmail {
+  return TEMPLATES[template](data);
+}
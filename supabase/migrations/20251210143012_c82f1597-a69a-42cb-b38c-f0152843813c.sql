@@ -0,0 +1,36 @@
+-- Date-aware room availability
+-- A room is free for the stay [_check_in, _check_out) when it is not under
+-- maintenance and no non-cancelled reservation that includes it overlaps
+-- that range. Check-out day is exclusive so back-to-back stays are allowed.
+CREATE OR REPLACE FUNCTION public.get_available_rooms(_check_in DATE, _check_out DATE)
+RETURNS SETOF public.rooms
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  -- SECURITY DEFINER: clients cannot read other users' reservations through
+  -- RLS, but they still need them to be counted as occupied
+  RETURN QUERY
+  SELECT r.*
+  FROM public.rooms r
+  WHERE r.status <> 'maintenance'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.reservations res
+      WHERE r.id = ANY (res.room_ids)
+        AND res.status <> 'cancelled'
+        AND res.check_in < _check_out
+        AND res.check_out > _check_in
+    )
+  ORDER BY r.price ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_available_rooms(DATE, DATE) TO authenticated;
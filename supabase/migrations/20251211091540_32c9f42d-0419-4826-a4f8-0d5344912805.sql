@@ -0,0 +1,113 @@
+-- Database-level protection against double-booking
+-- reservations.room_ids is normalized into reservation_rooms, one row per
+-- occupied room with the stay as a daterange. An exclusion constraint rejects
+-- two rows for the same room whose ranges overlap.
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+-- Statuses that keep a room occupied for the reservation dates
+CREATE OR REPLACE FUNCTION public.is_blocking_status(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _status IN ('pending', 'confirmed')
+$$;
+
+-- Create reservation_rooms table
+CREATE TABLE public.reservation_rooms (
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  stay DATERANGE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (reservation_id, room_id),
+  CONSTRAINT reservation_rooms_no_overlap
+    EXCLUDE USING gist (room_id WITH =, stay WITH &&)
+);
+
+CREATE INDEX reservation_rooms_room_id_idx ON public.reservation_rooms (room_id);
+
+-- Enable RLS on reservation_rooms
+ALTER TABLE public.reservation_rooms ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the sync trigger below, so there are no
+-- INSERT/UPDATE/DELETE policies
+CREATE POLICY "Users can view own reservation rooms"
+  ON public.reservation_rooms FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.reservations res
+      WHERE res.id = reservation_id
+        AND (res.user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+-- Keep reservation_rooms in sync with reservations. Only blocking statuses
+-- hold rows, so cancelling a reservation releases its rooms. A conflicting
+-- row raises exclusion_violation (23P01) and aborts the reservation write.
+CREATE OR REPLACE FUNCTION public.sync_reservation_rooms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.reservation_rooms WHERE reservation_id = NEW.id;
+
+  IF public.is_blocking_status(NEW.status) THEN
+    INSERT INTO public.reservation_rooms (reservation_id, room_id, stay)
+    SELECT DISTINCT NEW.id, room_id, daterange(NEW.check_in, NEW.check_out, '[)')
+    FROM unnest(NEW.room_ids) AS room_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_reservation_rooms
+  AFTER INSERT OR UPDATE OF room_ids, check_in, check_out, status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_reservation_rooms();
+
+-- Backfill existing active reservations. Legacy overlaps cannot satisfy the
+-- constraint: the oldest reservation keeps the room and later ones are skipped.
+INSERT INTO public.reservation_rooms (reservation_id, room_id, stay)
+SELECT reservation_id, room_id, stay
+FROM (
+  SELECT DISTINCT res.id AS reservation_id, room_id,
+    daterange(res.check_in, res.check_out, '[)') AS stay, res.created_at
+  FROM public.reservations res, unnest(res.room_ids) AS room_id
+  WHERE public.is_blocking_status(res.status)
+    AND res.check_out > res.check_in
+) legacy
+ORDER BY created_at
+ON CONFLICT DO NOTHING;
+
+-- Availability now reads the normalized table
+CREATE OR REPLACE FUNCTION public.get_available_rooms(_check_in DATE, _check_out DATE)
+RETURNS SETOF public.rooms
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.rooms r
+  WHERE r.status <> 'maintenance'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.reservation_rooms rr
+      WHERE rr.room_id = r.id
+        AND rr.stay && daterange(_check_in, _check_out, '[)')
+    )
+  ORDER BY r.price ASC;
+END;
+$$;
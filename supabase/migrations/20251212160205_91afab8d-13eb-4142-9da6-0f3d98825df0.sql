@@ -0,0 +1,121 @@
+-- Server-side reservation creation
+-- The browser no longer inserts reservations directly: create_reservation
+-- validates dates, capacity and availability and computes the total from the
+-- current room prices (nights × sum of nightly rates).
+CREATE OR REPLACE FUNCTION public.create_reservation(
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER,
+  _guest_data JSONB,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _owner UUID := COALESCE(_user_id, auth.uid());
+  _rooms UUID[];
+  _found INTEGER;
+  _capacity INTEGER;
+  _nightly_rate NUMERIC(10,2);
+  _reservation public.reservations;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para realizar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Only admins may book on behalf of another user
+  IF _owner <> _caller AND NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'No tiene permisos para reservar a nombre de otro usuario'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _check_in < CURRENT_DATE THEN
+    RAISE EXCEPTION 'No se puede reservar en fechas pasadas'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _guests IS NULL OR _guests < 1 THEN
+    RAISE EXCEPTION 'Debe indicar al menos un huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_guest_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Faltan los datos del huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the rooms so concurrent bookings of the same rooms run one at a time
+  SELECT count(*), COALESCE(sum(capacity), 0), COALESCE(sum(price), 0)
+  INTO _found, _capacity, _nightly_rate
+  FROM (
+    SELECT capacity, price
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF _guests > _capacity THEN
+    RAISE EXCEPTION 'Las habitaciones seleccionadas tienen capacidad para % personas máximo', _capacity
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = ANY (_rooms)
+      AND rr.stay && daterange(_check_in, _check_out, '[)')
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  -- The reservation_rooms trigger still enforces non-overlap for any race
+  -- that slips past the check above
+  INSERT INTO public.reservations (
+    user_id, room_ids, check_in, check_out, guests, total_price, guest_data, status
+  )
+  VALUES (
+    _owner, _rooms, _check_in, _check_out, _guests,
+    (_check_out - _check_in) * _nightly_rate, _guest_data, 'pending'
+  )
+  RETURNING * INTO _reservation;
+
+  RETURN _reservation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_reservation(UUID[], DATE, DATE, INTEGER, JSONB, UUID) TO authenticated;
+
+-- Direct inserts let clients choose their own total_price; every booking now
+-- goes through create_reservation
+DROP POLICY IF EXISTS "Users can create reservations" ON public.reservations;
+
+-- The owner UPDATE policy would still let clients rewrite total_price, rooms
+-- or dates directly; they may only change the status (e.g. to cancel). The
+-- SECURITY DEFINER functions are not affected by column privileges.
+REVOKE UPDATE ON public.reservations FROM anon, authenticated;
+GRANT UPDATE (status) ON public.reservations TO authenticated;
@@ -0,0 +1,246 @@
+-- Seasonal rate plans
+-- A rate plan covers a date range (open-ended when start/end are NULL) and
+-- adjusts the room's base price by a percentage, with separate modifiers for
+-- weekday and weekend nights (Friday and Saturday). Per-room-type overrides
+-- replace the computed price with a fixed nightly rate for that type.
+-- When several active plans cover the same night the highest priority wins.
+CREATE TABLE public.rate_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  start_date DATE,
+  end_date DATE,
+  weekday_modifier NUMERIC(6,2) NOT NULL DEFAULT 0,
+  weekend_modifier NUMERIC(6,2) NOT NULL DEFAULT 0,
+  min_nights INTEGER NOT NULL DEFAULT 1 CHECK (min_nights >= 1),
+  priority INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (weekday_modifier > -100 AND weekend_modifier > -100),
+  CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE public.rate_plan_room_types (
+  rate_plan_id UUID REFERENCES public.rate_plans(id) ON DELETE CASCADE NOT NULL,
+  room_type TEXT NOT NULL,
+  weekday_price NUMERIC(10,2) NOT NULL CHECK (weekday_price >= 0),
+  weekend_price NUMERIC(10,2) CHECK (weekend_price >= 0),
+  min_nights INTEGER CHECK (min_nights >= 1),
+  PRIMARY KEY (rate_plan_id, room_type)
+);
+
+-- Enable RLS on rate plans
+ALTER TABLE public.rate_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_plan_room_types ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_rate_plans_updated_at
+  BEFORE UPDATE ON public.rate_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- RLS Policies for rate plans
+CREATE POLICY "Anyone authenticated can view rate plans"
+  ON public.rate_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage rate plans"
+  ON public.rate_plans FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone authenticated can view rate plan overrides"
+  ON public.rate_plan_room_types FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage rate plan overrides"
+  ON public.rate_plan_room_types FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Night-by-night quote for a set of rooms. Returns one row per room and night
+-- with the rate plan that priced it (NULL plan = base room price).
+CREATE OR REPLACE FUNCTION public.quote_stay(_room_ids UUID[], _check_in DATE, _check_out DATE)
+RETURNS TABLE (
+  room_id UUID,
+  night DATE,
+  is_weekend BOOLEAN,
+  rate_plan_id UUID,
+  rate_plan_name TEXT,
+  price NUMERIC(10,2),
+  min_nights INTEGER
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    n.night,
+    w.is_weekend,
+    p.id,
+    COALESCE(p.name, 'Tarifa base'),
+    round(
+      CASE
+        WHEN o.rate_plan_id IS NOT NULL THEN
+          CASE WHEN w.is_weekend THEN COALESCE(o.weekend_price, o.weekday_price) ELSE o.weekday_price END
+        WHEN p.id IS NOT NULL THEN
+          r.price * (1 + (CASE WHEN w.is_weekend THEN p.weekend_modifier ELSE p.weekday_modifier END) / 100)
+        ELSE r.price
+      END,
+      2
+    )::NUMERIC(10,2),
+    COALESCE(o.min_nights, p.min_nights, 1)
+  FROM public.rooms r
+  CROSS JOIN LATERAL (
+    SELECT d::DATE AS night
+    FROM generate_series(_check_in, _check_out - 1, INTERVAL '1 day') AS d
+  ) n
+  CROSS JOIN LATERAL (
+    SELECT EXTRACT(ISODOW FROM n.night) IN (5, 6) AS is_weekend
+  ) w
+  LEFT JOIN LATERAL (
+    SELECT rp.*
+    FROM public.rate_plans rp
+    WHERE rp.active
+      AND (rp.start_date IS NULL OR rp.start_date <= n.night)
+      AND (rp.end_date IS NULL OR rp.end_date >= n.night)
+    ORDER BY rp.priority DESC, rp.start_date DESC NULLS LAST, rp.created_at DESC
+    LIMIT 1
+  ) p ON true
+  LEFT JOIN public.rate_plan_room_types o
+    ON o.rate_plan_id = p.id AND o.room_type = r.type
+  WHERE r.id = ANY (_room_ids)
+    AND _check_out > _check_in
+  ORDER BY n.night, r.name
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_stay(UUID[], DATE, DATE) TO authenticated;
+
+-- create_reservation now prices the stay with quote_stay and enforces the
+-- minimum stay of every rate plan that applies to one of the nights
+CREATE OR REPLACE FUNCTION public.create_reservation(
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER,
+  _guest_data JSONB,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _owner UUID := COALESCE(_user_id, auth.uid());
+  _rooms UUID[];
+  _found INTEGER;
+  _capacity INTEGER;
+  _total NUMERIC(10,2);
+  _min_nights INTEGER;
+  _min_nights_plan TEXT;
+  _reservation public.reservations;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para realizar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Only admins may book on behalf of another user
+  IF _owner <> _caller AND NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'No tiene permisos para reservar a nombre de otro usuario'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _check_in < CURRENT_DATE THEN
+    RAISE EXCEPTION 'No se puede reservar en fechas pasadas'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _guests IS NULL OR _guests < 1 THEN
+    RAISE EXCEPTION 'Debe indicar al menos un huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_guest_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Faltan los datos del huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the rooms so concurrent bookings of the same rooms run one at a time
+  SELECT count(*), COALESCE(sum(capacity), 0)
+  INTO _found, _capacity
+  FROM (
+    SELECT capacity
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF _guests > _capacity THEN
+    RAISE EXCEPTION 'Las habitaciones seleccionadas tienen capacidad para % personas máximo', _capacity
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = ANY (_rooms)
+      AND rr.stay && daterange(_check_in, _check_out, '[)')
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  SELECT q.min_nights, q.rate_plan_name
+  INTO _min_nights, _min_nights_plan
+  FROM public.quote_stay(_rooms, _check_in, _check_out) q
+  ORDER BY q.min_nights DESC
+  LIMIT 1;
+
+  IF _min_nights > _check_out - _check_in THEN
+    RAISE EXCEPTION 'La tarifa "%" exige una estadía mínima de % noches', _min_nights_plan, _min_nights
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(q.price), 0)
+  INTO _total
+  FROM public.quote_stay(_rooms, _check_in, _check_out) q;
+
+  -- The reservation_rooms trigger still enforces non-overlap for any race
+  -- that slips past the check above
+  INSERT INTO public.reservations (
+    user_id, room_ids, check_in, check_out, guests, total_price, guest_data, status
+  )
+  VALUES (
+    _owner, _rooms, _check_in, _check_out, _guests, _total, _guest_data, 'pending'
+  )
+  RETURNING * INTO _reservation;
+
+  RETURN _reservation;
+END;
+$$;
@@ -0,0 +1,354 @@
+-- Taxes, fees and itemized folio
+-- Tax rules are percentages applied to the taxable base of a stay (lodging
+-- plus taxable fees). A rule can exempt guests by document type: foreign
+-- guests identified with a passport do not pay IVA on lodging.
+CREATE TABLE public.tax_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rate NUMERIC(5,2) NOT NULL CHECK (rate >= 0),
+  exempt_document_types TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Fixed fees charged per stay, per night, per room and night or per guest and night
+CREATE TABLE public.fees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  charge_per TEXT NOT NULL DEFAULT 'stay'
+    CHECK (charge_per IN ('stay', 'night', 'room_night', 'guest_night')),
+  taxable BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Folio of a reservation: the lines always add up to reservations.total_price
+CREATE TABLE public.reservation_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  kind TEXT NOT NULL CHECK (kind IN ('lodging', 'fee', 'tax')),
+  description TEXT NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  quantity NUMERIC(10,2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10,2),
+  rate NUMERIC(5,2),
+  exempt BOOLEAN NOT NULL DEFAULT false,
+  amount NUMERIC(10,2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX reservation_line_items_reservation_id_idx
+  ON public.reservation_line_items (reservation_id, sort_order);
+
+-- Enable RLS
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reservation_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_tax_rules_updated_at
+  BEFORE UPDATE ON public.tax_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TRIGGER update_fees_updated_at
+  BEFORE UPDATE ON public.fees
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- RLS Policies for tax rules and fees
+CREATE POLICY "Anyone authenticated can view tax rules"
+  ON public.tax_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage tax rules"
+  ON public.tax_rules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone authenticated can view fees"
+  ON public.fees FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage fees"
+  ON public.fees FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for line items (written only by create_reservation)
+CREATE POLICY "Users can view own reservation line items"
+  ON public.reservation_line_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.reservations r
+      WHERE r.id = reservation_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all reservation line items"
+  ON public.reservation_line_items FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Default rules: Colombian IVA (foreign guests with passport are exempt) and
+-- the tourism contribution
+INSERT INTO public.tax_rules (name, rate, exempt_document_types, sort_order) VALUES
+  ('IVA', 19, ARRAY['passport'], 1),
+  ('Contribución de turismo', 2.5, '{}', 2);
+
+-- Itemized price of a stay: lodging per room, fees, then taxes over the
+-- taxable base. create_reservation stores exactly these lines.
+CREATE OR REPLACE FUNCTION public.price_reservation(
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER,
+  _document_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  sort_order INTEGER,
+  kind TEXT,
+  description TEXT,
+  room_id UUID,
+  quantity NUMERIC(10,2),
+  unit_price NUMERIC(10,2),
+  rate NUMERIC(5,2),
+  exempt BOOLEAN,
+  amount NUMERIC(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _nights INTEGER := _check_out - _check_in;
+  _rooms INTEGER;
+  _line INTEGER := 0;
+  _taxable NUMERIC(10,2) := 0;
+  _room RECORD;
+  _fee RECORD;
+  _tax RECORD;
+BEGIN
+  IF _nights IS NULL OR _nights <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT count(DISTINCT id) INTO _rooms
+  FROM public.rooms
+  WHERE id = ANY (_room_ids);
+
+  -- Lodging: one line per room with the sum of its nightly rates
+  FOR _room IN
+    SELECT q.room_id, r.name, count(*) AS nights, sum(q.price) AS total,
+           min(q.price) AS min_price, max(q.price) AS max_price
+    FROM public.quote_stay(_room_ids, _check_in, _check_out) q
+    JOIN public.rooms r ON r.id = q.room_id
+    GROUP BY q.room_id, r.name
+    ORDER BY r.name
+  LOOP
+    _line := _line + 1;
+    _taxable := _taxable + _room.total;
+    sort_order := _line;
+    kind := 'lodging';
+    description := _room.name;
+    room_id := _room.room_id;
+    quantity := _room.nights;
+    unit_price := CASE WHEN _room.min_price = _room.max_price THEN _room.min_price END;
+    rate := NULL;
+    exempt := false;
+    amount := _room.total;
+    RETURN NEXT;
+  END LOOP;
+
+  -- Fees
+  FOR _fee IN
+    SELECT f.*
+    FROM public.fees f
+    WHERE f.active
+    ORDER BY f.sort_order, f.name
+  LOOP
+    _line := _line + 1;
+    sort_order := _line;
+    kind := 'fee';
+    description := _fee.name;
+    room_id := NULL;
+    quantity := CASE _fee.charge_per
+      WHEN 'night' THEN _nights
+      WHEN 'room_night' THEN _nights * _rooms
+      WHEN 'guest_night' THEN _nights * COALESCE(_guests, 1)
+      ELSE 1
+    END;
+    unit_price := _fee.amount;
+    rate := NULL;
+    exempt := false;
+    amount := round(_fee.amount * quantity, 2);
+    IF _fee.taxable THEN
+      _taxable := _taxable + amount;
+    END IF;
+    RETURN NEXT;
+  END LOOP;
+
+  -- Taxes over lodging and taxable fees
+  FOR _tax IN
+    SELECT t.*
+    FROM public.tax_rules t
+    WHERE t.active
+    ORDER BY t.sort_order, t.name
+  LOOP
+    _line := _line + 1;
+    sort_order := _line;
+    kind := 'tax';
+    description := _tax.name;
+    room_id := NULL;
+    quantity := 1;
+    unit_price := _taxable;
+    rate := _tax.rate;
+    exempt := _document_type IS NOT NULL AND _document_type = ANY (_tax.exempt_document_types);
+    amount := CASE WHEN exempt THEN 0 ELSE round(_taxable * _tax.rate / 100, 2) END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.price_reservation(UUID[], DATE, DATE, INTEGER, TEXT) TO authenticated;
+
+-- create_reservation now stores the folio and sets total_price to its sum
+CREATE OR REPLACE FUNCTION public.create_reservation(
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER,
+  _guest_data JSONB,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _owner UUID := COALESCE(_user_id, auth.uid());
+  _rooms UUID[];
+  _found INTEGER;
+  _capacity INTEGER;
+  _total NUMERIC(10,2);
+  _min_nights INTEGER;
+  _min_nights_plan TEXT;
+  _reservation public.reservations;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para realizar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Only admins may book on behalf of another user
+  IF _owner <> _caller AND NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'No tiene permisos para reservar a nombre de otro usuario'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _check_in < CURRENT_DATE THEN
+    RAISE EXCEPTION 'No se puede reservar en fechas pasadas'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _guests IS NULL OR _guests < 1 THEN
+    RAISE EXCEPTION 'Debe indicar al menos un huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_guest_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Faltan los datos del huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the rooms so concurrent bookings of the same rooms run one at a time
+  SELECT count(*), COALESCE(sum(capacity), 0)
+  INTO _found, _capacity
+  FROM (
+    SELECT capacity
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF _guests > _capacity THEN
+    RAISE EXCEPTION 'Las habitaciones seleccionadas tienen capacidad para % personas máximo', _capacity
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = ANY (_rooms)
+      AND rr.stay && daterange(_check_in, _check_out, '[)')
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  SELECT q.min_nights, q.rate_plan_name
+  INTO _min_nights, _min_nights_plan
+  FROM public.quote_stay(_rooms, _check_in, _check_out) q
+  ORDER BY q.min_nights DESC
+  LIMIT 1;
+
+  IF _min_nights > _check_out - _check_in THEN
+    RAISE EXCEPTION 'La tarifa "%" exige una estadía mínima de % noches', _min_nights_plan, _min_nights
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(p.amount), 0)
+  INTO _total
+  FROM public.price_reservation(_rooms, _check_in, _check_out, _guests, _guest_data->>'documentType') p;
+
+  -- The reservation_rooms trigger still enforces non-overlap for any race
+  -- that slips past the check above
+  INSERT INTO public.reservations (
+    user_id, room_ids, check_in, check_out, guests, total_price, guest_data, status
+  )
+  VALUES (
+    _owner, _rooms, _check_in, _check_out, _guests, _total, _guest_data, 'pending'
+  )
+  RETURNING * INTO _reservation;
+
+  INSERT INTO public.reservation_line_items (
+    reservation_id, sort_order, kind, description, room_id, quantity, unit_price, rate, exempt, amount
+  )
+  SELECT _reservation.id, p.sort_order, p.kind, p.description, p.room_id,
+         p.quantity, p.unit_price, p.rate, p.exempt, p.amount
+  FROM public.price_reservation(_rooms, _check_in, _check_out, _guests, _guest_data->>'documentType') p;
+
+  RETURN _reservation;
+END;
+$$;
+
+-- Existing reservations get a single lodging line so their folio adds up
+INSERT INTO public.reservation_line_items (reservation_id, sort_order, kind, description, quantity, amount)
+SELECT id, 1, 'lodging', 'Alojamiento', check_out - check_in, total_price
+FROM public.reservations;
@@ -0,0 +1,75 @@
+-- Server-side booking cart
+-- One cart per user holding only room ids: prices and availability are read
+-- fresh from rooms / get_available_rooms whenever the cart is loaded. Every
+-- change pushes expires_at forward; an expired cart is treated as empty.
+CREATE TABLE public.booking_carts (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_ids UUID[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '30 minutes',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_carts ENABLE ROW LEVEL SECURITY;
+
+-- Deduplicate rooms and renew the expiry on every write
+CREATE OR REPLACE FUNCTION public.normalize_booking_cart()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.room_ids := ARRAY(
+    SELECT id
+    FROM unnest(NEW.room_ids) WITH ORDINALITY AS t(id, pos)
+    GROUP BY id
+    ORDER BY min(pos)
+  );
+  NEW.expires_at := now() + INTERVAL '30 minutes';
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_booking_cart
+  BEFORE INSERT OR UPDATE ON public.booking_carts
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_booking_cart();
+
+-- RLS Policies for booking carts
+CREATE POLICY "Users can view own cart"
+  ON public.booking_carts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own cart"
+  ON public.booking_carts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own cart"
+  ON public.booking_carts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own cart"
+  ON public.booking_carts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Expired carts are released by deleting them
+CREATE OR REPLACE FUNCTION public.purge_expired_booking_carts()
+RETURNS INTEGER
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH purged AS (
+    DELETE FROM public.booking_carts
+    WHERE expires_at < now()
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_booking_carts() FROM PUBLIC, anon, authenticated;
+
+-- Realtime keeps the cart badge in sync across tabs and devices. FULL replica
+-- identity lets DELETE events carry user_id so subscriptions can filter on it.
+ALTER TABLE public.booking_carts REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.booking_carts;
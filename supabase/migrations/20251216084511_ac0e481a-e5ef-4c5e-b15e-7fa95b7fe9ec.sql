@@ -0,0 +1,330 @@
+-- Temporary room holds
+-- When a guest proceeds to checkout their rooms are held for 15 minutes so
+-- nobody else can book them while the reservation form is being filled in.
+-- Active holds count as occupied for everybody except the holder, and
+-- create_reservation converts the caller's holds into the reservation.
+CREATE TABLE public.room_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  stay DATERANGE NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '15 minutes',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX room_holds_room_stay_idx ON public.room_holds USING GIST (room_id, stay);
+CREATE INDEX room_holds_user_id_idx ON public.room_holds (user_id);
+
+ALTER TABLE public.room_holds ENABLE ROW LEVEL SECURITY;
+
+-- Holds are written only through hold_rooms / create_reservation
+CREATE POLICY "Users can view own holds"
+  ON public.room_holds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can release own holds"
+  ON public.room_holds FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all holds"
+  ON public.room_holds FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- True when the room is held by someone other than _user_id for an
+-- overlapping stay. Expired holds are ignored even before cleanup runs.
+CREATE OR REPLACE FUNCTION public.is_room_held(_room_id UUID, _stay DATERANGE, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.room_holds h
+    WHERE h.room_id = _room_id
+      AND h.stay && _stay
+      AND h.expires_at > now()
+      AND h.user_id IS DISTINCT FROM _user_id
+  )
+$$;
+
+-- Hold the given rooms for the caller. Existing holds of the caller for the
+-- same rooms and dates keep their expiry; anything else they held is
+-- released. Returns when the earliest hold expires.
+CREATE OR REPLACE FUNCTION public.hold_rooms(_room_ids UUID[], _check_in DATE, _check_out DATE)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _stay DATERANGE;
+  _rooms UUID[];
+  _found INTEGER;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para realizar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  _stay := daterange(_check_in, _check_out, '[)');
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Same lock as create_reservation: holds and bookings of a room are serialized
+  SELECT count(*) INTO _found
+  FROM (
+    SELECT 1
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_rooms) AS t(room)
+    WHERE public.is_room_held(t.room, _stay, _caller)
+       OR EXISTS (
+         SELECT 1 FROM public.reservation_rooms rr
+         WHERE rr.room_id = t.room AND rr.stay && _stay
+       )
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  DELETE FROM public.room_holds
+  WHERE user_id = _caller
+    AND (expires_at <= now() OR NOT (room_id = ANY (_rooms)) OR stay <> _stay);
+
+  INSERT INTO public.room_holds (user_id, room_id, stay)
+  SELECT _caller, t.room, _stay
+  FROM unnest(_rooms) AS t(room)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.room_holds h
+    WHERE h.user_id = _caller AND h.room_id = t.room AND h.stay = _stay
+  );
+
+  SELECT min(expires_at) INTO _expires_at
+  FROM public.room_holds
+  WHERE user_id = _caller;
+
+  RETURN _expires_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hold_rooms(UUID[], DATE, DATE) TO authenticated;
+
+-- Availability treats other guests' active holds as occupied
+CREATE OR REPLACE FUNCTION public.get_available_rooms(_check_in DATE, _check_out DATE)
+RETURNS SETOF public.rooms
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.rooms r
+  WHERE r.status <> 'maintenance'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.reservation_rooms rr
+      WHERE rr.room_id = r.id
+        AND rr.stay && daterange(_check_in, _check_out, '[)')
+    )
+    AND NOT public.is_room_held(r.id, daterange(_check_in, _check_out, '[)'), auth.uid())
+  ORDER BY r.price ASC;
+END;
+$$;
+
+-- create_reservation rejects rooms held by someone else and converts the
+-- caller's holds into the booking
+CREATE OR REPLACE FUNCTION public.create_reservation(
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER,
+  _guest_data JSONB,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _owner UUID := COALESCE(_user_id, auth.uid());
+  _rooms UUID[];
+  _found INTEGER;
+  _capacity INTEGER;
+  _total NUMERIC(10,2);
+  _min_nights INTEGER;
+  _min_nights_plan TEXT;
+  _reservation public.reservations;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para realizar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Only admins may book on behalf of another user
+  IF _owner <> _caller AND NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'No tiene permisos para reservar a nombre de otro usuario'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _check_in < CURRENT_DATE THEN
+    RAISE EXCEPTION 'No se puede reservar en fechas pasadas'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _guests IS NULL OR _guests < 1 THEN
+    RAISE EXCEPTION 'Debe indicar al menos un huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_guest_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Faltan los datos del huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the rooms so concurrent bookings of the same rooms run one at a time
+  SELECT count(*), COALESCE(sum(capacity), 0)
+  INTO _found, _capacity
+  FROM (
+    SELECT capacity
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF _guests > _capacity THEN
+    RAISE EXCEPTION 'Las habitaciones seleccionadas tienen capacidad para % personas máximo', _capacity
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = ANY (_rooms)
+      AND rr.stay && daterange(_check_in, _check_out, '[)')
+  ) OR EXISTS (
+    SELECT 1
+    FROM unnest(_rooms) AS t(room)
+    WHERE public.is_room_held(t.room, daterange(_check_in, _check_out, '[)'), _caller)
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  SELECT q.min_nights, q.rate_plan_name
+  INTO _min_nights, _min_nights_plan
+  FROM public.quote_stay(_rooms, _check_in, _check_out) q
+  ORDER BY q.min_nights DESC
+  LIMIT 1;
+
+  IF _min_nights > _check_out - _check_in THEN
+    RAISE EXCEPTION 'La tarifa "%" exige una estadía mínima de % noches', _min_nights_plan, _min_nights
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(p.amount), 0)
+  INTO _total
+  FROM public.price_reservation(_rooms, _check_in, _check_out, _guests, _guest_data->>'documentType') p;
+
+  -- The reservation_rooms trigger still enforces non-overlap for any race
+  -- that slips past the check above
+  INSERT INTO public.reservations (
+    user_id, room_ids, check_in, check_out, guests, total_price, guest_data, status
+  )
+  VALUES (
+    _owner, _rooms, _check_in, _check_out, _guests, _total, _guest_data, 'pending'
+  )
+  RETURNING * INTO _reservation;
+
+  INSERT INTO public.reservation_line_items (
+    reservation_id, sort_order, kind, description, room_id, quantity, unit_price, rate, exempt, amount
+  )
+  SELECT _reservation.id, p.sort_order, p.kind, p.description, p.room_id,
+         p.quantity, p.unit_price, p.rate, p.exempt, p.amount
+  FROM public.price_reservation(_rooms, _check_in, _check_out, _guests, _guest_data->>'documentType') p;
+
+  -- The booking replaces the caller's holds on these rooms
+  DELETE FROM public.room_holds
+  WHERE user_id = _caller
+    AND room_id = ANY (_rooms);
+
+  RETURN _reservation;
+END;
+$$;
+
+
+-- Expired holds and carts are released every minute. Queries already ignore
+-- expired holds, so the job only keeps the tables small.
+CREATE OR REPLACE FUNCTION public.purge_expired_room_holds()
+RETURNS INTEGER
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH purged AS (
+    DELETE FROM public.room_holds
+    WHERE expires_at <= now()
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_room_holds() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-expired-holds',
+  '* * * * *',
+  $$SELECT public.purge_expired_room_holds(); SELECT public.purge_expired_booking_carts();$$
+);
@@ -0,0 +1,127 @@
+-- Move a reservation on the front desk tape chart
+-- Staff drag a reservation bar to another room and/or another arrival date.
+-- The stay keeps its number of nights and its agreed price; only the room
+-- (one of the reservation's rooms) and the dates change. Availability is
+-- checked with the same rules as create_reservation, ignoring the
+-- reservation being moved.
+CREATE OR REPLACE FUNCTION public.move_reservation(
+  _reservation_id UUID,
+  _from_room_id UUID,
+  _to_room_id UUID,
+  _check_in DATE
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reservation public.reservations;
+  _rooms UUID[];
+  _check_out DATE;
+  _stay DATERANGE;
+  _found INTEGER;
+  _capacity INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede mover reservas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.is_blocking_status(_reservation.status) THEN
+    RAISE EXCEPTION 'Solo se pueden mover reservas pendientes o confirmadas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT (_from_room_id = ANY (_reservation.room_ids)) THEN
+    RAISE EXCEPTION 'La habitación de origen no pertenece a la reserva'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _to_room_id <> _from_room_id AND _to_room_id = ANY (_reservation.room_ids) THEN
+    RAISE EXCEPTION 'La reserva ya incluye esa habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Guests already in house can change room, but arrivals cannot move to the past
+  IF _check_in IS NULL OR (_check_in <> _reservation.check_in AND _check_in < CURRENT_DATE) THEN
+    RAISE EXCEPTION 'No se puede mover una reserva a fechas pasadas'
+      USING ERRCODE = '22007';
+  END IF;
+
+  _check_out := _check_in + (_reservation.check_out - _reservation.check_in);
+  _stay := daterange(_check_in, _check_out, '[)');
+  _rooms := array_replace(_reservation.room_ids, _from_room_id, _to_room_id);
+
+  -- Same lock as create_reservation and hold_rooms
+  SELECT count(*), COALESCE(sum(capacity), 0)
+  INTO _found, _capacity
+  FROM (
+    SELECT capacity
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF _reservation.guests > _capacity THEN
+    RAISE EXCEPTION 'Las habitaciones seleccionadas tienen capacidad para % personas máximo', _capacity
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Any active hold counts, including the ones of the staff member moving it
+  IF EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = ANY (_rooms)
+      AND rr.stay && _stay
+      AND rr.reservation_id <> _reservation.id
+  ) OR EXISTS (
+    SELECT 1
+    FROM unnest(_rooms) AS t(room)
+    WHERE public.is_room_held(t.room, _stay, NULL)
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  -- sync_reservation_rooms rewrites the occupied ranges
+  UPDATE public.reservations
+  SET room_ids = _rooms,
+      check_in = _check_in,
+      check_out = _check_out
+  WHERE id = _reservation.id
+  RETURNING * INTO _reservation;
+
+  -- Lodging lines follow the room; amounts stay as agreed
+  IF _to_room_id <> _from_room_id THEN
+    UPDATE public.reservation_line_items li
+    SET room_id = _to_room_id,
+        description = r.name
+    FROM public.rooms r
+    WHERE r.id = _to_room_id
+      AND li.reservation_id = _reservation.id
+      AND li.room_id = _from_room_id
+      AND li.kind = 'lodging';
+  END IF;
+
+  RETURN _reservation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.move_reservation(UUID, UUID, UUID, DATE) TO authenticated;
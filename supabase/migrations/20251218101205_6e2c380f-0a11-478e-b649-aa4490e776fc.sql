@@ -0,0 +1,187 @@
+-- Front desk check-in and check-out
+-- Reservations gain two physical states: checked_in (the guest arrived,
+-- showed their ID and received keys) and checked_out (the guest left and
+-- the folio was settled). Each step records when it happened and which
+-- staff member did it.
+ALTER TABLE public.reservations
+  ADD COLUMN checked_in_at TIMESTAMPTZ,
+  ADD COLUMN checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN checked_out_at TIMESTAMPTZ,
+  ADD COLUMN checked_out_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN settlement_method TEXT
+    CHECK (settlement_method IN ('cash', 'card', 'transfer'));
+
+-- A guest in house keeps the room occupied; checking out releases it
+CREATE OR REPLACE FUNCTION public.is_blocking_status(_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _status IN ('pending', 'confirmed', 'checked_in')
+$$;
+
+-- Keys handed out at check-in, one per room of the reservation
+CREATE TABLE public.reservation_keys (
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  key_code TEXT NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  returned_at TIMESTAMPTZ,
+  PRIMARY KEY (reservation_id, room_id)
+);
+
+ALTER TABLE public.reservation_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are written only through check_in_reservation / check_out_reservation
+CREATE POLICY "Admins can view reservation keys"
+  ON public.reservation_keys FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Compare document numbers ignoring spaces, dots, dashes and case
+CREATE OR REPLACE FUNCTION public.normalize_document_id(_value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT upper(regexp_replace(COALESCE(_value, ''), '[^[:alnum:]]', '', 'g'))
+$$;
+
+-- Check a guest in: the presented document must match the reservation and
+-- every room needs a key. _keys maps room id -> key code.
+CREATE OR REPLACE FUNCTION public.check_in_reservation(
+  _reservation_id UUID,
+  _document_id TEXT,
+  _keys JSONB
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede registrar llegadas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Solo se puede hacer check-in de reservas confirmadas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF CURRENT_DATE < _reservation.check_in OR CURRENT_DATE >= _reservation.check_out THEN
+    RAISE EXCEPTION 'La reserva no tiene llegada prevista para hoy'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF public.normalize_document_id(_document_id) = ''
+     OR public.normalize_document_id(_document_id)
+        <> public.normalize_document_id(_reservation.guest_data->>'documentId') THEN
+    RAISE EXCEPTION 'El documento presentado no coincide con el de la reserva'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_reservation.room_ids) AS t(room)
+    WHERE COALESCE(btrim(_keys->>t.room::TEXT), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Asigne una llave a cada habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.reservation_keys (reservation_id, room_id, key_code, issued_by)
+  SELECT _reservation.id, t.room, btrim(_keys->>t.room::TEXT), _caller
+  FROM unnest(_reservation.room_ids) AS t(room)
+  ON CONFLICT (reservation_id, room_id) DO UPDATE
+    SET key_code = EXCLUDED.key_code,
+        issued_at = now(),
+        issued_by = EXCLUDED.issued_by,
+        returned_at = NULL;
+
+  UPDATE public.reservations
+  SET status = 'checked_in',
+      checked_in_at = now(),
+      checked_in_by = _caller
+  WHERE id = _reservation.id
+  RETURNING * INTO _reservation;
+
+  RETURN _reservation;
+END;
+$$;
+
+-- Check a guest out: the folio is settled with the given method and the
+-- keys are marked as returned
+CREATE OR REPLACE FUNCTION public.check_out_reservation(
+  _reservation_id UUID,
+  _settlement_method TEXT
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede registrar salidas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _settlement_method IS NULL OR _settlement_method NOT IN ('cash', 'card', 'transfer') THEN
+    RAISE EXCEPTION 'Indique cómo se liquidó el folio'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Solo se puede hacer check-out de huéspedes hospedados'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.reservation_keys
+  SET returned_at = now()
+  WHERE reservation_id = _reservation.id
+    AND returned_at IS NULL;
+
+  UPDATE public.reservations
+  SET status = 'checked_out',
+      checked_out_at = now(),
+      checked_out_by = _caller,
+      settlement_method = _settlement_method
+  WHERE id = _reservation.id
+  RETURNING * INTO _reservation;
+
+  RETURN _reservation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_reservation(UUID, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_out_reservation(UUID, TEXT) TO authenticated;
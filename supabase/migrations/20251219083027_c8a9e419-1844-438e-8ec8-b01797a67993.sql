@@ -0,0 +1,133 @@
+-- Reservation state machine
+-- Status changes are only allowed along reservation_status_transitions and
+-- only for the role listed there: clients may act on their own reservations
+-- with the 'cliente' transitions, staff with the 'admin' ones. Every change
+-- is recorded in reservation_status_history.
+ALTER TABLE public.reservations
+  ADD CONSTRAINT reservations_status_check
+  CHECK (status IN ('pending', 'confirmed', 'checked_in', 'checked_out', 'completed', 'cancelled', 'no_show'));
+
+CREATE TABLE public.reservation_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  role public.app_role NOT NULL,
+  PRIMARY KEY (from_status, to_status, role)
+);
+
+ALTER TABLE public.reservation_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view status transitions"
+  ON public.reservation_status_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO public.reservation_status_transitions (from_status, to_status, role) VALUES
+  ('pending', 'confirmed', 'admin'),
+  ('pending', 'cancelled', 'admin'),
+  ('pending', 'cancelled', 'cliente'),
+  ('confirmed', 'checked_in', 'admin'),
+  ('confirmed', 'cancelled', 'admin'),
+  ('confirmed', 'no_show', 'admin'),
+  ('checked_in', 'checked_out', 'admin'),
+  ('checked_out', 'completed', 'admin');
+
+CREATE TABLE public.reservation_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX reservation_status_history_reservation_id_idx
+  ON public.reservation_status_history (reservation_id, changed_at);
+
+ALTER TABLE public.reservation_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History is written only by the trigger below
+CREATE POLICY "Users can view own reservation history"
+  ON public.reservation_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.reservations res
+      WHERE res.id = reservation_id
+        AND (res.user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+-- Validate a status change against the caller's roles. Changes made without
+-- a user (migrations, scheduled jobs) are trusted.
+CREATE OR REPLACE FUNCTION public.enforce_reservation_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' AND _caller IS NOT NULL THEN
+      RAISE EXCEPTION 'Las reservas nuevas deben crearse como pendientes'
+        USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR _caller IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.reservation_status_transitions t
+    WHERE t.from_status = OLD.status
+      AND t.to_status = NEW.status
+      AND (
+        (t.role = 'admin' AND public.has_role(_caller, 'admin'))
+        OR (t.role = 'cliente' AND OLD.user_id = _caller)
+      )
+  ) THEN
+    RAISE EXCEPTION 'No se puede pasar la reserva de "%" a "%"', OLD.status, NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_reservation_status
+  BEFORE INSERT OR UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_reservation_status();
+
+CREATE OR REPLACE FUNCTION public.log_reservation_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.reservation_status_history (reservation_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_reservation_status
+  AFTER INSERT OR UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.log_reservation_status();
+
+-- Backfill: creation plus the current status when it already moved on
+INSERT INTO public.reservation_status_history (reservation_id, from_status, to_status, changed_by, changed_at)
+SELECT id, NULL, 'pending', user_id, created_at
+FROM public.reservations;
+
+INSERT INTO public.reservation_status_history (reservation_id, from_status, to_status, changed_by, changed_at)
+SELECT id, 'pending', status, NULL, updated_at
+FROM public.reservations
+WHERE status <> 'pending';
@@ -0,0 +1,264 @@
+-- Cancellation policies
+-- A policy is either non-refundable or free until some hours before arrival,
+-- after which a penalty applies (the first night or a percentage of the
+-- total). Policies are attached to rate plans or to room types, with one
+-- default for everything else. The policy in force when the reservation is
+-- created is snapshotted onto it, so later edits never change what the guest
+-- agreed to.
+CREATE TABLE public.cancellation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  non_refundable BOOLEAN NOT NULL DEFAULT false,
+  free_until_hours INTEGER NOT NULL DEFAULT 48 CHECK (free_until_hours >= 0),
+  penalty_kind TEXT NOT NULL DEFAULT 'first_night'
+    CHECK (penalty_kind IN ('first_night', 'percent')),
+  penalty_percent NUMERIC(5,2) NOT NULL DEFAULT 0
+    CHECK (penalty_percent BETWEEN 0 AND 100),
+  room_types TEXT[] NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only one default policy
+CREATE UNIQUE INDEX cancellation_policies_default_idx
+  ON public.cancellation_policies (is_default)
+  WHERE is_default;
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE POLICY "Anyone authenticated can view cancellation policies"
+  ON public.cancellation_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage cancellation policies"
+  ON public.cancellation_policies FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.cancellation_policies
+  (name, description, non_refundable, free_until_hours, penalty_kind, is_default)
+VALUES
+  ('Flexible', 'Cancelación gratuita hasta 48 horas antes de la llegada; después se cobra la primera noche', false, 48, 'first_night', true),
+  ('No reembolsable', 'No admite reembolso en caso de cancelación', true, 0, 'first_night', false);
+
+ALTER TABLE public.rate_plans
+  ADD COLUMN cancellation_policy_id UUID REFERENCES public.cancellation_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.reservations
+  ADD COLUMN cancellation_policy JSONB,
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancellation_penalty NUMERIC(10,2),
+  ADD COLUMN cancellation_refund NUMERIC(10,2);
+
+-- Policy for a stay. Each room takes the policy of the rate plan in force on
+-- the arrival night, else the one for its room type, else the default; the
+-- strictest of those applies to the whole reservation.
+CREATE OR REPLACE FUNCTION public.get_cancellation_policy(_room_ids UUID[], _check_in DATE, _check_out DATE)
+RETURNS SETOF public.cancellation_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.*
+  FROM public.rooms r
+  LEFT JOIN public.quote_stay(_room_ids, _check_in, _check_out) q
+    ON q.room_id = r.id AND q.night = _check_in
+  LEFT JOIN public.rate_plans rp ON rp.id = q.rate_plan_id
+  CROSS JOIN LATERAL (
+    SELECT p.*
+    FROM public.cancellation_policies p
+    WHERE p.active
+      AND (p.id = rp.cancellation_policy_id OR r.type = ANY (p.room_types) OR p.is_default)
+    ORDER BY (p.id = rp.cancellation_policy_id) DESC NULLS LAST,
+             (r.type = ANY (p.room_types)) DESC,
+             p.is_default DESC
+    LIMIT 1
+  ) cp
+  WHERE r.id = ANY (_room_ids)
+  ORDER BY cp.non_refundable DESC, cp.free_until_hours DESC, cp.penalty_percent DESC
+  LIMIT 1
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cancellation_policy(UUID[], DATE, DATE) TO authenticated;
+
+-- Snapshot the policy when the reservation is created
+CREATE OR REPLACE FUNCTION public.snapshot_cancellation_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT to_jsonb(p) - 'created_at' - 'updated_at' - 'active' - 'is_default' - 'room_types'
+  INTO NEW.cancellation_policy
+  FROM public.get_cancellation_policy(NEW.room_ids, NEW.check_in, NEW.check_out) p;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_cancellation_policy
+  BEFORE INSERT ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_cancellation_policy();
+
+-- Existing reservations get the default policy
+UPDATE public.reservations
+SET cancellation_policy = (
+  SELECT to_jsonb(p) - 'created_at' - 'updated_at' - 'active' - 'is_default' - 'room_types'
+  FROM public.cancellation_policies p
+  WHERE p.is_default
+);
+
+-- Arrival time used for the free cancellation deadline (check-in from 15:00,
+-- hotel time)
+CREATE OR REPLACE FUNCTION public.reservation_arrival(_check_in DATE)
+RETURNS TIMESTAMPTZ
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (_check_in + TIME '15:00') AT TIME ZONE 'America/Bogota'
+$$;
+
+-- Penalty for cancelling at _at under the reservation's snapshotted policy.
+-- Without a policy cancellation is free. "First night" is the average nightly
+-- lodging of every room, as charged on the folio.
+CREATE OR REPLACE FUNCTION public.cancellation_penalty(_reservation public.reservations, _at TIMESTAMPTZ)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy JSONB := _reservation.cancellation_policy;
+  _penalty NUMERIC;
+BEGIN
+  IF _policy IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF (_policy->>'non_refundable')::BOOLEAN THEN
+    RETURN _reservation.total_price;
+  END IF;
+
+  IF _at <= public.reservation_arrival(_reservation.check_in)
+            - make_interval(hours => (_policy->>'free_until_hours')::INTEGER) THEN
+    RETURN 0;
+  END IF;
+
+  IF _policy->>'penalty_kind' = 'percent' THEN
+    _penalty := _reservation.total_price * (_policy->>'penalty_percent')::NUMERIC / 100;
+  ELSE
+    SELECT COALESCE(sum(li.amount / NULLIF(li.quantity, 0)), 0)
+    INTO _penalty
+    FROM public.reservation_line_items li
+    WHERE li.reservation_id = _reservation.id
+      AND li.kind = 'lodging';
+  END IF;
+
+  RETURN round(LEAST(_penalty, _reservation.total_price), 2);
+END;
+$$;
+
+-- What cancelling now would cost, for the confirmation dialog
+CREATE OR REPLACE FUNCTION public.quote_cancellation(_reservation_id UUID)
+RETURNS TABLE (penalty NUMERIC, refund NUMERIC, free_until TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reservation public.reservations;
+BEGIN
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  penalty := public.cancellation_penalty(_reservation, now());
+  refund := _reservation.total_price - penalty;
+  free_until := CASE
+    WHEN _reservation.cancellation_policy IS NULL THEN public.reservation_arrival(_reservation.check_in)
+    WHEN (_reservation.cancellation_policy->>'non_refundable')::BOOLEAN THEN NULL
+    ELSE public.reservation_arrival(_reservation.check_in)
+         - make_interval(hours => (_reservation.cancellation_policy->>'free_until_hours')::INTEGER)
+  END;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_cancellation(UUID) TO authenticated;
+
+-- Every cancellation records who cancelled, the penalty and the refund.
+-- Clients cannot cancel once the stay has started and always get the
+-- calculated penalty; staff may set a different one (e.g. to waive it).
+CREATE OR REPLACE FUNCTION public.record_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+BEGIN
+  -- The policy snapshot and cancellation figures are not editable by clients
+  IF _caller IS NOT NULL AND NOT _is_admin THEN
+    NEW.cancellation_policy := OLD.cancellation_policy;
+    NEW.cancelled_at := OLD.cancelled_at;
+    NEW.cancelled_by := OLD.cancelled_by;
+    NEW.cancellation_penalty := OLD.cancellation_penalty;
+    NEW.cancellation_refund := OLD.cancellation_refund;
+  END IF;
+
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _caller IS NOT NULL AND NOT _is_admin AND CURRENT_DATE >= OLD.check_in THEN
+    RAISE EXCEPTION 'No se puede cancelar una reserva que ya ha iniciado'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _is_admin OR NEW.cancellation_penalty IS NULL THEN
+    NEW.cancellation_penalty := public.cancellation_penalty(OLD, now());
+  END IF;
+
+  NEW.cancellation_penalty := LEAST(GREATEST(NEW.cancellation_penalty, 0), NEW.total_price);
+  NEW.cancellation_refund := NEW.total_price - NEW.cancellation_penalty;
+  NEW.cancelled_at := now();
+  NEW.cancelled_by := _caller;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after enforce_reservation_status (triggers fire in name order)
+CREATE TRIGGER record_cancellation
+  BEFORE UPDATE ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.record_cancellation();
+
+-- Clients may say why they cancel; the penalty is writable for staff only in
+-- effect, since record_cancellation ignores it for clients
+GRANT UPDATE (cancellation_reason, cancellation_penalty) ON public.reservations TO authenticated;
+
+-- Clients may now cancel confirmed reservations too
+INSERT INTO public.reservation_status_transitions (from_status, to_status, role)
+VALUES ('confirmed', 'cancelled', 'cliente');
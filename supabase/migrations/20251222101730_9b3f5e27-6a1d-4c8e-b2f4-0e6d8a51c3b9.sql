@@ -0,0 +1,153 @@
+-- Payments
+-- Card payments go through the "payments" edge function, which talks to the
+-- configured provider (a deterministic mock in local development) and
+-- records every attempt here with the service role. Clients can only read
+-- the payments of their own reservations.
+--
+-- reservations.payment_status summarizes what has been collected:
+-- unpaid, partially_paid (e.g. a deposit), paid, or refunded (money was
+-- collected and all of it was given back).
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL,
+  provider_reference TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('deposit', 'balance', 'full')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'authorized', 'captured', 'refunded', 'voided', 'failed')),
+  card_brand TEXT,
+  card_last4 TEXT,
+  failure_reason TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  authorized_at TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ,
+  voided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT payments_refund_within_amount CHECK (refunded_amount <= amount)
+);
+
+CREATE INDEX payments_reservation_id_idx ON public.payments (reservation_id, created_at);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Payments are written only by the payments edge function
+CREATE POLICY "Users can view own payments"
+  ON public.payments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.reservations res
+      WHERE res.id = reservation_id
+        AND (res.user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+ALTER TABLE public.reservations
+  ADD COLUMN payment_status TEXT NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid', 'refunded'));
+
+-- Money collected and not refunded
+CREATE OR REPLACE FUNCTION public.reservation_amount_paid(_reservation_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(amount - refunded_amount), 0)
+  FROM public.payments
+  WHERE reservation_id = _reservation_id
+    AND status IN ('captured', 'refunded')
+$$;
+
+-- What is left to pay. Authorized payments not yet captured are already
+-- committed, so they count against the balance too.
+CREATE OR REPLACE FUNCTION public.reservation_balance(_reservation_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT res.total_price
+         - public.reservation_amount_paid(res.id)
+         - COALESCE((
+             SELECT sum(p.amount)
+             FROM public.payments p
+             WHERE p.reservation_id = res.id
+               AND p.status = 'authorized'
+           ), 0)
+  FROM public.reservations res
+  WHERE res.id = _reservation_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reservation_balance(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.compute_payment_status(_reservation_id UUID, _total NUMERIC)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _paid NUMERIC := public.reservation_amount_paid(_reservation_id);
+BEGIN
+  IF _paid > 0 AND _paid >= _total THEN
+    RETURN 'paid';
+  ELSIF _paid > 0 THEN
+    RETURN 'partially_paid';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE reservation_id = _reservation_id AND status = 'refunded'
+  ) THEN
+    RETURN 'refunded';
+  END IF;
+  RETURN 'unpaid';
+END;
+$$;
+
+-- Keep payment_status current when payments change...
+CREATE OR REPLACE FUNCTION public.sync_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.reservations
+  SET payment_status = public.compute_payment_status(id, total_price)
+  WHERE id = NEW.reservation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_payment_status
+  AFTER INSERT OR UPDATE OF status, refunded_amount ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_payment_status();
+
+-- ...and on every reservation update: the total may have changed (e.g. a
+-- modified reservation) and clients must not be able to set it themselves
+CREATE OR REPLACE FUNCTION public.refresh_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.payment_status := public.compute_payment_status(NEW.id, NEW.total_price);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_payment_status
+  BEFORE UPDATE ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_payment_status();
@@ -0,0 +1,292 @@
+-- Deposits, balances and counter payments
+-- Staff record payments taken at the front desk (cash, card terminal or
+-- transfer) and refunds with a reason. Card payments made online keep going
+-- through the payments edge function, which now records its refunds in the
+-- same payment_refunds table. A reservation cannot be completed while part
+-- of its total is still unpaid.
+ALTER TABLE public.payments
+  ADD COLUMN method TEXT NOT NULL DEFAULT 'card'
+    CHECK (method IN ('cash', 'card', 'transfer')),
+  ADD COLUMN notes TEXT;
+
+-- Every refund of a payment, with who made it and why
+CREATE TABLE public.payment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  provider_reference TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payment_refunds_payment_id_idx ON public.payment_refunds (payment_id, created_at);
+
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are written only through refund_payment and the payments function
+CREATE POLICY "Users can view own payment refunds"
+  ON public.payment_refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.payments p
+      JOIN public.reservations res ON res.id = p.reservation_id
+      WHERE p.id = payment_id
+        AND (res.user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+-- A refund adds to the payment's refunded amount; the payments_refund_within_amount
+-- check rejects refunding more than was paid
+CREATE OR REPLACE FUNCTION public.apply_payment_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.payments
+  SET refunded_amount = refunded_amount + NEW.amount,
+      status = CASE WHEN refunded_amount + NEW.amount >= amount THEN 'refunded' ELSE status END
+  WHERE id = NEW.payment_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_payment_refund
+  AFTER INSERT ON public.payment_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.apply_payment_refund();
+
+-- Kind of a new payment: a deposit if nothing was paid and it does not cover
+-- the total, the balance if something was paid already, else the full amount
+CREATE OR REPLACE FUNCTION public.next_payment_kind(_reservation_id UUID, _amount NUMERIC)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.reservation_amount_paid(_reservation_id) > 0 THEN 'balance'
+    WHEN _amount < public.reservation_balance(_reservation_id) THEN 'deposit'
+    ELSE 'full'
+  END
+$$;
+
+-- Record a payment taken at the counter
+CREATE OR REPLACE FUNCTION public.record_manual_payment(
+  _reservation_id UUID,
+  _amount NUMERIC,
+  _method TEXT,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+  _payment public.payments;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede registrar pagos'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status NOT IN ('pending', 'confirmed', 'checked_in', 'checked_out') THEN
+    RAISE EXCEPTION 'La reserva no admite pagos en su estado actual'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _method IS NULL OR _method NOT IN ('cash', 'card', 'transfer') THEN
+    RAISE EXCEPTION 'Indique la forma de pago'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'El importe debe ser mayor que cero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _amount > public.reservation_balance(_reservation.id) THEN
+    RAISE EXCEPTION 'El importe supera el saldo pendiente de la reserva'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payments (
+    reservation_id, provider, method, kind, amount, status, notes, created_by, captured_at
+  )
+  VALUES (
+    _reservation.id, 'manual', _method, public.next_payment_kind(_reservation.id, _amount),
+    round(_amount, 2), 'captured', NULLIF(btrim(_notes), ''), _caller, now()
+  )
+  RETURNING * INTO _payment;
+
+  RETURN _payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_manual_payment(UUID, NUMERIC, TEXT, TEXT) TO authenticated;
+
+-- Refund a payment taken at the counter. Online card payments are refunded
+-- through the payments function so the gateway returns the money.
+CREATE OR REPLACE FUNCTION public.refund_payment(_payment_id UUID, _amount NUMERIC, _reason TEXT)
+RETURNS public.payment_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _payment public.payments;
+  _refund public.payment_refunds;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede registrar reembolsos'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE id = _payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'El pago no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _payment.provider <> 'manual' THEN
+    RAISE EXCEPTION 'Los pagos en línea se reembolsan a través de la pasarela'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _payment.status NOT IN ('captured', 'refunded') THEN
+    RAISE EXCEPTION 'Solo se pueden reembolsar pagos cobrados'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo del reembolso'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 OR _amount > _payment.amount - _payment.refunded_amount THEN
+    RAISE EXCEPTION 'El reembolso debe estar entre 0 y %', _payment.amount - _payment.refunded_amount
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payment_refunds (payment_id, amount, reason, created_by)
+  VALUES (_payment.id, round(_amount, 2), btrim(_reason), _caller)
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refund_payment(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Check-out now records whatever is still owed as a payment with the
+-- settlement method, so the folio is left settled
+CREATE OR REPLACE FUNCTION public.check_out_reservation(
+  _reservation_id UUID,
+  _settlement_method TEXT
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+  _balance NUMERIC;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede registrar salidas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _settlement_method IS NULL OR _settlement_method NOT IN ('cash', 'card', 'transfer') THEN
+    RAISE EXCEPTION 'Indique cómo se liquidó el folio'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Solo se puede hacer check-out de huéspedes hospedados'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _balance := public.reservation_balance(_reservation.id);
+  IF _balance > 0 THEN
+    INSERT INTO public.payments (
+      reservation_id, provider, method, kind, amount, status, notes, created_by, captured_at
+    )
+    VALUES (
+      _reservation.id, 'manual', _settlement_method, public.next_payment_kind(_reservation.id, _balance),
+      _balance, 'captured', 'Liquidación en el check-out', _caller, now()
+    );
+  END IF;
+
+  UPDATE public.reservation_keys
+  SET returned_at = now()
+  WHERE reservation_id = _reservation.id
+    AND returned_at IS NULL;
+
+  UPDATE public.reservations
+  SET status = 'checked_out',
+      checked_out_at = now(),
+      checked_out_by = _caller,
+      settlement_method = _settlement_method
+  WHERE id = _reservation.id
+  RETURNING * INTO _reservation;
+
+  RETURN _reservation;
+END;
+$$;
+
+-- A reservation is only completed once its total has been collected
+CREATE OR REPLACE FUNCTION public.require_settled_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed'
+     AND NEW.total_price > public.reservation_amount_paid(NEW.id) THEN
+    RAISE EXCEPTION 'No se puede completar la reserva: tiene un saldo pendiente de %',
+      NEW.total_price - public.reservation_amount_paid(NEW.id)
+      USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_settled_balance
+  BEFORE UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.require_settled_balance();
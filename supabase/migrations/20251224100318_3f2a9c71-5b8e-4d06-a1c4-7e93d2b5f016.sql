@@ -0,0 +1,440 @@
+-- Invoices and credit notes
+-- Invoices are issued from a reservation's folio and numbered per series
+-- without gaps: the number is taken from invoice_series inside the issuing
+-- transaction (a failed issue rolls the counter back) and issued documents
+-- can never be changed or deleted. Refunds are corrected with credit notes.
+CREATE TABLE public.invoice_series (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z]{1,4}$'),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('invoice', 'credit_note')),
+  next_number INTEGER NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  resolution TEXT,
+  issuer_name TEXT NOT NULL,
+  issuer_tax_id TEXT NOT NULL,
+  issuer_address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Issuer details are copied into every invoice; update them here before
+-- issuing the first one
+INSERT INTO public.invoice_series (code, name, kind, issuer_name, issuer_tax_id, issuer_address)
+VALUES
+  ('FV', 'Facturas de venta', 'invoice', 'Spring Hotel', '900000000-0', NULL),
+  ('NC', 'Notas crédito', 'credit_note', 'Spring Hotel', '900000000-0', NULL);
+
+-- Billing details a customer wants on their invoices instead of the guest's
+CREATE TABLE public.billing_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  legal_name TEXT NOT NULL,
+  tax_id_type TEXT NOT NULL CHECK (tax_id_type IN ('nit', 'cc', 'ce', 'passport')),
+  tax_id TEXT NOT NULL CHECK (btrim(tax_id) <> ''),
+  address TEXT,
+  city TEXT,
+  email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series TEXT REFERENCES public.invoice_series(code) NOT NULL,
+  number INTEGER NOT NULL,
+  invoice_number TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('invoice', 'credit_note')),
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE RESTRICT NOT NULL,
+  corrects_invoice_id UUID REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  payment_refund_id UUID REFERENCES public.payment_refunds(id) ON DELETE RESTRICT,
+  reason TEXT,
+  currency TEXT NOT NULL DEFAULT 'COP',
+  resolution TEXT,
+  issuer_name TEXT NOT NULL,
+  issuer_tax_id TEXT NOT NULL,
+  issuer_address TEXT,
+  customer_name TEXT NOT NULL,
+  customer_tax_id_type TEXT NOT NULL,
+  customer_tax_id TEXT NOT NULL,
+  customer_address TEXT,
+  customer_email TEXT,
+  subtotal NUMERIC(10,2) NOT NULL,
+  tax_total NUMERIC(10,2) NOT NULL,
+  total NUMERIC(10,2) NOT NULL,
+  issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (series, number),
+  CHECK ((kind = 'credit_note') = (corrects_invoice_id IS NOT NULL))
+);
+
+CREATE INDEX invoices_reservation_id_idx ON public.invoices (reservation_id, issued_at);
+CREATE UNIQUE INDEX invoices_payment_refund_id_key ON public.invoices (payment_refund_id)
+  WHERE payment_refund_id IS NOT NULL;
+
+-- Invoice lines have the same shape as the folio they are copied from
+CREATE TABLE public.invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  kind TEXT NOT NULL CHECK (kind IN ('lodging', 'fee', 'tax')),
+  description TEXT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10,2),
+  rate NUMERIC(5,2),
+  exempt BOOLEAN NOT NULL DEFAULT false,
+  amount NUMERIC(10,2) NOT NULL
+);
+
+CREATE INDEX invoice_lines_invoice_id_idx ON public.invoice_lines (invoice_id, sort_order);
+
+-- Enable RLS
+ALTER TABLE public.invoice_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.billing_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_invoice_series_updated_at
+  BEFORE UPDATE ON public.invoice_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TRIGGER update_billing_profiles_updated_at
+  BEFORE UPDATE ON public.billing_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Series are configured in SQL so the counters cannot be moved from the app
+CREATE POLICY "Admins can view invoice series"
+  ON public.invoice_series FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can manage own billing profile"
+  ON public.billing_profiles FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view billing profiles"
+  ON public.billing_profiles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Invoices are written only through issue_invoice and issue_credit_note
+CREATE POLICY "Users can view own invoices"
+  ON public.invoices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.reservations res
+      WHERE res.id = reservation_id
+        AND (res.user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+CREATE POLICY "Users can view own invoice lines"
+  ON public.invoice_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.invoices inv
+      JOIN public.reservations res ON res.id = inv.reservation_id
+      WHERE inv.id = invoice_id
+        AND (res.user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+-- Issued documents are final
+CREATE OR REPLACE FUNCTION public.prevent_invoice_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Las facturas emitidas no se pueden modificar ni eliminar; emita una nota crédito'
+    USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER prevent_invoice_changes
+  BEFORE UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_invoice_changes();
+
+CREATE TRIGGER prevent_invoice_line_changes
+  BEFORE UPDATE OR DELETE ON public.invoice_lines
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_invoice_changes();
+
+-- Take the next number of a series. The row lock serializes concurrent
+-- issues and the increment is undone if the issuing transaction fails.
+CREATE OR REPLACE FUNCTION public.take_invoice_number(_series TEXT, _kind TEXT)
+RETURNS public.invoice_series
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.invoice_series;
+BEGIN
+  UPDATE public.invoice_series
+  SET next_number = next_number + 1
+  WHERE code = _series
+    AND kind = _kind
+  RETURNING * INTO _row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La serie % no existe o no corresponde a este documento', _series
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Return the series as it was before the increment
+  _row.next_number := _row.next_number - 1;
+  RETURN _row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.take_invoice_number(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Amount of an invoice not yet cancelled by credit notes
+CREATE OR REPLACE FUNCTION public.invoice_open_amount(_invoice_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT inv.total - COALESCE((
+    SELECT sum(cn.total)
+    FROM public.invoices cn
+    WHERE cn.corrects_invoice_id = inv.id
+  ), 0)
+  FROM public.invoices inv
+  WHERE inv.id = _invoice_id
+$$;
+
+-- Issue the invoice of a reservation from its folio. The customer is the
+-- owner's billing profile when there is one, else the main guest.
+CREATE OR REPLACE FUNCTION public.issue_invoice(_reservation_id UUID, _series TEXT DEFAULT 'FV')
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+  _profile public.billing_profiles;
+  _series_row public.invoice_series;
+  _open public.invoices;
+  _invoice public.invoices;
+  _customer_name TEXT;
+  _customer_tax_id_type TEXT;
+  _customer_tax_id TEXT;
+  _customer_address TEXT;
+  _customer_email TEXT;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede emitir facturas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status NOT IN ('confirmed', 'checked_in', 'checked_out', 'completed') THEN
+    RAISE EXCEPTION 'Solo se facturan reservas confirmadas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.reservation_line_items WHERE reservation_id = _reservation.id) THEN
+    RAISE EXCEPTION 'La reserva no tiene cargos para facturar'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- One open invoice per reservation: to reissue, credit the previous one first
+  SELECT * INTO _open
+  FROM public.invoices
+  WHERE reservation_id = _reservation.id
+    AND kind = 'invoice'
+    AND public.invoice_open_amount(id) > 0
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'La reserva ya tiene la factura %', _open.invoice_number
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _profile
+  FROM public.billing_profiles
+  WHERE user_id = _reservation.user_id;
+
+  IF FOUND THEN
+    _customer_name := _profile.legal_name;
+    _customer_tax_id_type := _profile.tax_id_type;
+    _customer_tax_id := _profile.tax_id;
+    _customer_address := concat_ws(', ', NULLIF(_profile.address, ''), NULLIF(_profile.city, ''));
+    _customer_email := _profile.email;
+  ELSE
+    _customer_name := btrim(concat_ws(' ', _reservation.guest_data->>'firstName', _reservation.guest_data->>'lastName'));
+    _customer_tax_id_type := COALESCE(_reservation.guest_data->>'documentType', 'cc');
+    _customer_tax_id := btrim(_reservation.guest_data->>'documentId');
+    _customer_email := _reservation.guest_data->>'email';
+  END IF;
+
+  IF COALESCE(_customer_tax_id, '') = '' OR COALESCE(_customer_name, '') = '' THEN
+    RAISE EXCEPTION 'Faltan el nombre o el documento del cliente para facturar'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _series_row := public.take_invoice_number(_series, 'invoice');
+
+  INSERT INTO public.invoices (
+    series, number, invoice_number, kind, reservation_id, currency, resolution,
+    issuer_name, issuer_tax_id, issuer_address,
+    customer_name, customer_tax_id_type, customer_tax_id, customer_address, customer_email,
+    subtotal, tax_total, total, issued_by
+  )
+  SELECT _series_row.code, _series_row.next_number,
+         _series_row.code || '-' || lpad(_series_row.next_number::TEXT, 6, '0'),
+         'invoice', _reservation.id, 'COP', _series_row.resolution,
+         _series_row.issuer_name, _series_row.issuer_tax_id, _series_row.issuer_address,
+         _customer_name, _customer_tax_id_type, _customer_tax_id, NULLIF(_customer_address, ''), _customer_email,
+         COALESCE(sum(li.amount) FILTER (WHERE li.kind <> 'tax'), 0),
+         COALESCE(sum(li.amount) FILTER (WHERE li.kind = 'tax'), 0),
+         COALESCE(sum(li.amount), 0),
+         _caller
+  FROM public.reservation_line_items li
+  WHERE li.reservation_id = _reservation.id
+  RETURNING * INTO _invoice;
+
+  INSERT INTO public.invoice_lines (
+    invoice_id, sort_order, kind, description, quantity, unit_price, rate, exempt, amount
+  )
+  SELECT _invoice.id, li.sort_order, li.kind, li.description, li.quantity,
+         li.unit_price, li.rate, li.exempt, li.amount
+  FROM public.reservation_line_items li
+  WHERE li.reservation_id = _reservation.id;
+
+  RETURN _invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_invoice(UUID, TEXT) TO authenticated;
+
+-- Issue a credit note for all or part of an invoice, usually for a refund.
+-- Each line is credited in proportion; rounding goes to the first non-tax line.
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  _invoice_id UUID,
+  _amount NUMERIC,
+  _reason TEXT,
+  _payment_refund_id UUID DEFAULT NULL,
+  _series TEXT DEFAULT 'NC'
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _invoice public.invoices;
+  _series_row public.invoice_series;
+  _note public.invoices;
+  _open NUMERIC;
+  _ratio NUMERIC;
+  _tax_total NUMERIC;
+  _sum NUMERIC;
+  _first_line UUID;
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede emitir notas crédito'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _invoice
+  FROM public.invoices
+  WHERE id = _invoice_id
+    AND kind = 'invoice';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La factura no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialize credit notes of the same invoice
+  PERFORM 1 FROM public.reservations WHERE id = _invoice.reservation_id FOR UPDATE;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo de la nota crédito'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _open := public.invoice_open_amount(_invoice.id);
+  IF _amount IS NULL OR _amount <= 0 OR round(_amount, 2) > _open THEN
+    RAISE EXCEPTION 'El importe de la nota crédito debe estar entre 0 y %', _open
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _payment_refund_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.payment_refunds pr
+    JOIN public.payments p ON p.id = pr.payment_id
+    WHERE pr.id = _payment_refund_id
+      AND p.reservation_id = _invoice.reservation_id
+  ) THEN
+    RAISE EXCEPTION 'El reembolso no corresponde a la reserva de la factura'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _ratio := round(_amount, 2) / _invoice.total;
+
+  SELECT COALESCE(sum(round(amount * _ratio, 2)) FILTER (WHERE kind = 'tax'), 0),
+         COALESCE(sum(round(amount * _ratio, 2)), 0)
+  INTO _tax_total, _sum
+  FROM public.invoice_lines
+  WHERE invoice_id = _invoice.id;
+
+  SELECT id INTO _first_line
+  FROM public.invoice_lines
+  WHERE invoice_id = _invoice.id
+    AND kind <> 'tax'
+  ORDER BY sort_order
+  LIMIT 1;
+
+  _series_row := public.take_invoice_number(_series, 'credit_note');
+
+  INSERT INTO public.invoices (
+    series, number, invoice_number, kind, reservation_id, corrects_invoice_id, payment_refund_id,
+    reason, currency, resolution, issuer_name, issuer_tax_id, issuer_address,
+    customer_name, customer_tax_id_type, customer_tax_id, customer_address, customer_email,
+    subtotal, tax_total, total, issued_by
+  )
+  VALUES (
+    _series_row.code, _series_row.next_number,
+    _series_row.code || '-' || lpad(_series_row.next_number::TEXT, 6, '0'),
+    'credit_note', _invoice.reservation_id, _invoice.id, _payment_refund_id,
+    btrim(_reason), _invoice.currency, _series_row.resolution,
+    _series_row.issuer_name, _series_row.issuer_tax_id, _series_row.issuer_address,
+    _invoice.customer_name, _invoice.customer_tax_id_type, _invoice.customer_tax_id,
+    _invoice.customer_address, _invoice.customer_email,
+    round(_amount, 2) - _tax_total, _tax_total, round(_amount, 2), _caller
+  )
+  RETURNING * INTO _note;
+
+  INSERT INTO public.invoice_lines (
+    invoice_id, sort_order, kind, description, quantity, unit_price, rate, exempt, amount
+  )
+  SELECT _note.id, l.sort_order, l.kind, l.description, l.quantity,
+         round(l.unit_price * _ratio, 2), l.rate, l.exempt,
+         round(l.amount * _ratio, 2) + CASE WHEN l.id = _first_line THEN round(_amount, 2) - _sum ELSE 0 END
+  FROM public.invoice_lines l
+  WHERE l.invoice_id = _invoice.id;
+
+  RETURN _note;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_credit_note(UUID, NUMERIC, TEXT, UUID, TEXT) TO authenticated;
@@ -0,0 +1,217 @@
+-- Transactional email
+-- Reservation events put emails in email_queue; the send-emails function
+-- renders the Spanish templates and delivers them over SMTP (MailHog in
+-- development). Every delivery attempt is written to email_log.
+CREATE TABLE public.email_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  template TEXT NOT NULL CHECK (
+    template IN ('booking_received', 'booking_confirmed', 'booking_cancelled', 'pre_arrival', 'post_stay')
+  ),
+  recipient TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  send_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Each email is sent once per reservation
+  UNIQUE (reservation_id, template)
+);
+
+CREATE INDEX email_queue_pending_idx ON public.email_queue (send_after)
+  WHERE status = 'pending';
+
+CREATE TABLE public.email_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue_id UUID REFERENCES public.email_queue(id) ON DELETE CASCADE NOT NULL,
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE NOT NULL,
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX email_log_reservation_id_idx ON public.email_log (reservation_id, attempted_at);
+
+ALTER TABLE public.email_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_log ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_email_queue_updated_at
+  BEFORE UPDATE ON public.email_queue
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Both tables are written by triggers and the send-emails function
+CREATE POLICY "Admins can view email queue"
+  ON public.email_queue FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view email log"
+  ON public.email_log FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Queue an email for a reservation, addressed to the guest (or the account
+-- owner when the guest left no email). Already queued emails are kept.
+CREATE OR REPLACE FUNCTION public.enqueue_email(
+  _reservation_id UUID,
+  _template TEXT,
+  _send_after TIMESTAMPTZ DEFAULT now()
+)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.email_queue (reservation_id, template, recipient, send_after)
+  SELECT r.id, _template, COALESCE(NULLIF(btrim(r.guest_data->>'email'), ''), p.email), _send_after
+  FROM public.reservations r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.id = _reservation_id
+    AND COALESCE(NULLIF(btrim(r.guest_data->>'email'), ''), p.email) IS NOT NULL
+  ON CONFLICT (reservation_id, template) DO NOTHING
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_email(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Booking received on creation; confirmed and cancelled on those transitions,
+-- whoever makes them (staff, the guest or a scheduled job)
+CREATE OR REPLACE FUNCTION public.queue_reservation_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_email(NEW.id, 'booking_received');
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'confirmed' THEN
+      PERFORM public.enqueue_email(NEW.id, 'booking_confirmed');
+    ELSIF NEW.status = 'cancelled' THEN
+      PERFORM public.enqueue_email(NEW.id, 'booking_cancelled');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_reservation_emails
+  AFTER INSERT OR UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.queue_reservation_emails();
+
+-- Reminders two days before arrival and thanks the day after departure.
+-- Bookings made less than a day ahead already got their confirmation, and
+-- stays older than a week are not thanked (e.g. right after deploying this).
+CREATE OR REPLACE FUNCTION public.enqueue_scheduled_emails()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reservation_id UUID;
+  _count INTEGER := 0;
+BEGIN
+  FOR _reservation_id IN
+    SELECT r.id
+    FROM public.reservations r
+    WHERE r.status = 'confirmed'
+      AND r.check_in > CURRENT_DATE
+      AND r.check_in <= CURRENT_DATE + 2
+      AND r.created_at < now() - INTERVAL '1 day'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.email_queue q
+        WHERE q.reservation_id = r.id AND q.template = 'pre_arrival'
+      )
+  LOOP
+    PERFORM public.enqueue_email(_reservation_id, 'pre_arrival');
+    _count := _count + 1;
+  END LOOP;
+
+  FOR _reservation_id IN
+    SELECT r.id
+    FROM public.reservations r
+    WHERE r.status IN ('checked_out', 'completed')
+      AND r.checked_out_at < now() - INTERVAL '1 day'
+      AND r.checked_out_at > now() - INTERVAL '7 days'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.email_queue q
+        WHERE q.reservation_id = r.id AND q.template = 'post_stay'
+      )
+  LOOP
+    PERFORM public.enqueue_email(_reservation_id, 'post_stay');
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_scheduled_emails() FROM PUBLIC, anon, authenticated;
+
+-- Claim due emails for sending. Emails left in 'sending' by a sender that
+-- died are released after ten minutes; SKIP LOCKED lets senders overlap.
+CREATE OR REPLACE FUNCTION public.claim_pending_emails(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.email_queue
+  SET status = 'pending'
+  WHERE status = 'sending'
+    AND updated_at < now() - INTERVAL '10 minutes';
+
+  RETURN QUERY
+  UPDATE public.email_queue q
+  SET status = 'sending',
+      attempts = q.attempts + 1
+  WHERE q.id IN (
+    SELECT id
+    FROM public.email_queue
+    WHERE status = 'pending'
+      AND send_after <= now()
+    ORDER BY send_after
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_pending_emails(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Schedule: queue reminders every hour and run the sender every five
+-- minutes. The sender URL and key are read from Vault (secrets project_url
+-- and service_role_key), as in Supabase's guide to scheduling functions.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'enqueue-scheduled-emails',
+  '0 * * * *',
+  $$SELECT public.enqueue_scheduled_emails();$$
+);
+
+SELECT cron.schedule(
+  'send-queued-emails',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
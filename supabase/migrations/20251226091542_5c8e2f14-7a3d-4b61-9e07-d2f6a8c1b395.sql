@@ -0,0 +1,104 @@
+-- In-app notifications
+-- One row per user and event, written only by triggers: guests hear about
+-- status changes made by someone else (staff or a scheduled job) and admins
+-- about every new pending reservation. Users may only mark their own
+-- notifications as read or delete them.
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  reservation_id UUID REFERENCES public.reservations(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_idx
+  ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Only read_at may change: the content belongs to the trigger that wrote it
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_reservation_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT := upper(left(NEW.id::TEXT, 8));
+  _title TEXT;
+BEGIN
+  -- New bookings wait for staff to confirm them
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' THEN
+      INSERT INTO public.notifications (user_id, type, title, body, link, reservation_id)
+      SELECT ur.user_id,
+             'reservation_pending',
+             'Nueva reserva pendiente',
+             format('La reserva %s del %s al %s espera confirmación', _code,
+                    to_char(NEW.check_in, 'DD/MM/YYYY'), to_char(NEW.check_out, 'DD/MM/YYYY')),
+             '/admin/reservations',
+             NEW.id
+      FROM public.user_roles ur
+      WHERE ur.role = 'admin';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- The guest already knows about the changes they make themselves
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR auth.uid() IS NOT DISTINCT FROM NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  _title := CASE NEW.status
+    WHEN 'confirmed' THEN 'Reserva confirmada'
+    WHEN 'cancelled' THEN 'Reserva cancelada'
+    WHEN 'checked_in' THEN 'Check-in realizado'
+    WHEN 'checked_out' THEN 'Check-out realizado'
+    WHEN 'completed' THEN 'Estadía completada'
+    WHEN 'no_show' THEN 'Reserva marcada como no presentada'
+  END;
+
+  IF _title IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, reservation_id)
+    VALUES (
+      NEW.user_id,
+      'reservation_' || NEW.status,
+      _title,
+      format('Reserva %s del %s al %s', _code,
+             to_char(NEW.check_in, 'DD/MM/YYYY'), to_char(NEW.check_out, 'DD/MM/YYYY')),
+      '/my-reservations',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_reservation_changes
+  AFTER INSERT OR UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.notify_reservation_changes();
+
+-- Realtime drives the unread badge and the notification list
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,31 @@
+-- Live admin lists
+-- Reservations and rooms are published to realtime so the admin screens
+-- update as other staff work. updated_by records who made the last change,
+-- so a screen can tell its own changes apart from everyone else's.
+ALTER TABLE public.reservations
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.rooms
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Changes without a user (scheduled jobs, migrations) leave it NULL
+CREATE OR REPLACE FUNCTION public.set_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reservations_updated_by
+  BEFORE INSERT OR UPDATE ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+
+CREATE TRIGGER set_rooms_updated_by
+  BEFORE INSERT OR UPDATE ON public.rooms
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reservations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rooms;
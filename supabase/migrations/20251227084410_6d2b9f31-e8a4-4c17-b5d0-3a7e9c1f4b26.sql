@@ -0,0 +1,48 @@
+-- Housekeeping
+-- Cleaning state is tracked apart from rooms.status (sales availability and
+-- maintenance): dirty -> cleaning -> clean -> inspected. Every room starts
+-- inspected; a check-out turns its rooms dirty. Rooms can be assigned to a
+-- staff member for cleaning.
+ALTER TABLE public.rooms
+  ADD COLUMN housekeeping_status TEXT NOT NULL DEFAULT 'inspected'
+    CHECK (housekeeping_status IN ('dirty', 'cleaning', 'clean', 'inspected')),
+  ADD COLUMN housekeeping_assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN housekeeping_updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.touch_housekeeping_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.housekeeping_status IS DISTINCT FROM OLD.housekeeping_status THEN
+    NEW.housekeeping_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_housekeeping_status
+  BEFORE UPDATE OF housekeeping_status ON public.rooms
+  FOR EACH ROW EXECUTE FUNCTION public.touch_housekeeping_status();
+
+-- Rooms left by a guest need cleaning before the next arrival. The
+-- assignment is kept: the same person usually cleans the same rooms.
+CREATE OR REPLACE FUNCTION public.mark_rooms_dirty_on_check_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'checked_out' AND OLD.status IS DISTINCT FROM 'checked_out' THEN
+    UPDATE public.rooms
+    SET housekeeping_status = 'dirty'
+    WHERE id = ANY(NEW.room_ids);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_rooms_dirty_on_check_out
+  AFTER UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.mark_rooms_dirty_on_check_out();
@@ -0,0 +1,226 @@
+-- Maintenance work orders
+-- A ticket describes a problem in a room, its priority and who handles it,
+-- and optionally takes the room out of order for a date range. While the
+-- ticket is not resolved those dates are unavailable: get_available_rooms
+-- skips the room and reservation_rooms rejects bookings that overlap them.
+-- rooms.status = 'maintenance' stays for rooms out of service indefinitely.
+CREATE TABLE public.maintenance_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (btrim(title) <> ''),
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium'
+    CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'in_progress', 'resolved')),
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Both days included
+  out_of_order_from DATE,
+  out_of_order_until DATE,
+  resolution TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT maintenance_tickets_out_of_order_check CHECK (
+    (out_of_order_from IS NULL AND out_of_order_until IS NULL)
+    OR (out_of_order_from IS NOT NULL AND out_of_order_until IS NOT NULL
+        AND out_of_order_until >= out_of_order_from)
+  )
+);
+
+CREATE INDEX maintenance_tickets_room_id_idx
+  ON public.maintenance_tickets (room_id, created_at DESC);
+
+ALTER TABLE public.maintenance_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage maintenance tickets"
+  ON public.maintenance_tickets FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_maintenance_tickets_updated_at
+  BEFORE UPDATE ON public.maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TABLE public.maintenance_ticket_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID REFERENCES public.maintenance_tickets(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX maintenance_ticket_events_ticket_id_idx
+  ON public.maintenance_ticket_events (ticket_id, changed_at);
+
+ALTER TABLE public.maintenance_ticket_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written only by the trigger below
+CREATE POLICY "Admins can view maintenance ticket events"
+  ON public.maintenance_ticket_events FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TABLE public.maintenance_ticket_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID REFERENCES public.maintenance_tickets(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX maintenance_ticket_photos_ticket_id_idx
+  ON public.maintenance_ticket_photos (ticket_id, created_at);
+
+ALTER TABLE public.maintenance_ticket_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage maintenance ticket photos"
+  ON public.maintenance_ticket_photos FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Photos live in a private bucket, one folder per ticket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('maintenance-photos', 'maintenance-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can view maintenance photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'maintenance-photos' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can upload maintenance photos"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'maintenance-photos' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete maintenance photos"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'maintenance-photos' AND public.has_role(auth.uid(), 'admin'));
+
+-- True when an unresolved ticket takes the room out of order on any night
+-- of the stay
+CREATE OR REPLACE FUNCTION public.is_room_out_of_order(_room_id UUID, _stay DATERANGE)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.maintenance_tickets t
+    WHERE t.room_id = _room_id
+      AND t.status <> 'resolved'
+      AND t.out_of_order_from IS NOT NULL
+      AND daterange(t.out_of_order_from, t.out_of_order_until, '[]') && _stay
+  )
+$$;
+
+-- Resolution bookkeeping and the room/date checks. A ticket cannot block
+-- dates already booked: those reservations must be moved first.
+CREATE OR REPLACE FUNCTION public.validate_maintenance_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'resolved' AND (TG_OP = 'INSERT' OR OLD.status <> 'resolved') THEN
+    NEW.resolved_at := now();
+  ELSIF NEW.status <> 'resolved' THEN
+    NEW.resolved_at := NULL;
+  END IF;
+
+  IF NEW.status <> 'resolved' AND NEW.out_of_order_from IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = NEW.room_id
+      AND rr.stay && daterange(NEW.out_of_order_from, NEW.out_of_order_until, '[]')
+  ) THEN
+    RAISE EXCEPTION 'La habitación tiene reservas en esas fechas. Muévalas a otra habitación antes de bloquearla'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_maintenance_ticket
+  BEFORE INSERT OR UPDATE ON public.maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.validate_maintenance_ticket();
+
+CREATE OR REPLACE FUNCTION public.log_maintenance_ticket_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.maintenance_ticket_events (ticket_id, from_status, to_status, note, changed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      CASE WHEN NEW.status = 'resolved' THEN NEW.resolution END,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_maintenance_ticket_status
+  AFTER INSERT OR UPDATE OF status ON public.maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.log_maintenance_ticket_status();
+
+-- Bookings, moves and modifications all go through reservation_rooms
+CREATE OR REPLACE FUNCTION public.reject_out_of_order_rooms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_room_out_of_order(NEW.room_id, NEW.stay) THEN
+    RAISE EXCEPTION 'Una de las habitaciones está fuera de servicio por mantenimiento en esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_out_of_order_rooms
+  BEFORE INSERT ON public.reservation_rooms
+  FOR EACH ROW EXECUTE FUNCTION public.reject_out_of_order_rooms();
+
+-- Availability leaves out rooms that are out of order on any night
+CREATE OR REPLACE FUNCTION public.get_available_rooms(_check_in DATE, _check_out DATE)
+RETURNS SETOF public.rooms
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.rooms r
+  WHERE r.status <> 'maintenance'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.reservation_rooms rr
+      WHERE rr.room_id = r.id
+        AND rr.stay && daterange(_check_in, _check_out, '[)')
+    )
+    AND NOT public.is_room_held(r.id, daterange(_check_in, _check_out, '[)'), auth.uid())
+    AND NOT public.is_room_out_of_order(r.id, daterange(_check_in, _check_out, '[)'))
+  ORDER BY r.price ASC;
+END;
+$$;
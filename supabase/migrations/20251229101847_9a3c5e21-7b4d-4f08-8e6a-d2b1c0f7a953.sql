@@ -0,0 +1,105 @@
+-- Room photo galleries
+-- Each room has several ordered photos in the public "room-images" bucket,
+-- one of them marked as cover. rooms.image_url always holds the cover URL
+-- (or the first photo when none is marked) so lists can show it without
+-- loading the gallery.
+CREATE TABLE public.room_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  -- Object path in the bucket, used to delete the file
+  path TEXT NOT NULL UNIQUE,
+  -- Public URL of the object
+  url TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_cover BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX room_images_room_id_idx ON public.room_images (room_id, position);
+
+-- At most one cover per room
+CREATE UNIQUE INDEX room_images_one_cover_idx ON public.room_images (room_id) WHERE is_cover;
+
+ALTER TABLE public.room_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view room images"
+  ON public.room_images FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage room images"
+  ON public.room_images FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('room-images', 'room-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Room images are publicly accessible"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'room-images');
+
+CREATE POLICY "Admins can upload room images"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'room-images' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete room images"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'room-images' AND public.has_role(auth.uid(), 'admin'));
+
+-- Marks one photo as the cover of its room, unmarking the previous one
+CREATE OR REPLACE FUNCTION public.set_room_cover(_image_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _room_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal del hotel puede cambiar las fotos de las habitaciones'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT room_id INTO _room_id FROM public.room_images WHERE id = _image_id;
+  IF _room_id IS NULL THEN
+    RAISE EXCEPTION 'La foto no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.room_images SET is_cover = false WHERE room_id = _room_id AND is_cover AND id <> _image_id;
+  UPDATE public.room_images SET is_cover = true WHERE id = _image_id;
+END;
+$$;
+
+-- Keeps rooms.image_url in sync with the gallery
+CREATE OR REPLACE FUNCTION public.sync_room_cover_image()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _room_id UUID := COALESCE(NEW.room_id, OLD.room_id);
+  _url TEXT;
+BEGIN
+  SELECT i.url INTO _url
+  FROM public.room_images i
+  WHERE i.room_id = _room_id
+  ORDER BY i.is_cover DESC, i.position, i.created_at
+  LIMIT 1;
+
+  UPDATE public.rooms
+  SET image_url = _url
+  WHERE id = _room_id AND image_url IS DISTINCT FROM _url;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_room_cover_image
+  AFTER INSERT OR UPDATE OR DELETE ON public.room_images
+  FOR EACH ROW EXECUTE FUNCTION public.sync_room_cover_image();
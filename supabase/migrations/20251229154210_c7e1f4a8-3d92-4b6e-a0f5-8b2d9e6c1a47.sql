@@ -0,0 +1,90 @@
+-- Room type catalog
+-- Room types used to be hardcoded strings ('suite', 'doble', 'sencilla')
+-- in several screens. They now live in room_types and rooms.type references
+-- the type code, so pricing and cancellation rules keyed by type keep working.
+CREATE TABLE public.room_types (
+  -- Stable identifier stored in rooms.type; not editable once created
+  code TEXT PRIMARY KEY CHECK (code ~ '^[a-z0-9_-]+$'),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  -- Defaults proposed when creating a room of this type
+  base_capacity INTEGER NOT NULL DEFAULT 2 CHECK (base_capacity > 0),
+  base_price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (base_price >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.room_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view room types"
+  ON public.room_types FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage room types"
+  ON public.room_types FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_room_types_updated_at
+  BEFORE UPDATE ON public.room_types
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Types typed by hand ('Suite', 'doble ') become valid codes
+UPDATE public.rooms
+SET type = btrim(regexp_replace(lower(btrim(type)), '[^a-z0-9_-]+', '_', 'g'), '_')
+WHERE type !~ '^[a-z0-9_-]+$';
+
+-- Seed the types the screens used to hardcode, plus any other type already
+-- stored in rooms, taking capacity and price from the existing rooms
+INSERT INTO public.room_types (code, name, base_capacity, base_price, position)
+SELECT
+  t.code,
+  t.name,
+  COALESCE((SELECT max(r.capacity) FROM public.rooms r WHERE r.type = t.code), 2),
+  COALESCE((SELECT min(r.price) FROM public.rooms r WHERE r.type = t.code), 0),
+  t.position
+FROM (
+  VALUES ('suite', 'Suite', 1), ('doble', 'Doble', 2), ('sencilla', 'Sencilla', 3)
+) AS t(code, name, position)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.room_types (code, name, base_capacity, base_price, position)
+SELECT r.type, initcap(r.type), max(r.capacity), min(r.price), 100
+FROM public.rooms r
+GROUP BY r.type
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.rooms
+  ADD CONSTRAINT rooms_type_fkey FOREIGN KEY (type)
+  REFERENCES public.room_types(code) ON UPDATE CASCADE;
+
+-- Rate overrides for a type that no longer exists are meaningless
+DELETE FROM public.rate_plan_room_types o
+WHERE NOT EXISTS (SELECT 1 FROM public.room_types t WHERE t.code = o.room_type);
+
+ALTER TABLE public.rate_plan_room_types
+  ADD CONSTRAINT rate_plan_room_types_room_type_fkey FOREIGN KEY (room_type)
+  REFERENCES public.room_types(code) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- cancellation_policies.room_types is an array and cannot hold a foreign
+-- key: drop a deleted type from it instead
+CREATE OR REPLACE FUNCTION public.remove_deleted_room_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.cancellation_policies
+  SET room_types = array_remove(room_types, OLD.code)
+  WHERE OLD.code = ANY (room_types);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER remove_deleted_room_type
+  AFTER DELETE ON public.room_types
+  FOR EACH ROW EXECUTE FUNCTION public.remove_deleted_room_type();
@@ -0,0 +1,120 @@
+-- Amenities catalog
+-- rooms.features was free text, so 'WiFi', 'Wifi' and 'wi-fi' coexisted.
+-- Amenities now live in a catalog with a category and a lucide icon key, and
+-- rooms link to them through room_amenities.
+CREATE TABLE public.amenities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('connectivity', 'comfort', 'bathroom', 'food', 'views', 'accessibility', 'other')),
+  -- Key of the lucide icon shown next to the name (see src/lib/amenities.ts)
+  icon TEXT NOT NULL DEFAULT 'check',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- 'WiFi' and 'wifi' are the same amenity
+CREATE UNIQUE INDEX amenities_name_key ON public.amenities (lower(btrim(name)));
+
+ALTER TABLE public.amenities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view amenities"
+  ON public.amenities FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage amenities"
+  ON public.amenities FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_amenities_updated_at
+  BEFORE UPDATE ON public.amenities
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TABLE public.room_amenities (
+  room_id UUID REFERENCES public.rooms(id) ON DELETE CASCADE NOT NULL,
+  amenity_id UUID REFERENCES public.amenities(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (room_id, amenity_id)
+);
+
+CREATE INDEX room_amenities_amenity_id_idx ON public.room_amenities (amenity_id);
+
+ALTER TABLE public.room_amenities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view room amenities"
+  ON public.room_amenities FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage room amenities"
+  ON public.room_amenities FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Move the free-text features into the catalog. Spellings that only differ
+-- in case, spaces or punctuation collapse into one amenity named after the
+-- most used spelling.
+CREATE TEMP TABLE feature_spellings AS
+SELECT
+  r.id AS room_id,
+  btrim(f.feature) AS spelling,
+  regexp_replace(lower(f.feature), '[^a-z0-9áéíóúñü]+', '', 'g') AS feature_key
+FROM public.rooms r
+CROSS JOIN LATERAL unnest(r.features) AS f(feature)
+WHERE btrim(f.feature) <> '';
+
+INSERT INTO public.amenities (name)
+SELECT DISTINCT ON (feature_key) spelling
+FROM (
+  SELECT feature_key, spelling, count(*) AS uses
+  FROM feature_spellings
+  GROUP BY feature_key, spelling
+) s
+WHERE feature_key <> ''
+ORDER BY feature_key, uses DESC, spelling
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.room_amenities (room_id, amenity_id)
+SELECT DISTINCT fs.room_id, a.id
+FROM feature_spellings fs
+JOIN public.amenities a
+  ON regexp_replace(lower(a.name), '[^a-z0-9áéíóúñü]+', '', 'g') = fs.feature_key
+ON CONFLICT DO NOTHING;
+
+-- Icons and categories for the usual names; the rest keep the defaults
+UPDATE public.amenities a
+SET icon = m.icon, category = m.category
+FROM (
+  VALUES
+    ('wifi', 'wifi', 'connectivity'),
+    ('tv', 'tv', 'connectivity'),
+    ('television', 'tv', 'connectivity'),
+    ('televisión', 'tv', 'connectivity'),
+    ('minibar', 'wine', 'food'),
+    ('cafetera', 'coffee', 'food'),
+    ('desayuno', 'utensils', 'food'),
+    ('aireacondicionado', 'air-vent', 'comfort'),
+    ('calefacción', 'heater', 'comfort'),
+    ('cajafuerte', 'lock', 'comfort'),
+    ('escritorio', 'briefcase', 'comfort'),
+    ('jacuzzi', 'bath', 'bathroom'),
+    ('bañera', 'bath', 'bathroom'),
+    ('ducha', 'shower', 'bathroom'),
+    ('secador', 'wind', 'bathroom'),
+    ('balcón', 'sun', 'views'),
+    ('terraza', 'sun', 'views'),
+    ('vistaalmar', 'waves', 'views'),
+    ('vistaalamontaña', 'mountain', 'views'),
+    ('accesible', 'accessibility', 'accessibility'),
+    ('parqueadero', 'car', 'other'),
+    ('mascotas', 'paw', 'other')
+) AS m(feature_key, icon, category)
+WHERE regexp_replace(lower(a.name), '[^a-z0-9áéíóúñü]+', '', 'g') = m.feature_key;
+
+DROP TABLE feature_spellings;
+
+ALTER TABLE public.rooms DROP COLUMN features;
@@ -0,0 +1,96 @@
+-- Cancellation refund from what was paid
+-- The refund was the total minus the penalty, so an unpaid reservation
+-- "refunded" its whole price. It is now what the guest paid minus the
+-- penalty, never below zero: the amount the hotel owes back. The penalty is
+-- capped by the total as stored (OLD), not by whatever the cancelling update
+-- carries.
+CREATE OR REPLACE FUNCTION public.record_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+BEGIN
+  -- The policy snapshot and cancellation figures are not editable by clients
+  IF _caller IS NOT NULL AND NOT _is_admin THEN
+    NEW.cancellation_policy := OLD.cancellation_policy;
+    NEW.cancelled_at := OLD.cancelled_at;
+    NEW.cancelled_by := OLD.cancelled_by;
+    NEW.cancellation_penalty := OLD.cancellation_penalty;
+    NEW.cancellation_refund := OLD.cancellation_refund;
+  END IF;
+
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _caller IS NOT NULL AND NOT _is_admin AND CURRENT_DATE >= OLD.check_in THEN
+    RAISE EXCEPTION 'No se puede cancelar una reserva que ya ha iniciado'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _is_admin OR NEW.cancellation_penalty IS NULL THEN
+    NEW.cancellation_penalty := public.cancellation_penalty(OLD, now());
+  END IF;
+
+  NEW.cancellation_penalty := LEAST(GREATEST(NEW.cancellation_penalty, 0), OLD.total_price);
+  NEW.cancellation_refund := GREATEST(public.reservation_amount_paid(NEW.id) - NEW.cancellation_penalty, 0);
+  NEW.cancelled_at := now();
+  NEW.cancelled_by := _caller;
+  RETURN NEW;
+END;
+$$;
+
+-- What cancelling now would cost, for the confirmation dialog
+CREATE OR REPLACE FUNCTION public.quote_cancellation(_reservation_id UUID)
+RETURNS TABLE (penalty NUMERIC, refund NUMERIC, free_until TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reservation public.reservations;
+BEGIN
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  penalty := public.cancellation_penalty(_reservation, now());
+  refund := GREATEST(public.reservation_amount_paid(_reservation.id) - penalty, 0);
+  free_until := CASE
+    WHEN _reservation.cancellation_policy IS NULL THEN public.reservation_arrival(_reservation.check_in)
+    WHEN (_reservation.cancellation_policy->>'non_refundable')::BOOLEAN THEN NULL
+    ELSE public.reservation_arrival(_reservation.check_in)
+         - make_interval(hours => (_reservation.cancellation_policy->>'free_until_hours')::INTEGER)
+  END;
+  RETURN NEXT;
+END;
+$$;
+
+-- Reservations already cancelled: what was paid when they were cancelled,
+-- i.e. counting refunds issued since then as still paid
+UPDATE public.reservations res
+SET cancellation_refund = GREATEST(
+  public.reservation_amount_paid(res.id)
+    + COALESCE((
+        SELECT sum(pr.amount)
+        FROM public.payment_refunds pr
+        JOIN public.payments p ON p.id = pr.payment_id
+        WHERE p.reservation_id = res.id
+          AND pr.created_at >= res.cancelled_at
+      ), 0)
+    - COALESCE(res.cancellation_penalty, 0),
+  0
+)
+WHERE res.status = 'cancelled'
+  AND res.cancellation_refund IS NOT NULL;
@@ -0,0 +1,68 @@
+-- Card charges checked and recorded under a lock
+-- The payments function read the balance and inserted the payment in two
+-- steps, so two charges sent at once could both pass the check. The pending
+-- row is now created here with the reservation locked, like
+-- record_manual_payment. Pending attempts count against the balance while the
+-- gateway answers; one left pending by a crash stops counting after 10 minutes.
+CREATE OR REPLACE FUNCTION public.start_card_payment(
+  _reservation_id UUID,
+  _provider TEXT,
+  _kind TEXT,
+  _amount NUMERIC,
+  _created_by UUID
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reservation public.reservations;
+  _in_flight NUMERIC;
+  _payment public.payments;
+BEGIN
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status NOT IN ('pending', 'confirmed', 'checked_in') THEN
+    RAISE EXCEPTION 'La reserva no admite pagos en su estado actual'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'El importe debe ser mayor que cero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO _in_flight
+  FROM public.payments
+  WHERE reservation_id = _reservation.id
+    AND status = 'pending'
+    AND created_at > now() - INTERVAL '10 minutes';
+
+  IF _amount > public.reservation_balance(_reservation.id) - _in_flight THEN
+    RAISE EXCEPTION 'El importe supera el saldo pendiente de la reserva'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payments (reservation_id, provider, kind, amount, created_by)
+  VALUES (
+    _reservation.id, _provider,
+    CASE WHEN _kind IN ('deposit', 'balance', 'full') THEN _kind ELSE 'full' END,
+    round(_amount, 2), _created_by
+  )
+  RETURNING * INTO _payment;
+
+  RETURN _payment;
+END;
+$$;
+
+-- Called only by the payments function with the service role
+REVOKE EXECUTE ON FUNCTION public.start_card_payment(UUID, TEXT, TEXT, NUMERIC, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,91 @@
+-- Holds skip rooms out of order
+-- hold_rooms only looked at rooms.status, so a guest could hold a room taken
+-- out of order by a maintenance ticket and only fail at create_reservation.
+-- get_available_rooms already leaves those rooms out.
+CREATE OR REPLACE FUNCTION public.hold_rooms(_room_ids UUID[], _check_in DATE, _check_out DATE)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _stay DATERANGE;
+  _rooms UUID[];
+  _found INTEGER;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para realizar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  _stay := daterange(_check_in, _check_out, '[)');
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Same lock as create_reservation: holds and bookings of a room are serialized
+  SELECT count(*) INTO _found
+  FROM (
+    SELECT 1
+    FROM public.rooms
+    WHERE id = ANY (_rooms)
+      AND status <> 'maintenance'
+    FOR UPDATE
+  ) locked;
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_rooms) AS t(room)
+    WHERE public.is_room_out_of_order(t.room, _stay)
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones está fuera de servicio por mantenimiento en esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_rooms) AS t(room)
+    WHERE public.is_room_held(t.room, _stay, _caller)
+       OR EXISTS (
+         SELECT 1 FROM public.reservation_rooms rr
+         WHERE rr.room_id = t.room AND rr.stay && _stay
+       )
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  DELETE FROM public.room_holds
+  WHERE user_id = _caller
+    AND (expires_at <= now() OR NOT (room_id = ANY (_rooms)) OR stay <> _stay);
+
+  INSERT INTO public.room_holds (user_id, room_id, stay)
+  SELECT _caller, t.room, _stay
+  FROM unnest(_rooms) AS t(room)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.room_holds h
+    WHERE h.user_id = _caller AND h.room_id = t.room AND h.stay = _stay
+  );
+
+  SELECT min(expires_at) INTO _expires_at
+  FROM public.room_holds
+  WHERE user_id = _caller;
+
+  RETURN _expires_at;
+END;
+$$;
@@ -0,0 +1,173 @@
+-- Tax exemptions from the verified document
+-- The exemption came from the document type the guest typed when booking,
+-- so anyone could claim a passport and skip IVA. The booking keeps that
+-- claim as a provisional price; at check-in staff confirm the type on the
+-- document presented and, when it differs, the tax lines and the total are
+-- recalculated with it.
+
+-- Line items policies scoped to signed-in users like every other policy
+DROP POLICY IF EXISTS "Users can view own reservation line items" ON public.reservation_line_items;
+DROP POLICY IF EXISTS "Admins can view all reservation line items" ON public.reservation_line_items;
+
+CREATE POLICY "Users can view own reservation line items"
+  ON public.reservation_line_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.reservations r
+      WHERE r.id = reservation_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all reservation line items"
+  ON public.reservation_line_items FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Recalculate the tax lines of a folio for a document type. Each line keeps
+-- its base and rate; the exemption comes from the tax rule of the same name
+-- (a rule that no longer exists exempts nobody).
+CREATE OR REPLACE FUNCTION public.reprice_reservation_taxes(_reservation_id UUID, _document_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.reservation_line_items li
+  SET exempt = COALESCE((
+    SELECT _document_type = ANY (t.exempt_document_types)
+    FROM public.tax_rules t
+    WHERE t.name = li.description
+    ORDER BY t.active DESC
+    LIMIT 1
+  ), false)
+  WHERE li.reservation_id = _reservation_id
+    AND li.kind = 'tax';
+
+  UPDATE public.reservation_line_items
+  SET amount = CASE WHEN exempt THEN 0 ELSE round(unit_price * rate / 100, 2) END
+  WHERE reservation_id = _reservation_id
+    AND kind = 'tax';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reprice_reservation_taxes(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Check-in now also takes the document type presented. Without it the
+-- booked type is taken as verified.
+DROP FUNCTION public.check_in_reservation(UUID, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.check_in_reservation(
+  _reservation_id UUID,
+  _document_id TEXT,
+  _keys JSONB,
+  _document_type TEXT DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+  _claimed TEXT;
+  _verified TEXT;
+  _total NUMERIC(10,2);
+BEGIN
+  IF NOT public.has_role(_caller, 'admin') THEN
+    RAISE EXCEPTION 'Solo el personal puede registrar llegadas'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Solo se puede hacer check-in de reservas confirmadas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF CURRENT_DATE < _reservation.check_in OR CURRENT_DATE >= _reservation.check_out THEN
+    RAISE EXCEPTION 'La reserva no tiene llegada prevista para hoy'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF public.normalize_document_id(_document_id) = ''
+     OR public.normalize_document_id(_document_id)
+        <> public.normalize_document_id(_reservation.guest_data->>'documentId') THEN
+    RAISE EXCEPTION 'El documento presentado no coincide con el de la reserva'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_reservation.room_ids) AS t(room)
+    WHERE COALESCE(btrim(_keys->>t.room::TEXT), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Asigne una llave a cada habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Reservations made before document types default to a cédula
+  _claimed := COALESCE(_reservation.guest_data->>'documentType', 'cc');
+  _verified := COALESCE(_document_type, _claimed);
+
+  IF _verified NOT IN ('cc', 'ce', 'passport') THEN
+    RAISE EXCEPTION 'Tipo de documento no válido'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _verified <> _claimed THEN
+    PERFORM public.reprice_reservation_taxes(_reservation.id, _verified);
+
+    SELECT COALESCE(sum(amount), 0) INTO _total
+    FROM public.reservation_line_items
+    WHERE reservation_id = _reservation.id;
+
+    IF _total <> _reservation.total_price AND EXISTS (
+      SELECT 1
+      FROM public.invoices
+      WHERE reservation_id = _reservation.id
+        AND kind = 'invoice'
+        AND public.invoice_open_amount(id) > 0
+    ) THEN
+      RAISE EXCEPTION 'La reserva ya está facturada con otros impuestos. Emita una nota crédito antes del check-in'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.reservations
+    SET guest_data = guest_data || jsonb_build_object('documentType', _verified),
+        total_price = _total
+    WHERE id = _reservation.id;
+  END IF;
+
+  INSERT INTO public.reservation_keys (reservation_id, room_id, key_code, issued_by)
+  SELECT _reservation.id, t.room, btrim(_keys->>t.room::TEXT), _caller
+  FROM unnest(_reservation.room_ids) AS t(room)
+  ON CONFLICT (reservation_id, room_id) DO UPDATE
+    SET key_code = EXCLUDED.key_code,
+        issued_at = now(),
+        issued_by = EXCLUDED.issued_by,
+        returned_at = NULL;
+
+  UPDATE public.reservations
+  SET status = 'checked_in',
+      checked_in_at = now(),
+      checked_in_by = _caller
+  WHERE id = _reservation.id
+  RETURNING * INTO _reservation;
+
+  RETURN _reservation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_reservation(UUID, TEXT, JSONB, TEXT) TO authenticated;
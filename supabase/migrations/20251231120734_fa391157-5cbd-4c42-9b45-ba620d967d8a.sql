@@ -0,0 +1,283 @@
+-- Repeated reservation modifications
+-- Each change rebuilt the folio from price_reservation plus its own change
+-- fee, so a second change dropped the fee charged by the first from both the
+-- folio and total_price. Earlier fees are now kept: they are added to the new
+-- total and their folio lines are rebuilt from reservation_changes (the
+-- 'fee' kind alone does not tell them apart from price_reservation's fees).
+-- The change fee is worked out on the stay without earlier fees.
+--
+-- A change that lowers the total below what the guest already paid leaves
+-- money owed back. The quote returns it and reservation_changes records it in
+-- refund_due; staff refund it from the folio payments, as with cancellations.
+ALTER TABLE public.reservation_changes
+  ADD COLUMN refund_due NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (refund_due >= 0);
+
+-- The result gains a column, so the function has to be dropped first
+DROP FUNCTION public.quote_reservation_change(UUID, UUID[], DATE, DATE, INTEGER);
+
+CREATE FUNCTION public.quote_reservation_change(
+  _reservation_id UUID,
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER
+)
+RETURNS TABLE (
+  current_total NUMERIC,
+  new_total NUMERIC,
+  change_fee NUMERIC,
+  difference NUMERIC,
+  refund_due NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _reservation public.reservations;
+  _rooms UUID[];
+  _stay DATERANGE;
+  _found INTEGER;
+  _capacity INTEGER;
+  _min_nights INTEGER;
+  _min_nights_plan TEXT;
+  _earlier_fees NUMERIC;
+BEGIN
+  SELECT * INTO _reservation
+  FROM public.reservations
+  WHERE id = _reservation_id
+    AND (user_id = _caller OR public.has_role(_caller, 'admin'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _reservation.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Solo se pueden modificar reservas pendientes o confirmadas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.has_role(_caller, 'admin') AND CURRENT_DATE >= _reservation.check_in THEN
+    RAISE EXCEPTION 'No se puede modificar una reserva que ya ha iniciado'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF (_reservation.cancellation_policy->>'non_refundable')::BOOLEAN THEN
+    RAISE EXCEPTION 'Las reservas no reembolsables no admiten cambios'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _check_in IS NULL OR _check_out IS NULL OR _check_out <= _check_in THEN
+    RAISE EXCEPTION 'La fecha de salida debe ser posterior a la fecha de entrada'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _check_in < CURRENT_DATE THEN
+    RAISE EXCEPTION 'No se puede reservar en fechas pasadas'
+      USING ERRCODE = '22007';
+  END IF;
+
+  IF _guests IS NULL OR _guests < 1 THEN
+    RAISE EXCEPTION 'Debe indicar al menos un huésped'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  IF cardinality(_rooms) = 0 THEN
+    RAISE EXCEPTION 'Debe seleccionar al menos una habitación'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _rooms @> _reservation.room_ids AND _rooms <@ _reservation.room_ids
+     AND _check_in = _reservation.check_in
+     AND _check_out = _reservation.check_out
+     AND _guests = _reservation.guests THEN
+    RAISE EXCEPTION 'No hay cambios que aplicar'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT count(*), COALESCE(sum(capacity), 0)
+  INTO _found, _capacity
+  FROM public.rooms
+  WHERE id = ANY (_rooms)
+    AND status <> 'maintenance';
+
+  IF _found <> cardinality(_rooms) THEN
+    RAISE EXCEPTION 'Una de las habitaciones no existe o está fuera de servicio'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  IF _guests > _capacity THEN
+    RAISE EXCEPTION 'Las habitaciones seleccionadas tienen capacidad para % personas máximo', _capacity
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- The reservation's own nights do not count as occupied
+  _stay := daterange(_check_in, _check_out, '[)');
+  IF EXISTS (
+    SELECT 1
+    FROM public.reservation_rooms rr
+    WHERE rr.room_id = ANY (_rooms)
+      AND rr.stay && _stay
+      AND rr.reservation_id <> _reservation.id
+  ) OR EXISTS (
+    SELECT 1
+    FROM unnest(_rooms) AS t(room)
+    WHERE public.is_room_held(t.room, _stay, _caller)
+  ) THEN
+    RAISE EXCEPTION 'Una de las habitaciones ya no está disponible para esas fechas'
+      USING ERRCODE = '23P01';
+  END IF;
+
+  SELECT q.min_nights, q.rate_plan_name
+  INTO _min_nights, _min_nights_plan
+  FROM public.quote_stay(_rooms, _check_in, _check_out) q
+  ORDER BY q.min_nights DESC
+  LIMIT 1;
+
+  IF _min_nights > _check_out - _check_in THEN
+    RAISE EXCEPTION 'La tarifa "%" exige una estadía mínima de % noches', _min_nights_plan, _min_nights
+      USING ERRCODE = '22023';
+  END IF;
+
+  current_total := _reservation.total_price;
+
+  -- Fees charged by earlier changes stay on the folio; the new fee is worked
+  -- out on the stay alone, not on a total that already includes them
+  SELECT COALESCE(sum(rc.change_fee), 0)
+  INTO _earlier_fees
+  FROM public.reservation_changes rc
+  WHERE rc.reservation_id = _reservation.id;
+
+  _reservation.total_price := _reservation.total_price - _earlier_fees;
+  change_fee := public.cancellation_penalty(_reservation, now());
+
+  SELECT COALESCE(sum(p.amount), 0) + _earlier_fees + change_fee
+  INTO new_total
+  FROM public.price_reservation(_rooms, _check_in, _check_out, _guests, _reservation.guest_data->>'documentType') p;
+
+  difference := new_total - current_total;
+
+  -- Money already paid that the new total no longer covers
+  refund_due := GREATEST(
+    LEAST(public.reservation_amount_paid(_reservation.id), current_total) - new_total,
+    0
+  );
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_reservation_change(UUID, UUID[], DATE, DATE, INTEGER) TO authenticated;
+
+-- Apply a change: the new folio keeps every change fee charged so far
+CREATE OR REPLACE FUNCTION public.modify_reservation(
+  _reservation_id UUID,
+  _room_ids UUID[],
+  _check_in DATE,
+  _check_out DATE,
+  _guests INTEGER
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller UUID := auth.uid();
+  _previous public.reservations;
+  _reservation public.reservations;
+  _rooms UUID[];
+  _quote RECORD;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Debe iniciar sesión para modificar una reserva'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _previous
+  FROM public.reservations
+  WHERE id = _reservation_id
+    AND (user_id = _caller OR public.has_role(_caller, 'admin'))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'La reserva no existe'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT ARRAY(SELECT DISTINCT unnest(_room_ids)) INTO _rooms;
+
+  -- Same lock as create_reservation and hold_rooms
+  PERFORM 1
+  FROM public.rooms
+  WHERE id = ANY (_rooms)
+  FOR UPDATE;
+
+  SELECT * INTO _quote
+  FROM public.quote_reservation_change(_reservation_id, _rooms, _check_in, _check_out, _guests);
+
+  -- sync_reservation_rooms rewrites the occupied ranges
+  UPDATE public.reservations
+  SET room_ids = _rooms,
+      check_in = _check_in,
+      check_out = _check_out,
+      guests = _guests,
+      total_price = _quote.new_total
+  WHERE id = _previous.id
+  RETURNING * INTO _reservation;
+
+  INSERT INTO public.reservation_changes (
+    reservation_id, changed_by,
+    previous_room_ids, room_ids,
+    previous_check_in, check_in,
+    previous_check_out, check_out,
+    previous_guests, guests,
+    previous_total, total_price,
+    change_fee, refund_due
+  )
+  VALUES (
+    _reservation.id, _caller,
+    _previous.room_ids, _reservation.room_ids,
+    _previous.check_in, _reservation.check_in,
+    _previous.check_out, _reservation.check_out,
+    _previous.guests, _reservation.guests,
+    _previous.total_price, _reservation.total_price,
+    _quote.change_fee, _quote.refund_due
+  );
+
+  DELETE FROM public.reservation_line_items
+  WHERE reservation_id = _reservation.id;
+
+  INSERT INTO public.reservation_line_items (
+    reservation_id, sort_order, kind, description, room_id, quantity, unit_price, rate, exempt, amount
+  )
+  SELECT _reservation.id, p.sort_order, p.kind, p.description, p.room_id,
+         p.quantity, p.unit_price, p.rate, p.exempt, p.amount
+  FROM public.price_reservation(_rooms, _check_in, _check_out, _guests, _reservation.guest_data->>'documentType') p;
+
+  -- One fee line per change that charged one, this one included, so the
+  -- folio adds up to total_price
+  INSERT INTO public.reservation_line_items (
+    reservation_id, sort_order, kind, description, quantity, unit_price, amount
+  )
+  SELECT _reservation.id,
+         (SELECT COALESCE(max(li.sort_order), 0)
+          FROM public.reservation_line_items li
+          WHERE li.reservation_id = _reservation.id)
+           + row_number() OVER (ORDER BY rc.changed_at, rc.id),
+         'fee', 'Cargo por modificación', 1, rc.change_fee, rc.change_fee
+  FROM public.reservation_changes rc
+  WHERE rc.reservation_id = _reservation.id
+    AND rc.change_fee > 0;
+
+  DELETE FROM public.room_holds
+  WHERE user_id = _caller
+    AND room_id = ANY (_rooms);
+
+  RETURN _reservation;
+END;
+$$;